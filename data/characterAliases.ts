@@ -18,35 +18,13 @@ interface RawCharacterAliasRow {
 }
 
 const isDevelopment = process.env.NODE_ENV === 'development'
-let cachedHasCharacterAliasesTable: boolean | null = null
 let cachedCharacterAliases: CharacterAliasRow[] | null = null
 
-function hasCharacterAliasesTable(): boolean {
-  if (!isDevelopment && cachedHasCharacterAliasesTable !== null) {
-    return cachedHasCharacterAliasesTable
-  }
-
-  const rows = queryAll<{ name?: string }>(
-    'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = ? LIMIT 1',
-    ['character_aliases'],
-  )
-  const exists = rows[0]?.name === 'character_aliases'
-
-  if (!isDevelopment) {
-    cachedHasCharacterAliasesTable = exists
-  }
-
-  return exists
-}
-
 export function getCharacterAliases(): CharacterAliasRow[] {
   if (!isDevelopment && cachedCharacterAliases) {
     return cachedCharacterAliases
   }
 
-  if (!hasCharacterAliasesTable())
-    return []
-
   const rows = queryAll<RawCharacterAliasRow>(
     `
       SELECT
@@ -12,12 +12,8 @@ describe('commissionRecords', () => {
     vi.resetModules()
   })
 
-  it('caches schema probing across repeated development reads', async () => {
+  it('reads the keyword column directly without probing the schema', async () => {
     const queryAll = vi.fn((sql: string) => {
-      if (sql.startsWith('PRAGMA table_info(commissions)')) {
-        return [{ name: 'keyword' }]
-      }
-
       if (sql.includes('FROM characters')) {
         return [
           {
@@ -45,12 +41,10 @@ describe('commissionRecords', () => {
     const { getCharacterRecords } = await import('./commissionRecords')
 
     expect(getCharacterRecords()).toHaveLength(1)
-    expect(getCharacterRecords()).toHaveLength(1)
+    expect(getCharacterRecords()[0]?.commissions[0]?.Keyword).toBe('maid')
     expect(
-      queryAll.mock.calls.filter(([sql]) =>
-        String(sql).startsWith('PRAGMA table_info(commissions)'),
-      ),
-    ).toHaveLength(1)
+      queryAll.mock.calls.filter(([sql]) => String(sql).startsWith('PRAGMA')),
+    ).toHaveLength(0)
     expect(
       queryAll.mock.calls.filter(([sql]) => String(sql).includes('FROM characters')),
     ).toHaveLength(3)
@@ -10,6 +10,10 @@ interface CharacterRow {
   status: CharacterStatus
   sort_order: number
   file_name?: string | null
+  commission_date?: string | null
+  creator_id?: number | null
+  creator_name?: string | null
+  part_index?: number | null
   links?: string | null
   design?: string | null
   description?: string | null
@@ -26,7 +30,6 @@ export interface CharacterRecord {
 }
 
 const isDevelopment = process.env.NODE_ENV === 'development'
-let commissionKeywordColumnSupport: boolean | null = null
 
 // 将数据库中的 JSON 字符串解析为链接数组，确保异常时返回空数组
 function parseLinks(raw?: string | null): string[] {
@@ -42,14 +45,6 @@ function parseLinks(raw?: string | null): string[] {
   }
 }
 
-function hasCommissionKeywordColumn(): boolean {
-  if (commissionKeywordColumnSupport !== null)
-    return commissionKeywordColumnSupport
-  const columns = queryAll<{ name: string }>('PRAGMA table_info(commissions)')
-  commissionKeywordColumnSupport = columns.some(column => column.name === 'keyword')
-  return commissionKeywordColumnSupport
-}
-
 // 将数据库行转换为具备排序信息的角色记录列表
 function buildCharacterRecords(rows: CharacterRow[]): CharacterRecord[] {
   const characters = new Map<number, CharacterRecord>()
@@ -71,6 +66,10 @@ function buildCharacterRecords(rows: CharacterRow[]): CharacterRecord[] {
     const record = characters.get(row.id)!
     record.commissions.push({
       fileName: row.file_name,
+      commissionDate: row.commission_date ?? '',
+      creatorId: row.creator_id ?? undefined,
+      creatorName: row.creator_name ?? undefined,
+      partIndex: row.part_index ?? undefined,
       Links: parseLinks(row.links),
       Design: row.design ?? undefined,
       Description: row.description ?? undefined,
@@ -84,9 +83,6 @@ function buildCharacterRecords(rows: CharacterRow[]): CharacterRecord[] {
 
 // 从 SQLite 读取角色与委托信息（开发环境实时读取，生产走缓存）
 function loadCharacterRecords(): CharacterRecord[] {
-  const hasKeywordColumn = hasCommissionKeywordColumn()
-  const keywordSelect = hasKeywordColumn ? 'commissions.keyword as keyword,' : 'NULL as keyword,'
-
   const rows = queryAll<CharacterRow>(
     `SELECT
        characters.id,
@@ -94,14 +90,22 @@ function loadCharacterRecords(): CharacterRecord[] {
        characters.status,
        characters.sort_order,
        commissions.file_name,
+       commissions.commission_date,
+       commissions.creator_id,
+       creators.name AS creator_name,
+       commissions.part_index,
        commissions.links,
        commissions.design,
        commissions.description,
-       ${keywordSelect}
+       commissions.keyword,
        commissions.hidden
      FROM characters
-     LEFT JOIN commissions ON commissions.character_id = characters.id
-     ORDER BY characters.sort_order ASC, commissions.file_name DESC`,
+     LEFT JOIN commissions
+       ON commissions.character_id = characters.id
+       AND commissions.deleted_at IS NULL
+     LEFT JOIN creators ON creators.id = commissions.creator_id
+     WHERE characters.deleted_at IS NULL
+     ORDER BY characters.sort_order ASC, commissions.commission_date DESC, commissions.file_name DESC`,
   )
 
   return buildCharacterRecords(rows)
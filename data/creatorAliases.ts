@@ -13,35 +13,13 @@ interface RawCreatorAliasRow {
 }
 
 const isDevelopment = process.env.NODE_ENV === 'development'
-let cachedHasCreatorAliasesTable: boolean | null = null
 let cachedCreatorAliases: CreatorAliasRow[] | null = null
 
-function hasCreatorAliasesTable(): boolean {
-  if (!isDevelopment && cachedHasCreatorAliasesTable !== null) {
-    return cachedHasCreatorAliasesTable
-  }
-
-  const rows = queryAll<{ name?: string }>(
-    'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = ? LIMIT 1',
-    ['creator_aliases'],
-  )
-  const exists = rows[0]?.name === 'creator_aliases'
-
-  if (!isDevelopment) {
-    cachedHasCreatorAliasesTable = exists
-  }
-
-  return exists
-}
-
 export function getCreatorAliases(): CreatorAliasRow[] {
   if (!isDevelopment && cachedCreatorAliases) {
     return cachedCreatorAliases
   }
 
-  if (!hasCreatorAliasesTable())
-    return []
-
   const rows = queryAll<RawCreatorAliasRow>(
     `
       SELECT
@@ -0,0 +1,60 @@
+import process from 'node:process'
+import { queryAll } from './sqlite'
+
+export interface CreatorProfile {
+  id: number
+  name: string
+  homepage: string | null
+  links: string[]
+  notes: string | null
+}
+
+interface RawCreatorRow {
+  id: number
+  name: string
+  homepage: string | null
+  linksJson: string
+  notes: string | null
+}
+
+const isDevelopment = process.env.NODE_ENV === 'development'
+let cachedCreatorProfiles: CreatorProfile[] | null = null
+
+function parseLinks(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? parsed.map(link => String(link)) : []
+  }
+  catch {
+    return []
+  }
+}
+
+export function getCreatorProfiles(): CreatorProfile[] {
+  if (!isDevelopment && cachedCreatorProfiles) {
+    return cachedCreatorProfiles
+  }
+
+  const result = queryAll<RawCreatorRow>(
+    `
+      SELECT
+        id,
+        name,
+        homepage,
+        links as linksJson,
+        notes
+      FROM creators
+      ORDER BY name ASC
+    `,
+  ).map(({ linksJson, ...row }) => ({ ...row, links: parseLinks(linksJson) }))
+
+  if (!isDevelopment) {
+    cachedCreatorProfiles = result
+  }
+
+  return result
+}
+
+export function getCreatorProfilesMap() {
+  return new Map(getCreatorProfiles().map(profile => [profile.name, profile] as const))
+}
@@ -4,34 +4,12 @@ import { dedupeKeywords } from '#lib/search/popularKeywords'
 
 const DEFAULT_FEATURED_LIMIT = 6
 const isDevelopment = process.env.NODE_ENV === 'development'
-let cachedHasHomeFeaturedKeywordsTable: boolean | null = null
 const cachedFeaturedKeywordsByLimit = new Map<number, string[]>()
 
-interface SQLiteTableRow {
-  name: string
-}
-
 interface FeaturedKeywordRow {
   keyword: string
 }
 
-function hasHomeFeaturedKeywordsTable(): boolean {
-  if (!isDevelopment && cachedHasHomeFeaturedKeywordsTable !== null) {
-    return cachedHasHomeFeaturedKeywordsTable
-  }
-
-  const rows = queryAll<SQLiteTableRow>(
-    'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'home_featured_search_keywords\' LIMIT 1',
-  )
-  const exists = rows.some(row => row.name === 'home_featured_search_keywords')
-
-  if (!isDevelopment) {
-    cachedHasHomeFeaturedKeywordsTable = exists
-  }
-
-  return exists
-}
-
 export function getHomeFeaturedSearchKeywords(limit = DEFAULT_FEATURED_LIMIT) {
   if (limit <= 0)
     return []
@@ -40,8 +18,6 @@ export function getHomeFeaturedSearchKeywords(limit = DEFAULT_FEATURED_LIMIT) {
     if (cached)
       return cached
   }
-  if (!hasHomeFeaturedKeywordsTable())
-    return []
 
   const rows = queryAll<FeaturedKeywordRow>(
     `
@@ -17,35 +17,13 @@ interface RawKeywordAliasRow {
 }
 
 const isDevelopment = process.env.NODE_ENV === 'development'
-let cachedHasKeywordAliasesTable: boolean | null = null
 let cachedKeywordAliases: KeywordAliasRow[] | null = null
 
-function hasKeywordAliasesTable(): boolean {
-  if (!isDevelopment && cachedHasKeywordAliasesTable !== null) {
-    return cachedHasKeywordAliasesTable
-  }
-
-  const rows = queryAll<{ name?: string }>(
-    'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = ? LIMIT 1',
-    ['keyword_aliases'],
-  )
-  const exists = rows[0]?.name === 'keyword_aliases'
-
-  if (!isDevelopment) {
-    cachedHasKeywordAliasesTable = exists
-  }
-
-  return exists
-}
-
 export function getKeywordAliases(): KeywordAliasRow[] {
   if (!isDevelopment && cachedKeywordAliases) {
     return cachedKeywordAliases
   }
 
-  if (!hasKeywordAliasesTable())
-    return []
-
   const rows = queryAll<RawKeywordAliasRow>(
     `
       SELECT
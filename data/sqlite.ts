@@ -1,6 +1,9 @@
+import type { MigrationDatabase } from '#lib/schema/migrations'
+import fs from 'node:fs'
 import { createRequire } from 'node:module'
 import path from 'node:path'
 import process from 'node:process'
+import { assertSchemaUpToDate } from '#lib/schema/migrations'
 
 const require = createRequire(import.meta.url)
 const dbPath = path.join(process.cwd(), 'data', 'commissions.db')
@@ -16,14 +19,20 @@ interface DatabaseHandle {
   close: DatabaseCloser
 }
 
+type WritableDatabaseHandle = MigrationDatabase & {
+  close: DatabaseCloser
+}
+
 interface BunSqliteModule {
   Database: new (
     file: string,
-    options?: { readonly?: boolean },
+    options?: { readonly?: boolean, readwrite?: boolean, create?: boolean },
   ) => {
     query: (sql: string) => {
       all: <TRow = unknown>(params?: QueryParams) => TRow[]
+      run: (params?: QueryParams) => unknown
     }
+    exec: (sql: string) => unknown
     close: () => void
   }
 }
@@ -31,7 +40,9 @@ interface BunSqliteModule {
 interface BetterSqlite3Database {
   prepare: (sql: string) => {
     all: <TRow = unknown>(params?: QueryParams) => TRow[]
+    run: (params?: QueryParams) => unknown
   }
+  exec: (sql: string) => unknown
   close: () => void
 }
 
@@ -42,29 +53,56 @@ type BetterSqlite3Constructor = new (
 
 let cachedDatabaseHandle: DatabaseHandle | null = null
 
-function openDatabase(): DatabaseHandle {
+function openDatabase(options: { readonly: boolean, filePath?: string, create?: boolean }): WritableDatabaseHandle {
+  const filePath = options.filePath ?? dbPath
+  const create = options.create ?? false
+
   if (process.versions.bun) {
     const { Database } = require('bun:sqlite') as BunSqliteModule
-    const db = new Database(dbPath, { readonly: true })
+    const db = new Database(
+      filePath,
+      options.readonly ? { readonly: true } : { readwrite: true, create },
+    )
     return {
       queryAll: <T = unknown>(sql: string, params: QueryParams = []) =>
         db.query(sql).all(params) as T[],
+      run: (sql: string, params: QueryParams = []) => {
+        db.query(sql).run(params)
+      },
+      exec: (sql: string) => {
+        db.exec(sql)
+      },
       close: () => db.close(),
     }
   }
 
   const BetterSqlite3 = require('better-sqlite3') as BetterSqlite3Constructor
-  const db = new BetterSqlite3(dbPath, { readonly: true, fileMustExist: true })
+  const db = new BetterSqlite3(filePath, { readonly: options.readonly, fileMustExist: !create })
   return {
     queryAll: <T = unknown>(sql: string, params: QueryParams = []) =>
       db.prepare(sql).all(params) as T[],
+    run: (sql: string, params: QueryParams = []) => {
+      db.prepare(sql).run(params)
+    },
+    exec: (sql: string) => {
+      db.exec(sql)
+    },
     close: () => db.close(),
   }
 }
 
 function getDatabaseHandle(): DatabaseHandle {
   if (!cachedDatabaseHandle) {
-    cachedDatabaseHandle = openDatabase()
+    const handle = openDatabase({ readonly: true })
+    // Fail fast instead of rendering pages from a database missing newer columns/tables.
+    try {
+      assertSchemaUpToDate(handle)
+    }
+    catch (error) {
+      handle.close()
+      throw error
+    }
+    cachedDatabaseHandle = handle
   }
 
   return cachedDatabaseHandle
@@ -73,3 +111,21 @@ function getDatabaseHandle(): DatabaseHandle {
 export function queryAll<T = unknown>(sql: string, params: QueryParams = []): T[] {
   return getDatabaseHandle().queryAll<T>(sql, params)
 }
+
+// Writable handle for schema maintenance (migration CLI); callers must close it.
+export function openWritableDatabase(): WritableDatabaseHandle {
+  if (!fs.existsSync(dbPath)) {
+    throw new Error(`SQLite database not found at ${dbPath}.`)
+  }
+
+  return openDatabase({ readonly: false })
+}
+
+// Writable handle on a brand-new database file (backup restore); callers must close it.
+export function createDatabaseFile(filePath: string): WritableDatabaseHandle {
+  if (fs.existsSync(filePath)) {
+    throw new Error(`Refusing to create ${filePath}: the file already exists.`)
+  }
+
+  return openDatabase({ readonly: false, filePath, create: true })
+}
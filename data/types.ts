@@ -1,6 +1,10 @@
 // 定义单个委托项目的接口
 export interface Commission {
   fileName: string
+  commissionDate: string // yyyyMMdd
+  creatorId?: number
+  creatorName?: string
+  partIndex?: number
   Links: string[]
   Design?: string // 修改为单个字符串
   Description?: string
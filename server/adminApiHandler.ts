@@ -1,22 +1,48 @@
-import type { CharacterStatus } from '../src/lib/admin/db'
+import type { PreparedSourceImage } from '../src/features/admin/imageUpload'
+import type { CreatorInput } from '../src/lib/admin/creators'
+import type { CharacterStatus, CommissionImportOptions } from '../src/lib/admin/db'
 import { readFile } from 'node:fs/promises'
+import path from 'node:path'
 import process from 'node:process'
+import { getCommissionFileNameValidationError } from '../src/features/admin/commissionFileName'
 import {
+  buildSourceImageHashIndex,
+  collectSourceImagesForBackup,
+  commitWithPreparedSourceImages,
+  prepareUploadedSourceImage,
+  previewUploadedSourceImage,
   removeSourceImageFile,
   replaceUploadedSourceImage,
   resolveSourceImagePathByStem,
   saveUploadedSourceImage,
+  syncSourceImagesWithTrash,
 } from '../src/features/admin/imageUpload'
+import { getAuditEntryTrashedFileNames } from '../src/lib/admin/auditLog'
+import { createBackupArchive, formatBackupFileName } from '../src/lib/admin/backup'
 import {
-
+  applyCommissionImport,
   createCharacter,
   createCommission,
+  createCreator,
   deleteCharacter,
   deleteCommission,
+  deleteCreator,
   getAdminAliasesData,
+  getAdminAuditHistory,
   getAdminBootstrapData,
   getAdminCommissionsByCharacterId,
+  getAdminCreatorsData,
+  getAdminTrashData,
+  getBackupSnapshot,
+  getCommissionTrashStates,
   getHomeSuggestionAdminData,
+  mergeCreators,
+  previewCommissionImport,
+  purgeCharacter,
+  purgeCommission,
+  restoreCharacter,
+  restoreCommission,
+  revertAdminAuditEntry,
   saveCharacterAliasesBatch,
   saveCreatorAliasesBatch,
   saveHomeFeaturedSearchKeywords,
@@ -24,9 +50,15 @@ import {
   updateCharacter,
   updateCharactersOrder,
   updateCommission,
+  updateCommissionPartsOrder,
+  updateCreator,
 } from '../src/lib/admin/db'
+import { detectImportManifestFormat, parseImportManifest } from '../src/lib/admin/importManifest'
+import { appendSearchQueryLogRecords, getSearchInsightsData } from '../src/lib/admin/searchQueryLog'
+import { readZipArchive } from '../src/lib/admin/zipArchive'
 import { runFullAssetPipeline } from '../src/lib/pipeline/assets'
 import { createAstroStyleLogger } from '../src/lib/pipeline/astroLogger'
+import { parseSearchQueryLogRecords, SEARCH_QUERY_LOG_INGEST_PATH } from '../src/lib/search/queryLog'
 
 interface ApiState {
   status: 'success' | 'error'
@@ -47,6 +79,20 @@ const DELETE_COMMISSION_PATH_PATTERN = /^\/api\/admin\/commissions\/\d+$/
 const DELETE_COMMISSION_ID_PATTERN = /^\/api\/admin\/commissions\/(\d+)$/
 const POST_COMMISSION_SOURCE_IMAGE_PATH_PATTERN = /^\/api\/admin\/commissions\/\d+\/source-image$/
 const POST_COMMISSION_SOURCE_IMAGE_ID_PATTERN = /^\/api\/admin\/commissions\/(\d+)\/source-image$/
+const CREATOR_PATH_PATTERN = /^\/api\/admin\/creators\/\d+$/
+const CREATOR_ID_PATTERN = /^\/api\/admin\/creators\/(\d+)$/
+const POST_CREATOR_MERGE_PATH_PATTERN = /^\/api\/admin\/creators\/\d+\/merge$/
+const POST_CREATOR_MERGE_ID_PATTERN = /^\/api\/admin\/creators\/(\d+)\/merge$/
+const POST_HISTORY_REVERT_PATH_PATTERN = /^\/api\/admin\/history\/\d+\/revert$/
+const POST_HISTORY_REVERT_ID_PATTERN = /^\/api\/admin\/history\/(\d+)\/revert$/
+const POST_TRASH_ACTION_PATH_PATTERN = /^\/api\/admin\/trash\/(?:characters|commissions)\/\d+\/(?:restore|purge)$/
+const POST_TRASH_ACTION_ID_PATTERN = /^\/api\/admin\/trash\/(?:characters|commissions)\/(\d+)\/(?:restore|purge)$/
+const POST_TRASH_ACTION_KIND_PATTERN = /^\/api\/admin\/trash\/(characters|commissions)\/\d+\/(restore|purge)$/
+
+const TRASH_ACTIONS = {
+  characters: { restore: restoreCharacter, purge: purgeCharacter },
+  commissions: { restore: restoreCommission, purge: purgeCommission },
+} as const
 
 function json(payload: unknown, status = 200) {
   return new Response(JSON.stringify(payload), {
@@ -65,6 +111,9 @@ function failure(message: string, status = 400) {
 interface CommissionFields {
   characterId: number
   fileName: string
+  commissionDate?: string
+  creatorName?: string
+  partIndex?: number
   links: string[]
   design?: string
   description?: string
@@ -81,9 +130,17 @@ function parseLinks(rawValue: string) {
 
 const parseOptionalField = (rawValue: string) => rawValue.trim() || undefined
 
+function parseOptionalPartIndex(rawValue: string) {
+  const value = rawValue.trim()
+  return value ? Number(value) : undefined
+}
+
 function parseCommissionFields({
   characterId,
   fileName,
+  commissionDate,
+  creatorName,
+  partIndex,
   links,
   design,
   description,
@@ -92,6 +149,9 @@ function parseCommissionFields({
 }: {
   characterId: number
   fileName: string
+  commissionDate: string
+  creatorName: string
+  partIndex: string
   links: string
   design: string
   description: string
@@ -101,6 +161,9 @@ function parseCommissionFields({
   return {
     characterId,
     fileName: fileName.trim(),
+    commissionDate: parseOptionalField(commissionDate),
+    creatorName: parseOptionalField(creatorName),
+    partIndex: parseOptionalPartIndex(partIndex),
     links: parseLinks(links),
     design: parseOptionalField(design),
     description: parseOptionalField(description),
@@ -113,6 +176,9 @@ function parseCommissionFieldsFromForm(formData: FormData) {
   return parseCommissionFields({
     characterId: Number(formData.get('characterId')),
     fileName: formData.get('fileName')?.toString() ?? '',
+    commissionDate: formData.get('commissionDate')?.toString() ?? '',
+    creatorName: formData.get('creatorName')?.toString() ?? '',
+    partIndex: formData.get('partIndex')?.toString() ?? '',
     links: formData.get('links')?.toString() ?? '',
     design: formData.get('design')?.toString() ?? '',
     description: formData.get('description')?.toString() ?? '',
@@ -125,6 +191,9 @@ function parseCommissionFieldsFromJson(payload: Record<string, unknown>) {
   return parseCommissionFields({
     characterId: Number(payload.characterId),
     fileName: String(payload.fileName ?? ''),
+    commissionDate: String(payload.commissionDate ?? ''),
+    creatorName: String(payload.creatorName ?? ''),
+    partIndex: String(payload.partIndex ?? ''),
     links: String(payload.links ?? ''),
     design: String(payload.design ?? ''),
     description: String(payload.description ?? ''),
@@ -229,6 +298,16 @@ function parseStructuredArray<T>(value: unknown, fallbackFieldValue?: unknown):
   return Array.isArray(parsed) ? (parsed as T[]) : []
 }
 
+function parseCreatorInput(payload: Record<string, unknown>): CreatorInput {
+  return {
+    name: String(payload.name ?? ''),
+    aliases: parseStructuredArray<string>(payload.aliases).map(String),
+    homepage: String(payload.homepage ?? ''),
+    links: parseStructuredArray<string>(payload.links).map(String),
+    notes: String(payload.notes ?? ''),
+  }
+}
+
 function parseCharacterStatus(value: unknown): CharacterStatus {
   return String(value) === 'stale' ? 'stale' : 'active'
 }
@@ -237,6 +316,109 @@ function handleWriteError(error: unknown, fallback: string) {
   return failure(error instanceof Error ? error.message : fallback)
 }
 
+const IMPORT_IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+}
+
+/** Collect uploaded images keyed by file name stem, unpacking any zip archives. */
+async function collectImportImages(formData: FormData): Promise<Map<string, File>> {
+  const images = new Map<string, File>()
+  const addImage = (file: File) => {
+    const ext = path.extname(file.name).toLowerCase()
+    if (!IMPORT_IMAGE_MIME_TYPES[ext])
+      return
+    const stem = path.basename(file.name, path.extname(file.name)).trim()
+    if (images.has(stem))
+      throw new Error(`Image "${stem}" was uploaded more than once.`)
+    images.set(stem, file)
+  }
+
+  for (const entry of formData.getAll('images')) {
+    if (!(entry instanceof File) || entry.size <= 0)
+      continue
+
+    if (path.extname(entry.name).toLowerCase() !== '.zip') {
+      addImage(entry)
+      continue
+    }
+
+    const archiveEntries = readZipArchive(new Uint8Array(await entry.arrayBuffer()))
+    archiveEntries
+      .filter(archiveEntry => !archiveEntry.name.startsWith('__MACOSX/'))
+      .forEach((archiveEntry) => {
+        const name = path.posix.basename(archiveEntry.name)
+        const type = IMPORT_IMAGE_MIME_TYPES[path.extname(name).toLowerCase()] ?? ''
+        addImage(new File([archiveEntry.data], name, { type }))
+      })
+  }
+
+  return images
+}
+
+async function readImportManifest(formData: FormData) {
+  const manifestFile = formData.get('manifest')
+  if (manifestFile instanceof File && manifestFile.size > 0) {
+    const content = await manifestFile.text()
+    return parseImportManifest(content, detectImportManifestFormat(manifestFile.name, content))
+  }
+
+  const content = formData.get('manifestText')?.toString() ?? ''
+  if (!content.trim())
+    return { rows: [], errors: ['Manifest is required.'] }
+  return parseImportManifest(content, detectImportManifestFormat('', content))
+}
+
+/**
+ * Process and duplicate-check every uploaded image that a manifest row refers to,
+ * so problems surface as invalid rows before anything is written.
+ */
+async function prepareImportImages(fileNames: string[], images: Map<string, File>) {
+  const prepared = new Map<string, PreparedSourceImage>()
+  const errors = new Map<string, string>()
+  const hashIndex = await buildSourceImageHashIndex()
+  for (const fileName of new Set(fileNames)) {
+    const file = images.get(fileName)
+    if (!file || getCommissionFileNameValidationError(fileName))
+      continue
+    try {
+      prepared.set(fileName, await prepareUploadedSourceImage({ commissionFileName: fileName, file }, hashIndex))
+    }
+    catch (error) {
+      errors.set(fileName, error instanceof Error ? error.message : String(error))
+    }
+  }
+  return { prepared, errors }
+}
+
+async function buildImportOptions(
+  fileNames: string[],
+  images: Map<string, File>,
+  imageErrors: ReadonlyMap<string, string>,
+): Promise<CommissionImportOptions> {
+  const existingImages = new Set<string>()
+  for (const fileName of new Set(fileNames)) {
+    if (getCommissionFileNameValidationError(fileName))
+      continue
+    if (await resolveSourceImagePathByStem(fileName))
+      existingImages.add(fileName)
+  }
+
+  return {
+    uploadedImages: new Set(images.keys()),
+    existingImages,
+    imageErrors,
+    validateFileName: getCommissionFileNameValidationError,
+  }
+}
+
+async function syncTrashedSourceImages(fileNames: string[]) {
+  if (fileNames.length === 0)
+    return
+  await syncSourceImagesWithTrash(getCommissionTrashStates(fileNames))
+}
+
 function parseIdFromPath(pathname: string, pattern: RegExp): number | null {
   const match = pathname.match(pattern)
   if (!match)
@@ -301,6 +483,47 @@ export async function handleAdminApiRequest(request: Request) {
     return json(getHomeSuggestionAdminData())
   }
 
+  if (request.method === 'GET' && pathname === '/api/admin/history') {
+    const limit = Number(url.searchParams.get('limit'))
+    return json({
+      entries: getAdminAuditHistory(Number.isInteger(limit) && limit > 0 ? limit : undefined),
+    })
+  }
+
+  if (request.method === 'GET' && pathname === '/api/admin/creators') {
+    return json(getAdminCreatorsData())
+  }
+
+  if (request.method === 'GET' && pathname === '/api/admin/trash') {
+    return json(getAdminTrashData())
+  }
+
+  if (request.method === 'GET' && pathname === '/api/admin/search-insights') {
+    return json(getSearchInsightsData())
+  }
+
+  if (request.method === 'GET' && pathname === '/api/admin/export') {
+    try {
+      const createdAt = new Date()
+      const archive = createBackupArchive({
+        ...getBackupSnapshot(),
+        images: await collectSourceImagesForBackup(),
+        createdAt,
+      })
+      return new Response(archive, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${formatBackupFileName(createdAt)}"`,
+          'Cache-Control': 'no-store',
+        },
+      })
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to export data.')
+    }
+  }
+
   if (request.method === 'GET' && GET_CHARACTER_COMMISSIONS_PATH_PATTERN.test(pathname)) {
     const id = parseIdFromPath(pathname, GET_CHARACTER_COMMISSIONS_ID_PATTERN)
     if (!id)
@@ -369,15 +592,28 @@ export async function handleAdminApiRequest(request: Request) {
     }
   }
 
+  if (request.method === 'PUT' && pathname === '/api/admin/commissions/parts/order') {
+    try {
+      const body = await parseJsonBody(request)
+      updateCommissionPartsOrder(Array.isArray(body.ids) ? body.ids.map(Number) : [])
+      await regeneratePublicAssets('reorder-commission-parts')
+      return success('Part order updated.')
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to update part order.')
+    }
+  }
+
   if (request.method === 'DELETE' && DELETE_CHARACTER_PATH_PATTERN.test(pathname)) {
     const id = parseIdFromPath(pathname, DELETE_CHARACTER_ID_PATTERN)
     if (!id)
       return failure('Invalid character identifier.')
 
     try {
-      deleteCharacter(id)
+      const { fileNames } = deleteCharacter(id)
+      await syncTrashedSourceImages(fileNames)
       await regeneratePublicAssets('delete-character')
-      return success('Character deleted.')
+      return success('Character moved to the trash.')
     }
     catch (error) {
       return handleWriteError(error, 'Failed to delete character.')
@@ -454,9 +690,10 @@ export async function handleAdminApiRequest(request: Request) {
       return failure('Invalid commission identifier.')
 
     try {
-      deleteCommission(id)
+      const { fileNames } = deleteCommission(id)
+      await syncTrashedSourceImages(fileNames)
       await regeneratePublicAssets('delete-commission')
-      return success('Commission deleted.')
+      return success('Commission moved to the trash.')
     }
     catch (error) {
       return handleWriteError(error, 'Failed to delete commission.')
@@ -480,11 +717,19 @@ export async function handleAdminApiRequest(request: Request) {
     if (!sourceImage)
       return failure('Source image is required.')
 
+    const upload = {
+      commissionFileName,
+      file: sourceImage,
+      convertOpaquePng: formData.get('convertOpaquePng') === 'true',
+    }
+
     try {
-      await replaceUploadedSourceImage({
-        commissionFileName,
-        file: sourceImage,
-      })
+      if (formData.get('dryRun') === 'true') {
+        const preview = await previewUploadedSourceImage(upload)
+        return json({ status: 'success', message: 'Preview ready.', preview })
+      }
+
+      await replaceUploadedSourceImage(upload)
       await regeneratePublicAssets('replace-source-image')
       return success(`Source image for "${commissionFileName}" replaced.`)
     }
@@ -556,6 +801,18 @@ export async function handleAdminApiRequest(request: Request) {
     }
   }
 
+  if (request.method === 'POST' && pathname === SEARCH_QUERY_LOG_INGEST_PATH) {
+    try {
+      const body = await parseJsonBody(request)
+      const records = parseSearchQueryLogRecords(body.records)
+      appendSearchQueryLogRecords(records)
+      return success(`Logged ${records.length} searches.`)
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to log searches.')
+    }
+  }
+
   if (request.method === 'POST' && pathname === '/api/admin/suggestion') {
     try {
       const body = await parseJsonBody(request)
@@ -569,6 +826,152 @@ export async function handleAdminApiRequest(request: Request) {
     }
   }
 
+  if (request.method === 'POST' && pathname === '/api/admin/creators') {
+    try {
+      const input = parseCreatorInput(await parseJsonBody(request))
+      createCreator(input)
+      await regeneratePublicAssets('create-creator')
+      return success(`Creator "${input.name.trim()}" created.`)
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to create creator.')
+    }
+  }
+
+  if (request.method === 'PATCH' && CREATOR_PATH_PATTERN.test(pathname)) {
+    const id = parseIdFromPath(pathname, CREATOR_ID_PATTERN)
+    if (!id)
+      return failure('Invalid creator identifier.')
+
+    try {
+      const input = parseCreatorInput(await parseJsonBody(request))
+      updateCreator(id, input)
+      await regeneratePublicAssets('update-creator')
+      return success(`Creator "${input.name.trim()}" updated.`)
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to update creator.')
+    }
+  }
+
+  if (request.method === 'DELETE' && CREATOR_PATH_PATTERN.test(pathname)) {
+    const id = parseIdFromPath(pathname, CREATOR_ID_PATTERN)
+    if (!id)
+      return failure('Invalid creator identifier.')
+
+    try {
+      deleteCreator(id)
+      await regeneratePublicAssets('delete-creator')
+      return success('Creator deleted.')
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to delete creator.')
+    }
+  }
+
+  if (request.method === 'POST' && POST_CREATOR_MERGE_PATH_PATTERN.test(pathname)) {
+    const id = parseIdFromPath(pathname, POST_CREATOR_MERGE_ID_PATTERN)
+    if (!id)
+      return failure('Invalid creator identifier.')
+
+    try {
+      const body = await parseJsonBody(request)
+      const targetId = Number(body.targetId)
+      if (!Number.isInteger(targetId) || targetId <= 0)
+        return failure('Choose a creator to merge into.')
+
+      const { targetName } = mergeCreators(id, targetId)
+      await regeneratePublicAssets('merge-creators')
+      return success(`Merged into "${targetName}".`)
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to merge creators.')
+    }
+  }
+
+  if (request.method === 'POST' && POST_HISTORY_REVERT_PATH_PATTERN.test(pathname)) {
+    const id = parseIdFromPath(pathname, POST_HISTORY_REVERT_ID_PATTERN)
+    if (!id)
+      return failure('Invalid history entry identifier.')
+
+    try {
+      const entry = revertAdminAuditEntry(id)
+      await syncTrashedSourceImages(getAuditEntryTrashedFileNames(entry))
+      await regeneratePublicAssets('revert-history')
+      return success(`Reverted: ${entry.summary}`)
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to revert history entry.')
+    }
+  }
+
+  if (request.method === 'POST' && POST_TRASH_ACTION_PATH_PATTERN.test(pathname)) {
+    const id = parseIdFromPath(pathname, POST_TRASH_ACTION_ID_PATTERN)
+    const match = pathname.match(POST_TRASH_ACTION_KIND_PATTERN)
+    if (!id || !match)
+      return failure('Invalid trash item identifier.')
+
+    const kind = match[1] as keyof typeof TRASH_ACTIONS
+    const action = match[2] as keyof (typeof TRASH_ACTIONS)[typeof kind]
+
+    try {
+      const { fileNames } = TRASH_ACTIONS[kind][action](id)
+      await syncTrashedSourceImages(fileNames)
+      await regeneratePublicAssets(`${action}-${kind}`)
+      return success(action === 'restore' ? 'Restored from the trash.' : 'Permanently deleted.')
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to update the trash.')
+    }
+  }
+
+  if (request.method === 'POST' && pathname === '/api/admin/import') {
+    try {
+      const formData = await request.formData()
+      const manifest = await readImportManifest(formData)
+      if (manifest.errors.length > 0)
+        return failure(manifest.errors.join(' '))
+
+      const fileNames = manifest.rows.map(row => row.fileName)
+      const images = await collectImportImages(formData)
+      const { prepared, errors: imageErrors } = await prepareImportImages(fileNames, images)
+      const options = await buildImportOptions(fileNames, images, imageErrors)
+
+      if (formData.get('dryRun') === 'true') {
+        const plan = previewCommissionImport(manifest.rows, options)
+        return json({
+          status: plan.counts.invalid > 0 ? 'error' : 'success',
+          message: plan.counts.invalid > 0
+            ? `${plan.counts.invalid} row(s) need attention before importing.`
+            : 'Preview ready.',
+          plan,
+        })
+      }
+
+      const preview = previewCommissionImport(manifest.rows, options)
+      if (preview.counts.invalid > 0)
+        return json({ status: 'error', message: 'Import has invalid rows; nothing was applied.', plan: preview }, 400)
+
+      const imageWrites = preview.rows
+        .filter(row => prepared.has(row.fileName) && (row.action === 'create' || row.replacesImage))
+        .map(row => ({ image: prepared.get(row.fileName)!, overwrite: row.replacesImage }))
+      const plan = await commitWithPreparedSourceImages(
+        imageWrites,
+        () => applyCommissionImport(manifest.rows, options),
+      )
+
+      await regeneratePublicAssets('import-commissions')
+      return json({
+        status: 'success',
+        message: `Imported ${plan.counts.create} new and ${plan.counts.update} updated commission(s).`,
+        plan,
+      })
+    }
+    catch (error) {
+      return handleWriteError(error, 'Failed to import commissions.')
+    }
+  }
+
   if (request.method === 'POST' && pathname === '/api/admin/assets/refresh') {
     try {
       await regeneratePublicAssets('manual-refresh')
@@ -0,0 +1,48 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { queryAll } from '../data/sqlite'
+import {
+  collectBackupImages,
+  createBackupArchive,
+  formatBackupFileName,
+  readBackupSchemaVersion,
+  readBackupTables,
+} from '../src/lib/admin/backup'
+import { createAstroStyleLogger } from '../src/lib/pipeline/astroLogger'
+
+const logger = createAstroStyleLogger('data-export')
+const sourceImagesDir = path.join(process.cwd(), 'data', 'images')
+
+function parseOutputPath(args: string[], createdAt: Date) {
+  const index = args.indexOf('--out')
+  if (index >= 0 && args[index + 1])
+    return path.resolve(args[index + 1]!)
+  return path.join(process.cwd(), 'backups', formatBackupFileName(createdAt))
+}
+
+async function run(args: string[]) {
+  const createdAt = new Date()
+  const outputPath = parseOutputPath(args, createdAt)
+  const db = { queryAll }
+
+  const tables = readBackupTables(db)
+  const images = await collectBackupImages(sourceImagesDir)
+  const archive = createBackupArchive({
+    tables,
+    schemaVersion: readBackupSchemaVersion(db),
+    images,
+    createdAt,
+  })
+
+  await mkdir(path.dirname(outputPath), { recursive: true })
+  await writeFile(outputPath, archive)
+  logger.info(`characters=${tables.characters.length} commissions=${tables.commissions.length} images=${images.length}`)
+  logger.success(`wrote ${path.relative(process.cwd(), outputPath)} (${(archive.byteLength / 1024 / 1024).toFixed(1)} MiB)`)
+}
+
+void run(process.argv.slice(2)).catch((error) => {
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error(message)
+  process.exit(1)
+})
@@ -0,0 +1,79 @@
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, rename, rm } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { createDatabaseFile } from '../data/sqlite'
+import {
+  formatBackupTimestamp,
+  readBackupArchive,
+  restoreBackupTables,
+  writeBackupImages,
+} from '../src/lib/admin/backup'
+import { createAstroStyleLogger } from '../src/lib/pipeline/astroLogger'
+
+const logger = createAstroStyleLogger('data-restore')
+const dataDir = path.join(process.cwd(), 'data')
+const databasePath = path.join(dataDir, 'commissions.db')
+const stagingDatabasePath = `${databasePath}.restoring`
+const sourceImagesDir = path.join(dataDir, 'images')
+
+function hasFlag(args: string[], flag: string) {
+  return args.includes(flag)
+}
+
+// Existing data is never deleted: `--force` moves it into `data/.pre-restore-<timestamp>/`.
+async function moveCurrentDataAside() {
+  const backupDir = path.join(dataDir, `.pre-restore-${formatBackupTimestamp(new Date())}`)
+  await mkdir(backupDir, { recursive: true })
+  if (existsSync(databasePath))
+    await rename(databasePath, path.join(backupDir, 'commissions.db'))
+  if (existsSync(sourceImagesDir))
+    await rename(sourceImagesDir, path.join(backupDir, 'images'))
+  return backupDir
+}
+
+async function run(args: string[]) {
+  const archivePath = args.find(arg => !arg.startsWith('--'))
+  if (!archivePath)
+    throw new Error('Usage: bun run data:restore <archive.zip> [--check] [--force]')
+
+  const { manifest, tables, images } = readBackupArchive(await readFile(path.resolve(archivePath)))
+  logger.success(`verified ${manifest.files.length} file checksum(s) from ${manifest.createdAt} (schema v${manifest.schemaVersion})`)
+
+  if (hasFlag(args, '--check'))
+    return
+
+  const force = hasFlag(args, '--force')
+  if (!force && (existsSync(databasePath) || existsSync(sourceImagesDir))) {
+    throw new Error('data/commissions.db or data/images already exists; pass --force to move the current data aside and restore.')
+  }
+
+  await mkdir(dataDir, { recursive: true })
+  await rm(stagingDatabasePath, { force: true })
+  const db = createDatabaseFile(stagingDatabasePath)
+  try {
+    restoreBackupTables(db, tables, manifest.schemaVersion)
+  }
+  catch (error) {
+    db.close()
+    await rm(stagingDatabasePath, { force: true })
+    throw error
+  }
+  db.close()
+
+  if (force) {
+    const backupDir = await moveCurrentDataAside()
+    logger.info(`moved current data to ${path.relative(process.cwd(), backupDir)}`)
+  }
+
+  await rename(stagingDatabasePath, databasePath)
+  await writeBackupImages(sourceImagesDir, images)
+  logger.info(`characters=${tables.characters.length} commissions=${tables.commissions.length} images=${images.length}`)
+  logger.success('restore complete')
+}
+
+void run(process.argv.slice(2)).catch((error) => {
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error(message)
+  process.exit(1)
+})
@@ -0,0 +1,59 @@
+import process from 'node:process'
+import { openWritableDatabase } from '../data/sqlite'
+import { createAstroStyleLogger } from '../src/lib/pipeline/astroLogger'
+import {
+  applySchemaMigrations,
+  formatSchemaMigrationLabel,
+  getAppliedSchemaMigrations,
+  getPendingSchemaMigrations,
+  LATEST_SCHEMA_VERSION,
+} from '../src/lib/schema/migrations'
+
+const logger = createAstroStyleLogger('db-migrate')
+
+function hasFlag(args: string[], flag: string) {
+  return args.includes(flag)
+}
+
+function run(args: string[]) {
+  const statusOnly = hasFlag(args, '--status')
+  const db = openWritableDatabase()
+
+  try {
+    const applied = getAppliedSchemaMigrations(db)
+    const pending = getPendingSchemaMigrations(db)
+    const currentVersion = applied.at(-1)?.version ?? 0
+    logger.info(`schema version=${currentVersion} latest=${LATEST_SCHEMA_VERSION}`)
+
+    if (pending.length === 0) {
+      logger.success('schema is up to date')
+      return
+    }
+
+    pending.forEach((migration) => {
+      logger.info(`pending ${formatSchemaMigrationLabel(migration)}`)
+    })
+
+    if (statusOnly) {
+      logger.warn(`${pending.length} pending migration(s); run without --status to apply`)
+      return
+    }
+
+    const appliedNow = applySchemaMigrations(db)
+    appliedNow.forEach((migration) => {
+      logger.success(`applied ${formatSchemaMigrationLabel(migration)}`)
+    })
+  }
+  finally {
+    db.close()
+  }
+}
+
+try {
+  run(process.argv.slice(2))
+}
+catch (error) {
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error(message)
+  process.exit(1)
+}
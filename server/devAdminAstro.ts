@@ -52,6 +52,10 @@ export function devAdminRoutesIntegration(): AstroIntegration {
           pattern: '/admin/create',
           entrypoint: './src/devAdmin/pages/adminCreate.astro',
         })
+        injectRoute({
+          pattern: '/admin/import',
+          entrypoint: './src/devAdmin/pages/adminImport.astro',
+        })
         injectRoute({
           pattern: '/admin/edit',
           entrypoint: './src/devAdmin/pages/adminEdit.astro',
@@ -60,10 +64,30 @@ export function devAdminRoutesIntegration(): AstroIntegration {
           pattern: '/admin/aliases',
           entrypoint: './src/devAdmin/pages/adminAliases.astro',
         })
+        injectRoute({
+          pattern: '/admin/creators',
+          entrypoint: './src/devAdmin/pages/adminCreators.astro',
+        })
+        injectRoute({
+          pattern: '/admin/search-insights',
+          entrypoint: './src/devAdmin/pages/adminSearchInsights.astro',
+        })
+        injectRoute({
+          pattern: '/admin/images',
+          entrypoint: './src/devAdmin/pages/adminImageIntegrity.astro',
+        })
         injectRoute({
           pattern: '/admin/suggestion',
           entrypoint: './src/devAdmin/pages/adminSuggestion.astro',
         })
+        injectRoute({
+          pattern: '/admin/history',
+          entrypoint: './src/devAdmin/pages/adminHistory.astro',
+        })
+        injectRoute({
+          pattern: '/admin/trash',
+          entrypoint: './src/devAdmin/pages/adminTrash.astro',
+        })
       },
     },
   }
@@ -0,0 +1,47 @@
+import process from 'node:process'
+import { getImageIntegrityData } from '../src/lib/admin/imageIntegrity'
+import {
+  countImageIntegrityIssues,
+  formatImageIntegrityReport,
+  parseImageIntegritySeverities,
+} from '../src/lib/images/sourceImageIntegrity'
+import { createAstroStyleLogger } from '../src/lib/pipeline/astroLogger'
+
+const logger = createAstroStyleLogger('images')
+
+function readOption(args: string[], name: string) {
+  const index = args.indexOf(name)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function run(args: string[]) {
+  const failOn = parseImageIntegritySeverities(readOption(args, '--fail-on'))
+  const distanceOption = readOption(args, '--distance')
+  const nearDuplicateDistance = distanceOption === undefined ? undefined : Number(distanceOption)
+  if (nearDuplicateDistance !== undefined && !Number.isInteger(nearDuplicateDistance))
+    throw new Error(`--distance must be an integer, got "${distanceOption}"`)
+
+  const report = await getImageIntegrityData({ nearDuplicateDistance })
+  if (args.includes('--json')) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`)
+  }
+  else {
+    const [summary, ...details] = formatImageIntegrityReport(report)
+    for (const line of details)
+      process.stdout.write(`${line}\n`)
+    logger.info(summary)
+  }
+
+  const counts = countImageIntegrityIssues(report)
+  const failing = failOn.filter(severity => counts[severity] > 0)
+  if (failing.length > 0) {
+    logger.error(`failing on ${failing.join(', ')}`)
+    process.exit(1)
+  }
+}
+
+void run(process.argv.slice(2)).catch((error) => {
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error(message)
+  process.exit(1)
+})
@@ -3,7 +3,7 @@ import type { ChangeEvent } from 'react'
 import { addCommissionAction } from '#admin/actions'
 import { useActionState, useEffect, useMemo, useState } from 'react'
 
-import { isValidCommissionFileName } from './commissionFileName'
+import { isDatedCommissionFileName } from './commissionFileName'
 import {
   CommissionHiddenSwitch,
   CommissionSourceImageField,
@@ -74,7 +74,7 @@ function AddCommissionForm({ characters }: AddCommissionFormProps) {
     }
 
     const stem = extractFileNameStem(file.name)
-    if (isValidCommissionFileName(stem)) {
+    if (isDatedCommissionFileName(stem)) {
       setFileName(stem)
       setSourceImageHint(`Detected "${stem}" from uploaded file name and auto-filled File name.`)
       setSourceImageHintTone('success')
@@ -82,7 +82,7 @@ function AddCommissionForm({ characters }: AddCommissionFormProps) {
     }
 
     setSourceImageHint(
-      'Uploaded file name does not match YYYYMMDD or YYYYMMDD_creator. Please fill File name manually.',
+      'Uploaded file name does not match YYYYMMDD or YYYYMMDD_creator. Please fill File name and Date manually.',
     )
     setSourceImageHintTone('error')
   }
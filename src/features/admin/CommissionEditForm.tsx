@@ -1,8 +1,10 @@
-import type { CharacterRow } from '#lib/admin/db'
+import type { CharacterRow, CommissionRow } from '#lib/admin/db'
+import type { SourceImageProcessingSummary } from '#lib/images/sourceImageProcessing'
 import type { ChangeEvent } from 'react'
 import type { EditableCommission } from './hooks/useCommissionEditState'
 import {
   deleteCommissionAction,
+  previewCommissionSourceImageAction,
   replaceCommissionSourceImageAction,
   updateCommissionAction,
 } from '#admin/actions'
@@ -12,7 +14,9 @@ import { Button } from '#components/ui/button'
 import { IconUpload } from '@tabler/icons-react'
 import { useActionState, useEffect, useRef, useState, useTransition } from 'react'
 import { CommissionHiddenSwitch } from './components/CommissionFormFields'
+import CommissionPartsPanel from './components/CommissionPartsPanel'
 import CommissionSharedFields from './components/CommissionSharedFields'
+import SourceImageUploadPreview from './components/SourceImageUploadPreview'
 import { notifyDataUpdate } from './dataUpdateSignal'
 import FormStatusIndicator from './FormStatusIndicator'
 import useCommissionEditState from './hooks/useCommissionEditState'
@@ -23,6 +27,9 @@ import { adminSurfaceStyles } from './uiStyles'
 interface CommissionEditFormProps {
   commission: EditableCommission
   characters: CharacterRow[]
+  /** Every part of a multi-part commission, in part order. */
+  parts?: CommissionRow[]
+  onReorderParts?: (ids: number[]) => void
   onDelete?: () => void
 }
 
@@ -31,16 +38,23 @@ interface OperationStatus {
   text: string
 }
 
+interface PendingSourceImage {
+  file: File
+  preview: SourceImageProcessingSummary
+  convertOpaquePng: boolean
+}
+
 function buildPreviewVersionStorageKey(commissionId: number) {
   return `admin-preview-image-version:${commissionId}`
 }
 
-function CommissionEditForm({ commission, characters, onDelete }: CommissionEditFormProps) {
+function CommissionEditForm({ commission, characters, parts, onReorderParts, onDelete }: CommissionEditFormProps) {
   const [state, formAction] = useActionState(updateCommissionAction, INITIAL_FORM_STATE)
   const [isDeleting, startDelete] = useTransition()
   const [isUploading, startUpload] = useTransition()
   const sourceImageInputRef = useRef<HTMLInputElement | null>(null)
   const [uploadStatus, setUploadStatus] = useState<OperationStatus | null>(null)
+  const [pendingSourceImage, setPendingSourceImage] = useState<PendingSourceImage | null>(null)
   const [isDeleteArmed, setIsDeleteArmed] = useState(false)
   const [imageVersion, setImageVersion] = useState(() => {
     if (typeof window === 'undefined')
@@ -62,6 +76,12 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
     setIsHidden,
     fileName,
     setFileName,
+    dateValue,
+    setDateValue,
+    creatorValue,
+    setCreatorValue,
+    partValue,
+    setPartValue,
     linksValue,
     setLinksValue,
     designValue,
@@ -100,7 +120,7 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
       deleteCommissionAction(commission.id)
         .then((result) => {
           if (result.status === 'success') {
-            setDeleteStatus({ type: 'success', text: 'Entry deleted.' })
+            setDeleteStatus({ type: 'success', text: 'Entry moved to the trash.' })
             setIsDeleteArmed(false)
             onDelete?.()
           }
@@ -131,9 +151,41 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
     sourceImageInputRef.current?.click()
   }
 
+  const buildSourceImagePayload = (file: File, convertOpaquePng: boolean) => {
+    const payload = new FormData()
+    payload.set('id', String(commission.id))
+    payload.set('commissionFileName', commission.fileName)
+    payload.set('sourceImage', file)
+    payload.set('convertOpaquePng', convertOpaquePng ? 'true' : 'false')
+    return payload
+  }
+
+  const previewSourceImage = (file: File, convertOpaquePng: boolean) => {
+    startUpload(() => {
+      previewCommissionSourceImageAction(buildSourceImagePayload(file, convertOpaquePng))
+        .then(({ state: previewState, preview }) => {
+          if (previewState.status === 'success' && preview) {
+            setPendingSourceImage({ file, preview, convertOpaquePng })
+            return
+          }
+
+          setPendingSourceImage(null)
+          setUploadStatus({
+            type: 'error',
+            text: previewState.message ?? 'Failed to preview source image.',
+          })
+        })
+        .catch(() => {
+          setPendingSourceImage(null)
+          setUploadStatus({ type: 'error', text: 'Failed to preview source image.' })
+        })
+    })
+  }
+
   const handleSourceImageChange = (event: ChangeEvent<HTMLInputElement>) => {
     const inputElement = event.currentTarget
     const file = inputElement.files?.[0]
+    inputElement.value = ''
     if (!file)
       return
 
@@ -142,19 +194,22 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
         type: 'error',
         text: 'Save file name changes before reuploading the source image.',
       })
-      inputElement.value = ''
       return
     }
 
-    const payload = new FormData()
-    payload.set('id', String(commission.id))
-    payload.set('commissionFileName', commission.fileName)
-    payload.set('sourceImage', file)
+    previewSourceImage(file, false)
+  }
 
+  const handleConfirmSourceImage = () => {
+    if (!pendingSourceImage)
+      return
+
+    const { file, convertOpaquePng } = pendingSourceImage
     startUpload(() => {
-      replaceCommissionSourceImageAction(payload)
+      replaceCommissionSourceImageAction(buildSourceImagePayload(file, convertOpaquePng))
         .then((result) => {
           if (result.status === 'success') {
+            setPendingSourceImage(null)
             setUploadStatus({
               type: 'success',
               text: result.message ?? `Source image for "${commission.fileName}" replaced.`,
@@ -179,9 +234,6 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
         .catch(() => {
           setUploadStatus({ type: 'error', text: 'Failed to replace source image.' })
         })
-        .finally(() => {
-          inputElement.value = ''
-        })
     })
   }
 
@@ -260,6 +312,18 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
             </button>
           </div>
 
+          {pendingSourceImage && (
+            <SourceImageUploadPreview
+              fileName={pendingSourceImage.file.name}
+              preview={pendingSourceImage.preview}
+              convertOpaquePng={pendingSourceImage.convertOpaquePng}
+              onConvertChange={convertOpaquePng => previewSourceImage(pendingSourceImage.file, convertOpaquePng)}
+              onConfirm={handleConfirmSourceImage}
+              onCancel={() => setPendingSourceImage(null)}
+              disabled={isUploading}
+            />
+          )}
+
           {uploadStatus && (
             <p
               className={`
@@ -287,6 +351,12 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
             onCharacterChange={id => setSelectedCharacterId(id ?? initialCharacterId)}
             fileName={fileName}
             onFileNameChange={setFileName}
+            dateValue={dateValue}
+            onDateChange={setDateValue}
+            creatorValue={creatorValue}
+            onCreatorChange={setCreatorValue}
+            partValue={partValue}
+            onPartChange={setPartValue}
             linksValue={linksValue}
             onLinksChange={setLinksValue}
             linksRows={3}
@@ -297,6 +367,10 @@ function CommissionEditForm({ commission, characters, onDelete }: CommissionEdit
             keywordValue={keywordValue}
             onKeywordChange={setKeywordValue}
           />
+
+          {parts && parts.length > 1 && onReorderParts && (
+            <CommissionPartsPanel commissionId={commission.id} parts={parts} onReorder={onReorderParts} />
+          )}
         </div>
       </div>
 
@@ -16,6 +16,7 @@ import { closestCenter, DndContext } from '@dnd-kit/core'
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable'
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { groupAdminCommissionParts } from './commissionParts'
 import CharacterDeleteDialog from './components/CharacterDeleteDialog'
 import SortableCharacterCard from './components/SortableCharacterCard'
 import SortableDivider from './components/SortableDivider'
@@ -92,6 +93,18 @@ function CommissionManager({
     }
     return next
   }, [commissionMap])
+  const commissionPartsById = useMemo(
+    () => groupAdminCommissionParts(loadedCommissions),
+    [loadedCommissions],
+  )
+  const handleReorderCommissionParts = useCallback((ids: number[]) => {
+    setLoadedCommissions(prev =>
+      prev.map((commission) => {
+        const index = ids.indexOf(commission.id)
+        return index === -1 ? commission : { ...commission, partIndex: index + 1 }
+      }),
+    )
+  }, [])
   const characterNameById = useMemo(
     () =>
       new Map<number, string>(
@@ -122,6 +135,7 @@ function CommissionManager({
           ),
           searchText: metadata.searchText,
           searchSuggest: metadata.searchSuggestionText,
+          searchFields: metadata.searchFieldText,
         }
       }),
     [characterNameById, commissionSearchRows, creatorAliasesMap],
@@ -385,6 +399,8 @@ function CommissionManager({
                     )
                     handleDeleteCommission(character.id, commissionId)
                   }}
+                  commissionPartsById={commissionPartsById}
+                  onReorderCommissionParts={handleReorderCommissionParts}
                   charactersForSelect={orderedCharacters}
                   buttonRefFor={buttonRefFor}
                   isEditing={editing?.id === character.id}
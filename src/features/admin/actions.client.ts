@@ -1,4 +1,5 @@
-import type { CommissionRow } from '#lib/admin/db'
+import type { CommissionImportPlan, CommissionRow } from '#lib/admin/db'
+import type { SourceImageProcessingSummary } from '#lib/images/sourceImageProcessing'
 import type { FormState } from './types'
 
 export interface AdminApiResponse {
@@ -96,6 +97,9 @@ export async function updateCommissionAction(_prevState: FormState, formData: Fo
       body: JSON.stringify({
         characterId: Number(formData.get('characterId')),
         fileName: formData.get('fileName')?.toString() ?? '',
+        commissionDate: formData.get('commissionDate')?.toString() ?? '',
+        creatorName: formData.get('creatorName')?.toString() ?? '',
+        partIndex: formData.get('partIndex')?.toString() ?? '',
         links: formData.get('links')?.toString() ?? '',
         design: formData.get('design')?.toString() ?? '',
         description: formData.get('description')?.toString() ?? '',
@@ -131,6 +135,40 @@ export async function replaceCommissionSourceImageAction(formData: FormData): Pr
   }
 }
 
+export interface SourceImagePreviewResult {
+  state: FormState
+  preview: SourceImageProcessingSummary | null
+}
+
+export async function previewCommissionSourceImageAction(formData: FormData): Promise<SourceImagePreviewResult> {
+  const id = Number(formData.get('id'))
+  if (!Number.isFinite(id) || id <= 0) {
+    return { state: { status: 'error', message: 'Invalid commission identifier.' }, preview: null }
+  }
+
+  const body = new FormData()
+  formData.forEach((value, key) => body.append(key, value))
+  body.set('dryRun', 'true')
+
+  try {
+    const response = await fetch(`/api/admin/commissions/${id}/source-image`, {
+      method: 'POST',
+      body,
+    })
+    const payload = (await response.clone().json().catch(() => null)) as { preview?: SourceImageProcessingSummary } | null
+    return {
+      state: await parseResponse(response),
+      preview: payload?.preview ?? null,
+    }
+  }
+  catch (error) {
+    return {
+      state: toErrorState(error, 'Failed to preview source image.'),
+      preview: null,
+    }
+  }
+}
+
 export async function saveCharacterOrder(payload: {
   active: number[]
   stale: number[]
@@ -150,6 +188,22 @@ export async function saveCharacterOrder(payload: {
   }
 }
 
+export async function saveCommissionPartsOrder(ids: number[]): Promise<FormState> {
+  try {
+    const response = await fetch('/api/admin/commissions/parts/order', {
+      method: 'PUT',
+      body: JSON.stringify({ ids }),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to update part order.')
+  }
+}
+
 export async function renameCharacter(payload: {
   id: number
   name: string
@@ -294,6 +348,125 @@ export async function fetchCharacterCommissionsAction(
   return payload.commissions
 }
 
+export interface CreatorPayload {
+  name: string
+  aliases: string[]
+  homepage: string
+  links: string[]
+  notes: string
+}
+
+export async function saveCreatorAction(id: number | null, payload: CreatorPayload): Promise<FormState> {
+  try {
+    const response = await fetch(id === null ? '/api/admin/creators' : `/api/admin/creators/${id}`, {
+      method: id === null ? 'POST' : 'PATCH',
+      body: JSON.stringify(payload),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to save creator.')
+  }
+}
+
+export async function deleteCreatorAction(id: number): Promise<FormState> {
+  try {
+    const response = await fetch(`/api/admin/creators/${id}`, {
+      method: 'DELETE',
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to delete creator.')
+  }
+}
+
+export async function mergeCreatorAction(sourceId: number, targetId: number): Promise<FormState> {
+  try {
+    const response = await fetch(`/api/admin/creators/${sourceId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to merge creators.')
+  }
+}
+
+export async function revertHistoryEntryAction(id: number): Promise<FormState> {
+  try {
+    const response = await fetch(`/api/admin/history/${id}/revert`, {
+      method: 'POST',
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to revert history entry.')
+  }
+}
+
+export type TrashItemKind = 'characters' | 'commissions'
+
+export async function restoreTrashItemAction(kind: TrashItemKind, id: number): Promise<FormState> {
+  try {
+    const response = await fetch(`/api/admin/trash/${kind}/${id}/restore`, {
+      method: 'POST',
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to restore from the trash.')
+  }
+}
+
+export async function purgeTrashItemAction(kind: TrashItemKind, id: number): Promise<FormState> {
+  try {
+    const response = await fetch(`/api/admin/trash/${kind}/${id}/purge`, {
+      method: 'POST',
+    })
+    return parseResponse(response)
+  }
+  catch (error) {
+    return toErrorState(error, 'Failed to permanently delete.')
+  }
+}
+
+export interface ImportCommissionsResult {
+  state: FormState
+  plan: CommissionImportPlan | null
+}
+
+export async function importCommissionsAction(formData: FormData, { dryRun }: { dryRun: boolean }): Promise<ImportCommissionsResult> {
+  const body = new FormData()
+  formData.forEach((value, key) => body.append(key, value))
+  body.set('dryRun', dryRun ? 'true' : 'false')
+
+  try {
+    const response = await fetch('/api/admin/import', {
+      method: 'POST',
+      body,
+    })
+    const payload = (await response.clone().json().catch(() => null)) as { plan?: CommissionImportPlan } | null
+    return {
+      state: await parseResponse(response),
+      plan: payload?.plan ?? null,
+    }
+  }
+  catch (error) {
+    return {
+      state: toErrorState(error, 'Failed to import commissions.'),
+      plan: null,
+    }
+  }
+}
+
 export async function refreshAssetsAction(): Promise<FormState> {
   try {
     const response = await fetch('/api/admin/assets/refresh', {
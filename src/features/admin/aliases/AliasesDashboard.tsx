@@ -1,10 +1,11 @@
+import type { AliasKind, AliasPrefill } from '#admin/aliases/aliasPrefill'
 import type { CharacterAliasRow, CreatorAliasRow, KeywordAliasRow } from '#lib/admin/db'
 import {
   saveCharacterAliasesBatchAction,
   saveCreatorAliasesBatchAction,
   saveKeywordAliasesBatchAction,
 } from '#admin/actions'
-
+import { applyAliasPrefill } from '#admin/aliases/aliasPrefill'
 import FormStatusIndicator from '#admin/FormStatusIndicator'
 import { INITIAL_FORM_STATE } from '#admin/types'
 import { adminSurfaceStyles, formControlStyles } from '#admin/uiStyles'
@@ -18,6 +19,8 @@ interface AliasesDashboardProps {
   characters: CharacterAliasRow[]
   creators: CreatorAliasRow[]
   keywords: KeywordAliasRow[]
+  /** Alias suggested from search insights, pre-filled into its row. */
+  prefill?: AliasPrefill | null
 }
 
 function buildInitialCharacterDrafts(characters: CharacterAliasRow[]) {
@@ -41,6 +44,16 @@ function buildInitialKeywordDrafts(keywords: KeywordAliasRow[]) {
   >
 }
 
+function prefillDrafts(
+  drafts: Record<string, string>,
+  prefill: AliasPrefill | null,
+  options?: { replace?: boolean },
+) {
+  if (!prefill || !(prefill.target in drafts))
+    return drafts
+  return { ...drafts, [prefill.target]: applyAliasPrefill(drafts[prefill.target], prefill.alias, options) }
+}
+
 function SaveButton({ label }: { label: string }) {
   const { pending } = useFormStatus()
 
@@ -64,13 +77,14 @@ const tableHeaderStyles
   = 'hidden gap-4 border-b border-gray-200/80 px-4 py-2 text-xs font-semibold tracking-wide text-gray-500 uppercase md:grid dark:border-gray-700/80 dark:text-gray-300'
 const tableRowStyles = 'grid gap-4 px-4 py-3 md:items-center'
 const tableDividerStyles = 'border-t border-gray-200/80 dark:border-gray-700/80'
+const prefilledRowStyles = 'rounded-lg bg-amber-50 ring-1 ring-amber-300 dark:bg-amber-500/10 dark:ring-amber-500/40'
 const characterGridTemplate = 'md:grid-cols-[minmax(10rem,16rem)_minmax(0,1fr)]'
 const creatorGridTemplate = characterGridTemplate
 
-function CharacterAliasesPanel({ characters }: { characters: CharacterAliasRow[] }) {
+function CharacterAliasesPanel({ characters, prefill }: { characters: CharacterAliasRow[], prefill: AliasPrefill | null }) {
   const [state, formAction] = useActionState(saveCharacterAliasesBatchAction, INITIAL_FORM_STATE)
   const [drafts, setDrafts] = useState<Record<string, string>>(() =>
-    buildInitialCharacterDrafts(characters),
+    prefillDrafts(buildInitialCharacterDrafts(characters), prefill),
   )
 
   const rowsPayload = useMemo(
@@ -137,6 +151,7 @@ function CharacterAliasesPanel({ characters }: { characters: CharacterAliasRow[]
                     ${characterGridTemplate}
                     ${tableDividerStyles}
                     first:border-t-0
+                    ${prefill?.target === row.characterName ? prefilledRowStyles : ''}
                   `}
                 >
                   <div className="space-y-1">
@@ -162,6 +177,7 @@ function CharacterAliasesPanel({ characters }: { characters: CharacterAliasRow[]
                   <input
                     type="text"
                     value={drafts[row.characterName] ?? ''}
+                    autoFocus={prefill?.target === row.characterName}
                     onChange={event =>
                       setDrafts(prev => ({
                         ...prev,
@@ -178,10 +194,10 @@ function CharacterAliasesPanel({ characters }: { characters: CharacterAliasRow[]
   )
 }
 
-function CreatorAliasesPanel({ creators }: { creators: CreatorAliasRow[] }) {
+function CreatorAliasesPanel({ creators, prefill }: { creators: CreatorAliasRow[], prefill: AliasPrefill | null }) {
   const [state, formAction] = useActionState(saveCreatorAliasesBatchAction, INITIAL_FORM_STATE)
   const [drafts, setDrafts] = useState<Record<string, string>>(() =>
-    buildInitialCreatorDrafts(creators),
+    prefillDrafts(buildInitialCreatorDrafts(creators), prefill, { replace: true }),
   )
   const visibleCreators = useMemo(
     () => creators.filter(row => hasCjkCharacter(row.creatorName)),
@@ -251,6 +267,7 @@ function CreatorAliasesPanel({ creators }: { creators: CreatorAliasRow[] }) {
                     ${creatorGridTemplate}
                     ${tableDividerStyles}
                     first:border-t-0
+                    ${prefill?.target === row.creatorName ? prefilledRowStyles : ''}
                   `}
                 >
                   <div className="space-y-1">
@@ -276,6 +293,7 @@ function CreatorAliasesPanel({ creators }: { creators: CreatorAliasRow[] }) {
                   <input
                     type="text"
                     value={drafts[row.creatorName] ?? ''}
+                    autoFocus={prefill?.target === row.creatorName}
                     onChange={event =>
                       setDrafts(prev => ({
                         ...prev,
@@ -291,10 +309,10 @@ function CreatorAliasesPanel({ creators }: { creators: CreatorAliasRow[] }) {
   )
 }
 
-function KeywordAliasesPanel({ keywords }: { keywords: KeywordAliasRow[] }) {
+function KeywordAliasesPanel({ keywords, prefill }: { keywords: KeywordAliasRow[], prefill: AliasPrefill | null }) {
   const [state, formAction] = useActionState(saveKeywordAliasesBatchAction, INITIAL_FORM_STATE)
   const [drafts, setDrafts] = useState<Record<string, string>>(() =>
-    buildInitialKeywordDrafts(keywords),
+    prefillDrafts(buildInitialKeywordDrafts(keywords), prefill),
   )
 
   const rowsPayload = useMemo(
@@ -361,6 +379,7 @@ function KeywordAliasesPanel({ keywords }: { keywords: KeywordAliasRow[] }) {
                     ${characterGridTemplate}
                     ${tableDividerStyles}
                     first:border-t-0
+                    ${prefill?.target === row.baseKeyword ? prefilledRowStyles : ''}
                   `}
                 >
                   <div className="space-y-1">
@@ -386,6 +405,7 @@ function KeywordAliasesPanel({ keywords }: { keywords: KeywordAliasRow[] }) {
                   <input
                     type="text"
                     value={drafts[row.baseKeyword] ?? ''}
+                    autoFocus={prefill?.target === row.baseKeyword}
                     onChange={event =>
                       setDrafts(prev => ({
                         ...prev,
@@ -402,7 +422,9 @@ function KeywordAliasesPanel({ keywords }: { keywords: KeywordAliasRow[] }) {
   )
 }
 
-function AliasesDashboard({ characters, creators, keywords }: AliasesDashboardProps) {
+function AliasesDashboard({ characters, creators, keywords, prefill = null }: AliasesDashboardProps) {
+  const prefillFor = (kind: AliasKind) => (prefill?.kind === kind ? prefill : null)
+
   return (
     <section className="space-y-5">
       <header className="space-y-1">
@@ -422,7 +444,7 @@ function AliasesDashboard({ characters, creators, keywords }: AliasesDashboardPr
         </p>
       </header>
 
-      <Tabs defaultValue="character">
+      <Tabs defaultValue={prefill?.kind ?? 'character'}>
         <TabsList className={tabListStyles}>
           <TabsTrigger value="character" className={tabTriggerStyles}>
             <span>Character</span>
@@ -442,15 +464,15 @@ function AliasesDashboard({ characters, creators, keywords }: AliasesDashboardPr
 
         <div className="mt-5 space-y-6">
           <TabsContent value="character">
-            <CharacterAliasesPanel characters={characters} />
+            <CharacterAliasesPanel characters={characters} prefill={prefillFor('character')} />
           </TabsContent>
 
           <TabsContent value="creator">
-            <CreatorAliasesPanel creators={creators} />
+            <CreatorAliasesPanel creators={creators} prefill={prefillFor('creator')} />
           </TabsContent>
 
           <TabsContent value="keyword">
-            <KeywordAliasesPanel keywords={keywords} />
+            <KeywordAliasesPanel keywords={keywords} prefill={prefillFor('keyword')} />
           </TabsContent>
         </div>
       </Tabs>
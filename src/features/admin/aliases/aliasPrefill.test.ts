@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { applyAliasPrefill, buildAliasPrefillHref, parseAliasPrefill } from './aliasPrefill'
+
+describe('aliasPrefill', () => {
+  it('round-trips a prefill through the aliases page URL', () => {
+    const href = buildAliasPrefillHref({ kind: 'keyword', target: 'blue hair', alias: 'aoi kami' })
+    expect(href).toBe('/admin/aliases?tab=keyword&target=blue+hair&alias=aoi+kami')
+    expect(parseAliasPrefill(new URL(href, 'http://localhost').searchParams)).toEqual({
+      kind: 'keyword',
+      target: 'blue hair',
+      alias: 'aoi kami',
+    })
+    expect(parseAliasPrefill(new URLSearchParams('tab=trash&target=a&alias=b'))).toBeNull()
+    expect(parseAliasPrefill(new URLSearchParams('tab=creator&target=a'))).toBeNull()
+  })
+
+  it('appends the alias once, or replaces single-alias drafts', () => {
+    expect(applyAliasPrefill('', 'nanashi')).toBe('nanashi')
+    expect(applyAliasPrefill('七市,ななし', 'nanashi')).toBe('七市, ななし, nanashi')
+    expect(applyAliasPrefill('七市, Nanashi', 'nanashi')).toBe('七市, Nanashi')
+    expect(applyAliasPrefill('old', 'nanashi', { replace: true })).toBe('nanashi')
+  })
+})
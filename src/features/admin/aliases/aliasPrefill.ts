@@ -0,0 +1,40 @@
+export type AliasKind = 'character' | 'creator' | 'keyword'
+
+/** An alias to pre-fill into one row of the aliases forms, read from the page URL. */
+export interface AliasPrefill {
+  kind: AliasKind
+  /** Character name, creator name or base keyword of the row. */
+  target: string
+  alias: string
+}
+
+const ALIAS_KINDS = new Set<string>(['character', 'creator', 'keyword'])
+const ALIAS_SEPARATOR_PATTERN = /[,，、]/
+export const ALIASES_PAGE_PATH = '/admin/aliases'
+
+export function buildAliasPrefillHref({ kind, target, alias }: AliasPrefill) {
+  const params = new URLSearchParams({ tab: kind, target, alias })
+  return `${ALIASES_PAGE_PATH}?${params.toString()}`
+}
+
+export function parseAliasPrefill(searchParams: URLSearchParams): AliasPrefill | null {
+  const kind = searchParams.get('tab') ?? ''
+  const target = searchParams.get('target')?.trim() ?? ''
+  const alias = searchParams.get('alias')?.trim() ?? ''
+  if (!ALIAS_KINDS.has(kind) || !target || !alias)
+    return null
+  return { kind: kind as AliasKind, target, alias }
+}
+
+/**
+ * Adds the alias to a comma-separated draft unless it is already listed. Creator
+ * rows hold a single alias, so `replace` swaps the draft instead.
+ */
+export function applyAliasPrefill(draft: string, alias: string, { replace = false }: { replace?: boolean } = {}) {
+  if (replace)
+    return alias
+  const aliases = draft.split(ALIAS_SEPARATOR_PATTERN).map(value => value.trim()).filter(Boolean)
+  if (aliases.some(value => value.toLowerCase() === alias.toLowerCase()))
+    return draft
+  return [...aliases, alias].join(', ')
+}
@@ -1,4 +1,4 @@
-const VALID_FILE_NAME = /^\d{8}(?:_.+)?$/
+const DATED_FILE_NAME = /^\d{8}(?:_.+)?$/
 const FILE_NAME_WITH_EXTENSION = /\.(?:jpe?g|png|webp)$/i
 const FORBIDDEN_FILE_NAME_CHARS = /[<>:"/\\|?*]/
 
@@ -22,9 +22,6 @@ export function getCommissionFileNameValidationError(rawValue: string): string |
   if (FILE_NAME_WITH_EXTENSION.test(fileName)) {
     return 'File name must not include an image extension.'
   }
-  if (!VALID_FILE_NAME.test(fileName)) {
-    return 'File name must start with YYYYMMDD, optionally followed by "_creator".'
-  }
   if (FORBIDDEN_FILE_NAME_CHARS.test(fileName) || fileName.includes('..') || hasControlCharacter(fileName)) {
     return 'File name contains forbidden path characters.'
   }
@@ -35,3 +32,8 @@ export function getCommissionFileNameValidationError(rawValue: string): string |
 export function isValidCommissionFileName(rawValue: string) {
   return getCommissionFileNameValidationError(rawValue) === null
 }
+
+// `YYYYMMDD` / `YYYYMMDD_creator` names carry their own date; others need an explicit one.
+export function isDatedCommissionFileName(rawValue: string) {
+  return isValidCommissionFileName(rawValue) && DATED_FILE_NAME.test(normalizeCommissionFileName(rawValue))
+}
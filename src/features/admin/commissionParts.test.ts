@@ -0,0 +1,44 @@
+import type { CommissionRow } from '#lib/admin/db'
+import { describe, expect, it } from 'vitest'
+import { groupAdminCommissionParts, moveCommissionPart } from './commissionParts'
+
+function row(id: number, fileName: string, fields: Partial<CommissionRow> = {}): CommissionRow {
+  return {
+    id,
+    characterId: 1,
+    characterName: 'Alpha',
+    fileName,
+    commissionDate: fileName.slice(0, 8),
+    creatorName: 'Q',
+    partIndex: null,
+    links: [],
+    hidden: false,
+    ...fields,
+  }
+}
+
+describe('groupAdminCommissionParts', () => {
+  it('maps each part of a multi-part commission to its ordered siblings', () => {
+    const partsById = groupAdminCommissionParts([
+      row(1, '20250302_Q (part 2)', { partIndex: 2 }),
+      row(2, '20250302_Q (part 1)', { partIndex: 1 }),
+      row(3, '20250101_Q'),
+      row(4, '20250302_Q (part 1)', { partIndex: 1, characterId: 2 }),
+    ])
+
+    expect(partsById.get(1)?.map(part => part.id)).toEqual([2, 1])
+    expect(partsById.get(2)).toBe(partsById.get(1))
+    expect(partsById.has(3)).toBe(false)
+    expect(partsById.has(4)).toBe(false)
+  })
+})
+
+describe('moveCommissionPart', () => {
+  it('swaps a part with its neighbour and ignores moves past either end', () => {
+    const ids = [5, 6, 7]
+
+    expect(moveCommissionPart(ids, 6, -1)).toEqual([6, 5, 7])
+    expect(moveCommissionPart(ids, 6, 1)).toEqual([5, 7, 6])
+    expect(moveCommissionPart(ids, 7, 1)).toBe(ids)
+  })
+})
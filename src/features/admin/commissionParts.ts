@@ -0,0 +1,42 @@
+import type { CommissionRow } from '#lib/admin/db'
+import { getCommissionPartGroupKey } from '#lib/commissions'
+
+/**
+ * Ordered sibling parts of every multi-part commission, keyed by commission id.
+ * Grouped the same way as the public listing, within each character.
+ */
+export function groupAdminCommissionParts(rows: CommissionRow[]): Map<number, CommissionRow[]> {
+  const partsByKey = new Map<string, CommissionRow[]>()
+  for (const row of rows) {
+    if (!row.partIndex)
+      continue
+    const key = `${row.characterId}\n${getCommissionPartGroupKey({
+      fileName: row.fileName,
+      commissionDate: row.commissionDate ?? '',
+      creatorName: row.creatorName ?? undefined,
+      partIndex: row.partIndex,
+    })}`
+    partsByKey.set(key, [...(partsByKey.get(key) ?? []), row])
+  }
+
+  const partsById = new Map<number, CommissionRow[]>()
+  for (const parts of partsByKey.values()) {
+    if (parts.length < 2)
+      continue
+    const ordered = parts.toSorted((a, b) => (a.partIndex ?? 0) - (b.partIndex ?? 0) || a.fileName.localeCompare(b.fileName))
+    for (const part of ordered)
+      partsById.set(part.id, ordered)
+  }
+  return partsById
+}
+
+/** Move one part a step up or down, returning the new id order. */
+export function moveCommissionPart(ids: number[], id: number, step: -1 | 1): number[] {
+  const index = ids.indexOf(id)
+  const target = index + step
+  if (index === -1 || target < 0 || target >= ids.length)
+    return ids
+  const next = [...ids]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
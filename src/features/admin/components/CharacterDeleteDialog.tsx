@@ -54,8 +54,8 @@ function CharacterDeleteDialog({
             dark:text-gray-300
           "
           >
-            This will remove the character and all associated commissions. This action cannot be
-            undone.
+            This will move the character and all associated commissions to the trash. You can
+            restore or permanently delete them from the Trash page.
           </AlertDialogDescription>
           <p className="
             text-sm text-gray-700
@@ -163,6 +163,69 @@ export function CommissionFileNameField({
   )
 }
 
+interface CommissionStructuredFieldsProps {
+  dateValue?: string
+  onDateChange?: (value: string) => void
+  creatorValue?: string
+  onCreatorChange?: (value: string) => void
+  partValue?: string
+  onPartChange?: (value: string) => void
+}
+
+export function CommissionStructuredFields({
+  dateValue,
+  onDateChange,
+  creatorValue,
+  onCreatorChange,
+  partValue,
+  onPartChange,
+}: CommissionStructuredFieldsProps) {
+  return (
+    <div className="space-y-1">
+      <div className="
+        grid gap-4
+        md:grid-cols-[1fr_2fr_6rem]
+      "
+      >
+        <div className="space-y-1">
+          <label className={fieldLabelStyles}>Date (optional)</label>
+          <input
+            type="date"
+            name="commissionDate"
+            className={formControlStyles}
+            {...(bindInputValue(dateValue, onDateChange) ?? {})}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={fieldLabelStyles}>Creator (optional)</label>
+          <input
+            type="text"
+            name="creatorName"
+            placeholder="From file name"
+            className={formControlStyles}
+            {...(bindInputValue(creatorValue, onCreatorChange) ?? {})}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={fieldLabelStyles}>Part</label>
+          <input
+            type="number"
+            name="partIndex"
+            min={1}
+            step={1}
+            className={formControlStyles}
+            {...(bindInputValue(partValue, onPartChange) ?? {})}
+          />
+        </div>
+      </div>
+      <p className={fieldDescriptionStyles}>
+        Blank fields are read from a YYYYMMDD_creator (part N) file name. Set the date for file names
+        that do not start with one.
+      </p>
+    </div>
+  )
+}
+
 interface CommissionLinksFieldProps {
   value?: string
   onChange?: (value: string) => void
@@ -0,0 +1,116 @@
+import type { CommissionRow } from '#lib/admin/db'
+import { saveCommissionPartsOrder } from '#admin/actions'
+import { IconArrowDown, IconArrowUp } from '@tabler/icons-react'
+import { useState, useTransition } from 'react'
+import { moveCommissionPart } from '../commissionParts'
+import { notifyDataUpdate } from '../dataUpdateSignal'
+
+interface CommissionPartsPanelProps {
+  commissionId: number
+  /** Every part of the commission in part order, including this one. */
+  parts: CommissionRow[]
+  onReorder: (ids: number[]) => void
+}
+
+const partButtonStyles = `
+  inline-flex size-7 items-center justify-center rounded-md text-gray-500
+  transition
+  hover:bg-gray-100 hover:text-gray-900
+  disabled:cursor-not-allowed disabled:opacity-30
+  dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-gray-100
+`
+
+function CommissionPartsPanel({ commissionId, parts, onReorder }: CommissionPartsPanelProps) {
+  const [isSaving, startSave] = useTransition()
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const ids = parts.map(part => part.id)
+
+  const handleMove = (id: number, step: -1 | 1) => {
+    const nextIds = moveCommissionPart(ids, id, step)
+    if (nextIds === ids)
+      return
+
+    startSave(() => {
+      saveCommissionPartsOrder(nextIds)
+        .then((result) => {
+          if (result.status === 'success') {
+            setErrorMessage(null)
+            onReorder(nextIds)
+            notifyDataUpdate()
+            return
+          }
+          setErrorMessage(result.message ?? 'Failed to update part order.')
+        })
+        .catch(() => {
+          setErrorMessage('Failed to update part order.')
+        })
+    })
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="
+        text-xs font-semibold tracking-wide text-gray-500 uppercase
+        dark:text-gray-300
+      "
+      >
+        {`Parts (${parts.length})`}
+      </p>
+      <ol className="
+        divide-y divide-gray-100 rounded-lg border border-gray-200
+        dark:divide-gray-800 dark:border-gray-700
+      "
+      >
+        {parts.map((part, index) => (
+          <li
+            key={part.id}
+            className={`
+              flex items-center gap-3 px-3 py-1.5
+              ${part.id === commissionId
+            ? `
+              font-medium text-gray-900
+              dark:text-gray-100
+            `
+            : `
+              text-gray-600
+              dark:text-gray-300
+            `}
+            `}
+          >
+            <span className="w-6 font-mono text-xs text-gray-400 tabular-nums">{index + 1}</span>
+            <span className="min-w-0 flex-1 truncate">{part.fileName}</span>
+            <button
+              type="button"
+              onClick={() => handleMove(part.id, -1)}
+              disabled={isSaving || index === 0}
+              className={partButtonStyles}
+              aria-label={`Move ${part.fileName} up`}
+            >
+              <IconArrowUp className="size-4" stroke={1.8} aria-hidden="true" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleMove(part.id, 1)}
+              disabled={isSaving || index === parts.length - 1}
+              className={partButtonStyles}
+              aria-label={`Move ${part.fileName} down`}
+            >
+              <IconArrowDown className="size-4" stroke={1.8} aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      {errorMessage && (
+        <p className="
+          text-xs text-red-500
+          dark:text-red-400
+        "
+        >
+          {errorMessage}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default CommissionPartsPanel
@@ -4,6 +4,7 @@ import {
   CommissionFileNameField,
   CommissionKeywordField,
   CommissionLinksField,
+  CommissionStructuredFields,
 } from './CommissionFormFields'
 
 interface CharacterOption {
@@ -18,6 +19,12 @@ interface CommissionSharedFieldsProps {
   fileName?: string
   onFileNameChange?: (value: string) => void
   fileNamePlaceholder?: string
+  dateValue?: string
+  onDateChange?: (value: string) => void
+  creatorValue?: string
+  onCreatorChange?: (value: string) => void
+  partValue?: string
+  onPartChange?: (value: string) => void
   linksValue?: string
   onLinksChange?: (value: string) => void
   linksRows?: number
@@ -38,6 +45,12 @@ function CommissionSharedFields({
   fileName,
   onFileNameChange,
   fileNamePlaceholder,
+  dateValue,
+  onDateChange,
+  creatorValue,
+  onCreatorChange,
+  partValue,
+  onPartChange,
   linksValue,
   onLinksChange,
   linksRows = 3,
@@ -69,6 +82,15 @@ function CommissionSharedFields({
         />
       </div>
 
+      <CommissionStructuredFields
+        dateValue={dateValue}
+        onDateChange={onDateChange}
+        creatorValue={creatorValue}
+        onCreatorChange={onCreatorChange}
+        partValue={partValue}
+        onPartChange={onPartChange}
+      />
+
       <CommissionLinksField value={linksValue} onChange={onLinksChange} rows={linksRows} />
 
       <CommissionDesignDescriptionFields
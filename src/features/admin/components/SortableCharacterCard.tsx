@@ -46,6 +46,9 @@ interface SortableCharacterCardProps {
   isOpen: boolean
   onToggle: () => void
   onDeleteCommission: (commissionId: number) => void
+  /** Sibling parts of multi-part commissions, keyed by commission id. */
+  commissionPartsById: Map<number, CommissionRow[]>
+  onReorderCommissionParts: (ids: number[]) => void
   charactersForSelect: CharacterRow[]
   buttonRefFor: (id: number) => (el: HTMLButtonElement | null) => void
   isEditing: boolean
@@ -70,6 +73,8 @@ function SortableCharacterCard({
   isOpen,
   onToggle,
   onDeleteCommission,
+  commissionPartsById,
+  onReorderCommissionParts,
   charactersForSelect,
   buttonRefFor,
   isEditing,
@@ -362,10 +367,13 @@ function SortableCharacterCard({
                           )
                         : (
                             commissionList.map(commission => (
-                              <Suspense key={commission.id} fallback={<CommissionEditFormSkeleton />}>
+                              // Remount on renumbering so the part field shows the stored value.
+                              <Suspense key={`${commission.id}:${commission.partIndex}`} fallback={<CommissionEditFormSkeleton />}>
                                 <CommissionEditForm
                                   commission={commission}
                                   characters={charactersForSelect}
+                                  parts={commissionPartsById.get(commission.id)}
+                                  onReorderParts={onReorderCommissionParts}
                                   onDelete={() => onDeleteCommission(commission.id)}
                                 />
                               </Suspense>
@@ -0,0 +1,70 @@
+import type { SourceImageProcessingSummary } from '#lib/images/sourceImageProcessing'
+import { Button } from '#components/ui/button'
+import { describeSourceImagePreview } from '../sourceImagePreview'
+
+interface SourceImageUploadPreviewProps {
+  fileName: string
+  preview: SourceImageProcessingSummary
+  convertOpaquePng: boolean
+  onConvertChange: (convertOpaquePng: boolean) => void
+  onConfirm: () => void
+  onCancel: () => void
+  disabled?: boolean
+}
+
+function SourceImageUploadPreview({
+  fileName,
+  preview,
+  convertOpaquePng,
+  onConvertChange,
+  onConfirm,
+  onCancel,
+  disabled = false,
+}: SourceImageUploadPreviewProps) {
+  const { dimensions, size, savings } = describeSourceImagePreview(preview)
+
+  return (
+    <div className="
+      space-y-3 rounded-lg border border-gray-200 bg-gray-50/80 p-3 text-xs
+      text-gray-600
+      dark:border-gray-700 dark:bg-gray-900/40 dark:text-gray-300
+    "
+    >
+      <p className="
+        truncate font-medium text-gray-900
+        dark:text-gray-100
+      "
+      >
+        {`${fileName} → ${preview.ext.slice(1).toUpperCase()}`}
+      </p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        <dt>Dimensions</dt>
+        <dd className="font-mono tabular-nums">{dimensions}</dd>
+        <dt>File size</dt>
+        <dd className="font-mono tabular-nums">{`${size} · ${savings}`}</dd>
+      </dl>
+      {preview.canConvertToJpeg && (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={convertOpaquePng}
+            onChange={event => onConvertChange(event.target.checked)}
+            disabled={disabled}
+          />
+          Store as JPEG (the PNG has no transparency)
+        </label>
+      )}
+      <p>EXIF and GPS metadata are removed before the image is saved.</p>
+      <div className="flex items-center gap-2">
+        <Button type="button" size="sm" onClick={onConfirm} disabled={disabled}>
+          Save image
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={disabled}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default SourceImageUploadPreview
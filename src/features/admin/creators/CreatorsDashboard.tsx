@@ -0,0 +1,423 @@
+import type { CreatorPayload } from '#admin/actions'
+import type { FormState } from '#admin/types'
+import type { AdminCreatorsData, CreatorRow } from '#lib/admin/creators'
+import type { FormEvent } from 'react'
+import { deleteCreatorAction, mergeCreatorAction, saveCreatorAction } from '#admin/actions'
+import { notifyDataUpdate } from '#admin/dataUpdateSignal'
+import FormStatusIndicator from '#admin/FormStatusIndicator'
+import { useAdminBootstrap } from '#admin/hooks/useAdminBootstrap'
+import { INITIAL_FORM_STATE } from '#admin/types'
+import { adminSurfaceStyles, formControlStyles } from '#admin/uiStyles'
+import { Button } from '#components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '#components/ui/select'
+import { detectLinkType } from '#features/home/commission/linkDisplay'
+import { useMemo, useState, useTransition } from 'react'
+
+interface CreatorsDashboardProps {
+  initialPayload: AdminCreatorsData
+}
+
+const CREATORS_ENDPOINT = '/api/admin/creators'
+const LINE_SPLIT_PATTERN = /\s*\n\s*/
+const ALIAS_SPLIT_PATTERN = /[,\n，、;；]/
+
+const fieldLabelStyles
+  = 'text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-300'
+const mutedTextStyles = 'text-xs text-gray-500 dark:text-gray-400'
+
+const EMPTY_CREATOR: CreatorPayload = {
+  name: '',
+  aliases: [],
+  homepage: '',
+  links: [],
+  notes: '',
+}
+
+function toCreatorPayload(creator: CreatorRow): CreatorPayload {
+  return {
+    name: creator.name,
+    aliases: creator.aliases,
+    homepage: creator.homepage ?? '',
+    links: creator.links,
+    notes: creator.notes ?? '',
+  }
+}
+
+function matchesFilter(creator: CreatorRow, filter: string) {
+  const query = filter.trim().toLowerCase()
+  if (!query)
+    return true
+  return [creator.name, ...creator.aliases].some(value => value.toLowerCase().includes(query))
+}
+
+function CreatorForm({
+  initialValue,
+  submitLabel,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue: CreatorPayload
+  submitLabel: string
+  pending: boolean
+  onSubmit: (payload: CreatorPayload) => void
+  onCancel?: () => void
+}) {
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const formData = new FormData(event.currentTarget)
+    const text = (name: string) => formData.get(name)?.toString() ?? ''
+    onSubmit({
+      name: text('name'),
+      aliases: text('aliases').split(ALIAS_SPLIT_PATTERN).map(alias => alias.trim()).filter(Boolean),
+      homepage: text('homepage'),
+      links: text('links').split(LINE_SPLIT_PATTERN).filter(Boolean),
+      notes: text('notes'),
+    })
+  }
+
+  return (
+    <form className="space-y-3" onSubmit={handleSubmit}>
+      <div className="
+        grid gap-3
+        md:grid-cols-2
+      "
+      >
+        <label className="space-y-1">
+          <span className={fieldLabelStyles}>Display name</span>
+          <input name="name" required defaultValue={initialValue.name} className={formControlStyles} />
+        </label>
+        <label className="space-y-1">
+          <span className={fieldLabelStyles}>Aliases</span>
+          <input
+            name="aliases"
+            defaultValue={initialValue.aliases.join(', ')}
+            placeholder="Comma separated"
+            className={formControlStyles}
+          />
+        </label>
+      </div>
+      <label className="block space-y-1">
+        <span className={fieldLabelStyles}>Homepage</span>
+        <input
+          name="homepage"
+          type="url"
+          defaultValue={initialValue.homepage}
+          placeholder="https://"
+          className={formControlStyles}
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className={fieldLabelStyles}>Social links</span>
+        <textarea
+          name="links"
+          rows={3}
+          defaultValue={initialValue.links.join('\n')}
+          placeholder="One URL per line (Pixiv, Twitter, Fanbox, …)"
+          className={formControlStyles}
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className={fieldLabelStyles}>Notes</span>
+        <textarea name="notes" rows={2} defaultValue={initialValue.notes} className={formControlStyles} />
+      </label>
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm" disabled={pending}>
+          {submitLabel}
+        </Button>
+        {onCancel
+          ? (
+              <Button type="button" size="sm" variant="outline" disabled={pending} onClick={onCancel}>
+                Cancel
+              </Button>
+            )
+          : null}
+      </div>
+    </form>
+  )
+}
+
+function CreatorItem({
+  creator,
+  creators,
+  pending,
+  onSave,
+  onDelete,
+  onMerge,
+}: {
+  creator: CreatorRow
+  creators: CreatorRow[]
+  pending: boolean
+  onSave: (payload: CreatorPayload) => Promise<boolean>
+  onDelete: () => void
+  onMerge: (targetId: number) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [mergeTargetId, setMergeTargetId] = useState<string | undefined>(undefined)
+  const mergeTargets = creators.filter(other => other.id !== creator.id)
+
+  return (
+    <li className="
+      space-y-3 rounded-lg border border-gray-200 bg-white/80 px-4 py-3
+      dark:border-gray-700 dark:bg-gray-900/50
+    "
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="
+            font-medium text-gray-900
+            dark:text-gray-100
+          "
+          >
+            {creator.name}
+            <span className={`
+              ml-2
+              ${mutedTextStyles}
+            `}
+            >
+              {creator.commissionCount}
+              {' '}
+              commission(s)
+            </span>
+          </p>
+          {creator.aliases.length > 0
+            ? <p className={mutedTextStyles}>{`Aliases: ${creator.aliases.join(', ')}`}</p>
+            : null}
+          {creator.homepage || creator.links.length > 0
+            ? (
+                <p className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                  {creator.homepage ? <a href={creator.homepage} target="_blank" rel="noreferrer">Homepage</a> : null}
+                  {creator.links.map(link => (
+                    <a key={link} href={link} target="_blank" rel="noreferrer">
+                      {detectLinkType(link) ?? link}
+                    </a>
+                  ))}
+                </p>
+              )
+            : null}
+          {creator.notes ? <p className={mutedTextStyles}>{creator.notes}</p> : null}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button type="button" size="sm" variant="outline" disabled={pending} onClick={() => setEditing(value => !value)}>
+            {editing ? 'Close' : 'Edit'}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="destructive"
+            disabled={pending || creator.commissionCount > 0}
+            title={creator.commissionCount > 0 ? 'Merge this creator into another one instead.' : undefined}
+            onClick={onDelete}
+          >
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {editing
+        ? (
+            <div className="
+              space-y-4 border-t border-gray-200 pt-3
+              dark:border-gray-700
+            "
+            >
+              <CreatorForm
+                initialValue={toCreatorPayload(creator)}
+                submitLabel="Save creator"
+                pending={pending}
+                onSubmit={(payload) => {
+                  void onSave(payload).then((saved) => {
+                    if (saved)
+                      setEditing(false)
+                  })
+                }}
+                onCancel={() => setEditing(false)}
+              />
+
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="min-w-60 flex-1 space-y-1">
+                  <span className={fieldLabelStyles}>Merge into</span>
+                  <Select value={mergeTargetId} onValueChange={setMergeTargetId} disabled={pending}>
+                    <SelectTrigger
+                      aria-label="Merge into"
+                      className={`
+                        ${formControlStyles}
+                        h-auto py-2.5
+                      `}
+                    >
+                      <SelectValue placeholder="Select creator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mergeTargets.map(target => (
+                        <SelectItem key={target.id} value={String(target.id)}>
+                          {target.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={pending || !mergeTargetId}
+                  onClick={() => onMerge(Number(mergeTargetId))}
+                >
+                  Merge
+                </Button>
+              </div>
+              <p className={mutedTextStyles}>
+                Merging moves every commission of this creator to the selected one and keeps this
+                name as an alias there.
+              </p>
+            </div>
+          )
+        : null}
+    </li>
+  )
+}
+
+function CreatorsDashboard({ initialPayload }: CreatorsDashboardProps) {
+  const { payload, errorMessage, reload } = useAdminBootstrap<AdminCreatorsData>({
+    endpoint: CREATORS_ENDPOINT,
+    errorFallback: 'Unable to load creators.',
+    subscribeUpdates: true,
+    initialPayload,
+  })
+  const [state, setState] = useState<FormState>(INITIAL_FORM_STATE)
+  const [filter, setFilter] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const creators = (payload ?? initialPayload).creators
+  const visibleCreators = useMemo(
+    () => creators.filter(creator => matchesFilter(creator, filter)),
+    [creators, filter],
+  )
+
+  const runAction = (action: () => Promise<FormState>) =>
+    new Promise<boolean>((resolve) => {
+      startTransition(async () => {
+        const result = await action()
+        setState(result)
+        const succeeded = result.status === 'success'
+        if (succeeded) {
+          notifyDataUpdate()
+          reload()
+        }
+        resolve(succeeded)
+      })
+    })
+
+  return (
+    <section className={adminSurfaceStyles}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="
+            text-base font-semibold text-gray-900
+            dark:text-gray-100
+          "
+          >
+            Creators
+          </h2>
+          <p className={mutedTextStyles}>
+            Commissions reference creators by id, so renaming or merging a creator here updates every
+            commission credited to them.
+          </p>
+        </div>
+        <FormStatusIndicator
+          status={state.status}
+          message={state.message}
+          successLabel="Saved"
+          errorFallback="Unable to update creators."
+        />
+      </div>
+
+      {errorMessage
+        ? (
+            <p className="
+              text-sm text-red-600
+              dark:text-red-300
+            "
+            >
+              {errorMessage}
+            </p>
+          )
+        : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter}
+          onChange={event => setFilter(event.target.value)}
+          placeholder="Filter by name or alias"
+          aria-label="Filter creators"
+          className={`
+            ${formControlStyles}
+            max-w-xs
+          `}
+        />
+        <Button type="button" size="sm" variant="outline" onClick={() => setCreating(value => !value)}>
+          {creating ? 'Close' : 'New creator'}
+        </Button>
+      </div>
+
+      {creating
+        ? (
+            <div className="
+              rounded-lg border border-dashed border-gray-300 p-4
+              dark:border-gray-700
+            "
+            >
+              <CreatorForm
+                initialValue={EMPTY_CREATOR}
+                submitLabel="Create creator"
+                pending={isPending}
+                onSubmit={(creatorPayload) => {
+                  void runAction(() => saveCreatorAction(null, creatorPayload)).then((saved) => {
+                    if (saved)
+                      setCreating(false)
+                  })
+                }}
+              />
+            </div>
+          )
+        : null}
+
+      {visibleCreators.length === 0
+        ? (
+            <p className="
+              text-sm text-gray-500
+              dark:text-gray-400
+            "
+            >
+              No creators match.
+            </p>
+          )
+        : (
+            <ul className="space-y-2">
+              {visibleCreators.map(creator => (
+                <CreatorItem
+                  key={creator.id}
+                  creator={creator}
+                  creators={creators}
+                  pending={isPending}
+                  onSave={creatorPayload => runAction(() => saveCreatorAction(creator.id, creatorPayload))}
+                  onDelete={() => void runAction(() => deleteCreatorAction(creator.id))}
+                  onMerge={targetId => void runAction(() => mergeCreatorAction(creator.id, targetId))}
+                />
+              ))}
+            </ul>
+          )}
+    </section>
+  )
+}
+
+export default CreatorsDashboard
@@ -0,0 +1,218 @@
+import type { FormState } from '#admin/types'
+import type { AdminAuditEntry } from '#lib/admin/db'
+import { revertHistoryEntryAction } from '#admin/actions'
+import { notifyDataUpdate } from '#admin/dataUpdateSignal'
+import FormStatusIndicator from '#admin/FormStatusIndicator'
+import { useAdminBootstrap } from '#admin/hooks/useAdminBootstrap'
+import { INITIAL_FORM_STATE } from '#admin/types'
+import { adminSurfaceStyles } from '#admin/uiStyles'
+import { Button } from '#components/ui/button'
+import { NON_REVERTIBLE_AUDIT_ACTIONS } from '#lib/admin/auditLog'
+import { useState, useTransition } from 'react'
+
+interface HistoryDashboardProps {
+  entries: AdminAuditEntry[]
+}
+
+interface HistoryPayload {
+  entries: AdminAuditEntry[]
+}
+
+const HISTORY_ENDPOINT = '/api/admin/history'
+
+const dateTimeFormatter = new Intl.DateTimeFormat('en-CA', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+})
+
+function formatTimestamp(value: string) {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : dateTimeFormatter.format(date)
+}
+
+function formatSnapshot(value: unknown) {
+  return value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)
+}
+
+function HistoryEntryItem({
+  entry,
+  pending,
+  onRevert,
+}: {
+  entry: AdminAuditEntry
+  pending: boolean
+  onRevert: (entry: AdminAuditEntry) => void
+}) {
+  const reverted = Boolean(entry.revertedAt)
+  const revertible = !NON_REVERTIBLE_AUDIT_ACTIONS.has(entry.action)
+
+  return (
+    <li className="
+      space-y-2 rounded-lg border border-gray-200 bg-white/80 px-4 py-3
+      dark:border-gray-700 dark:bg-gray-900/50
+    "
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <p className="
+            font-medium text-gray-900
+            dark:text-gray-100
+          "
+          >
+            {entry.summary}
+          </p>
+          <p className="
+            text-xs text-gray-500
+            dark:text-gray-400
+          "
+          >
+            <span className="font-mono">{entry.action}</span>
+            {' · '}
+            {formatTimestamp(entry.createdAt)}
+            {reverted && entry.revertedAt ? ` · reverted ${formatTimestamp(entry.revertedAt)}` : null}
+          </p>
+        </div>
+
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={reverted || !revertible || pending}
+          onClick={() => onRevert(entry)}
+        >
+          {reverted ? 'Reverted' : revertible ? 'Revert' : 'Permanent'}
+        </Button>
+      </div>
+
+      <details className="
+        text-xs text-gray-600
+        dark:text-gray-300
+      "
+      >
+        <summary className="cursor-pointer select-none">Details</summary>
+        <div className="
+          mt-2 grid gap-3
+          md:grid-cols-2
+        "
+        >
+          <div className="space-y-1">
+            <p className="font-semibold">Before</p>
+            <pre className="
+              max-h-64 overflow-auto rounded-md bg-gray-50 p-2 font-mono
+              text-[11px]
+              dark:bg-gray-800/60
+            "
+            >
+              {formatSnapshot(entry.before)}
+            </pre>
+          </div>
+          <div className="space-y-1">
+            <p className="font-semibold">After</p>
+            <pre className="
+              max-h-64 overflow-auto rounded-md bg-gray-50 p-2 font-mono
+              text-[11px]
+              dark:bg-gray-800/60
+            "
+            >
+              {formatSnapshot(entry.after)}
+            </pre>
+          </div>
+        </div>
+      </details>
+    </li>
+  )
+}
+
+function HistoryDashboard({ entries }: HistoryDashboardProps) {
+  const { payload, errorMessage, reload } = useAdminBootstrap<HistoryPayload>({
+    endpoint: HISTORY_ENDPOINT,
+    errorFallback: 'Unable to load history.',
+    subscribeUpdates: true,
+    initialPayload: { entries },
+  })
+  const [state, setState] = useState<FormState>(INITIAL_FORM_STATE)
+  const [pendingId, setPendingId] = useState<number | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const visibleEntries = payload?.entries ?? entries
+
+  const handleRevert = (entry: AdminAuditEntry) => {
+    setPendingId(entry.id)
+    startTransition(async () => {
+      const result = await revertHistoryEntryAction(entry.id)
+      setState(result)
+      setPendingId(null)
+      if (result.status === 'success') {
+        notifyDataUpdate()
+        reload()
+      }
+    })
+  }
+
+  return (
+    <section className={adminSurfaceStyles}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="
+            text-base font-semibold text-gray-900
+            dark:text-gray-100
+          "
+          >
+            Recent changes
+          </h2>
+          <p className="
+            text-xs text-gray-500
+            dark:text-gray-400
+          "
+          >
+            Reverting restores the recorded “before” state. Entries whose rows changed afterwards
+            must be reverted newest-first.
+          </p>
+        </div>
+        <FormStatusIndicator
+          status={state.status}
+          message={state.message}
+          successLabel="Reverted"
+          errorFallback="Unable to revert."
+        />
+      </div>
+
+      {errorMessage
+        ? (
+            <p className="
+              text-sm text-red-600
+              dark:text-red-300
+            "
+            >
+              {errorMessage}
+            </p>
+          )
+        : null}
+
+      {visibleEntries.length === 0
+        ? (
+            <p className="
+              text-sm text-gray-500
+              dark:text-gray-400
+            "
+            >
+              No admin changes recorded yet.
+            </p>
+          )
+        : (
+            <ul className="space-y-2">
+              {visibleEntries.map(entry => (
+                <HistoryEntryItem
+                  key={entry.id}
+                  entry={entry}
+                  pending={isPending && pendingId === entry.id}
+                  onRevert={handleRevert}
+                />
+              ))}
+            </ul>
+          )}
+    </section>
+  )
+}
+
+export default HistoryDashboard
@@ -10,6 +10,9 @@ export interface EditableCommission {
   id: number
   characterId: number
   fileName: string
+  commissionDate?: string | null
+  creatorName?: string | null
+  partIndex?: number | null
   links: string[]
   design?: string | null
   description?: string | null
@@ -22,6 +25,13 @@ interface UseCommissionEditStateParams {
   characters: CharacterRow[]
 }
 
+// Stored `yyyyMMdd` → the `YYYY-MM-DD` value a date input expects.
+function toDateInputValue(commissionDate?: string | null) {
+  if (!commissionDate || commissionDate.length !== 8)
+    return ''
+  return `${commissionDate.slice(0, 4)}-${commissionDate.slice(4, 6)}-${commissionDate.slice(6, 8)}`
+}
+
 function buildImageSrc(fileName: string) {
   return `/api/admin/source-image/${encodeURIComponent(fileName)}`
 }
@@ -40,6 +50,9 @@ function useCommissionEditState({ commission, characters }: UseCommissionEditSta
   const [selectedCharacterId, setSelectedCharacterId] = useState<number>(initialCharacterId)
   const [isHidden, setIsHidden] = useState<boolean>(commission.hidden)
   const [fileName, setFileName] = useState(commission.fileName)
+  const [dateValue, setDateValue] = useState(() => toDateInputValue(commission.commissionDate))
+  const [creatorValue, setCreatorValue] = useState(commission.creatorName ?? '')
+  const [partValue, setPartValue] = useState(commission.partIndex ? String(commission.partIndex) : '')
   const [linksValue, setLinksValue] = useState(() => commission.links.join('\n'))
   const [designValue, setDesignValue] = useState(commission.design ?? '')
   const [descriptionValue, setDescriptionValue] = useState(commission.description ?? '')
@@ -65,6 +78,12 @@ function useCommissionEditState({ commission, characters }: UseCommissionEditSta
     setIsHidden,
     fileName,
     setFileName,
+    dateValue,
+    setDateValue,
+    creatorValue,
+    setCreatorValue,
+    partValue,
+    setPartValue,
     linksValue,
     setLinksValue,
     designValue,
@@ -0,0 +1,164 @@
+import type { ImageIntegrityReport, ImageIntegritySeverity } from '#lib/images/sourceImageIntegrity'
+import type { ReactNode } from 'react'
+import { adminSurfaceStyles } from '#admin/uiStyles'
+import { countImageIntegrityIssues } from '#lib/images/sourceImageIntegrity'
+
+interface ImageIntegrityDashboardProps {
+  report: ImageIntegrityReport
+}
+
+const panelHeaderTitleStyles = 'text-base font-semibold text-gray-900 dark:text-gray-100'
+const panelHeaderDescriptionStyles = 'text-sm text-gray-600 dark:text-gray-300'
+const tableRowStyles
+  = 'grid gap-2 border-t border-gray-200/80 px-4 py-3 first:border-t-0 md:grid-cols-[minmax(0,1fr)_minmax(0,1fr)] md:items-center md:gap-4 dark:border-gray-700/80'
+const fileNameStyles = 'truncate font-mono text-sm text-gray-900 dark:text-gray-100'
+const mutedTextStyles = 'text-xs text-gray-500 dark:text-gray-400'
+
+const severityBadgeStyles: Record<ImageIntegritySeverity, string> = {
+  error: 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200',
+  warning: 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-200',
+  info: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-200',
+}
+
+function SeverityBadge({ severity }: { severity: ImageIntegritySeverity }) {
+  return (
+    <span className={`
+      rounded-full px-2 py-0.5 text-xs font-medium
+      ${severityBadgeStyles[severity]}
+    `}
+    >
+      {severity}
+    </span>
+  )
+}
+
+function IssuePanel({
+  title,
+  description,
+  severity,
+  count,
+  children,
+}: {
+  title: string
+  description: string
+  severity: ImageIntegritySeverity
+  count: number
+  children: ReactNode
+}) {
+  return (
+    <div className={adminSurfaceStyles}>
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <h2 className={panelHeaderTitleStyles}>{title}</h2>
+          <SeverityBadge severity={severity} />
+          <span className="
+            text-sm text-gray-500 tabular-nums
+            dark:text-gray-400
+          "
+          >
+            {count}
+          </span>
+        </div>
+        <p className={panelHeaderDescriptionStyles}>{description}</p>
+      </div>
+      {count === 0 ? <p className={panelHeaderDescriptionStyles}>Nothing to report.</p> : <div>{children}</div>}
+    </div>
+  )
+}
+
+function ImageIntegrityDashboard({ report }: ImageIntegrityDashboardProps) {
+  const counts = countImageIntegrityIssues(report)
+
+  return (
+    <section className="space-y-6">
+      <p className="
+        text-sm text-gray-600
+        dark:text-gray-300
+      "
+      >
+        {report.commissionCount}
+        {' commissions · '}
+        {report.imageCount}
+        {' images · '}
+        {counts.error}
+        {' errors · '}
+        {counts.warning}
+        {' warnings · '}
+        {counts.info}
+        {' to review'}
+      </p>
+
+      <IssuePanel
+        title="Commissions without an image"
+        description="No source image resolves for these file names, even through the fallback rules. Candidates share the date prefix and made the fallback ambiguous."
+        severity="error"
+        count={report.missing.length}
+      >
+        {report.missing.map(item => (
+          <div key={item.commissionFileName} className={tableRowStyles}>
+            <div className={fileNameStyles}>{item.commissionFileName}</div>
+            <div className={mutedTextStyles}>
+              {item.candidates.length > 0 ? `Candidates: ${item.candidates.join(', ')}` : 'No image with this date'}
+            </div>
+          </div>
+        ))}
+      </IssuePanel>
+
+      <IssuePanel
+        title="Images without a commission"
+        description="Files under data/images that no commission resolves to, or that are shadowed by a file of the same stem with a preferred extension."
+        severity="warning"
+        count={report.orphans.length}
+      >
+        {report.orphans.map(item => (
+          <div key={item.fileName} className={tableRowStyles}>
+            <div className={fileNameStyles}>{item.fileName}</div>
+            <div className={mutedTextStyles}>{item.reason === 'shadowed' ? 'Shadowed by another extension' : 'Unreferenced'}</div>
+          </div>
+        ))}
+      </IssuePanel>
+
+      <IssuePanel
+        title="Duplicate images"
+        description="Byte-identical files are warnings; perceptually near-identical pairs (difference hash distance shown) are for review."
+        severity="warning"
+        count={report.duplicates.length}
+      >
+        {report.duplicates.map(group => (
+          <div key={group.fileNames.join('\n')} className={tableRowStyles}>
+            <div className="min-w-0 space-y-1">
+              {group.fileNames.map(fileName => (
+                <div key={fileName} className={fileNameStyles}>{fileName}</div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <SeverityBadge severity={group.kind === 'identical' ? 'warning' : 'info'} />
+              <span className={mutedTextStyles}>
+                {group.kind === 'identical' ? 'Byte-identical' : `Similar (distance ${group.distance})`}
+              </span>
+            </div>
+          </div>
+        ))}
+      </IssuePanel>
+
+      <IssuePanel
+        title="Fallback matches"
+        description="Commissions whose image was only found by a fuzzy rule. Renaming the image to the exact file name removes the guesswork."
+        severity="info"
+        count={report.fallbackMatches.length}
+      >
+        {report.fallbackMatches.map(item => (
+          <div key={item.commissionFileName} className={tableRowStyles}>
+            <div className="min-w-0 space-y-1">
+              <div className={fileNameStyles}>{item.commissionFileName}</div>
+              <div className={mutedTextStyles}>{`→ ${item.imageStem}`}</div>
+            </div>
+            <div className={mutedTextStyles}>{item.rule}</div>
+          </div>
+        ))}
+      </IssuePanel>
+    </section>
+  )
+}
+
+export default ImageIntegrityDashboard
@@ -1,16 +1,35 @@
+import { Buffer } from 'node:buffer'
 import fs from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
-import { resolveSourceImagePathByStem } from './imageUpload'
+import {
+  buildSourceImageHashIndex,
+  commitWithPreparedSourceImages,
+  prepareUploadedSourceImage,
+  previewUploadedSourceImage,
+  replaceUploadedSourceImage,
+  resolveSourceImagePathByStem,
+  syncSourceImagesWithTrash,
+  writePreparedSourceImages,
+} from './imageUpload'
 
 vi.mock('node:fs/promises', () => ({
   default: {
     access: vi.fn(),
     mkdir: vi.fn(),
     writeFile: vi.fn(),
+    rename: vi.fn(),
     unlink: vi.fn(),
+    readFile: vi.fn(),
   },
 }))
 
+vi.mock('#lib/images/sourceImageFiles', async importOriginal => ({
+  ...await importOriginal<typeof import('#lib/images/sourceImageFiles')>(),
+  listSourceImageFileNames: vi.fn(async () => ['20260208_Dorei.png', '20260226_七市.jpg']),
+}))
+
 function createEnoent() {
   const error = new Error('not found') as NodeJS.ErrnoException
   error.code = 'ENOENT'
@@ -56,3 +75,140 @@ describe('resolveSourceImagePathByStem', () => {
     expect(resolved).toBeNull()
   })
 })
+
+describe('syncSourceImagesWithTrash', () => {
+  beforeEach(() => {
+    vi.mocked(fs.access).mockReset()
+    vi.mocked(fs.rename).mockReset()
+    vi.mocked(fs.unlink).mockReset()
+  })
+
+  it('moves trashed images into .trash and restores live ones', async () => {
+    vi.mocked(fs.access).mockImplementation(async (targetPath) => {
+      if (String(targetPath).endsWith('.jpg'))
+        return
+      throw createEnoent()
+    })
+
+    await syncSourceImagesWithTrash(new Map([
+      ['20260208_Dorei', 'trashed'],
+      ['20260226_七市', 'live'],
+    ]))
+
+    const moves = vi.mocked(fs.rename).mock.calls.map(([from, to]) => [String(from), String(to)])
+    expect(moves).toHaveLength(2)
+    expect(moves[0]![0]).toMatch(/images[\\/]20260208_Dorei\.jpg$/)
+    expect(moves[0]![1]).toMatch(/\.trash[\\/]20260208_Dorei\.jpg$/)
+    expect(moves[1]![0]).toMatch(/\.trash[\\/]20260226_七市\.jpg$/)
+    expect(moves[1]![1]).toMatch(/images[\\/]20260226_七市\.jpg$/)
+  })
+
+  it('deletes trashed copies of purged commissions', async () => {
+    await syncSourceImagesWithTrash(new Map([['20260208_Dorei', 'missing']]))
+
+    const removed = vi.mocked(fs.unlink).mock.calls.map(([target]) => String(target))
+    expect(removed).toHaveLength(3)
+    expect(removed.every(target => target.includes('.trash'))).toBe(true)
+    expect(fs.rename).not.toHaveBeenCalled()
+  })
+})
+
+describe('source image uploads', () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFile).mockReset()
+    vi.mocked(fs.writeFile).mockReset()
+    vi.mocked(fs.unlink).mockReset()
+  })
+
+  async function createUpload(name: string) {
+    const data = Buffer.from(
+      await sharp(Buffer.alloc(40 * 20 * 3, 120), { raw: { width: 40, height: 20, channels: 3 } }).png().toBuffer(),
+    )
+    return { data, file: new File([new Uint8Array(data)], name, { type: 'image/png' }) }
+  }
+
+  it('rejects an upload identical to another commission image', async () => {
+    const { data, file } = await createUpload('copy.png')
+    vi.mocked(fs.readFile).mockImplementation(async targetPath =>
+      (String(targetPath).endsWith('20260226_七市.jpg') ? data : Buffer.from('other')),
+    )
+
+    await expect(previewUploadedSourceImage({ commissionFileName: '20260301_New', file })).rejects.toThrow(
+      'Uploaded image is identical to the existing source image 20260226_七市.jpg.',
+    )
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('writes the processed image and drops copies stored under another extension', async () => {
+    const { data, file } = await createUpload('same.png')
+    vi.mocked(fs.readFile).mockImplementation(async targetPath =>
+      (String(targetPath).endsWith('20260208_Dorei.png') ? data : Buffer.from('other')),
+    )
+
+    const saved = await replaceUploadedSourceImage({ commissionFileName: '20260208_Dorei', file, convertOpaquePng: true })
+
+    expect(saved.targetFileName).toBe('20260208_Dorei.jpg')
+    expect(saved.summary).toMatchObject({ ext: '.jpg', width: 40, height: 20, originalBytes: data.byteLength })
+    expect(vi.mocked(fs.writeFile).mock.calls[0]![0]).toMatch(/20260208_Dorei\.jpg$/)
+    const removed = vi.mocked(fs.unlink).mock.calls.map(([target]) => String(target))
+    expect(removed.map(target => target.slice(target.lastIndexOf('.')))).toEqual(['.jpeg', '.png'])
+  })
+
+  it('hashes the library once per shared index and checks a batch against itself', async () => {
+    const { file } = await createUpload('batch.png')
+    vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('other'))
+
+    const hashIndex = await buildSourceImageHashIndex()
+    await prepareUploadedSourceImage({ commissionFileName: '20260301_First', file }, hashIndex)
+    await expect(prepareUploadedSourceImage({ commissionFileName: '20260302_Second', file }, hashIndex)).rejects.toThrow(
+      'Uploaded image is identical to the existing source image 20260301_First.png.',
+    )
+
+    expect(fs.readFile).toHaveBeenCalledTimes(2)
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('restores the replaced files when a later write in the batch fails', async () => {
+    const previous = Buffer.from('previous')
+    vi.mocked(fs.readFile).mockImplementation(async (targetPath) => {
+      if (String(targetPath).endsWith('20260208_Dorei.png'))
+        return previous
+      throw createEnoent()
+    })
+    vi.mocked(fs.writeFile).mockImplementation(async (targetPath) => {
+      if (String(targetPath).includes('20260301_New'))
+        throw new Error('disk full')
+    })
+    const summary = { ext: '.jpg', width: 1, height: 1, bytes: 1, originalWidth: 1, originalHeight: 1, originalBytes: 1, canConvertToJpeg: false } as const
+
+    await expect(writePreparedSourceImages([
+      { image: { fileName: '20260208_Dorei', data: Buffer.from('a'), summary }, overwrite: true },
+      { image: { fileName: '20260301_New', data: Buffer.from('b'), summary }, overwrite: false },
+    ])).rejects.toThrow('disk full')
+
+    const removed = vi.mocked(fs.unlink).mock.calls.map(([target]) => path.basename(String(target)))
+    expect(removed).toEqual(['20260208_Dorei.png', '20260301_New.jpg', '20260208_Dorei.jpg'])
+    expect(vi.mocked(fs.writeFile).mock.calls.at(-1)).toEqual([expect.stringMatching(/20260208_Dorei\.png$/), previous])
+  })
+
+  it('rolls the written images back when the commit fails', async () => {
+    const previous = Buffer.from('previous')
+    vi.mocked(fs.readFile).mockImplementation(async (targetPath) => {
+      if (String(targetPath).endsWith('20260208_Dorei.png'))
+        return previous
+      throw createEnoent()
+    })
+    const summary = { ext: '.jpg', width: 1, height: 1, bytes: 1, originalWidth: 1, originalHeight: 1, originalBytes: 1, canConvertToJpeg: false } as const
+
+    await expect(commitWithPreparedSourceImages(
+      [{ image: { fileName: '20260208_Dorei', data: Buffer.from('a'), summary }, overwrite: true }],
+      () => {
+        throw new Error('constraint failed')
+      },
+    )).rejects.toThrow('constraint failed')
+
+    const removed = vi.mocked(fs.unlink).mock.calls.map(([target]) => path.basename(String(target)))
+    expect(removed).toEqual(['20260208_Dorei.png', '20260208_Dorei.jpg'])
+    expect(vi.mocked(fs.writeFile).mock.calls.at(-1)).toEqual([expect.stringMatching(/20260208_Dorei\.png$/), previous])
+  })
+})
@@ -1,12 +1,21 @@
+import type { CommissionTrashState } from '#lib/admin/trash'
+import type { ZipArchiveEntry } from '#lib/admin/zipArchive'
+import type { SourceImageProcessingSummary } from '#lib/images/sourceImageProcessing'
+import type { Buffer } from 'node:buffer'
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import process from 'node:process'
+import { collectBackupImages } from '#lib/admin/backup'
+import { computeSha256, listSourceImageFileNames } from '#lib/images/sourceImageFiles'
+import { processSourceImage } from '#lib/images/sourceImageProcessing'
 import {
   getCommissionFileNameValidationError,
   normalizeCommissionFileName,
 } from './commissionFileName'
 
 const SOURCE_IMAGES_DIR = path.join(process.cwd(), 'data', 'images')
+const TRASHED_SOURCE_IMAGES_DIR = path.join(SOURCE_IMAGES_DIR, '.trash')
+const SOURCE_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png'] as const
 
 function resolveUploadExtension(file: File): '.jpg' | '.png' | null {
   const mimeType = file.type.toLowerCase()
@@ -30,22 +39,43 @@ function validateCommissionFileName(rawValue: string): string {
   return normalizeCommissionFileName(rawValue)
 }
 
-async function ensureTargetNotExists(targetPath: string) {
-  try {
-    await fs.access(targetPath)
-    throw new Error(`Source image already exists: ${path.basename(targetPath)}`)
+/** Served source image file names by the SHA-256 of their bytes. */
+export type SourceImageHashIndex = Map<string, string[]>
+
+/**
+ * Hash every served source image once, so a request uploading several images
+ * checks them all against the same index instead of rereading the library.
+ */
+export async function buildSourceImageHashIndex(): Promise<SourceImageHashIndex> {
+  const index: SourceImageHashIndex = new Map()
+  for (const fileName of await listSourceImageFileNames(SOURCE_IMAGES_DIR)) {
+    const hash = computeSha256(await fs.readFile(path.join(SOURCE_IMAGES_DIR, fileName)))
+    index.set(hash, [...(index.get(hash) ?? []), fileName])
   }
-  catch (error) {
-    const err = error as NodeJS.ErrnoException
-    if (err.code === 'ENOENT')
-      return
-    throw error
+  return index
+}
+
+/** First indexed image matching one of `hashes`, skipping those of `ignoredStem` (the one being replaced). */
+function findDuplicateSourceImage(index: SourceImageHashIndex, hashes: string[], ignoredStem: string): string | null {
+  for (const hash of hashes) {
+    const duplicate = index.get(hash)?.find(fileName => path.parse(fileName).name !== ignoredStem)
+    if (duplicate)
+      return duplicate
   }
+  return null
+}
+
+export interface SourceImageUploadInput {
+  commissionFileName: string
+  file: File
+  /** Store PNG uploads without transparency as JPEG. */
+  convertOpaquePng?: boolean
 }
 
 export interface SavedSourceImage {
   targetPath: string
   targetFileName: string
+  summary: SourceImageProcessingSummary
 }
 
 export interface ResolvedSourceImagePath {
@@ -53,61 +83,169 @@ export interface ResolvedSourceImagePath {
   mimeType: 'image/jpeg' | 'image/png'
 }
 
-async function resolveTargetFromInput(input: { commissionFileName: string, file: File }) {
+/** An upload that passed processing and the duplicate check, ready to be written. */
+export interface PreparedSourceImage {
+  fileName: string
+  data: Buffer
+  summary: SourceImageProcessingSummary
+}
+
+/**
+ * Process an upload and reject it when it duplicates another served image. The
+ * result is recorded in `hashIndex`, so later uploads of the same request are also
+ * checked against it; without an index one is built for this upload alone.
+ */
+export async function prepareUploadedSourceImage(
+  input: SourceImageUploadInput,
+  hashIndex?: SourceImageHashIndex,
+): Promise<PreparedSourceImage> {
   const fileName = validateCommissionFileName(input.commissionFileName)
   if (input.file.size <= 0) {
     throw new Error('Uploaded image is empty.')
   }
 
-  const ext = resolveUploadExtension(input.file)
-  if (!ext) {
+  if (!resolveUploadExtension(input.file)) {
     throw new Error('Only JPG and PNG uploads are supported.')
   }
 
-  await fs.mkdir(SOURCE_IMAGES_DIR, { recursive: true })
-  const targetFileName = `${fileName}${ext}`
-  const targetPath = path.join(SOURCE_IMAGES_DIR, targetFileName)
+  const original = new Uint8Array(await input.file.arrayBuffer())
+  const { data, ...summary } = await processSourceImage(original, {
+    convertOpaquePng: input.convertOpaquePng,
+  })
+
+  // Match both the upload as sent and as it would be stored. JPEGs within the size cap
+  // are stored as sent minus metadata, so that hash is stable; re-encoded output is only
+  // byte-identical under the same sharp/libvips build and may be missed after an upgrade.
+  const index = hashIndex ?? await buildSourceImageHashIndex()
+  const hashes = [computeSha256(original), computeSha256(data)]
+  const duplicate = findDuplicateSourceImage(index, hashes, fileName)
+  if (duplicate) {
+    throw new Error(`Uploaded image is identical to the existing source image ${duplicate}.`)
+  }
+  for (const hash of hashes)
+    index.set(hash, [...(index.get(hash) ?? []), `${fileName}${summary.ext}`])
 
-  return { ext, targetPath, targetFileName }
+  return { fileName, data, summary }
 }
 
-async function writeUploadedSourceImage(input: {
-  commissionFileName: string
-  file: File
-  overwrite: boolean
-}): Promise<SavedSourceImage> {
-  const { ext, targetPath, targetFileName } = await resolveTargetFromInput(input)
-  if (!input.overwrite) {
-    await ensureTargetNotExists(targetPath)
+/**
+ * Run an upload through processing and the duplicate check without writing it,
+ * so the admin can review the stored size first.
+ */
+export async function previewUploadedSourceImage(input: SourceImageUploadInput): Promise<SourceImageProcessingSummary> {
+  const { summary } = await prepareUploadedSourceImage(input)
+  return summary
+}
+
+async function readSourceImageFiles(fileName: string) {
+  const files: Array<{ targetPath: string, data: Buffer }> = []
+  for (const ext of SOURCE_IMAGE_EXTENSIONS) {
+    const targetPath = path.join(SOURCE_IMAGES_DIR, `${fileName}${ext}`)
+    try {
+      files.push({ targetPath, data: await fs.readFile(targetPath) })
+    }
+    catch (error) {
+      const err = error as NodeJS.ErrnoException
+      if (err.code !== 'ENOENT')
+        throw error
+    }
+  }
+  return files
+}
+
+interface SourceImageWrite {
+  targetPath: string
+  previous: Array<{ targetPath: string, data: Buffer }>
+}
+
+async function writeSourceImages(
+  entries: Array<{ image: PreparedSourceImage, overwrite: boolean }>,
+  written: SourceImageWrite[],
+): Promise<SavedSourceImage[]> {
+  const saved: SavedSourceImage[] = []
+  await fs.mkdir(SOURCE_IMAGES_DIR, { recursive: true })
+  for (const { image, overwrite } of entries) {
+    const previous = await readSourceImageFiles(image.fileName)
+    if (!overwrite && previous.length > 0) {
+      throw new Error(`Source image already exists: ${path.basename(previous[0].targetPath)}`)
+    }
+
+    const targetFileName = `${image.fileName}${image.summary.ext}`
+    const targetPath = path.join(SOURCE_IMAGES_DIR, targetFileName)
+    written.push({ targetPath, previous })
+    await fs.writeFile(targetPath, image.data)
+    for (const { targetPath: previousPath } of previous) {
+      if (previousPath !== targetPath)
+        await removeSourceImageFile(previousPath)
+    }
+    saved.push({ targetPath, targetFileName, summary: image.summary })
   }
+  return saved
+}
 
-  const bytes = new Uint8Array(await input.file.arrayBuffer())
-  await fs.writeFile(targetPath, bytes)
+async function rollBackSourceImageWrites(written: SourceImageWrite[]) {
+  for (const { targetPath, previous } of written.toReversed()) {
+    await removeSourceImageFile(targetPath)
+    for (const file of previous)
+      await fs.writeFile(file.targetPath, file.data)
+  }
+}
 
-  if (input.overwrite) {
-    const normalizedStem = path.parse(targetFileName).name
-    const alternateExt = ext === '.jpg' ? '.png' : '.jpg'
-    const alternatePath = path.join(SOURCE_IMAGES_DIR, `${normalizedStem}${alternateExt}`)
-    await removeSourceImageFile(alternatePath)
+/**
+ * Write prepared images, replacing any copy under another extension when
+ * `overwrite` is set. If one write fails, every image written so far is rolled
+ * back to the files it replaced before the error is rethrown.
+ */
+export async function writePreparedSourceImages(
+  entries: Array<{ image: PreparedSourceImage, overwrite: boolean }>,
+): Promise<SavedSourceImage[]> {
+  const written: SourceImageWrite[] = []
+  try {
+    return await writeSourceImages(entries, written)
   }
+  catch (error) {
+    await rollBackSourceImageWrites(written)
+    throw error
+  }
+}
 
-  return { targetPath, targetFileName }
+/**
+ * Write prepared images, then run `commit` (typically a database transaction).
+ * When either the writes or `commit` fail, the images are rolled back to the
+ * files they replaced, so the library never diverges from the database.
+ */
+export async function commitWithPreparedSourceImages<T>(
+  entries: Array<{ image: PreparedSourceImage, overwrite: boolean }>,
+  commit: () => T,
+): Promise<T> {
+  const written: SourceImageWrite[] = []
+  try {
+    await writeSourceImages(entries, written)
+    return commit()
+  }
+  catch (error) {
+    await rollBackSourceImageWrites(written)
+    throw error
+  }
 }
 
-export async function saveUploadedSourceImage(input: {
-  commissionFileName: string
-  file: File
+async function writeUploadedSourceImage(input: SourceImageUploadInput & {
+  overwrite: boolean
+  hashIndex?: SourceImageHashIndex
 }): Promise<SavedSourceImage> {
+  const image = await prepareUploadedSourceImage(input, input.hashIndex)
+  const [saved] = await writePreparedSourceImages([{ image, overwrite: input.overwrite }])
+  return saved
+}
+
+export async function saveUploadedSourceImage(input: SourceImageUploadInput): Promise<SavedSourceImage> {
   return writeUploadedSourceImage({
     ...input,
     overwrite: false,
   })
 }
 
-export async function replaceUploadedSourceImage(input: {
-  commissionFileName: string
-  file: File
-}): Promise<SavedSourceImage> {
+export async function replaceUploadedSourceImage(input: SourceImageUploadInput): Promise<SavedSourceImage> {
   return writeUploadedSourceImage({
     ...input,
     overwrite: true,
@@ -147,3 +285,45 @@ export async function resolveSourceImagePathByStem(rawCommissionFileName: string
 
   return null
 }
+
+async function moveSourceImageFiles(fileName: string, fromDir: string, toDir: string) {
+  for (const ext of SOURCE_IMAGE_EXTENSIONS) {
+    const sourcePath = path.join(fromDir, `${fileName}${ext}`)
+    try {
+      await fs.access(sourcePath)
+    }
+    catch (error) {
+      const err = error as NodeJS.ErrnoException
+      if (err.code === 'ENOENT')
+        continue
+      throw error
+    }
+
+    await fs.mkdir(toDir, { recursive: true })
+    await fs.rename(sourcePath, path.join(toDir, `${fileName}${ext}`))
+  }
+}
+
+/**
+ * Keep source images in step with the trash state of their commissions: live
+ * rows in `data/images`, trashed rows in `data/images/.trash`, purged rows gone.
+ */
+export async function syncSourceImagesWithTrash(states: Map<string, CommissionTrashState>) {
+  for (const [fileName, state] of states) {
+    if (state === 'live') {
+      await moveSourceImageFiles(fileName, TRASHED_SOURCE_IMAGES_DIR, SOURCE_IMAGES_DIR)
+      continue
+    }
+    if (state === 'trashed') {
+      await moveSourceImageFiles(fileName, SOURCE_IMAGES_DIR, TRASHED_SOURCE_IMAGES_DIR)
+      continue
+    }
+    for (const ext of SOURCE_IMAGE_EXTENSIONS) {
+      await removeSourceImageFile(path.join(TRASHED_SOURCE_IMAGES_DIR, `${fileName}${ext}`))
+    }
+  }
+}
+
+export function collectSourceImagesForBackup(): Promise<ZipArchiveEntry[]> {
+  return collectBackupImages(SOURCE_IMAGES_DIR)
+}
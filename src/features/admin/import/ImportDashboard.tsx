@@ -0,0 +1,294 @@
+import type { FormState } from '#admin/types'
+import type { CommissionImportAction, CommissionImportPlan } from '#lib/admin/db'
+import { importCommissionsAction } from '#admin/actions'
+import { notifyDataUpdate } from '#admin/dataUpdateSignal'
+import FormStatusIndicator from '#admin/FormStatusIndicator'
+import { INITIAL_FORM_STATE } from '#admin/types'
+import { adminSurfaceStyles, formControlStyles } from '#admin/uiStyles'
+import { Button } from '#components/ui/button'
+import { useRef, useState, useTransition } from 'react'
+
+const ACTION_LABELS: Record<CommissionImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  invalid: 'Invalid',
+}
+
+const ACTION_BADGE_STYLES: Record<CommissionImportAction, string> = {
+  create: `
+    bg-emerald-100 text-emerald-800
+    dark:bg-emerald-900/40 dark:text-emerald-200
+  `,
+  update: `
+    bg-sky-100 text-sky-800
+    dark:bg-sky-900/40 dark:text-sky-200
+  `,
+  unchanged: `
+    bg-gray-100 text-gray-600
+    dark:bg-gray-800 dark:text-gray-300
+  `,
+  invalid: `
+    bg-red-100 text-red-700
+    dark:bg-red-900/40 dark:text-red-200
+  `,
+}
+
+function formatChangeValue(value: string | null) {
+  return value === null ? '∅' : value
+}
+
+function ImportPlanTable({ plan }: { plan: CommissionImportPlan }) {
+  return (
+    <div className="space-y-3">
+      <p className="
+        text-xs text-gray-600
+        dark:text-gray-300
+      "
+      >
+        {`${plan.counts.create} new · ${plan.counts.update} updated · ${plan.counts.unchanged} unchanged · ${plan.counts.invalid} invalid`}
+      </p>
+
+      {plan.unmatchedImages.length > 0
+        ? (
+            <p className="
+              text-xs text-amber-700
+              dark:text-amber-300
+            "
+            >
+              {`Images without a manifest row (ignored): ${plan.unmatchedImages.join(', ')}`}
+            </p>
+          )
+        : null}
+
+      <ul className="space-y-2">
+        {plan.rows.map(row => (
+          <li
+            key={row.line}
+            className="
+              space-y-1 rounded-lg border border-gray-200 bg-white/80 px-3 py-2
+              dark:border-gray-700 dark:bg-gray-900/50
+            "
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`
+                rounded-full px-2 py-0.5 text-[11px] font-semibold
+                ${ACTION_BADGE_STYLES[row.action]}
+              `}
+              >
+                {ACTION_LABELS[row.action]}
+              </span>
+              <span className="
+                font-mono text-xs text-gray-800
+                dark:text-gray-200
+              "
+              >
+                {row.fileName || '(missing file name)'}
+              </span>
+              <span className="
+                text-xs text-gray-500
+                dark:text-gray-400
+              "
+              >
+                {`row ${row.line}${row.characterName ? ` · ${row.characterName}` : ''}${row.replacesImage ? ' · replaces image' : ''}`}
+              </span>
+            </div>
+
+            {row.errors.map(error => (
+              <p
+                key={error}
+                className="
+                  text-xs text-red-600
+                  dark:text-red-300
+                "
+              >
+                {error}
+              </p>
+            ))}
+
+            {row.action === 'update'
+              ? (
+                  <dl className="
+                    grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs
+                    text-gray-600
+                    dark:text-gray-300
+                  "
+                  >
+                    {row.changes.map(change => (
+                      <div key={change.field} className="contents">
+                        <dt className="font-semibold">{change.field}</dt>
+                        <dd className="break-all whitespace-pre-wrap">
+                          <span className="
+                            text-red-600 line-through
+                            dark:text-red-300
+                          "
+                          >
+                            {formatChangeValue(change.before)}
+                          </span>
+                          {' → '}
+                          <span className="
+                            text-emerald-700
+                            dark:text-emerald-300
+                          "
+                          >
+                            {formatChangeValue(change.after)}
+                          </span>
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )
+              : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function ImportDashboard() {
+  const formRef = useRef<HTMLFormElement>(null)
+  const [state, setState] = useState<FormState>(INITIAL_FORM_STATE)
+  const [plan, setPlan] = useState<CommissionImportPlan | null>(null)
+  const [isPreviewFresh, setIsPreviewFresh] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const run = (dryRun: boolean) => {
+    const form = formRef.current
+    if (!form)
+      return
+
+    const formData = new FormData(form)
+    startTransition(async () => {
+      const result = await importCommissionsAction(formData, { dryRun })
+      setState(result.state)
+      setPlan(result.plan)
+      setIsPreviewFresh(dryRun && result.state.status === 'success')
+
+      if (!dryRun && result.state.status === 'success') {
+        notifyDataUpdate()
+        form.reset()
+      }
+    })
+  }
+
+  const canApply = isPreviewFresh && !isPending && (plan?.counts.create ?? 0) + (plan?.counts.update ?? 0) > 0
+
+  return (
+    <form
+      ref={formRef}
+      className={adminSurfaceStyles}
+      onChange={() => setIsPreviewFresh(false)}
+      onSubmit={(event) => {
+        event.preventDefault()
+        run(true)
+      }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="
+            text-base font-semibold text-gray-900
+            dark:text-gray-100
+          "
+          >
+            Import manifest
+          </h2>
+          <p className="
+            text-xs text-gray-500
+            dark:text-gray-400
+          "
+          >
+            CSV or JSON rows with
+            {' '}
+            <code>character</code>
+            {' (or '}
+            <code>characterId</code>
+            {'), '}
+            <code>fileName</code>
+            {', '}
+            <code>links</code>
+            {', '}
+            <code>design</code>
+            {', '}
+            <code>description</code>
+            {', '}
+            <code>keyword</code>
+            {' and '}
+            <code>hidden</code>
+            . Existing file names are updated; images are matched by file name.
+          </p>
+        </div>
+        <FormStatusIndicator
+          status={state.status}
+          message={state.message}
+          successLabel="Done"
+          errorFallback="Import failed."
+        />
+      </div>
+
+      <div className="
+        grid gap-4
+        md:grid-cols-2
+      "
+      >
+        <label className="space-y-1">
+          <span className="
+            text-xs font-semibold text-gray-700
+            dark:text-gray-200
+          "
+          >
+            Manifest (.csv or .json)
+          </span>
+          <input
+            type="file"
+            name="manifest"
+            accept=".csv,.json,text/csv,application/json"
+            required
+            className={formControlStyles}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="
+            text-xs font-semibold text-gray-700
+            dark:text-gray-200
+          "
+          >
+            Images (JPG/PNG files or a .zip)
+          </span>
+          <input
+            type="file"
+            name="images"
+            multiple
+            accept=".jpg,.jpeg,.png,.zip,image/jpeg,image/png,application/zip"
+            className={formControlStyles}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="submit" size="sm" variant="outline" disabled={isPending}>
+          {isPending ? 'Working…' : 'Preview changes'}
+        </Button>
+        <Button type="button" size="sm" disabled={!canApply} onClick={() => run(false)}>
+          Apply import
+        </Button>
+      </div>
+
+      {state.status === 'error' && state.message
+        ? (
+            <p className="
+              text-sm text-red-600
+              dark:text-red-300
+            "
+            >
+              {state.message}
+            </p>
+          )
+        : null}
+
+      {plan ? <ImportPlanTable plan={plan} /> : null}
+    </form>
+  )
+}
+
+export default ImportDashboard
@@ -8,6 +8,9 @@ function baseCommission(overrides: Partial<CommissionRow> = {}): CommissionRow {
     characterId: 1,
     characterName: 'L*cia',
     fileName: '20240819_Q (part 2)',
+    commissionDate: '20240819',
+    creatorName: 'Q',
+    partIndex: 2,
     links: [],
     design: null,
     description: 'Sample description',
@@ -34,12 +37,12 @@ describe('buildAdminCommissionSearchMetadata', () => {
     expect(result.searchText).toContain('cue')
     expect(result.searchText).toContain('sample description')
     expect(result.searchText).toContain('tag tag 別名')
-    expect(result.searchText).toContain('タグ')
+    expect(result.searchText).toContain('たぐ')
 
     const lines = result.searchSuggestionText.split('\n')
     expect(lines).toContain('Character\tL*cia')
     expect(lines).toContain('Date\t2024/08')
-    expect(lines).toContain('Creator\tQ (part 2)')
+    expect(lines).toContain('Creator\tQ')
     expect(lines).toContain('Creator\tCue')
     expect(lines).toContain('Keyword\ttag')
     expect(lines).toContain('Keyword\tタグ')
@@ -54,6 +57,9 @@ describe('buildAdminCommissionSearchMetadata', () => {
       'Studio K',
       baseCommission({
         fileName: '20251203',
+        commissionDate: '20251203',
+        creatorName: null,
+        partIndex: null,
         keyword: null,
         description: null,
       }),
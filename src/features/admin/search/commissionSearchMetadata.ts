@@ -4,16 +4,18 @@ import { buildCommissionSearchMetadata } from '#lib/search/commissionSearchMetad
 export interface AdminCommissionSearchMetadata {
   searchText: string
   searchSuggestionText: string
+  searchFieldText: string
 }
 
 function includeFileNameInSearchText(baseSearchText: string, fileName: string) {
   return `${baseSearchText} ${fileName}`.toLowerCase()
 }
 
-export function buildAdminCommissionSearchMetadata(characterName: string, commission: Pick<CommissionRow, 'fileName' | 'design' | 'description' | 'keyword'>, creatorAliasesMap: Map<string, string[]>, keywordAliasesMap?: Map<string, string[]>): AdminCommissionSearchMetadata {
+export function buildAdminCommissionSearchMetadata(characterName: string, commission: Pick<CommissionRow, 'fileName' | 'commissionDate' | 'creatorName' | 'design' | 'description' | 'keyword'>, creatorAliasesMap: Map<string, string[]>, keywordAliasesMap?: Map<string, string[]>): AdminCommissionSearchMetadata {
   const metadata = buildCommissionSearchMetadata({
     characterName,
-    fileName: commission.fileName,
+    commissionDate: commission.commissionDate ?? '',
+    creatorName: commission.creatorName,
     design: commission.design,
     description: commission.description,
     keyword: commission.keyword,
@@ -26,5 +28,6 @@ export function buildAdminCommissionSearchMetadata(characterName: string, commis
   return {
     searchText: includeFileNameInSearchText(metadata.searchText, commission.fileName),
     searchSuggestionText: metadata.searchSuggestionText,
+    searchFieldText: metadata.searchFieldText,
   }
 }
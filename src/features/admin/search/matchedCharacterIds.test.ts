@@ -12,6 +12,8 @@ const rows: AdminCommissionSearchRow[] = [
     characterId: 11,
     characterName: 'A',
     fileName: '20240101_a',
+    commissionDate: '20240101',
+    creatorName: 'a',
     design: null,
     description: null,
     keyword: null,
@@ -21,6 +23,8 @@ const rows: AdminCommissionSearchRow[] = [
     characterId: 22,
     characterName: 'B',
     fileName: '20240102_b',
+    commissionDate: '20240102',
+    creatorName: 'b',
     design: null,
     description: null,
     keyword: null,
@@ -30,6 +34,8 @@ const rows: AdminCommissionSearchRow[] = [
     characterId: 11,
     characterName: 'A',
     fileName: '20240103_a',
+    commissionDate: '20240103',
+    creatorName: 'a',
     design: null,
     description: null,
     keyword: null,
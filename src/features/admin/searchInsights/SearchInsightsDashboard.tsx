@@ -0,0 +1,197 @@
+import type { AliasKind } from '#admin/aliases/aliasPrefill'
+import type { SearchInsights, SearchQueryStat } from '#lib/search/queryLog'
+import { buildAliasPrefillHref } from '#admin/aliases/aliasPrefill'
+import { adminSurfaceStyles, formControlStyles } from '#admin/uiStyles'
+import { useState } from 'react'
+
+export interface AliasTargets {
+  characters: string[]
+  creators: string[]
+  keywords: string[]
+}
+
+interface SearchInsightsDashboardProps {
+  insights: SearchInsights
+  aliasTargets: AliasTargets
+}
+
+const dateTimeFormatter = new Intl.DateTimeFormat('en-CA', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+})
+
+const ALIAS_TARGET_GROUPS: Array<{ kind: AliasKind, label: string, key: keyof AliasTargets }> = [
+  { kind: 'character', label: 'Character', key: 'characters' },
+  { kind: 'creator', label: 'Creator', key: 'creators' },
+  { kind: 'keyword', label: 'Keyword', key: 'keywords' },
+]
+
+const panelHeaderTitleStyles = 'text-base font-semibold text-gray-900 dark:text-gray-100'
+const panelHeaderDescriptionStyles = 'text-sm text-gray-600 dark:text-gray-300'
+const tableHeaderStyles
+  = 'hidden gap-4 border-b border-gray-200/80 px-4 py-2 text-xs font-semibold tracking-wide text-gray-500 uppercase md:grid dark:border-gray-700/80 dark:text-gray-300'
+const tableRowStyles
+  = 'grid gap-2 border-t border-gray-200/80 px-4 py-3 first:border-t-0 md:items-center md:gap-4 dark:border-gray-700/80'
+const topQueriesGridTemplate = 'md:grid-cols-[minmax(0,1fr)_6rem_6rem_10rem]'
+const zeroResultGridTemplate = 'md:grid-cols-[minmax(0,1fr)_6rem_minmax(14rem,20rem)]'
+const mutedTextStyles = 'text-xs text-gray-500 dark:text-gray-400'
+const linkButtonStyles
+  = 'inline-flex shrink-0 items-center rounded-lg border border-gray-300 px-3 py-2 text-xs font-medium text-gray-800 no-underline transition hover:border-gray-500 aria-disabled:pointer-events-none aria-disabled:opacity-50 dark:border-gray-600 dark:text-gray-200'
+
+function QueryLabel({ stat }: { stat: SearchQueryStat }) {
+  return (
+    <div className="min-w-0 space-y-1">
+      <div className="
+        truncate font-mono text-sm text-gray-900
+        dark:text-gray-100
+      "
+      >
+        {stat.query}
+      </div>
+      <p className={mutedTextStyles}>
+        {stat.locales.join(', ')}
+        {' · '}
+        {dateTimeFormatter.format(new Date(stat.lastSearchedAt))}
+      </p>
+    </div>
+  )
+}
+
+/** Target picker plus a link that opens the aliases form with the query pre-filled. */
+function SuggestAliasControl({ aliasTargets, query }: { aliasTargets: AliasTargets, query: string }) {
+  const [selection, setSelection] = useState('')
+  const separatorIndex = selection.indexOf(':')
+  const href = separatorIndex > 0
+    ? buildAliasPrefillHref({
+        kind: selection.slice(0, separatorIndex) as AliasKind,
+        target: selection.slice(separatorIndex + 1),
+        alias: query,
+      })
+    : undefined
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label={`Alias target for ${query}`}
+        value={selection}
+        onChange={event => setSelection(event.target.value)}
+        className={formControlStyles}
+      >
+        <option value="">Add as alias of…</option>
+        {ALIAS_TARGET_GROUPS.map(group => (
+          <optgroup key={group.kind} label={group.label}>
+            {aliasTargets[group.key].map(target => (
+              <option key={target} value={`${group.kind}:${target}`}>{target}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      <a href={href} aria-disabled={!href} className={linkButtonStyles}>
+        Suggest alias
+      </a>
+    </div>
+  )
+}
+
+function SearchInsightsDashboard({ insights, aliasTargets }: SearchInsightsDashboardProps) {
+  return (
+    <section className="space-y-6">
+      <p className="
+        text-sm text-gray-600
+        dark:text-gray-300
+      "
+      >
+        {insights.totalSearches}
+        {' '}
+        logged search
+        {insights.totalSearches === 1 ? '' : 'es'}
+        {' · '}
+        {insights.uniqueQueries}
+        {' '}
+        unique quer
+        {insights.uniqueQueries === 1 ? 'y' : 'ies'}
+      </p>
+
+      <div className={adminSurfaceStyles}>
+        <div className="space-y-1">
+          <h2 className={panelHeaderTitleStyles}>Zero-result queries</h2>
+          <p className={panelHeaderDescriptionStyles}>
+            Queries whose latest search matched nothing. Map them onto an existing character,
+            creator or keyword to make them findable.
+          </p>
+        </div>
+
+        {insights.zeroResultQueries.length === 0
+          ? <p className={panelHeaderDescriptionStyles}>No zero-result queries logged.</p>
+          : (
+              <div>
+                <div className={`
+                  ${tableHeaderStyles}
+                  ${zeroResultGridTemplate}
+                `}
+                >
+                  <div>Query</div>
+                  <div>Searches</div>
+                  <div>Alias</div>
+                </div>
+                {insights.zeroResultQueries.map(stat => (
+                  <div
+                    key={stat.query}
+                    className={`
+                      ${tableRowStyles}
+                      ${zeroResultGridTemplate}
+                    `}
+                  >
+                    <QueryLabel stat={stat} />
+                    <div className="tabular-nums">{stat.count}</div>
+                    <SuggestAliasControl aliasTargets={aliasTargets} query={stat.query} />
+                  </div>
+                ))}
+              </div>
+            )}
+      </div>
+
+      <div className={adminSurfaceStyles}>
+        <div className="space-y-1">
+          <h2 className={panelHeaderTitleStyles}>Top queries</h2>
+          <p className={panelHeaderDescriptionStyles}>
+            Most searched queries with the matched count of their latest search.
+          </p>
+        </div>
+
+        {insights.topQueries.length === 0
+          ? <p className={panelHeaderDescriptionStyles}>No searches logged yet.</p>
+          : (
+              <div>
+                <div className={`
+                  ${tableHeaderStyles}
+                  ${topQueriesGridTemplate}
+                `}
+                >
+                  <div>Query</div>
+                  <div>Searches</div>
+                  <div>Matches</div>
+                  <div>Zero-result searches</div>
+                </div>
+                {insights.topQueries.map(stat => (
+                  <div
+                    key={stat.query}
+                    className={`
+                      ${tableRowStyles}
+                      ${topQueriesGridTemplate}
+                    `}
+                  >
+                    <QueryLabel stat={stat} />
+                    <div className="tabular-nums">{stat.count}</div>
+                    <div className="tabular-nums">{stat.lastMatchedCount}</div>
+                    <div className="tabular-nums">{stat.zeroResultCount}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+      </div>
+    </section>
+  )
+}
+
+export default SearchInsightsDashboard
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { describeSourceImagePreview, formatByteSize } from './sourceImagePreview'
+
+describe('describeSourceImagePreview', () => {
+  const preview = {
+    ext: '.jpg' as const,
+    width: 4096,
+    height: 2048,
+    bytes: 1024 * 1024,
+    originalWidth: 8000,
+    originalHeight: 4000,
+    originalBytes: 4 * 1024 * 1024,
+    canConvertToJpeg: false,
+  }
+
+  it('describes resizing and byte savings', () => {
+    expect(describeSourceImagePreview(preview)).toEqual({
+      dimensions: '8000×4000 → 4096×2048',
+      size: '4.0 MB → 1.0 MB',
+      savings: '3.0 MB smaller (75%)',
+    })
+  })
+
+  it('keeps a single size when nothing was resized and reports growth', () => {
+    expect(describeSourceImagePreview({
+      ...preview,
+      originalWidth: 4096,
+      originalHeight: 2048,
+      originalBytes: 800 * 1024,
+    })).toMatchObject({
+      dimensions: '4096×2048',
+      savings: '224.0 KB larger (+28%)',
+    })
+  })
+})
+
+describe('formatByteSize', () => {
+  it('keeps whole bytes and scales larger sizes', () => {
+    expect(formatByteSize(512)).toBe('512 B')
+    expect(formatByteSize(1536)).toBe('1.5 KB')
+  })
+})
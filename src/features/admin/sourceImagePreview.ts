@@ -0,0 +1,30 @@
+import type { SourceImageProcessingSummary } from '#lib/images/sourceImageProcessing'
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'] as const
+
+export function formatByteSize(bytes: number) {
+  let value = bytes
+  let unitIndex = 0
+  while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unitIndex += 1
+  }
+  return `${unitIndex === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unitIndex]}`
+}
+
+/** Size lines shown before a processed upload is stored, e.g. `4000×3000 → 4096×3072`. */
+export function describeSourceImagePreview(preview: SourceImageProcessingSummary) {
+  const isResized = preview.width !== preview.originalWidth || preview.height !== preview.originalHeight
+  const savedBytes = preview.originalBytes - preview.bytes
+  const savedPercent = preview.originalBytes > 0 ? Math.round((savedBytes / preview.originalBytes) * 100) : 0
+
+  return {
+    dimensions: isResized
+      ? `${preview.originalWidth}×${preview.originalHeight} → ${preview.width}×${preview.height}`
+      : `${preview.width}×${preview.height}`,
+    size: `${formatByteSize(preview.originalBytes)} → ${formatByteSize(preview.bytes)}`,
+    savings: savedBytes >= 0
+      ? `${formatByteSize(savedBytes)} smaller (${savedPercent}%)`
+      : `${formatByteSize(-savedBytes)} larger (+${-savedPercent}%)`,
+  }
+}
@@ -0,0 +1,206 @@
+import type { TrashItemKind } from '#admin/actions'
+import type { FormState } from '#admin/types'
+import type { AdminTrashData } from '#lib/admin/db'
+import { purgeTrashItemAction, restoreTrashItemAction } from '#admin/actions'
+import { notifyDataUpdate } from '#admin/dataUpdateSignal'
+import FormStatusIndicator from '#admin/FormStatusIndicator'
+import { useAdminBootstrap } from '#admin/hooks/useAdminBootstrap'
+import { INITIAL_FORM_STATE } from '#admin/types'
+import { adminSurfaceStyles } from '#admin/uiStyles'
+import { Button } from '#components/ui/button'
+import { useState, useTransition } from 'react'
+
+interface TrashDashboardProps {
+  initialPayload: AdminTrashData
+}
+
+interface TrashItem {
+  kind: TrashItemKind
+  id: number
+  title: string
+  detail: string
+  deletedAt: string
+}
+
+const TRASH_ENDPOINT = '/api/admin/trash'
+
+const dateTimeFormatter = new Intl.DateTimeFormat('en-CA', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+})
+
+function formatTimestamp(value: string) {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : dateTimeFormatter.format(date)
+}
+
+function toTrashItems(payload: AdminTrashData): TrashItem[] {
+  return [
+    ...payload.characters.map<TrashItem>(character => ({
+      kind: 'characters',
+      id: character.id,
+      title: character.name,
+      detail: `Character · ${character.commissionCount} commission(s)`,
+      deletedAt: character.deletedAt,
+    })),
+    ...payload.commissions.map<TrashItem>(commission => ({
+      kind: 'commissions',
+      id: commission.id,
+      title: commission.fileName,
+      detail: `Commission · ${commission.characterName}`,
+      deletedAt: commission.deletedAt,
+    })),
+  ].toSorted((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+}
+
+function TrashDashboard({ initialPayload }: TrashDashboardProps) {
+  const { payload, errorMessage, reload } = useAdminBootstrap<AdminTrashData>({
+    endpoint: TRASH_ENDPOINT,
+    errorFallback: 'Unable to load the trash.',
+    subscribeUpdates: true,
+    initialPayload,
+  })
+  const [state, setState] = useState<FormState>(INITIAL_FORM_STATE)
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+  const [armedPurgeKey, setArmedPurgeKey] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const items = toTrashItems(payload ?? initialPayload)
+
+  const runAction = (item: TrashItem, action: 'restore' | 'purge') => {
+    const key = `${item.kind}:${item.id}`
+    if (action === 'purge' && armedPurgeKey !== key) {
+      setArmedPurgeKey(key)
+      return
+    }
+
+    setArmedPurgeKey(null)
+    setPendingKey(key)
+    startTransition(async () => {
+      const result = action === 'restore'
+        ? await restoreTrashItemAction(item.kind, item.id)
+        : await purgeTrashItemAction(item.kind, item.id)
+      setState(result)
+      setPendingKey(null)
+      if (result.status === 'success') {
+        notifyDataUpdate()
+        reload()
+      }
+    })
+  }
+
+  return (
+    <section className={adminSurfaceStyles}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="
+            text-base font-semibold text-gray-900
+            dark:text-gray-100
+          "
+          >
+            Deleted items
+          </h2>
+          <p className="
+            text-xs text-gray-500
+            dark:text-gray-400
+          "
+          >
+            Trashed rows are hidden from the site. Restoring a character also restores the
+            commissions deleted with it; permanent deletion removes their source images too.
+          </p>
+        </div>
+        <FormStatusIndicator
+          status={state.status}
+          message={state.message}
+          successLabel="Done"
+          errorFallback="Unable to update the trash."
+        />
+      </div>
+
+      {errorMessage
+        ? (
+            <p className="
+              text-sm text-red-600
+              dark:text-red-300
+            "
+            >
+              {errorMessage}
+            </p>
+          )
+        : null}
+
+      {items.length === 0
+        ? (
+            <p className="
+              text-sm text-gray-500
+              dark:text-gray-400
+            "
+            >
+              The trash is empty.
+            </p>
+          )
+        : (
+            <ul className="space-y-2">
+              {items.map((item) => {
+                const key = `${item.kind}:${item.id}`
+                const pending = isPending && pendingKey === key
+                const purgeArmed = armedPurgeKey === key
+
+                return (
+                  <li
+                    key={key}
+                    className="
+                      flex flex-wrap items-center justify-between gap-3
+                      rounded-lg border border-gray-200 bg-white/80 px-4 py-3
+                      dark:border-gray-700 dark:bg-gray-900/50
+                    "
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <p className="
+                        truncate font-medium text-gray-900
+                        dark:text-gray-100
+                      "
+                      >
+                        {item.title}
+                      </p>
+                      <p className="
+                        text-xs text-gray-500
+                        dark:text-gray-400
+                      "
+                      >
+                        {item.detail}
+                        {' · deleted '}
+                        {formatTimestamp(item.deletedAt)}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={pending}
+                        onClick={() => runAction(item, 'restore')}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="destructive"
+                        disabled={pending}
+                        onClick={() => runAction(item, 'purge')}
+                      >
+                        {purgeArmed ? 'Confirm permanent delete' : 'Delete permanently'}
+                      </Button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+    </section>
+  )
+}
+
+export default TrashDashboard
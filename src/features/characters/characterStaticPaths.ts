@@ -0,0 +1,12 @@
+import { getCommissionData } from '#data/commissionData'
+import { buildCharacterPageEntries } from '#lib/characters/pages'
+
+/**
+ * `getStaticPaths` result shared by the `/characters/[slug]` page of every locale.
+ */
+export function getCharacterStaticPaths() {
+  return buildCharacterPageEntries(getCommissionData()).map(entry => ({
+    params: { slug: entry.slug },
+    props: { entry },
+  }))
+}
@@ -0,0 +1,12 @@
+import type { HomeLocale } from '#features/home/i18n/homeLocale'
+import { getCreatorSlug } from '#lib/creators/pages'
+import { getRelativeLocaleUrl } from 'astro:i18n'
+
+/**
+ * Locale-aware `/creators/[slug]/` URL for a creator name; null when the name
+ * has no page (anonymous entries or names without letters or digits).
+ */
+export function getCreatorPageHref(locale: HomeLocale, creatorName?: string | null): string | null {
+  const slug = creatorName ? getCreatorSlug(creatorName) : ''
+  return slug ? getRelativeLocaleUrl(locale, `creators/${slug}`) : null
+}
@@ -0,0 +1,12 @@
+import { getCommissionData } from '#data/commissionData'
+import { buildCreatorPageEntries } from '#lib/creators/pages'
+
+/**
+ * `getStaticPaths` result shared by the `/creators/[slug]` page of every locale.
+ */
+export function getCreatorStaticPaths() {
+  return buildCreatorPageEntries(getCommissionData()).map(entry => ({
+    params: { slug: entry.slug },
+    props: { entry },
+  }))
+}
@@ -36,7 +36,7 @@ function normalizeImageUrl(url: string, win: Window) {
   }
 }
 
-function parseSrcSetCandidates(srcSet: string, win: Window): SrcSetCandidate[] {
+export function parseSrcSetCandidates(srcSet: string, win: Window): SrcSetCandidate[] {
   if (!srcSet)
     return []
 
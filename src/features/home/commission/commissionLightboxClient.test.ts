@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest'
+import { listCommissionLightboxSlides, mountCommissionLightbox } from './commissionLightboxClient'
+
+function renderImage(name: string, alt: string) {
+  return `
+    <div data-commission-image="true" data-commission-alt="${alt}" role="button" tabindex="0">
+      <img
+        data-commission-image-node="true"
+        src="/images/${name}-768.webp"
+        srcset="/images/${name}-640.webp 640w, /images/${name}-1280.webp 1280w, /images/${name}-768.webp 768w"
+        alt="${alt}"
+      />
+    </div>
+  `
+}
+
+function renderEntry(id: string, alt: string, { hidden = false } = {}) {
+  return `
+    <article id="${id}" data-commission-entry="true" class="${hidden ? 'hidden' : ''}">
+      ${renderImage(id, alt)}
+    </article>
+  `
+}
+
+function renderPage() {
+  document.body.innerHTML = `
+    <template data-commission-lightbox-template="true">
+      <div data-commission-lightbox="true" role="dialog">
+        <button type="button" data-commission-lightbox-close>×</button>
+        <figure data-commission-lightbox-figure data-commission-image="true">
+          <img data-commission-lightbox-image alt="" />
+          <figcaption data-commission-lightbox-caption></figcaption>
+        </figure>
+        <button type="button" data-commission-lightbox-previous>‹</button>
+        <span data-commission-lightbox-position></span>
+        <button type="button" data-commission-lightbox-next>›</button>
+      </div>
+    </template>
+    <div data-commission-view-panel="character" data-commission-view-active="true">
+      ${renderEntry('alpha-1', 'Alpha one')}
+      ${renderEntry('alpha-2', 'Alpha two', { hidden: true })}
+      ${renderEntry('alpha-3', 'Alpha three')}
+      <article id="alpha-4" data-commission-entry="true"><div data-commission-image="true"></div></article>
+    </div>
+    <div data-commission-view-panel="timeline" data-commission-view-active="false">
+      ${renderEntry('timeline-1', 'Timeline one')}
+    </div>
+  `
+  for (const element of document.querySelectorAll<HTMLElement>('[data-commission-entry]'))
+    element.scrollIntoView = () => {}
+}
+
+function openEntry(id: string) {
+  document.querySelector<HTMLImageElement>(`#${id} img`)!.click()
+}
+
+const getLightbox = () => document.querySelector<HTMLElement>('[data-commission-lightbox="true"]')
+const getLightboxImage = () => document.querySelector<HTMLImageElement>('[data-commission-lightbox-image]')!
+const pressKey = (key: string) => window.dispatchEvent(new KeyboardEvent('keydown', { key, cancelable: true }))
+
+describe('listCommissionLightboxSlides', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('lists only visible entries with an image in page order', () => {
+    renderPage()
+
+    expect(listCommissionLightboxSlides(document).map(slide => slide.entry.id)).toEqual(['alpha-1', 'alpha-3'])
+  })
+})
+
+describe('mountCommissionLightbox', () => {
+  let cleanup = () => {}
+
+  afterEach(() => {
+    cleanup()
+    document.body.innerHTML = ''
+    document.body.style.overflow = ''
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('opens the widest variant of the clicked image and locks page scroll', () => {
+    renderPage()
+    cleanup = mountCommissionLightbox()
+
+    openEntry('alpha-1')
+
+    expect(getLightbox()).not.toBeNull()
+    expect(getLightboxImage().getAttribute('src')).toBe('http://localhost:3000/images/alpha-1-1280.webp')
+    expect(getLightboxImage().alt).toBe('Alpha one')
+    expect(document.querySelector('[data-commission-lightbox-position]')?.textContent).toBe('1 / 2')
+    expect(document.querySelector<HTMLButtonElement>('[data-commission-lightbox-previous]')?.disabled).toBe(true)
+    expect(document.body.style.overflow).toBe('hidden')
+    expect(window.location.hash).toBe('#alpha-1')
+  })
+
+  it('steps through visible entries with the arrow keys and closes on Escape', () => {
+    renderPage()
+    cleanup = mountCommissionLightbox()
+    openEntry('alpha-1')
+
+    pressKey('ArrowRight')
+    expect(getLightboxImage().alt).toBe('Alpha three')
+    expect(window.location.hash).toBe('#alpha-3')
+    expect(document.querySelector<HTMLButtonElement>('[data-commission-lightbox-next]')?.disabled).toBe(true)
+
+    pressKey('ArrowRight')
+    expect(getLightboxImage().alt).toBe('Alpha three')
+
+    pressKey('Escape')
+    expect(getLightbox()).toBeNull()
+    expect(document.body.style.overflow).toBe('')
+    expect(document.activeElement).toBe(document.querySelector('#alpha-3 [data-commission-image="true"]'))
+  })
+
+  it('opens from the keyboard on a focused image', () => {
+    renderPage()
+    cleanup = mountCommissionLightbox()
+
+    const trigger = document.querySelector<HTMLElement>('#alpha-3 [data-commission-image="true"]')!
+    trigger.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true }))
+
+    expect(getLightboxImage().alt).toBe('Alpha three')
+  })
+
+  it('navigates on horizontal swipes and closes on a backdrop click', () => {
+    renderPage()
+    cleanup = mountCommissionLightbox()
+    openEntry('alpha-3')
+
+    const lightbox = getLightbox()!
+    const swipe = (fromX: number, toX: number) => {
+      lightbox.dispatchEvent(new TouchEvent('touchstart', { touches: [{ clientX: fromX, clientY: 100 } as Touch] }))
+      lightbox.dispatchEvent(new TouchEvent('touchend', { changedTouches: [{ clientX: toX, clientY: 100 } as Touch] }))
+    }
+
+    swipe(100, 80)
+    expect(getLightboxImage().alt).toBe('Alpha three')
+
+    swipe(100, 200)
+    expect(getLightboxImage().alt).toBe('Alpha one')
+
+    lightbox.click()
+    expect(getLightbox()).toBeNull()
+  })
+
+  it('steps through the parts of a multi-part entry and leaves it on the last part shown', () => {
+    renderPage()
+    document.querySelector('#alpha-3')!.insertAdjacentHTML('afterend', `
+      <article id="beta-1" data-commission-entry="true">
+        <div data-commission-parts="true">
+          <div data-commission-part="0">${renderImage('part-1', 'Beta')}</div>
+          <div data-commission-part="1" hidden>${renderImage('part-2', 'Beta')}</div>
+          <span data-commission-part-position>1 / 2</span>
+        </div>
+      </article>
+    `)
+    document.querySelector<HTMLElement>('#beta-1')!.scrollIntoView = () => {}
+    cleanup = mountCommissionLightbox()
+    openEntry('alpha-3')
+
+    pressKey('ArrowRight')
+    pressKey('ArrowRight')
+    expect(getLightboxImage().getAttribute('src')).toBe('http://localhost:3000/images/part-2-1280.webp')
+    expect(document.querySelector('[data-commission-lightbox-position]')?.textContent).toBe('4 / 4')
+    expect(window.location.hash).toBe('#beta-1')
+
+    pressKey('Escape')
+    const parts = [...document.querySelectorAll<HTMLElement>('#beta-1 [data-commission-part]')]
+    expect(parts.map(part => part.hidden)).toEqual([true, false])
+    expect(document.querySelector('#beta-1 [data-commission-part-position]')?.textContent).toBe('2 / 2')
+  })
+})
@@ -0,0 +1,245 @@
+import { parseSrcSetCandidates } from './commissionImageVariantTracker'
+import { showCommissionPart } from './commissionPartCarouselClient'
+
+const TEMPLATE_SELECTOR = 'template[data-commission-lightbox-template="true"]'
+const ROOT_SELECTOR = '[data-commission-lightbox="true"]'
+const TRIGGER_SELECTOR = '[data-commission-image="true"]'
+const ENTRY_SELECTOR = '[data-commission-entry="true"]'
+const IMAGE_NODE_SELECTOR = 'img[data-commission-image-node="true"]'
+const INACTIVE_VIEW_PANEL_SELECTOR = '[data-commission-view-panel][data-commission-view-active="false"]'
+const HIDDEN_SELECTOR = '.hidden, [hidden]'
+const PARTS_SELECTOR = '[data-commission-parts="true"]'
+const PART_SELECTOR = '[data-commission-part]'
+const SWIPE_MIN_DISTANCE_PX = 48
+
+export interface CommissionLightboxImage {
+  src: string
+  alt: string
+}
+
+export interface CommissionLightboxSlide {
+  entry: HTMLElement
+  image: HTMLImageElement
+}
+
+/**
+ * Images the visitor can step through, in page order: every part of the entries
+ * currently shown. Search-filtered entries, collapsed sections and the inactive view
+ * panel are skipped.
+ */
+export function listCommissionLightboxSlides(doc: Document): CommissionLightboxSlide[] {
+  return [...doc.querySelectorAll<HTMLElement>(ENTRY_SELECTOR)]
+    .filter(entry =>
+      !!entry.id
+      && !entry.closest(HIDDEN_SELECTOR)
+      && !entry.closest(INACTIVE_VIEW_PANEL_SELECTOR),
+    )
+    .flatMap(entry => Array.from(
+      entry.querySelectorAll<HTMLImageElement>(IMAGE_NODE_SELECTOR),
+      image => ({ entry, image }),
+    ))
+}
+
+/** Widest srcset candidate of an entry image, so the lightbox shows the 1280 variant. */
+export function resolveCommissionLightboxImage(image: HTMLImageElement, win: Window): CommissionLightboxImage {
+  const widest = parseSrcSetCandidates(image.getAttribute('srcset') ?? '', win)
+    .reduce<{ url: string, width: number | null } | null>(
+      (best, candidate) => (candidate.width ?? 0) > (best?.width ?? 0) ? candidate : best,
+      null,
+    )
+  const alt = image.closest<HTMLElement>(TRIGGER_SELECTOR)?.dataset.commissionAlt ?? image.alt
+  return { src: widest?.url || image.currentSrc || image.src, alt }
+}
+
+function resolveTriggerImage(target: EventTarget | null) {
+  if (!(target instanceof Element))
+    return null
+  return target.closest<HTMLElement>(TRIGGER_SELECTOR)?.querySelector<HTMLImageElement>(IMAGE_NODE_SELECTOR) ?? null
+}
+
+/** Leaves a multi-part entry on the part last shown in the lightbox. */
+function syncShownPart(image: HTMLImageElement) {
+  const part = image.closest<HTMLElement>(PART_SELECTOR)
+  const root = part?.closest<HTMLElement>(PARTS_SELECTOR)
+  if (part && root)
+    showCommissionPart(root, Number(part.dataset.commissionPart))
+}
+
+/**
+ * Click (or Enter/Space on a focused image) opens the entry image in an overlay.
+ * Arrow keys and horizontal swipes step through the visible entries and their parts,
+ * and the address hash follows the shown entry so it can be deep-linked.
+ */
+export function mountCommissionLightbox({
+  win = window,
+  doc = document,
+}: {
+  win?: Window
+  doc?: Document
+} = {}) {
+  const template = doc.querySelector<HTMLTemplateElement>(TEMPLATE_SELECTOR)
+  if (!template)
+    return () => {}
+
+  let root: HTMLElement | null = null
+  let slides: CommissionLightboxSlide[] = []
+  let index = -1
+  let openedEntry: HTMLElement | null = null
+  let previousBodyOverflow = ''
+  let touchStart: { x: number, y: number } | null = null
+
+  const query = <T extends Element>(selector: string) => root?.querySelector<T>(selector) ?? null
+
+  const show = (nextIndex: number) => {
+    const slide = slides[nextIndex]
+    if (!slide)
+      return
+
+    const { entry } = slide
+    const image = resolveCommissionLightboxImage(slide.image, win)
+    index = nextIndex
+    const imageNode = query<HTMLImageElement>('[data-commission-lightbox-image]')
+    const figure = query<HTMLElement>('[data-commission-lightbox-figure]')
+    if (imageNode) {
+      imageNode.src = image.src
+      imageNode.alt = image.alt
+    }
+    if (figure)
+      figure.dataset.commissionAlt = image.alt
+    const caption = query<HTMLElement>('[data-commission-lightbox-caption]')
+    if (caption)
+      caption.textContent = image.alt
+    const position = query<HTMLElement>('[data-commission-lightbox-position]')
+    if (position)
+      position.textContent = `${index + 1} / ${slides.length}`
+    const previousButton = query<HTMLButtonElement>('[data-commission-lightbox-previous]')
+    const nextButton = query<HTMLButtonElement>('[data-commission-lightbox-next]')
+    if (previousButton)
+      previousButton.disabled = index === 0
+    if (nextButton)
+      nextButton.disabled = index === slides.length - 1
+
+    const url = new URL(win.location.href)
+    url.hash = entry.id
+    win.history.replaceState(win.history.state, '', `${url.pathname}${url.search}${url.hash}`)
+  }
+
+  const close = () => {
+    if (!root)
+      return
+    root.remove()
+    root = null
+    doc.body.style.overflow = previousBodyOverflow
+
+    const current = slides[index]
+    if (current) {
+      syncShownPart(current.image)
+      if (current.entry !== openedEntry)
+        current.entry.scrollIntoView({ block: 'center' })
+      current.image.closest<HTMLElement>(TRIGGER_SELECTOR)?.focus({ preventScroll: true })
+    }
+    slides = []
+    index = -1
+    openedEntry = null
+  }
+
+  const step = (delta: number) => {
+    const nextIndex = index + delta
+    if (nextIndex >= 0 && nextIndex < slides.length)
+      show(nextIndex)
+  }
+
+  const onRootClick = (event: MouseEvent) => {
+    const target = event.target as Element | null
+    if (target === root || target?.closest('[data-commission-lightbox-close]'))
+      close()
+    else if (target?.closest('[data-commission-lightbox-previous]'))
+      step(-1)
+    else if (target?.closest('[data-commission-lightbox-next]'))
+      step(1)
+  }
+
+  const onTouchStart = (event: TouchEvent) => {
+    const touch = event.touches[0]
+    touchStart = touch ? { x: touch.clientX, y: touch.clientY } : null
+  }
+
+  const onTouchEnd = (event: TouchEvent) => {
+    const touch = event.changedTouches[0]
+    if (!touchStart || !touch)
+      return
+    const deltaX = touch.clientX - touchStart.x
+    const deltaY = touch.clientY - touchStart.y
+    touchStart = null
+    if (Math.abs(deltaX) >= SWIPE_MIN_DISTANCE_PX && Math.abs(deltaX) > Math.abs(deltaY))
+      step(deltaX < 0 ? 1 : -1)
+  }
+
+  const open = (image: HTMLImageElement) => {
+    const visibleSlides = listCommissionLightboxSlides(doc)
+    const slideIndex = visibleSlides.findIndex(slide => slide.image === image)
+    if (slideIndex === -1)
+      return
+
+    if (!root) {
+      const fragment = template.content.cloneNode(true) as DocumentFragment
+      root = fragment.querySelector<HTMLElement>(ROOT_SELECTOR)
+      if (!root)
+        return
+      root.addEventListener('click', onRootClick)
+      root.addEventListener('touchstart', onTouchStart, { passive: true })
+      root.addEventListener('touchend', onTouchEnd)
+      doc.body.append(root)
+      previousBodyOverflow = doc.body.style.overflow
+      doc.body.style.overflow = 'hidden'
+    }
+
+    slides = visibleSlides
+    openedEntry = visibleSlides[slideIndex].entry
+    show(slideIndex)
+    query<HTMLElement>('[data-commission-lightbox-close]')?.focus()
+  }
+
+  const onDocumentClick = (event: MouseEvent) => {
+    if (event.button !== 0 || event.defaultPrevented)
+      return
+    const image = resolveTriggerImage(event.target)
+    if (image)
+      open(image)
+  }
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (root) {
+      if (event.key === 'Escape')
+        close()
+      else if (event.key === 'ArrowLeft')
+        step(-1)
+      else if (event.key === 'ArrowRight')
+        step(1)
+      else
+        return
+      event.preventDefault()
+      return
+    }
+
+    if (event.key !== 'Enter' && event.key !== ' ')
+      return
+    const target = event.target as Element | null
+    if (!target?.matches(TRIGGER_SELECTOR))
+      return
+    const image = resolveTriggerImage(target)
+    if (!image)
+      return
+    event.preventDefault()
+    open(image)
+  }
+
+  doc.addEventListener('click', onDocumentClick)
+  win.addEventListener('keydown', onKeyDown)
+
+  return () => {
+    close()
+    doc.removeEventListener('click', onDocumentClick)
+    win.removeEventListener('keydown', onKeyDown)
+  }
+}
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest'
+import { mountCommissionPartCarousels } from './commissionPartCarouselClient'
+
+function renderParts() {
+  document.body.innerHTML = `
+    <div data-commission-parts="true">
+      <div data-commission-part="0"><img alt="part 1" /></div>
+      <div data-commission-part="1" hidden><img alt="part 2" /></div>
+      <div data-commission-part="2" hidden><img alt="part 3" /></div>
+      <button type="button" data-commission-part-step="-1" disabled>‹</button>
+      <span data-commission-part-position>1 / 3</span>
+      <button type="button" data-commission-part-step="1">›</button>
+    </div>
+  `
+}
+
+function getHiddenStates() {
+  return Array.from(document.querySelectorAll<HTMLElement>('[data-commission-part]'), part => part.hidden)
+}
+function getButton(step: number) {
+  return document.querySelector<HTMLButtonElement>(`[data-commission-part-step="${step}"]`)!
+}
+
+describe('mountCommissionPartCarousels', () => {
+  let cleanup = () => {}
+
+  afterEach(() => {
+    cleanup()
+    document.body.innerHTML = ''
+  })
+
+  it('steps through the parts and disables the buttons at either end', () => {
+    renderParts()
+    cleanup = mountCommissionPartCarousels()
+
+    getButton(1).click()
+    expect(getHiddenStates()).toEqual([true, false, true])
+    expect(document.querySelector('[data-commission-part-position]')?.textContent).toBe('2 / 3')
+    expect(getButton(-1).disabled).toBe(false)
+
+    getButton(1).click()
+    expect(getHiddenStates()).toEqual([true, true, false])
+    expect(getButton(1).disabled).toBe(true)
+
+    getButton(-1).click()
+    getButton(-1).click()
+    expect(getHiddenStates()).toEqual([false, true, true])
+    expect(getButton(-1).disabled).toBe(true)
+  })
+})
@@ -0,0 +1,47 @@
+const PARTS_SELECTOR = '[data-commission-parts="true"]'
+const PART_SELECTOR = '[data-commission-part]'
+const STEP_SELECTOR = '[data-commission-part-step]'
+const POSITION_SELECTOR = '[data-commission-part-position]'
+
+function listParts(root: HTMLElement) {
+  return [...root.querySelectorAll<HTMLElement>(PART_SELECTOR)].filter(part => part.closest(PARTS_SELECTOR) === root)
+}
+
+export function getActiveCommissionPartIndex(root: HTMLElement) {
+  return Math.max(0, listParts(root).findIndex(part => !part.hidden))
+}
+
+/** Shows one part of a multi-part entry and syncs its position label and step buttons. */
+export function showCommissionPart(root: HTMLElement, index: number) {
+  const parts = listParts(root)
+  if (index < 0 || index >= parts.length)
+    return
+
+  parts.forEach((part, partIndex) => {
+    part.hidden = partIndex !== index
+  })
+  const position = root.querySelector<HTMLElement>(POSITION_SELECTOR)
+  if (position)
+    position.textContent = `${index + 1} / ${parts.length}`
+  for (const button of root.querySelectorAll<HTMLButtonElement>(STEP_SELECTOR)) {
+    const step = Number(button.dataset.commissionPartStep)
+    button.disabled = step < 0 ? index === 0 : index === parts.length - 1
+  }
+}
+
+/**
+ * Previous/next buttons of multi-part entries, delegated from the document so entries
+ * rendered later from character batches work without remounting.
+ */
+export function mountCommissionPartCarousels({ doc = document }: { doc?: Document } = {}) {
+  const onClick = (event: MouseEvent) => {
+    const button = (event.target as Element | null)?.closest<HTMLButtonElement>(STEP_SELECTOR)
+    const root = button?.closest<HTMLElement>(PARTS_SELECTOR)
+    if (!button || !root || button.disabled)
+      return
+    showCommissionPart(root, getActiveCommissionPartIndex(root) + Number(button.dataset.commissionPartStep))
+  }
+
+  doc.addEventListener('click', onClick)
+  return () => doc.removeEventListener('click', onClick)
+}
@@ -6,6 +6,18 @@ export interface HomeCharacterBatchImagePayload {
   sizes: string
   width: number
   height: number
+  /** Dominant colour shown behind the image until it loads. */
+  placeholderColor: string | null
+  /** Accessible name of the image as the lightbox trigger. */
+  openLabel: string
+}
+
+/** Images of a multi-part commission; the entry `image` is the first part. */
+export interface HomeCharacterBatchPartsPayload {
+  images: Array<HomeCharacterBatchImagePayload | null>
+  label: string
+  previousLabel: string
+  nextLabel: string
 }
 
 export interface HomeCharacterBatchLinkPayload {
@@ -27,11 +39,14 @@ export interface HomeCharacterBatchEntryPayload {
   searchKey: string
   searchText: string
   searchSuggest: string
+  searchFields: string
   altText: string
   image: HomeCharacterBatchImagePayload | null
+  parts: HomeCharacterBatchPartsPayload | null
   sourceImageNotFoundText: string
   timeLabel: string
   primaryText: string
+  primaryHref: string | null
   secondaryText: string | null
   links: HomeCharacterBatchLinkPayload[]
   interest: HomeCharacterBatchInterestPayload | null
@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import type { HomeCharacterBatchEntryPayload, HomeCharacterBatchImagePayload } from './homeCharacterBatchPayload'
+import { describe, expect, it } from 'vitest'
+import { renderHomeCharacterBatchPayload } from './homeCharacterBatchRender'
+
+function createEntry(id: string, image: HomeCharacterBatchImagePayload | null): HomeCharacterBatchEntryPayload {
+  return {
+    id,
+    sectionId: 'mira',
+    searchKey: `mira::${id}`,
+    searchText: '',
+    searchSuggest: '',
+    searchFields: '',
+    altText: `alt ${id}`,
+    image,
+    parts: null,
+    sourceImageNotFoundText: 'Not found',
+    timeLabel: '2024/01/02',
+    primaryText: '-',
+    primaryHref: null,
+    secondaryText: null,
+    links: [],
+    interest: null,
+  }
+}
+
+function createImage(placeholderColor: string | null): HomeCharacterBatchImagePayload {
+  return {
+    src: '/image.webp',
+    srcSet: '/image.webp 1280w',
+    sizes: '640px',
+    width: 1280,
+    height: 525,
+    placeholderColor,
+    openLabel: 'View larger',
+  }
+}
+
+describe('renderHomeCharacterBatchPayload', () => {
+  it('paints the placeholder colour behind images and pulses only without one', () => {
+    const fragment = renderHomeCharacterBatchPayload({
+      batchIndex: 1,
+      status: 'active',
+      sections: [
+        {
+          displayName: 'Mira',
+          status: 'active',
+          sectionId: 'mira',
+          titleId: 'title-mira',
+          sectionHash: '#mira',
+          totalCommissions: 2,
+          toBeAnnouncedText: 'TBA',
+          entries: [createEntry('mira-20240102', createImage('#f8d8d8')), createEntry('mira-20240103', createImage(null))],
+        },
+      ],
+    })
+
+    const [withPlaceholder, withoutPlaceholder] = fragment.querySelectorAll<HTMLElement>('[data-commission-image="true"]')
+    expect(withPlaceholder.style.backgroundColor).toBe('rgb(248, 216, 216)')
+    expect(withPlaceholder.style.aspectRatio).toBe('1280 / 525')
+    expect(withPlaceholder.className).not.toContain('animate-pulse')
+    expect(withPlaceholder.getAttribute('aria-label')).toBe('View larger')
+    expect(withPlaceholder.tabIndex).toBe(0)
+    expect(withoutPlaceholder.style.backgroundColor).toBe('')
+    expect(withoutPlaceholder.className).toContain('before:animate-pulse')
+  })
+  it('renders the parts of a multi-part entry behind a part switcher', () => {
+    const entry = {
+      ...createEntry('mira-20240104', createImage(null)),
+      parts: {
+        images: [createImage(null), null],
+        label: '2 parts',
+        previousLabel: 'Previous part',
+        nextLabel: 'Next part',
+      },
+    }
+    const fragment = renderHomeCharacterBatchPayload({
+      batchIndex: 1,
+      status: 'active',
+      sections: [
+        {
+          displayName: 'Mira',
+          status: 'active',
+          sectionId: 'mira',
+          titleId: 'title-mira',
+          sectionHash: '#mira',
+          totalCommissions: 2,
+          toBeAnnouncedText: 'TBA',
+          entries: [entry],
+        },
+      ],
+    })
+
+    const parts = [...fragment.querySelectorAll<HTMLElement>('[data-commission-parts="true"] > [data-commission-part]')]
+    expect(parts.map(part => part.hidden)).toEqual([false, true])
+    expect(parts[0].querySelector('img[data-commission-image-node="true"]')).not.toBeNull()
+    expect(parts[1].textContent).toBe('Not found')
+    expect(fragment.querySelector('[data-commission-part-position]')?.textContent).toBe('1 / 2')
+    expect(fragment.querySelector<HTMLButtonElement>('[data-commission-part-step="-1"]')?.disabled).toBe(true)
+    expect(fragment.querySelector('[role="group"]')?.getAttribute('aria-label')).toBe('2 parts')
+  })
+})
@@ -1,5 +1,6 @@
 import type {
   HomeCharacterBatchEntryPayload,
+  HomeCharacterBatchImagePayload,
   HomeCharacterBatchPayload,
   HomeCharacterBatchSectionPayload,
 } from '#features/home/commission/homeCharacterBatchPayload'
@@ -10,9 +11,14 @@ const TITLE_LINK_CLASS
   = 'ml-2 font-bold text-gray-400 no-underline opacity-0 transition-opacity duration-200 group-hover:opacity-100 dark:text-gray-600'
 const EMPTY_STATE_CLASS = 'my-4'
 const ENTRY_CLASS = 'pt-4'
+const IMAGE_PLACEHOLDER_WRAPPER_CLASS = 'relative cursor-zoom-in'
 const IMAGE_WRAPPER_CLASS
-  = 'relative before:pointer-events-none before:absolute before:inset-0 before:animate-pulse before:bg-gray-200/80 before:content-[\'\'] dark:before:bg-gray-700/60'
+  = 'relative cursor-zoom-in before:pointer-events-none before:absolute before:inset-0 before:animate-pulse before:bg-gray-200/80 before:content-[\'\'] dark:before:bg-gray-700/60'
 const IMAGE_NODE_CLASS = 'pointer-events-none relative z-10 block w-full select-none'
+const PART_SWITCHER_CLASS
+  = 'mt-2 flex items-center justify-center gap-4 font-mono text-xs text-gray-600 dark:text-gray-400'
+const PART_STEP_BUTTON_CLASS
+  = 'cursor-pointer rounded-full px-3 py-0.5 text-base hover:bg-gray-900/6 focus-visible:outline-2 focus-visible:outline-gray-500 disabled:cursor-default disabled:opacity-30 dark:hover:bg-white/10'
 const IMAGE_FALLBACK_CLASS
   = 'aspect-1280/525 flex items-center justify-center bg-gray-100 text-xs text-gray-500 dark:bg-gray-800 dark:text-gray-300'
 const INFO_ROOT_CLASS
@@ -22,6 +28,7 @@ const INFO_TIME_LINK_CLASS
 const INFO_SEPARATOR_CLASS = 'mx-2 select-none md:mx-4'
 const LINKS_ROOT_CLASS = 'ml-auto flex grow justify-end gap-2 md:gap-3'
 const TEXT_LINK_CLASS = 'select-none underline underline-offset-2'
+const CREATOR_LINK_CLASS = 'font-normal text-gray-800 no-underline hover:underline dark:text-gray-300!'
 const INTEREST_BUTTON_CLASS = `${TEXT_LINK_CLASS} inline-flex cursor-pointer appearance-none items-center gap-2.5 border-0 bg-transparent p-0 disabled:cursor-default disabled:no-underline`
 
 function appendTextElement({
@@ -39,12 +46,12 @@ function appendTextElement({
   return element
 }
 
-function renderEntryImage(entry: HomeCharacterBatchEntryPayload) {
+function renderImage(entry: HomeCharacterBatchEntryPayload, image: HomeCharacterBatchImagePayload | null) {
   const wrapper = document.createElement('div')
   wrapper.dataset.commissionImage = 'true'
   wrapper.dataset.commissionAlt = entry.altText
 
-  if (!entry.image) {
+  if (!image) {
     wrapper.className = 'relative'
     const fallback = document.createElement('div')
     fallback.className = IMAGE_FALLBACK_CLASS
@@ -53,25 +60,78 @@ function renderEntryImage(entry: HomeCharacterBatchEntryPayload) {
     return wrapper
   }
 
-  wrapper.className = IMAGE_WRAPPER_CLASS
-
-  const image = document.createElement('img')
-  image.dataset.commissionImageNode = 'true'
-  image.src = entry.image.src
-  image.srcset = entry.image.srcSet
-  image.alt = entry.altText
-  image.sizes = entry.image.sizes
-  image.loading = 'lazy'
-  image.decoding = 'async'
-  image.width = entry.image.width
-  image.height = entry.image.height
-  image.style.height = 'auto'
-  image.className = IMAGE_NODE_CLASS
-  wrapper.append(image)
+  wrapper.setAttribute('role', 'button')
+  wrapper.tabIndex = 0
+  wrapper.setAttribute('aria-label', image.openLabel)
+  if (image.placeholderColor) {
+    wrapper.className = IMAGE_PLACEHOLDER_WRAPPER_CLASS
+    wrapper.style.backgroundColor = image.placeholderColor
+    wrapper.style.aspectRatio = `${image.width} / ${image.height}`
+  }
+  else {
+    wrapper.className = IMAGE_WRAPPER_CLASS
+  }
+
+  const imageNode = document.createElement('img')
+  imageNode.dataset.commissionImageNode = 'true'
+  imageNode.src = image.src
+  imageNode.srcset = image.srcSet
+  imageNode.alt = entry.altText
+  imageNode.sizes = image.sizes
+  imageNode.loading = 'lazy'
+  imageNode.decoding = 'async'
+  imageNode.width = image.width
+  imageNode.height = image.height
+  imageNode.style.height = 'auto'
+  imageNode.className = IMAGE_NODE_CLASS
+  wrapper.append(imageNode)
 
   return wrapper
 }
 
+function renderPartStepButton(step: number, label: string) {
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.dataset.commissionPartStep = String(step)
+  button.setAttribute('aria-label', label)
+  button.disabled = step < 0
+  button.className = PART_STEP_BUTTON_CLASS
+  button.textContent = step < 0 ? '‹' : '›'
+  return button
+}
+
+function renderEntryImage(entry: HomeCharacterBatchEntryPayload) {
+  if (!entry.parts)
+    return renderImage(entry, entry.image)
+
+  const root = document.createElement('div')
+  root.dataset.commissionParts = 'true'
+  entry.parts.images.forEach((image, index) => {
+    const part = document.createElement('div')
+    part.dataset.commissionPart = String(index)
+    part.hidden = index > 0
+    part.append(renderImage(entry, image))
+    root.append(part)
+  })
+
+  const switcher = document.createElement('div')
+  switcher.setAttribute('role', 'group')
+  switcher.setAttribute('aria-label', entry.parts.label)
+  switcher.className = PART_SWITCHER_CLASS
+  const position = document.createElement('span')
+  position.dataset.commissionPartPosition = ''
+  position.setAttribute('aria-live', 'polite')
+  position.className = 'tabular-nums'
+  position.textContent = `1 / ${entry.parts.images.length}`
+  switcher.append(
+    renderPartStepButton(-1, entry.parts.previousLabel),
+    position,
+    renderPartStepButton(1, entry.parts.nextLabel),
+  )
+  root.append(switcher)
+  return root
+}
+
 function renderInterestButton(entry: HomeCharacterBatchEntryPayload) {
   const interest = entry.interest
   if (!interest)
@@ -115,7 +175,16 @@ function renderEntryInfo(entry: HomeCharacterBatchEntryPayload) {
   anchor.append(time)
   lead.append(anchor)
 
-  appendTextElement({ parent: lead, tagName: 'span', text: entry.primaryText })
+  if (entry.primaryHref) {
+    const creatorLink = document.createElement('a')
+    creatorLink.href = entry.primaryHref
+    creatorLink.className = CREATOR_LINK_CLASS
+    creatorLink.textContent = entry.primaryText
+    lead.append(creatorLink)
+  }
+  else {
+    appendTextElement({ parent: lead, tagName: 'span', text: entry.primaryText })
+  }
 
   if (entry.secondaryText) {
     const separator = document.createElement('span')
@@ -160,6 +229,7 @@ function renderEntry(entry: HomeCharacterBatchEntryPayload) {
   root.dataset.commissionSearchKey = entry.searchKey
   root.dataset.searchText = entry.searchText
   root.dataset.searchSuggest = entry.searchSuggest
+  root.dataset.searchFields = entry.searchFields
   root.append(renderEntryImage(entry))
   root.append(renderEntryInfo(entry))
   return root
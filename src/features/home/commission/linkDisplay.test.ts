@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { hasDisplayableLinks, selectDisplayLinks } from './linkDisplay'
+import { detectLinkType, hasDisplayableLinks, selectDisplayLinks } from './linkDisplay'
 
 describe('linkDisplay', () => {
   it('selects links by priority and normalizes x.com', () => {
@@ -37,6 +37,13 @@ describe('linkDisplay', () => {
     expect(result.designLink).toBe('https://twitter.com/example/status/2')
   })
 
+  it('detects the site of a single link', () => {
+    expect(detectLinkType('https://www.pixiv.net/users/1')).toBe('Pixiv')
+    expect(detectLinkType('https://x.com/example')).toBe('Twitter')
+    expect(detectLinkType('https://example.fanbox.cc/')).toBe('Fanbox')
+    expect(detectLinkType('https://example.com/')).toBeNull()
+  })
+
   it('reports whether any displayable link exists', () => {
     expect(hasDisplayableLinks({ links: [] })).toBe(false)
     expect(hasDisplayableLinks({ links: ['https://example.com/no-match'] })).toBe(false)
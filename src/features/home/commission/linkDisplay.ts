@@ -15,6 +15,8 @@ export interface DisplayLinksSelection {
 }
 
 export const COMMISSION_LINK_TEXT_CLASS = 'select-none underline underline-offset-2'
+export const COMMISSION_CREATOR_LINK_CLASS
+  = 'font-normal text-gray-800 no-underline hover:underline dark:text-gray-300!'
 
 const LINK_PRIORITY: Array<{ type: string, patterns: string[] }> = [
   { type: 'Twitter', patterns: ['twitter.com', 'x.com'] },
@@ -30,6 +32,12 @@ export function sanitizeDisplayUrl(url: string): string {
   return url.includes('x.com') ? url.replace('x.com', 'twitter.com') : url
 }
 
+/** Site label (`Pixiv`, `Twitter`, …) for a known link, or null. */
+export function detectLinkType(url: string): string | null {
+  const sanitizedLink = sanitizeDisplayUrl(url)
+  return LINK_PRIORITY.find(({ patterns }) => patterns.some(pattern => sanitizedLink.includes(pattern)))?.type ?? null
+}
+
 export function selectDisplayLinks({
   links,
   designLink,
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import type { SimilarCommissionsPayload } from '#lib/search/similarCommissions'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { clearSimilarCommissionsCacheForTests, mountSimilarCommissions } from './similarCommissionsClient'
+
+const payload: SimilarCommissionsPayload = {
+  version: 1,
+  items: [
+    { key: 'mira::20240101_a.jpg', character: 'Mira', creator: 'Q', date: '20240101' },
+    { key: 'mira::20230615_b.jpg', character: 'Mira', creator: '', date: '20230615' },
+    { key: 'lucia-blue::20240202_c.jpg', character: 'Lucia Blue', creator: 'Qiu', date: '20240202' },
+  ],
+  similar: [[2, 1], [0], []],
+}
+
+function buildStripMarkup(key: string) {
+  return `
+    <details
+      data-similar-commissions-key="${key}"
+      data-similar-commissions-characters-path="/ja/characters/"
+      data-similar-commissions-loading-label="Loading…"
+      data-similar-commissions-empty-label="No related commissions yet."
+      data-similar-commissions-error-label="Could not load related commissions."
+    >
+      <summary>More like this</summary>
+      <p data-similar-commissions-status hidden></p>
+      <ol data-similar-commissions-list></ol>
+    </details>
+  `
+}
+
+/** Opens the strip; jsdom queues the `toggle` event like browsers do. */
+async function expand(key: string, expectedState: string) {
+  const strip = document.querySelector<HTMLDetailsElement>(`[data-similar-commissions-key="${key}"]`)!
+  strip.open = true
+  await vi.waitFor(() => expect(strip.dataset.similarCommissionsState).toBe(expectedState))
+  return strip
+}
+
+describe('similarCommissionsClient', () => {
+  afterEach(() => {
+    clearSimilarCommissionsCacheForTests()
+    document.body.innerHTML = ''
+  })
+
+  it('loads the list once on first expand and links to rendered or character page entries', async () => {
+    document.body.innerHTML = `
+      <div id="mira-20230615"></div>
+      ${buildStripMarkup('mira::20240101_a.jpg')}
+      ${buildStripMarkup('lucia-blue::20240202_c.jpg')}
+    `
+    const loadPayload = vi.fn(async () => payload)
+    const cleanup = mountSimilarCommissions({ loadPayload })
+
+    const strip = await expand('mira::20240101_a.jpg', 'loaded')
+    expect(Array.from(strip.querySelectorAll('li a'), link => [link.getAttribute('href'), link.textContent])).toEqual([
+      ['/ja/characters/lucia-blue/#lucia-blue-20240202', 'Lucia Blue · 2024/02/02 · Qiu'],
+      ['#mira-20230615', 'Mira · 2023/06/15'],
+    ])
+
+    const emptyStrip = await expand('lucia-blue::20240202_c.jpg', 'loaded')
+    expect(emptyStrip.querySelector('[data-similar-commissions-status]')?.textContent).toBe('No related commissions yet.')
+    expect(loadPayload).toHaveBeenCalledTimes(1)
+    cleanup()
+  })
+
+  it('shows an error and retries on the next expand', async () => {
+    document.body.innerHTML = buildStripMarkup('mira::20240101_a.jpg')
+    const loadPayload = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(payload)
+    const cleanup = mountSimilarCommissions({ loadPayload })
+
+    const strip = await expand('mira::20240101_a.jpg', 'error')
+    expect(strip.querySelector('[data-similar-commissions-status]')?.textContent).toBe('Could not load related commissions.')
+
+    strip.open = false
+    await expand('mira::20240101_a.jpg', 'loaded')
+    expect(strip.querySelectorAll('li')).toHaveLength(2)
+    cleanup()
+  })
+})
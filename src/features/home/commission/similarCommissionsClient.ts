@@ -0,0 +1,131 @@
+import type { SimilarCommissionItem, SimilarCommissionsPayload } from '#lib/search/similarCommissions'
+import { getCharacterSectionId, getCharacterSlug } from '#lib/characters/nav'
+import { parseAndFormatDate } from '#lib/date/format'
+import { SIMILAR_COMMISSIONS_PATH, SIMILAR_COMMISSIONS_VERSION } from '#lib/search/similarCommissions'
+
+const STRIP_SELECTOR = 'details[data-similar-commissions-key]'
+const LIST_SELECTOR = '[data-similar-commissions-list]'
+const STATUS_SELECTOR = '[data-similar-commissions-status]'
+const TRAILING_SLASH_PATTERN = /\/$/
+
+type StripState = 'loading' | 'loaded' | 'error'
+
+interface SimilarCommissionsLookup {
+  items: SimilarCommissionItem[]
+  similar: number[][]
+  indexByKey: Map<string, number>
+}
+
+interface MountSimilarCommissionsOptions {
+  doc?: Document
+  loadPayload?: () => Promise<SimilarCommissionsPayload>
+}
+
+let payloadRequest: Promise<SimilarCommissionsLookup> | null = null
+
+async function fetchSimilarCommissionsPayload() {
+  const response = await fetch(`/${SIMILAR_COMMISSIONS_PATH}`)
+  if (!response.ok)
+    throw new Error(`Failed to load similar commissions: ${response.status}`)
+  return (await response.json()) as SimilarCommissionsPayload
+}
+
+function loadSimilarCommissions(loadPayload: () => Promise<SimilarCommissionsPayload>) {
+  payloadRequest ??= loadPayload().then((payload) => {
+    if (payload.version !== SIMILAR_COMMISSIONS_VERSION)
+      throw new Error(`Unsupported similar commissions version: ${payload.version}`)
+    return {
+      items: payload.items,
+      similar: payload.similar,
+      indexByKey: new Map(payload.items.map((item, index) => [item.key, index])),
+    }
+  })
+  // Drop a failed request so the next expand fetches again.
+  payloadRequest.catch(() => {
+    payloadRequest = null
+  })
+  return payloadRequest
+}
+
+export function clearSimilarCommissionsCacheForTests() {
+  payloadRequest = null
+}
+
+/** Links to the entry on this page when it is rendered, else to its character page. */
+function resolveItemHref(item: SimilarCommissionItem, doc: Document, charactersPath: string | undefined) {
+  const anchorId = `${getCharacterSectionId(item.character)}-${item.date}`
+  if (doc.getElementById(anchorId))
+    return `#${anchorId}`
+  if (charactersPath === undefined)
+    return null
+  return `${charactersPath.replace(TRAILING_SLASH_PATTERN, '')}/${getCharacterSlug(item.character)}/#${anchorId}`
+}
+
+function renderItem(item: SimilarCommissionItem, doc: Document, charactersPath: string | undefined) {
+  const listItem = doc.createElement('li')
+  const href = resolveItemHref(item, doc, charactersPath)
+  const target = doc.createElement(href ? 'a' : 'span')
+  if (href)
+    target.setAttribute('href', href)
+  target.textContent = [
+    item.character,
+    parseAndFormatDate(item.date, 'yyyy/MM/dd'),
+    item.creator,
+  ].filter(Boolean).join(' · ')
+  listItem.append(target)
+  return listItem
+}
+
+function setStripState(strip: HTMLDetailsElement, state: StripState, statusText = '') {
+  strip.dataset.similarCommissionsState = state
+  strip.setAttribute('aria-busy', String(state === 'loading'))
+  const status = strip.querySelector<HTMLElement>(STATUS_SELECTOR)
+  if (status) {
+    status.textContent = statusText
+    status.hidden = !statusText
+  }
+}
+
+async function fillStrip(strip: HTMLDetailsElement, doc: Document, loadPayload: () => Promise<SimilarCommissionsPayload>) {
+  const key = strip.dataset.similarCommissionsKey
+  const list = strip.querySelector<HTMLElement>(LIST_SELECTOR)
+  const state = strip.dataset.similarCommissionsState
+  // An errored strip is filled again on the next expand.
+  if (!key || !list || state === 'loading' || state === 'loaded')
+    return
+
+  setStripState(strip, 'loading', strip.dataset.similarCommissionsLoadingLabel)
+  try {
+    const lookup = await loadSimilarCommissions(loadPayload)
+    const index = lookup.indexByKey.get(key)
+    const items = index === undefined ? [] : lookup.similar[index].map(related => lookup.items[related])
+    const charactersPath = strip.dataset.similarCommissionsCharactersPath
+    list.replaceChildren(...items.map(item => renderItem(item, doc, charactersPath)))
+    setStripState(strip, 'loaded', items.length > 0 ? '' : strip.dataset.similarCommissionsEmptyLabel)
+  }
+  catch {
+    setStripState(strip, 'error', strip.dataset.similarCommissionsErrorLabel)
+  }
+}
+
+/**
+ * Fills each "More like this" strip the first time it is expanded. Listens on the
+ * document so strips inside lazily rendered character batches work too; `toggle`
+ * does not bubble, hence the capture listener.
+ */
+export function mountSimilarCommissions({
+  doc = document,
+  loadPayload = fetchSimilarCommissionsPayload,
+}: MountSimilarCommissionsOptions = {}) {
+  const handleToggle = (event: Event) => {
+    const strip = event.target
+    if (!(strip instanceof HTMLDetailsElement) || !strip.open || !strip.matches(STRIP_SELECTOR))
+      return
+    void fillStrip(strip, doc, loadPayload)
+  }
+
+  doc.addEventListener('toggle', handleToggle, true)
+  return () => {
+    doc.removeEventListener('toggle', handleToggle, true)
+  }
+}
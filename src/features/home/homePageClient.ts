@@ -5,6 +5,7 @@ import { mountStaleCharactersLoader } from '#features/home/commission/staleChara
 import { mountTimelineViewLoader } from '#features/home/commission/timelineViewLoader'
 import { mountUnpublishedInterestButtons } from '#features/home/commission/unpublishedInterestClient'
 import { mountHomeScrollRestore } from '#features/home/homeScrollRestore'
+import { mountHomeUrlState } from '#features/home/homeUrlState'
 import { mountMobileHamburgerMenu } from '#features/home/nav/hamburger/mobileHamburgerMenu'
 import { mountMobileLanguageMenu } from '#features/home/nav/hamburger/mobileLanguageMenu'
 import { mountSidebarNavEnhancer } from '#features/home/nav/sidebarNavEnhancer'
@@ -14,6 +15,7 @@ import { trackRybbitEvent } from '#lib/analytics/track'
 type Cleanup = () => void
 
 interface HomePageClientDeps {
+  mountHomeUrlState: () => Cleanup
   mountCommissionViewModeDomSync: () => Cleanup
   mountActiveCharactersLoader: () => Cleanup
   mountStaleCharactersLoader: () => Cleanup
@@ -31,6 +33,7 @@ interface MountHomePageClientOptions {
 }
 
 const defaultDeps: HomePageClientDeps = {
+  mountHomeUrlState: () => mountHomeUrlState(),
   mountCommissionViewModeDomSync: () => mountCommissionViewModeDomSync(),
   mountActiveCharactersLoader: () => mountActiveCharactersLoader(),
   mountStaleCharactersLoader: () => mountStaleCharactersLoader(),
@@ -53,6 +56,7 @@ const defaultDeps: HomePageClientDeps = {
 export function mountHomePageClient({ deps: depsOverrides }: MountHomePageClientOptions = {}) {
   const deps = { ...defaultDeps, ...depsOverrides }
   const mounts = [
+    deps.mountHomeUrlState,
     deps.mountCommissionViewModeDomSync,
     deps.mountActiveCharactersLoader,
     deps.mountStaleCharactersLoader,
@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  buildHomeUrl,
+  buildShareableHomeUrl,
+  mountHomeUrlState,
+  parseHomeUrlState,
+} from './homeUrlState'
+
+const STALE_VISIBILITY_STORAGE_KEY = 'home:stale-visibility'
+
+describe('parseHomeUrlState', () => {
+  it('falls back to defaults for a bare home url', () => {
+    expect(parseHomeUrlState(new URL('https://example.com/en/'))).toEqual({
+      query: '',
+      view: 'character',
+      stale: 'hidden',
+      panels: [],
+      anchor: '',
+    })
+  })
+
+  it('reads query, view, stale flag, panels and anchor', () => {
+    const url = new URL(
+      'https://example.com/ja/?q=%E3%82%A2+creator%3Aabc&view=timeline&stale=1&panel=relevance,bogus,facets#L-20240101',
+    )
+
+    expect(parseHomeUrlState(url)).toEqual({
+      query: 'ア creator:abc',
+      view: 'timeline',
+      stale: 'visible',
+      panels: ['facets', 'relevance'],
+      anchor: 'L-20240101',
+    })
+  })
+
+  it('keeps a hash that is not valid percent-encoding as written', () => {
+    expect(parseHomeUrlState(new URL('https://example.com/en/#50%off')).anchor).toBe('50%off')
+  })
+})
+
+describe('buildHomeUrl', () => {
+  it('round-trips a state and keeps unrelated params', () => {
+    const state = {
+      query: 'blue hair',
+      view: 'character' as const,
+      stale: 'visible' as const,
+      panels: ['relevance' as const],
+      anchor: 'Alice-20230102',
+    }
+    const url = buildHomeUrl('https://example.com/zh-tw/?utm=x', state)
+
+    expect(url.toString()).toBe(
+      'https://example.com/zh-tw/?utm=x&q=blue+hair&stale=1&panel=relevance#Alice-20230102',
+    )
+    expect(parseHomeUrlState(url)).toEqual(state)
+  })
+
+  it('omits defaults and drops the stale flag outside the character view', () => {
+    const url = buildHomeUrl('https://example.com/?q=old&stale=1&panel=facets#top', {
+      query: '  ',
+      view: 'timeline',
+      panels: [],
+      anchor: '',
+    })
+
+    expect(url.toString()).toBe('https://example.com/?view=timeline')
+  })
+})
+
+describe('home url state in the page', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+    window.sessionStorage.clear()
+    window.history.replaceState(null, '', '/')
+  })
+
+  it('captures the visible stale characters and focused anchor in a shareable link', () => {
+    document.body.innerHTML = `
+      <div data-commission-view-panel="character" data-stale-visibility="visible" data-stale-loaded="true"></div>
+    `
+    window.history.replaceState(null, '', '/en/?q=old#Alice')
+
+    expect(buildShareableHomeUrl(window, document, { query: 'cat', panels: ['facets'] })).toBe(
+      `${window.location.origin}/en/?q=cat&stale=1&panel=facets#Alice`,
+    )
+  })
+
+  it('hands a shared stale flag to the saved visibility and drops it from the address', () => {
+    window.history.replaceState(null, '', '/en/?q=cat&stale=1#Alice')
+
+    mountHomeUrlState()()
+
+    expect(JSON.parse(window.sessionStorage.getItem(STALE_VISIBILITY_STORAGE_KEY) ?? 'null')).toEqual({
+      pathname: '/en/',
+      visibility: 'visible',
+    })
+    expect(`${window.location.pathname}${window.location.search}${window.location.hash}`).toBe(
+      '/en/?q=cat#Alice',
+    )
+  })
+
+  it('ignores the stale flag on the timeline view', () => {
+    window.history.replaceState(null, '', '/?view=timeline&stale=1')
+
+    mountHomeUrlState()()
+
+    expect(window.sessionStorage.getItem(STALE_VISIBILITY_STORAGE_KEY)).toBeNull()
+    expect(window.location.search).toBe('?view=timeline')
+  })
+})
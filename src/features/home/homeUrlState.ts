@@ -0,0 +1,135 @@
+import type { CommissionViewMode } from '#features/home/commission/CommissionViewModeSearch'
+import type { StaleCharactersVisibility } from '#features/home/commission/staleCharactersEvent'
+import { parseCommissionViewModeFromSearch } from '#features/home/commission/CommissionViewModeSearch'
+import {
+  persistStaleCharactersVisibility,
+  readStaleCharactersState,
+} from '#features/home/commission/staleCharactersEvent'
+import { normalizeQuery } from '#lib/search/index'
+
+const QUERY_PARAM = 'q'
+const VIEW_PARAM = 'view'
+const STALE_PARAM = 'stale'
+const PANEL_PARAM = 'panel'
+const PANEL_SEPARATOR = ','
+
+export const HOME_SEARCH_PANELS = ['facets', 'relevance'] as const
+export type HomeSearchPanel = (typeof HOME_SEARCH_PANELS)[number]
+
+/**
+ * Everything a shared home link has to reproduce. Locale lives in the path, so
+ * links built from the current location keep it without a parameter of its own.
+ */
+export interface HomeUrlState {
+  query: string
+  view: CommissionViewMode
+  stale: StaleCharactersVisibility
+  panels: HomeSearchPanel[]
+  /** Focused section or entry id, without the leading `#`. */
+  anchor: string
+}
+
+function isHomeSearchPanel(value: string): value is HomeSearchPanel {
+  return (HOME_SEARCH_PANELS as readonly string[]).includes(value)
+}
+
+// A hand-typed hash such as `#50%off` is not valid percent-encoding; keep it as written.
+function decodeHash(hash: string) {
+  const raw = hash.slice(1)
+  try {
+    return decodeURIComponent(raw)
+  }
+  catch {
+    return raw
+  }
+}
+
+export function parseHomeUrlState(url: URL): HomeUrlState {
+  const params = url.searchParams
+  const panels = (params.get(PANEL_PARAM) ?? '').split(PANEL_SEPARATOR).filter(isHomeSearchPanel)
+
+  return {
+    query: params.get(QUERY_PARAM) ?? '',
+    view: parseCommissionViewModeFromSearch(url.search),
+    stale: params.get(STALE_PARAM) === '1' ? 'visible' : 'hidden',
+    panels: HOME_SEARCH_PANELS.filter(panel => panels.includes(panel)),
+    anchor: decodeHash(url.hash),
+  }
+}
+
+/**
+ * Writes `state` onto a copy of `base`, keeping unrelated parameters. Defaults are
+ * omitted (character view, hidden stale characters, no panels) to keep links short,
+ * and the stale flag only applies to the character view.
+ */
+export function buildHomeUrl(base: URL | string, state: Partial<HomeUrlState>): URL {
+  const url = new URL(base)
+  const params = url.searchParams
+
+  if (state.query !== undefined) {
+    if (normalizeQuery(state.query))
+      params.set(QUERY_PARAM, state.query)
+    else params.delete(QUERY_PARAM)
+  }
+
+  if (state.view !== undefined) {
+    if (state.view === 'timeline')
+      params.set(VIEW_PARAM, 'timeline')
+    else params.delete(VIEW_PARAM)
+  }
+
+  if (state.stale !== undefined || state.view !== undefined) {
+    const view = state.view ?? parseCommissionViewModeFromSearch(url.search)
+    const stale = state.stale ?? (params.get(STALE_PARAM) === '1' ? 'visible' : 'hidden')
+    if (view === 'character' && stale === 'visible')
+      params.set(STALE_PARAM, '1')
+    else params.delete(STALE_PARAM)
+  }
+
+  if (state.panels !== undefined) {
+    const panels = HOME_SEARCH_PANELS.filter(panel => state.panels?.includes(panel))
+    if (panels.length > 0)
+      params.set(PANEL_PARAM, panels.join(PANEL_SEPARATOR))
+    else params.delete(PANEL_PARAM)
+  }
+
+  if (state.anchor !== undefined)
+    url.hash = state.anchor ? `#${encodeURIComponent(state.anchor)}` : ''
+
+  return url
+}
+
+/** Link reproducing what the page currently shows, with the given search state on top. */
+export function buildShareableHomeUrl(
+  win: Window,
+  doc: Document,
+  state: Pick<HomeUrlState, 'query' | 'panels'>,
+) {
+  const current = parseHomeUrlState(new URL(win.location.href))
+  return buildHomeUrl(win.location.href, {
+    ...state,
+    view: current.view,
+    stale: readStaleCharactersState(doc).visibility,
+    anchor: current.anchor,
+  }).toString()
+}
+
+export function replaceHomeUrlStateInAddress(win: Window, state: Partial<HomeUrlState>) {
+  const url = buildHomeUrl(win.location.href, state)
+  win.history.replaceState(null, '', `${url.pathname}${url.search}${url.hash}`)
+}
+
+/**
+ * Hands a shared link's stale flag to the saved stale visibility, which the stale
+ * loader restores on mount, then drops the flag so a later reload follows the
+ * visibility saved on pagehide instead. Mount before the stale loader.
+ */
+export function mountHomeUrlState({ win = window }: { win?: Window } = {}) {
+  const state = parseHomeUrlState(new URL(win.location.href))
+  if (state.stale === 'visible' && state.view === 'character')
+    persistStaleCharactersVisibility(win, 'visible')
+  if (new URL(win.location.href).searchParams.has(STALE_PARAM))
+    replaceHomeUrlStateInAddress(win, { stale: 'hidden' })
+
+  return () => {}
+}
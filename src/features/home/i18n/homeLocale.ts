@@ -19,6 +19,7 @@ interface SearchHelpRow {
 
 export interface HomeLocaleMessages {
   lang: string
+  ogLocale: string
   localeLabel: string
   localeSwitcherLabel: string
   description: {
@@ -52,6 +53,28 @@ export interface HomeLocaleMessages {
     wantThisTitle: string
     wantThisRecorded: string
     wantThisRecordedTitle: string
+    similarCommissions: string
+    similarCommissionsLoading: string
+    similarCommissionsEmpty: string
+    similarCommissionsError: string
+    lightboxOpen: string
+    lightboxLabel: string
+    lightboxClose: string
+    lightboxPrevious: string
+    lightboxNext: string
+    partPrevious: string
+    partNext: string
+    formatPartCount: (count: number) => string
+  }
+  detailPages: {
+    backToIndex: string
+    viewInIndex: string
+    aliasesLabel: string
+    homepageLabel: string
+    formatCommissionCount: (count: number) => string
+    formatDateRange: (firstDate: string, lastDate: string) => string
+    formatCreatorDescription: (creatorName: string) => string
+    formatCharacterDescription: (characterName: string, count: number) => string
   }
   warning: {
     title: string
@@ -89,12 +112,26 @@ export interface HomeLocaleMessages {
     sourceCreator: string
     sourceKeyword: string
     sourceDate: string
+    sourceField: string
     sourcePrefix: string
     formatCollapsedStaleSummary: (characterCount: number, commissionCount: number) => string
     formatMatchCount: (count: number) => string
     formatSearchResultsStatus: (matchedCount: number, entriesCount: number) => string
     formatSearchClearedStatus: (entriesCount: number) => string
     formatHiddenStaleResultsNotice: (count: number) => string
+    searchErrorUnclosedGroup: string
+    searchErrorUnexpectedClose: string
+    searchErrorUnclosedQuote: string
+    searchRelevanceToggle: string
+    searchFacetsToggle: string
+    formatSearchRelevanceHeading: (shownCount: number, matchedCount: number) => string
+    savedSearchesHeading: string
+    searchHistoryHeading: string
+    saveSearch: string
+    removeSavedSearch: string
+    removeSearchHistoryEntry: string
+    searchHistoryKeyboardHint: string
+    formatSearchHistoryTime: (timestamp: number, now: number) => string
     searchHelpTitle: string
     searchHelpIntro: string
     searchHelpSyntaxHeader: string
@@ -107,9 +144,29 @@ export interface HomeLocaleMessages {
   }
 }
 
+const RELATIVE_TIME_STEPS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['minute', 60],
+  ['hour', 24],
+  ['day', 7],
+  ['week', 4.35],
+  ['month', 12],
+  ['year', Number.POSITIVE_INFINITY],
+]
+
+function formatRelativeTime(lang: string, timestamp: number, now: number) {
+  let value = Math.max(0, now - timestamp) / 60_000
+  for (const [unit, size] of RELATIVE_TIME_STEPS) {
+    if (value < size)
+      return new Intl.RelativeTimeFormat(lang, { numeric: 'auto', style: 'short' }).format(-Math.floor(value), unit)
+    value /= size
+  }
+  return ''
+}
+
 const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
   'en': {
     lang: 'en',
+    ogLocale: 'en_US',
     localeLabel: 'English',
     localeSwitcherLabel: 'Language',
     description: {
@@ -149,6 +206,29 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       wantThisTitle: 'Record interest in this unpublished commission',
       wantThisRecorded: 'Recorded',
       wantThisRecordedTitle: 'Already recorded',
+      similarCommissions: 'More like this',
+      similarCommissionsLoading: 'Loading…',
+      similarCommissionsEmpty: 'No related commissions yet.',
+      similarCommissionsError: 'Could not load related commissions.',
+      lightboxOpen: 'View larger',
+      lightboxLabel: 'Image viewer',
+      lightboxClose: 'Close',
+      lightboxPrevious: 'Previous image',
+      lightboxNext: 'Next image',
+      partPrevious: 'Previous part',
+      partNext: 'Next part',
+      formatPartCount: count => `${count} parts`,
+    },
+    detailPages: {
+      backToIndex: '← Back to index',
+      viewInIndex: 'View in index',
+      aliasesLabel: 'Also known as',
+      homepageLabel: 'Homepage',
+      formatCommissionCount: count => `${count} commission${count === 1 ? '' : 's'}`,
+      formatDateRange: (firstDate, lastDate) => `${firstDate} – ${lastDate}`,
+      formatCreatorDescription: creatorName => `Commissions illustrated by ${creatorName}.`,
+      formatCharacterDescription: (characterName, count) =>
+        `${count} commissioned illustration${count === 1 ? '' : 's'} of ${characterName}.`,
     },
     warning: {
       title: '[ Warning ]',
@@ -186,6 +266,7 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       sourceCreator: 'creator',
       sourceKeyword: 'keyword',
       sourceDate: 'date',
+      sourceField: 'search field',
       sourcePrefix: 'in',
       formatCollapsedStaleSummary: (characterCount, commissionCount) =>
         `${characterCount} Stale Character${characterCount === 1 ? '' : 's'} / ${commissionCount} commission${commissionCount === 1 ? '' : 's'}`,
@@ -196,6 +277,22 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
         `Search cleared. Showing all ${entriesCount} commissions.`,
       formatHiddenStaleResultsNotice: count =>
         `${count} stale match${count === 1 ? '' : 'es'} hidden.`,
+      searchErrorUnclosedGroup: 'Missing ")": the open group was closed at the end of the query.',
+      searchErrorUnexpectedClose: 'Unmatched ")" was ignored.',
+      searchErrorUnclosedQuote: 'Missing closing quote: the phrase runs to the end of the query.',
+      searchRelevanceToggle: 'Sort by relevance',
+      searchFacetsToggle: 'Refine',
+      formatSearchRelevanceHeading: (shownCount, matchedCount) =>
+        shownCount < matchedCount
+          ? `Top ${shownCount} of ${matchedCount} matches by relevance`
+          : `${matchedCount} ${matchedCount === 1 ? 'match' : 'matches'} by relevance`,
+      savedSearchesHeading: 'Saved searches',
+      searchHistoryHeading: 'Recent searches',
+      saveSearch: 'Save search',
+      removeSavedSearch: 'Remove saved search',
+      removeSearchHistoryEntry: 'Remove from history',
+      searchHistoryKeyboardHint: 'Delete removes the highlighted search',
+      formatSearchHistoryTime: (timestamp, now) => formatRelativeTime('en', timestamp, now),
       searchHelpTitle: 'Search Help',
       searchHelpIntro: 'Type one or more keywords to filter commissions.',
       searchHelpSyntaxHeader: 'Syntax',
@@ -221,11 +318,37 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
           description: 'Exclude a term',
           example: '!sketch',
         },
+        {
+          syntax: '( )',
+          description: 'Group terms; ! binds tightest, then space, then |',
+          example: '(blue | silver) hair',
+        },
+        {
+          syntax: 'AND / OR / NOT',
+          description: 'Same as space, | and ! (uppercase only)',
+          example: 'blue OR silver NOT sketch',
+        },
+        {
+          syntax: 'creator:',
+          description: 'Only match the illustrator (character:, kw: and desc: work the same way)',
+          example: 'creator:七市',
+        },
+        {
+          syntax: '"…"',
+          description: 'Match a phrase, also after a field',
+          example: 'character:"Kanaut Nishe"',
+        },
+        {
+          syntax: 'after: / before:',
+          description: 'From the start of a year or month / before it',
+          example: 'after:2023/06 before:2024',
+        },
       ],
     },
   },
   'zh-tw': {
     lang: 'zh-Hant-TW',
+    ogLocale: 'zh_TW',
     localeLabel: '繁體中文',
     localeSwitcherLabel: '語言',
     description: {
@@ -264,6 +387,28 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       wantThisTitle: '記錄你對此未公開委託的興趣',
       wantThisRecorded: '已記錄',
       wantThisRecordedTitle: '已記錄過',
+      similarCommissions: '更多類似委託',
+      similarCommissionsLoading: '載入中…',
+      similarCommissionsEmpty: '目前沒有相關的委託。',
+      similarCommissionsError: '無法載入相關的委託。',
+      lightboxOpen: '放大檢視',
+      lightboxLabel: '圖片檢視器',
+      lightboxClose: '關閉',
+      lightboxPrevious: '上一張',
+      lightboxNext: '下一張',
+      partPrevious: '上一部分',
+      partNext: '下一部分',
+      formatPartCount: count => `共 ${count} 部分`,
+    },
+    detailPages: {
+      backToIndex: '← 返回索引',
+      viewInIndex: '在索引中查看',
+      aliasesLabel: '別名',
+      homepageLabel: '個人網站',
+      formatCommissionCount: count => `${count} 筆委託`,
+      formatDateRange: (firstDate, lastDate) => `${firstDate} – ${lastDate}`,
+      formatCreatorDescription: creatorName => `${creatorName} 繪製的委託作品。`,
+      formatCharacterDescription: (characterName, count) => `${characterName} 的 ${count} 筆委託插畫。`,
     },
     warning: {
       title: '[ 警告 ]',
@@ -301,6 +446,7 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       sourceCreator: '繪師',
       sourceKeyword: '關鍵字',
       sourceDate: '日期',
+      sourceField: '搜尋欄位',
       sourcePrefix: '於',
       formatCollapsedStaleSummary: (characterCount, commissionCount) =>
         `${characterCount} 位停更角色 / ${commissionCount} 筆委託`,
@@ -309,6 +455,22 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
         `搜尋結果：顯示 ${matchedCount} / ${entriesCount} 筆委託。`,
       formatSearchClearedStatus: entriesCount => `已清除搜尋，顯示全部 ${entriesCount} 筆委託。`,
       formatHiddenStaleResultsNotice: count => `另有 ${count} 筆停更結果未展開。`,
+      searchErrorUnclosedGroup: '缺少「)」：未閉合的群組已在查詢結尾自動閉合。',
+      searchErrorUnexpectedClose: '多出的「)」已被忽略。',
+      searchErrorUnclosedQuote: '缺少結尾引號：詞組會延伸到查詢結尾。',
+      searchRelevanceToggle: '依相關度排序',
+      searchFacetsToggle: '篩選',
+      formatSearchRelevanceHeading: (shownCount, matchedCount) =>
+        shownCount < matchedCount
+          ? `相關度前 ${shownCount} 筆（共 ${matchedCount} 筆）`
+          : `依相關度排列的 ${matchedCount} 筆結果`,
+      savedSearchesHeading: '已儲存的搜尋',
+      searchHistoryHeading: '最近的搜尋',
+      saveSearch: '儲存搜尋',
+      removeSavedSearch: '移除已儲存的搜尋',
+      removeSearchHistoryEntry: '從紀錄中移除',
+      searchHistoryKeyboardHint: '按 Delete 可移除目前選取的搜尋',
+      formatSearchHistoryTime: (timestamp, now) => formatRelativeTime('zh-TW', timestamp, now),
       searchHelpTitle: '搜尋說明',
       searchHelpIntro: '輸入一個或多個關鍵字來篩選委託。',
       searchHelpSyntaxHeader: '語法',
@@ -333,11 +495,37 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
           description: '排除此關鍵字',
           example: '!sketch',
         },
+        {
+          syntax: '( )',
+          description: '將關鍵字分組；優先順序為 !、空白、|',
+          example: '(blue | silver) hair',
+        },
+        {
+          syntax: 'AND / OR / NOT',
+          description: '等同空白、| 與 !（須大寫）',
+          example: 'blue OR silver NOT sketch',
+        },
+        {
+          syntax: 'creator:',
+          description: '只比對繪師（character:、kw:、desc: 用法相同）',
+          example: 'creator:七市',
+        },
+        {
+          syntax: '"…"',
+          description: '比對完整詞組，也可接在欄位後',
+          example: 'character:"Kanaut Nishe"',
+        },
+        {
+          syntax: 'after: / before:',
+          description: '從該年或該月開始／在其之前',
+          example: 'after:2023/06 before:2024',
+        },
       ],
     },
   },
   'ja': {
     lang: 'ja',
+    ogLocale: 'ja_JP',
     localeLabel: '日本語',
     localeSwitcherLabel: '言語',
     description: {
@@ -376,6 +564,28 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       wantThisTitle: '未公開コミッションへの関心を記録する',
       wantThisRecorded: '記録済み',
       wantThisRecordedTitle: '記録済みです',
+      similarCommissions: '似ているコミッション',
+      similarCommissionsLoading: '読み込み中…',
+      similarCommissionsEmpty: '関連するコミッションはまだありません。',
+      similarCommissionsError: '関連するコミッションを読み込めませんでした。',
+      lightboxOpen: '拡大表示',
+      lightboxLabel: '画像ビューアー',
+      lightboxClose: '閉じる',
+      lightboxPrevious: '前の画像',
+      lightboxNext: '次の画像',
+      partPrevious: '前のパート',
+      partNext: '次のパート',
+      formatPartCount: count => `全 ${count} パート`,
+    },
+    detailPages: {
+      backToIndex: '← 一覧に戻る',
+      viewInIndex: '一覧で見る',
+      aliasesLabel: '別名義',
+      homepageLabel: 'ホームページ',
+      formatCommissionCount: count => `${count}件のコミッション`,
+      formatDateRange: (firstDate, lastDate) => `${firstDate} – ${lastDate}`,
+      formatCreatorDescription: creatorName => `${creatorName} さんが描いたコミッション一覧。`,
+      formatCharacterDescription: (characterName, count) => `${characterName} のコミッションイラスト ${count}件。`,
     },
     warning: {
       title: '[ 警告 ]',
@@ -413,6 +623,7 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       sourceCreator: '作者',
       sourceKeyword: 'キーワード',
       sourceDate: '日付',
+      sourceField: '検索フィールド',
       sourcePrefix: '対象',
       formatCollapsedStaleSummary: (characterCount, commissionCount) =>
         `${characterCount}人の停止中キャラクター / ${commissionCount}件のコミッション`,
@@ -422,6 +633,22 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
       formatSearchClearedStatus: entriesCount =>
         `検索をクリアしました。全 ${entriesCount}件を表示。`,
       formatHiddenStaleResultsNotice: count => `停止中の一致 ${count} 件が未展開です。`,
+      searchErrorUnclosedGroup: '「)」が不足しています。開いたグループはクエリの末尾で閉じました。',
+      searchErrorUnexpectedClose: '対応しない「)」は無視しました。',
+      searchErrorUnclosedQuote: '閉じ引用符がありません。フレーズはクエリの末尾までになります。',
+      searchRelevanceToggle: '関連度順',
+      searchFacetsToggle: '絞り込み',
+      formatSearchRelevanceHeading: (shownCount, matchedCount) =>
+        shownCount < matchedCount
+          ? `関連度上位 ${shownCount} 件（全 ${matchedCount} 件）`
+          : `関連度順の一致 ${matchedCount} 件`,
+      savedSearchesHeading: '保存した検索',
+      searchHistoryHeading: '最近の検索',
+      saveSearch: '検索を保存',
+      removeSavedSearch: '保存した検索を削除',
+      removeSearchHistoryEntry: '履歴から削除',
+      searchHistoryKeyboardHint: 'Delete キーで選択中の検索を削除',
+      formatSearchHistoryTime: (timestamp, now) => formatRelativeTime('ja', timestamp, now),
       searchHelpTitle: '検索ヘルプ',
       searchHelpIntro: '1つ以上のキーワードでコミッションを絞り込みます。',
       searchHelpSyntaxHeader: '構文',
@@ -446,6 +673,31 @@ const HOME_LOCALE_MESSAGES: Record<HomeLocale, HomeLocaleMessages> = {
           description: '語句を除外します',
           example: '!sketch',
         },
+        {
+          syntax: '( )',
+          description: '語句をまとめます（優先順位は !、スペース、| の順）',
+          example: '(blue | silver) hair',
+        },
+        {
+          syntax: 'AND / OR / NOT',
+          description: 'スペース・|・! と同じです（大文字のみ）',
+          example: 'blue OR silver NOT sketch',
+        },
+        {
+          syntax: 'creator:',
+          description: '作者だけを対象にします（character:・kw:・desc: も同様）',
+          example: 'creator:七市',
+        },
+        {
+          syntax: '"…"',
+          description: 'フレーズで一致させます（フィールドの後にも使えます）',
+          example: 'character:"Kanaut Nishe"',
+        },
+        {
+          syntax: 'after: / before:',
+          description: 'その年・月以降／それより前',
+          example: 'after:2023/06 before:2024',
+        },
       ],
     },
   },
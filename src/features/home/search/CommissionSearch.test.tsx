@@ -10,7 +10,7 @@ import {
 } from '#features/home/commission/staleCharactersEvent'
 import { ANALYTICS_EVENTS } from '#lib/analytics/events'
 // @vitest-environment jsdom
-import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react'
 import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
 import CommissionSearch from './CommissionSearch'
 
@@ -57,6 +57,7 @@ describe('commissionSearch', () => {
     clearHomeCharacterBatchRequestCacheForTests()
     clearHomeCharacterBatchManifestCacheForTests(document)
     document.body.innerHTML = ''
+    window.localStorage.clear()
   })
 
   it('applies suggestion from command list', async () => {
@@ -519,4 +520,166 @@ describe('commissionSearch', () => {
       dispatchEventSpy.mockRestore()
     }
   })
+
+  it('lists matches by relevance with highlighted terms when the toggle is pressed', async () => {
+    document.body.innerHTML = `
+      <div data-commission-view-panel="character" data-commission-view-active="true" data-stale-loaded="true">
+        <section id="mira" data-character-section="true" data-character-status="active">
+          <div id="mira-20230615" data-commission-entry="true" data-character-section-id="mira" data-commission-search-key="mira::20230615_a"></div>
+        </section>
+      </div>
+    `
+    const entries: CommissionSearchEntrySource[] = [
+      {
+        id: 1,
+        domKey: 'mira::20230615_a',
+        searchText: 'mira blue sky 20230615',
+        searchFields: 'character\tMira\ndescription\tblue sky\ndate\t20230615',
+      },
+      {
+        id: 2,
+        domKey: 'blue-moon::20240102_b',
+        searchText: 'blue moon sketch 20240102',
+        searchFields: 'character\tBlue Moon\nkeyword\tsketch\ndate\t20240102',
+      },
+    ]
+
+    render(<CommissionSearch externalEntries={entries} characterPagesPath="/ja/characters/" />)
+
+    const input = screen.getByLabelText('Search commissions') as HTMLInputElement
+    fireEvent.input(input, { target: { value: 'blue' } })
+    fireEvent.click(await screen.findByRole('button', { name: 'Sort by relevance' }))
+
+    const results = await screen.findByText('2 matches by relevance')
+    const links = [...results.parentElement!.querySelectorAll('a')]
+    expect(links.map(link => link.getAttribute('href'))).toEqual([
+      '/ja/characters/blue-moon/#blue-moon-20240102',
+      '#mira-20230615',
+    ])
+    expect(Array.from(results.parentElement!.querySelectorAll('mark'), mark => mark.textContent)).toEqual([
+      'Blue',
+      'blue',
+    ])
+  })
+
+  it('toggles facet tokens from the refine panel', async () => {
+    document.body.innerHTML = `
+      <div data-commission-view-panel="character" data-commission-view-active="true" data-stale-loaded="true">
+        <section id="mira" data-character-section="true" data-character-status="active">
+          <div id="mira-20230615" data-commission-entry="true" data-character-section-id="mira" data-commission-search-key="mira::20230615_a"></div>
+          <div id="mira-20240102" data-commission-entry="true" data-character-section-id="mira" data-commission-search-key="mira::20240102_b"></div>
+        </section>
+      </div>
+    `
+    const entries: CommissionSearchEntrySource[] = [
+      {
+        id: 1,
+        domKey: 'mira::20230615_a',
+        searchText: 'mira q sky 20230615',
+        searchFields: 'character\tMira\ncreator\tQ\nkeyword\tsky\ndate\t20230615',
+        searchSuggest: 'Character\tMira\nCreator\tQ\nKeyword\tsky\nDate\t2023/06',
+      },
+      {
+        id: 2,
+        domKey: 'mira::20240102_b',
+        searchText: 'mira qiu sketch 20240102',
+        searchFields: 'character\tMira\ncreator\tQiu\nkeyword\tsketch\ndate\t20240102',
+        searchSuggest: 'Character\tMira\nCreator\tQiu\nKeyword\tsketch\nDate\t2024/01',
+      },
+    ]
+
+    render(<CommissionSearch externalEntries={entries} />)
+
+    const input = screen.getByLabelText('Search commissions') as HTMLInputElement
+    fireEvent.input(input, { target: { value: 'mira' } })
+    fireEvent.click(await screen.findByRole('button', { name: 'Refine' }))
+
+    const facet = await waitFor(() => {
+      const button = document.querySelector<HTMLButtonElement>('[data-search-facet="creator:Qiu"]')
+      expect(button).not.toBeNull()
+      return button!
+    })
+    expect(facet.getAttribute('aria-pressed')).toBe('false')
+    fireEvent.click(facet)
+    expect(input.value).toBe('mira creator:Qiu ')
+
+    await waitFor(() => {
+      expect(document.querySelector('[data-search-facet="creator:Q"]')).toBeNull()
+      expect(document.querySelector('[data-search-facet="creator:Qiu"]')?.getAttribute('aria-pressed')).toBe('true')
+    })
+    fireEvent.click(document.querySelector<HTMLButtonElement>('[data-search-facet="creator:Qiu"]')!)
+    expect(input.value).toBe('mira ')
+  })
+
+  it('reopens the result panels encoded in a shared link', async () => {
+    window.history.replaceState(null, '', '/?panel=facets')
+    document.body.innerHTML = `
+      <div data-commission-view-panel="character" data-commission-view-active="true" data-stale-loaded="true">
+        <section id="mira" data-character-section="true" data-character-status="active">
+          <div id="mira-20230615" data-commission-entry="true" data-character-section-id="mira" data-commission-search-key="mira::20230615_a"></div>
+        </section>
+      </div>
+    `
+    const entries: CommissionSearchEntrySource[] = [
+      {
+        id: 1,
+        domKey: 'mira::20230615_a',
+        searchText: 'mira q sky 20230615',
+        searchSuggest: 'Character\tMira\nCreator\tQ',
+      },
+    ]
+
+    try {
+      render(<CommissionSearch externalEntries={entries} />)
+
+      fireEvent.input(screen.getByLabelText('Search commissions'), { target: { value: 'mira' } })
+
+      expect((await screen.findByRole('button', { name: 'Refine' })).getAttribute('aria-pressed')).toBe('true')
+      expect(screen.getByRole('button', { name: 'Sort by relevance' }).getAttribute('aria-pressed')).toBe('false')
+    }
+    finally {
+      window.history.replaceState(null, '', '/')
+    }
+  })
+
+  it('offers saved and recent searches for an empty input and removes them one at a time', async () => {
+    window.localStorage.setItem('commission-index:saved-searches', JSON.stringify([{ query: 'kw:sketch', at: Date.now() }]))
+    window.localStorage.setItem('commission-index:search-history', JSON.stringify([
+      { query: 'alice', at: Date.now() - 5 * 60_000 },
+      { query: 'bob', at: Date.now() - 60 * 60_000 },
+    ]))
+    const entries: CommissionSearchEntrySource[] = [
+      { id: 1, domKey: 'alice::20240101_a', searchText: 'alice sketch', searchSuggest: 'Character\tAlice' },
+    ]
+
+    renderSearch(entries)
+
+    const input = screen.getByLabelText('Search commissions') as HTMLInputElement
+    fireEvent.focus(input)
+
+    expect(await screen.findByText('Saved searches')).toBeTruthy()
+    expect(screen.getByText('Recent searches')).toBeTruthy()
+    expect(screen.getByText('5 min. ago')).toBeTruthy()
+
+    // cmdk highlights the first row (the saved search); step down to the first recent one.
+    fireEvent.keyDown(input, { key: 'ArrowDown' })
+    fireEvent.keyDown(input, { key: 'Delete' })
+
+    await waitFor(() => {
+      expect(screen.queryByText('alice')).toBeNull()
+    })
+    expect(JSON.parse(window.localStorage.getItem('commission-index:search-history') ?? '[]')).toEqual([
+      expect.objectContaining({ query: 'bob' }),
+    ])
+
+    const recentGroup = document.querySelector<HTMLElement>('[data-search-memory="history"]')!
+    fireEvent.click(within(recentGroup).getByRole('button', { name: 'Save search' }))
+    expect(within(document.querySelector<HTMLElement>('[data-search-memory="saved"]')!).getByText('bob')).toBeTruthy()
+
+    fireEvent.click(screen.getByText('kw:sketch'))
+    await waitFor(() => {
+      expect(input.value).toBe('kw:sketch')
+    })
+    expect(screen.getByRole('button', { name: 'Remove saved search', pressed: true })).toBeTruthy()
+  })
 })
@@ -1,7 +1,11 @@
+import type { HomeSearchPanel } from '#features/home/homeUrlState'
 import type {
   CommissionSearchEntrySource,
   SearchSuggestionAliasGroup,
 } from '#features/home/search/commissionSearchIndex'
+import type { SearchMemoryViewModel } from '#features/home/search/CommissionSearchSuggestionDropdown'
+import type { SearchMemoryKind, StoredSearch } from '#features/home/search/searchHistoryStorage'
+import type { SearchFacetSource, SearchFacetValue } from '#lib/search/facets'
 import type { KeyboardEvent, MouseEvent } from 'react'
 import { Button } from '#components/ui/button'
 import { Command, CommandInput } from '#components/ui/command'
@@ -16,26 +20,40 @@ import {
   requestStaleCharactersLoad as dispatchStaleCharactersLoad,
   readStaleCharactersLoadedBatchCount,
 } from '#features/home/commission/staleCharactersEvent'
-import { resolveHomeControls } from '#features/home/i18n/homeLocale'
+import {
+  buildShareableHomeUrl,
+  parseHomeUrlState,
+  replaceHomeUrlStateInAddress,
+} from '#features/home/homeUrlState'
+import { getHomeLocaleMessages, normalizeHomeLocale, resolveHomeControls } from '#features/home/i18n/homeLocale'
+import CommissionSearchFacetsPanel from '#features/home/search/CommissionSearchFacetsPanel'
 import CommissionSearchHelpPopover from '#features/home/search/CommissionSearchHelpPopover'
+import CommissionSearchResultsPanel from '#features/home/search/CommissionSearchResultsPanel'
 import CommissionSearchSuggestionDropdown from '#features/home/search/CommissionSearchSuggestionDropdown'
 import PopularKeywordsRow from '#features/home/search/PopularKeywordsRow'
+import {
+  getSearchMemoryCommandValue,
+  parseSearchMemoryCommandValue,
+} from '#features/home/search/searchHistoryStorage'
 import {
   dispatchSearchQueryLocationChange,
   useCommissionSearchModel,
 } from '#features/home/search/useCommissionSearchModel'
+import { useSearchHistory } from '#features/home/search/useSearchHistory'
+import { useSearchQueryLog } from '#features/home/search/useSearchQueryLog'
 import { useSuggestionPanelController } from '#features/home/search/useSuggestionPanelController'
 import { jumpToCommissionSearch } from '#lib/navigation/jumpToCommissionSearch'
+import { toggleSearchFacet } from '#lib/search/facets'
 import {
   applySuggestionToQuery,
-  normalizeQuery,
   normalizeQuotedTokenBoundary,
 } from '#lib/search/index'
-import { IconCheck, IconHelpCircle, IconSearch, IconShare3, IconX } from '@tabler/icons-react'
+import { IconCheck, IconHelpCircle, IconPin, IconPinFilled, IconSearch, IconShare3, IconX } from '@tabler/icons-react'
 import {
 
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from 'react'
@@ -56,23 +74,40 @@ const EMPTY_POPULAR_KEYWORDS: string[] = []
 const EMPTY_SUGGESTION_ALIAS_GROUPS: SearchSuggestionAliasGroup[] = []
 type CharacterBatchPrefetchStatus = 'active' | 'stale'
 
-function buildSearchUrl(rawQuery: string) {
-  const url = new URL(window.location.href)
-  if (normalizeQuery(rawQuery))
-    url.searchParams.set('q', rawQuery)
-  else url.searchParams.delete('q')
-  return url.toString()
-}
-
 function clearSearchQueryParamInAddress() {
-  const url = new URL(window.location.href)
-  url.searchParams.delete('q')
-  window.history.replaceState(null, '', `${url.pathname}${url.search}${url.hash}`)
+  replaceHomeUrlStateInAddress(window, { query: '', panels: [] })
   dispatchSearchQueryLocationChange()
 }
 
+function readInitialSearchPanels(): HomeSearchPanel[] {
+  if (typeof window === 'undefined')
+    return []
+  return parseHomeUrlState(new URL(window.location.href)).panels
+}
+
+function getResultToolClassName(isActive: boolean) {
+  return `
+  rounded-full border px-2.5 py-1 font-mono text-[11px] tracking-[0.01em]
+  transition-colors
+  focus-visible:outline-2 focus-visible:outline-offset-2
+  focus-visible:outline-gray-500
+  ${isActive
+    ? `
+      border-gray-700 bg-gray-900 text-white
+      dark:border-gray-300 dark:bg-gray-100 dark:text-gray-900
+    `
+    : `
+      border-gray-300/80 bg-white/75 text-gray-700
+      hover:border-gray-400 hover:text-gray-900
+      dark:border-gray-700 dark:bg-black/40 dark:text-gray-300
+      dark:hover:border-gray-500 dark:hover:text-gray-100
+    `}
+`
+}
+
 interface CommissionSearchProps {
   locale?: string
+  characterPagesPath?: string
   disableDomFiltering?: boolean
   onQueryChange?: (query: string) => void
   onMatchedIdsChange?: (matchedIds: Set<number>) => void
@@ -90,6 +125,7 @@ interface CommissionSearchProps {
 
 function CommissionSearch({
   locale,
+  characterPagesPath,
   disableDomFiltering = false,
   onQueryChange,
   onMatchedIdsChange,
@@ -118,15 +154,22 @@ function CommissionSearch({
   const [copyState, setCopyState] = useState<'idle' | 'success'>('idle')
   const [activeCommandValue, setActiveCommandValue] = useState('')
   const [isSuggestionPanelDismissed, setIsSuggestionPanelDismissed] = useState(false)
+  const [isSearchMemoryRequested, setIsSearchMemoryRequested] = useState(false)
+  const [isRelevanceView, setIsRelevanceView] = useState(() => readInitialSearchPanels().includes('relevance'))
+  const [isFacetsView, setIsFacetsView] = useState(() => readInitialSearchPanels().includes('facets'))
   const {
+    deferredQuery,
     ensureIndexReady,
     ensureSearchRuntimeReady,
+    hasDeferredQuery,
     hasQuery,
     hiddenStaleNoticeMessage,
     initialUrlQuery,
     liveRef,
+    matchedIds,
     query,
     resolvedActiveCommandValue,
+    resolvedIndex,
     setInputQuery,
     shouldAnimateSuggestionPanel,
     shouldShowHiddenStaleNotice,
@@ -134,6 +177,7 @@ function CommissionSearch({
     suggestionIsExclusion,
     suggestionOperator,
     suggestionViewModels,
+    syntaxErrorMessage,
     visibleStatusMessage,
   } = useCommissionSearchModel({
     activeCommandValue,
@@ -216,13 +260,76 @@ function CommissionSearch({
 
   const showSuggestionPanel = useCallback(() => {
     setIsSuggestionPanelDismissed(false)
+    setIsSearchMemoryRequested(true)
   }, [])
 
   const dismissSuggestionPanel = useCallback(() => {
     setIsSuggestionPanelDismissed(true)
+    setIsSearchMemoryRequested(false)
     setActiveCommandValue('')
   }, [])
 
+  const {
+    history: searchHistory,
+    saved: savedSearches,
+    isSavedSearch,
+    removeHistoryEntry,
+    removeSavedSearch,
+    saveSearch,
+  } = useSearchHistory({
+    settledQuery: deferredQuery,
+    isQueryValid: !syntaxErrorMessage && matchedIds.size > 0,
+  })
+  useSearchQueryLog({
+    settledQuery: deferredQuery,
+    matchedCount: matchedIds.size,
+    locale: normalizeHomeLocale(locale),
+    // Wait for the fuzzy index so a miss is a real miss, not a still-loading one.
+    isReady: !syntaxErrorMessage && resolvedIndex.entries.length > 0 && !!resolvedIndex.fuse,
+  })
+  const isCurrentQuerySaved = hasQuery && isSavedSearch(query)
+  const shouldShowSearchMemory
+    = isSearchMemoryRequested
+      && !isSuggestionPanelDismissed
+      && !hasQuery
+      && savedSearches.length + searchHistory.length > 0
+  const isDropdownOpen = shouldShowSuggestionPanel || shouldShowSearchMemory
+
+  const searchMemory = useMemo<SearchMemoryViewModel | null>(() => {
+    if (!shouldShowSearchMemory)
+      return null
+    const now = Date.now()
+    const toViewModel = (search: StoredSearch) => ({
+      query: search.query,
+      timeLabel: controls.formatSearchHistoryTime(search.at, now),
+      isSaved: isSavedSearch(search.query),
+    })
+    return { saved: savedSearches.map(toViewModel), history: searchHistory.map(toViewModel) }
+  }, [controls, isSavedSearch, savedSearches, searchHistory, shouldShowSearchMemory])
+
+  const commandValue = useMemo(() => {
+    if (!searchMemory)
+      return resolvedActiveCommandValue
+    const isMemoryValue = (['saved', 'history'] as const).some(kind =>
+      searchMemory[kind].some(item => getSearchMemoryCommandValue(kind, item.query) === activeCommandValue),
+    )
+    return isMemoryValue ? activeCommandValue : ''
+  }, [activeCommandValue, resolvedActiveCommandValue, searchMemory])
+
+  const removeStoredSearch = useCallback((kind: SearchMemoryKind, storedQuery: string) => {
+    if (kind === 'saved')
+      removeSavedSearch(storedQuery)
+    else
+      removeHistoryEntry(storedQuery)
+  }, [removeHistoryEntry, removeSavedSearch])
+
+  const toggleSavedSearch = useCallback((storedQuery: string) => {
+    if (isSavedSearch(storedQuery))
+      removeSavedSearch(storedQuery)
+    else
+      saveSearch(storedQuery)
+  }, [isSavedSearch, removeSavedSearch, saveSearch])
+
   const setCopyFeedback = useCallback(() => {
     setCopyState('success')
 
@@ -241,7 +348,11 @@ function CommissionSearch({
       return
 
     try {
-      await navigator.clipboard.writeText(buildSearchUrl(query))
+      const panels: HomeSearchPanel[] = [
+        ...(isFacetsView ? ['facets' as const] : []),
+        ...(isRelevanceView ? ['relevance' as const] : []),
+      ]
+      await navigator.clipboard.writeText(buildShareableHomeUrl(window, document, { query, panels }))
       setCopyFeedback()
       if (liveRef.current)
         liveRef.current.textContent = controls.searchUrlCopied
@@ -255,6 +366,8 @@ function CommissionSearch({
     controls.searchUrlCopied,
     controls.searchUrlCopyFailed,
     hasQuery,
+    isFacetsView,
+    isRelevanceView,
     liveRef,
     query,
     setCopyFeedback,
@@ -316,10 +429,12 @@ function CommissionSearch({
     prefetchDeferredCharacterBatches('stale')
   }, [prefetchDeferredCharacterBatches, shouldShowHiddenStaleNotice])
 
+  const canShowResultTools = !disableDomFiltering && hasDeferredQuery && matchedIds.size > 0
+
   const { focusInputAfterSelection, searchRootRef, shouldSuppressInputFocusOpen }
     = useSuggestionPanelController({
       inputRef,
-      shouldShowSuggestionPanel,
+      shouldShowSuggestionPanel: isDropdownOpen,
       dismissSuggestionPanel,
     })
 
@@ -376,6 +491,32 @@ function CommissionSearch({
     [applySelectedQuery, ensureSearchRuntimeReady],
   )
 
+  const applyStoredSearch = useCallback(
+    (storedQuery: string) => {
+      ensureSearchRuntimeReady()
+      applySelectedQuery(storedQuery)
+    },
+    [applySelectedQuery, ensureSearchRuntimeReady],
+  )
+
+  const facetSourceLabels = useMemo<Record<SearchFacetSource, string>>(
+    () => ({
+      Character: controls.sourceCharacter,
+      Creator: controls.sourceCreator,
+      Date: controls.sourceDate,
+      Keyword: controls.sourceKeyword,
+    }),
+    [controls.sourceCharacter, controls.sourceCreator, controls.sourceDate, controls.sourceKeyword],
+  )
+
+  const applyFacet = useCallback(
+    (source: SearchFacetSource, value: SearchFacetValue) => {
+      setInputQuery(toggleSearchFacet(query, source, value))
+      setCopyState('idle')
+    },
+    [query, setInputQuery],
+  )
+
   const prepareSearchHelp = useCallback(() => {
     ensureIndexReady()
   }, [ensureIndexReady])
@@ -392,14 +533,23 @@ function CommissionSearch({
 
   const handleInputKeyDown = useCallback(
     (event: KeyboardEvent<HTMLInputElement>) => {
-      if (event.key !== 'Escape' || !shouldShowSuggestionPanel)
+      if (event.key === 'Delete' && searchMemory) {
+        const item = parseSearchMemoryCommandValue(commandValue)
+        if (!item)
+          return
+        removeStoredSearch(item.kind, item.query)
+        event.preventDefault()
+        return
+      }
+
+      if (event.key !== 'Escape' || !isDropdownOpen)
         return
 
       dismissSuggestionPanel()
       event.preventDefault()
       event.stopPropagation()
     },
-    [dismissSuggestionPanel, shouldShowSuggestionPanel],
+    [commandValue, dismissSuggestionPanel, isDropdownOpen, removeStoredSearch, searchMemory],
   )
 
   return (
@@ -434,7 +584,7 @@ function CommissionSearch({
           >
             <Command
               shouldFilter={false}
-              value={resolvedActiveCommandValue}
+              value={commandValue}
               onValueChange={setActiveCommandValue}
               className="relative size-full overflow-visible bg-transparent"
             >
@@ -463,17 +613,18 @@ function CommissionSearch({
                 placeholder={controls.searchPlaceholder}
                 autoComplete="off"
                 aria-label={controls.searchCommissions}
+                aria-invalid={syntaxErrorMessage ? true : undefined}
                 className="
                   peer m-0 flex h-10 w-full origin-[left_center]
                   transform-[scale(0.8)] appearance-none rounded-md
-                  bg-transparent p-0 pr-24 font-mono text-[16px]/5
+                  bg-transparent p-0 pr-32 font-mono text-[16px]/5
                   tracking-[0.01em] outline-none
                   placeholder:text-gray-400
                 "
               />
 
               <CommissionSearchSuggestionDropdown
-                shouldShow={shouldShowSuggestionPanel}
+                shouldShow={isDropdownOpen}
                 shouldAnimate={shouldAnimateSuggestionPanel}
                 suggestionViewModels={suggestionViewModels}
                 suggestionIsExclusion={suggestionIsExclusion}
@@ -481,9 +632,22 @@ function CommissionSearch({
                 sourcePrefix={controls.sourcePrefix}
                 shouldShowHiddenStaleNotice={shouldShowHiddenStaleNotice}
                 hiddenStaleNoticeMessage={hiddenStaleNoticeMessage}
+                syntaxErrorMessage={syntaxErrorMessage}
                 visibleStatusMessage={visibleStatusMessage}
                 loadStaleCharactersLabel={controls.loadStaleCharacters}
                 onSelectSuggestion={applySuggestion}
+                onSelectStoredSearch={applyStoredSearch}
+                onRemoveStoredSearch={removeStoredSearch}
+                onToggleSavedSearch={toggleSavedSearch}
+                searchMemory={searchMemory}
+                searchMemoryLabels={{
+                  savedHeading: controls.savedSearchesHeading,
+                  historyHeading: controls.searchHistoryHeading,
+                  saveSearch: controls.saveSearch,
+                  removeSavedSearch: controls.removeSavedSearch,
+                  removeHistoryEntry: controls.removeSearchHistoryEntry,
+                  keyboardHint: controls.searchHistoryKeyboardHint,
+                }}
                 onLoadStaleCharacters={handleStaleCharactersLoadRequest}
               />
             </Command>
@@ -508,7 +672,7 @@ function CommissionSearch({
                     dark:hover:text-gray-100
                     dark:focus-visible:outline-gray-300
                     ${
-    hasQuery ? 'right-16' : 'right-0'
+    hasQuery ? 'right-24' : 'right-0'
     }
                   `}
                   aria-label={controls.searchHelp}
@@ -520,6 +684,44 @@ function CommissionSearch({
               <CommissionSearchHelpPopover controls={controls} onOpenChange={setIsHelpOpen} />
             </Popover>
 
+            <Button
+              type="button"
+              onClick={() => (isCurrentQuerySaved ? removeSavedSearch(query) : saveSearch(query))}
+              variant="ghost"
+              size="icon"
+              className={`
+                absolute right-16 inline-flex size-7 items-center justify-center
+                rounded-full transition-[opacity,color] duration-150
+                focus-visible:outline-2 focus-visible:outline-offset-2
+                focus-visible:outline-gray-500
+                dark:focus-visible:outline-gray-300
+                ${
+    isCurrentQuerySaved
+      ? `
+        text-gray-900
+        dark:text-gray-100
+      `
+      : `
+        text-gray-500
+        hover:text-gray-900
+        dark:text-gray-400
+        dark:hover:text-gray-100
+      `
+    }
+                ${hasQuery ? '' : 'pointer-events-none opacity-0'}
+              `}
+              aria-pressed={isCurrentQuerySaved}
+              aria-label={isCurrentQuerySaved ? controls.removeSavedSearch : controls.saveSearch}
+            >
+              {isCurrentQuerySaved
+                ? (
+                    <IconPinFilled className="h-4.5 w-4.5" aria-hidden="true" />
+                  )
+                : (
+                    <IconPin className="h-4.5 w-4.5" stroke={2} aria-hidden="true" />
+                  )}
+            </Button>
+
             <Button
               type="button"
               onClick={copySearchUrl}
@@ -593,6 +795,54 @@ function CommissionSearch({
         onKeywordSelect={applyPopularKeyword}
       />
 
+      {canShowResultTools
+        ? (
+            <>
+              <div className="mt-2 flex justify-end gap-1.5">
+                <button
+                  type="button"
+                  aria-pressed={isFacetsView}
+                  onClick={() => setIsFacetsView(current => !current)}
+                  className={getResultToolClassName(isFacetsView)}
+                >
+                  {controls.searchFacetsToggle}
+                </button>
+                <button
+                  type="button"
+                  aria-pressed={isRelevanceView}
+                  onClick={() => setIsRelevanceView(current => !current)}
+                  className={getResultToolClassName(isRelevanceView)}
+                >
+                  {controls.searchRelevanceToggle}
+                </button>
+              </div>
+              {isFacetsView
+                ? (
+                    <CommissionSearchFacetsPanel
+                      entries={resolvedIndex.entries}
+                      matchedIds={matchedIds}
+                      query={deferredQuery}
+                      sourceLabels={facetSourceLabels}
+                      onToggleFacet={applyFacet}
+                    />
+                  )
+                : null}
+              {isRelevanceView
+                ? (
+                    <CommissionSearchResultsPanel
+                      characterPagesPath={characterPagesPath}
+                      formatHeading={controls.formatSearchRelevanceHeading}
+                      formatPartCount={getHomeLocaleMessages(locale).listing.formatPartCount}
+                      index={resolvedIndex}
+                      matchedIds={matchedIds}
+                      query={deferredQuery}
+                    />
+                  )
+                : null}
+            </>
+          )
+        : null}
+
       <p ref={liveRef} aria-live="polite" className="sr-only" />
     </section>
   )
@@ -1,6 +1,8 @@
 import type { CommissionSearchEntrySource, SearchSuggestionAliasGroup } from '#features/home/search/CommissionSearch'
+import type { PackedSearchEntries } from '#features/home/search/commissionSearchIndex'
 import { resolveHomeControls } from '#features/home/i18n/homeLocale'
 import CommissionSearch from '#features/home/search/CommissionSearch'
+import { loadPackedSearchEntries } from '#features/home/search/commissionSearchIndex'
 import {
   buildPopularKeywordPoolFromSuggestTexts,
   dedupeKeywords,
@@ -9,11 +11,10 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 
 const MAX_FEATURED_KEYWORDS = 6
 const MAX_VISIBLE_POPULAR_KEYWORDS = 6
-const HOME_SEARCH_INDEX_URL = '/search/home-search-entries.json'
 const COMMISSION_ENTRY_SELECTOR = '[data-commission-entry="true"]'
 
-let cachedHomeSearchEntries: CommissionSearchEntrySource[] | null = null
-let homeSearchEntriesPromise: Promise<CommissionSearchEntrySource[]> | null = null
+let cachedHomeSearchEntries: PackedSearchEntries | null = null
+let homeSearchEntriesPromise: Promise<PackedSearchEntries> | null = null
 
 function createSeededRandom(seed: number) {
   let state = seed >>> 0 || 0x6D2B79F5
@@ -175,6 +176,7 @@ function buildSearchEntriesFromDom(): CommissionSearchEntrySource[] {
       domKey,
       searchText,
       searchSuggest: element.dataset.searchSuggest,
+      searchFields: element.dataset.searchFields,
     })
   })
 
@@ -194,30 +196,37 @@ function buildPopularKeywordPoolFromEntries(entries: CommissionSearchEntrySource
 
 interface CommissionSearchDeferredProps {
   locale?: string
+  characterPagesPath?: string
   featuredKeywords?: string[]
+  /** Content-hashed packed index emitted by the asset pipeline; loaded in production builds. */
+  searchIndexUrl?: string
   suggestionAliasGroups?: SearchSuggestionAliasGroup[]
 }
 
 export default function CommissionSearchDeferred({
   locale,
+  characterPagesPath,
   featuredKeywords = [],
+  searchIndexUrl,
   suggestionAliasGroups = [],
 }: CommissionSearchDeferredProps = {}) {
   const controls = resolveHomeControls(locale)
-  const shouldLoadFetchedEntries = Boolean(import.meta.env?.PROD)
+  const shouldLoadFetchedEntries = Boolean(import.meta.env?.PROD) && Boolean(searchIndexUrl)
   const [popularKeywordPage, setPopularKeywordPage] = useState(0)
   const [hasDismissedFeaturedKeywords, setHasDismissedFeaturedKeywords] = useState(false)
   const [externalEntries, setExternalEntries] = useState<CommissionSearchEntrySource[] | null>(
     () => {
       if (shouldLoadFetchedEntries)
-        return cachedHomeSearchEntries
+        return cachedHomeSearchEntries?.entries ?? null
       const entries = buildSearchEntriesFromDom()
       return entries.length > 0 ? entries : null
     },
   )
-  const [popularKeywordPool, setPopularKeywordPool] = useState<string[]>(() =>
-    externalEntries ? buildPopularKeywordPoolFromEntries(externalEntries) : [],
-  )
+  const [popularKeywordPool, setPopularKeywordPool] = useState<string[]>(() => {
+    if (shouldLoadFetchedEntries)
+      return cachedHomeSearchEntries?.popularKeywords ?? []
+    return externalEntries ? buildPopularKeywordPoolFromEntries(externalEntries) : []
+  })
 
   const dedupedFeaturedKeywordBatch = useMemo(
     () => dedupeKeywords(featuredKeywords, MAX_FEATURED_KEYWORDS),
@@ -234,22 +243,16 @@ export default function CommissionSearchDeferred({
   )
 
   useEffect(() => {
-    if (shouldLoadFetchedEntries) {
+    if (shouldLoadFetchedEntries && searchIndexUrl) {
       if (cachedHomeSearchEntries)
         return
 
       let active = true
       if (!homeSearchEntriesPromise) {
-        homeSearchEntriesPromise = fetch(HOME_SEARCH_INDEX_URL)
-          .then(async (response) => {
-            if (!response.ok) {
-              throw new Error(`Failed to load search index: ${response.status}`)
-            }
-            return (await response.json()) as CommissionSearchEntrySource[]
-          })
-          .then((entries) => {
-            cachedHomeSearchEntries = entries
-            return entries
+        homeSearchEntriesPromise = loadPackedSearchEntries(searchIndexUrl)
+          .then((packedEntries) => {
+            cachedHomeSearchEntries = packedEntries
+            return packedEntries
           })
           .catch((error) => {
             homeSearchEntriesPromise = null
@@ -258,11 +261,11 @@ export default function CommissionSearchDeferred({
       }
 
       void homeSearchEntriesPromise
-        .then((entries) => {
+        .then(({ entries, popularKeywords }) => {
           if (!active)
             return
           setExternalEntries(entries)
-          setPopularKeywordPool(buildPopularKeywordPoolFromEntries(entries))
+          setPopularKeywordPool(popularKeywords)
         })
         .catch((error) => {
           console.error(error)
@@ -282,7 +285,7 @@ export default function CommissionSearchDeferred({
     return () => {
       window.cancelAnimationFrame(rafId)
     }
-  }, [shouldLoadFetchedEntries])
+  }, [searchIndexUrl, shouldLoadFetchedEntries])
 
   const dedupedPopularKeywordPool = useMemo(
     () =>
@@ -316,6 +319,7 @@ export default function CommissionSearchDeferred({
     <CommissionSearch
       deferIndexInit
       locale={locale}
+      characterPagesPath={characterPagesPath}
       externalEntries={externalEntries ?? undefined}
       popularKeywords={popularKeywords}
       refreshPopularSearchLabel={controls.refreshPopularSearchLabel}
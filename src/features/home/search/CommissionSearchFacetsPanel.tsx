@@ -0,0 +1,105 @@
+import type { Entry } from '#features/home/search/commissionSearchIndex'
+import type { SearchFacetSource, SearchFacetValue } from '#lib/search/facets'
+import { collectSearchFacets } from '#lib/search/facets'
+import { useMemo } from 'react'
+
+interface CommissionSearchFacetsPanelProps {
+  entries: Entry[]
+  matchedIds: Set<number>
+  query: string
+  sourceLabels: Record<SearchFacetSource, string>
+  onToggleFacet: (source: SearchFacetSource, value: SearchFacetValue) => void
+}
+
+function FacetButton({
+  onToggle,
+  value,
+}: {
+  onToggle: () => void
+  value: SearchFacetValue
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={value.active}
+      data-search-facet={value.token}
+      onClick={onToggle}
+      className={`
+        inline-flex max-w-full items-baseline gap-1.5 rounded-full border px-2
+        py-0.5 font-mono text-[11px]/4 transition-colors
+        focus-visible:outline-2 focus-visible:outline-offset-2
+        focus-visible:outline-gray-500
+        ${value.active
+      ? `
+        border-gray-700 bg-gray-900 text-white
+        dark:border-gray-300 dark:bg-gray-100 dark:text-gray-900
+      `
+      : `
+        border-gray-300/80 text-gray-700
+        hover:border-gray-400 hover:text-gray-900
+        dark:border-gray-700 dark:text-gray-300
+        dark:hover:border-gray-500 dark:hover:text-gray-100
+      `}
+      `}
+    >
+      <span className="truncate">{value.term}</span>
+      <span className="shrink-0 tabular-nums opacity-70">{value.count}</span>
+    </button>
+  )
+}
+
+function CommissionSearchFacetsPanel({
+  entries,
+  matchedIds,
+  query,
+  sourceLabels,
+  onToggleFacet,
+}: CommissionSearchFacetsPanelProps) {
+  const groups = useMemo(
+    () => collectSearchFacets(query, entries, matchedIds),
+    [entries, matchedIds, query],
+  )
+
+  if (groups.length === 0)
+    return null
+
+  return (
+    <aside
+      data-search-facets="true"
+      className="
+        mt-3 grid gap-3 rounded-lg border border-gray-200/80 bg-white/70 px-3
+        py-2.5
+        sm:grid-cols-2
+        dark:border-gray-700/80 dark:bg-black/40
+      "
+    >
+      {groups.map(group => (
+        <section key={group.source} className="min-w-0">
+          <h2 className="
+            mb-1.5 font-mono text-[11px]/4 text-gray-500
+            dark:text-gray-400
+          "
+          >
+            {sourceLabels[group.source]}
+          </h2>
+          <ul className="flex flex-wrap gap-1.5">
+            {group.values.map(value => (
+              <li key={value.token} className="contents">
+                <FacetButton value={value} onToggle={() => onToggleFacet(group.source, value)} />
+                {value.months?.map(month => (
+                  <FacetButton
+                    key={month.token}
+                    value={month}
+                    onToggle={() => onToggleFacet(group.source, month)}
+                  />
+                ))}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </aside>
+  )
+}
+
+export default CommissionSearchFacetsPanel
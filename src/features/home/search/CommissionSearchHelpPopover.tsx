@@ -130,7 +130,7 @@ export default function CommissionSearchHelpPopover({
             dark:bg-gray-800 dark:text-gray-300
           "
           >
-            blue hair | silver !sketch
+            (blue hair | silver) !sketch
           </code>
         </p>
         <p className="
@@ -0,0 +1,188 @@
+import type { Entry } from '#features/home/search/commissionSearchIndex'
+import type { SearchIndexLike } from '#lib/search/index'
+import { getCharacterSectionId, getCharacterSlug } from '#lib/characters/nav'
+import { parseAndFormatDate } from '#lib/date/format'
+import { getHighlightSegments, getSearchHighlightTerms, rankMatchedEntries } from '#lib/search/ranking'
+import { useMemo } from 'react'
+
+const MAX_RELEVANCE_RESULTS = 50
+const MAX_RESULT_KEYWORDS = 4
+const TRAILING_SLASH_PATTERN = /\/$/
+
+interface CommissionSearchResultsPanelProps {
+  /** Locale-aware `/characters` path used when a result is not rendered on this page. */
+  characterPagesPath?: string
+  formatHeading: (shownCount: number, matchedCount: number) => string
+  formatPartCount: (count: number) => string
+  index: SearchIndexLike<Entry>
+  matchedIds: Set<number>
+  query: string
+}
+
+function resolveResultHref(entry: Entry, characterPagesPath: string | undefined) {
+  if (entry.element?.id)
+    return `#${entry.element.id}`
+
+  const character = entry.searchFields?.character?.[0]
+  const date = entry.searchFields?.date?.[0]
+  if (!character || characterPagesPath === undefined)
+    return null
+  const anchor = date ? `#${getCharacterSectionId(character)}-${date}` : ''
+  return `${characterPagesPath.replace(TRAILING_SLASH_PATTERN, '')}/${getCharacterSlug(character)}/${anchor}`
+}
+
+function HighlightedText({ text, terms }: { text: string, terms: string[] }) {
+  let offset = 0
+  return getHighlightSegments(text, terms).map((segment) => {
+    const key = `${offset}:${segment.text}`
+    offset += segment.text.length
+    return segment.highlighted
+      ? (
+          <mark
+            key={key}
+            className="
+              rounded-xs bg-amber-200/70 text-inherit
+              dark:bg-amber-500/30
+            "
+          >
+            {segment.text}
+          </mark>
+        )
+      : <span key={key}>{segment.text}</span>
+  })
+}
+
+function CommissionSearchResultsPanel({
+  characterPagesPath,
+  formatHeading,
+  formatPartCount,
+  index,
+  matchedIds,
+  query,
+}: CommissionSearchResultsPanelProps) {
+  const results = useMemo(
+    () => rankMatchedEntries(query, index, matchedIds).slice(0, MAX_RELEVANCE_RESULTS),
+    [index, matchedIds, query],
+  )
+  const highlightTerms = useMemo(() => getSearchHighlightTerms(query), [query])
+
+  if (results.length === 0)
+    return null
+
+  return (
+    <section
+      data-search-relevance-results="true"
+      className="
+        mt-3 rounded-lg border border-gray-200/80 bg-white/70 py-1 text-sm
+        dark:border-gray-700/80 dark:bg-black/40
+      "
+    >
+      <h2 className="
+        px-3 py-1.5 font-mono text-[11px]/4 text-gray-500
+        dark:text-gray-400
+      "
+      >
+        {formatHeading(results.length, matchedIds.size)}
+      </h2>
+      <ol>
+        {results.map(({ entry }) => {
+          const fields = entry.searchFields ?? {}
+          const character = fields.character?.[0] ?? entry.domKey ?? String(entry.id)
+          const creator = fields.creator?.[0]
+          const date = fields.date?.[0] ? parseAndFormatDate(fields.date[0], 'yyyy/MM/dd') : ''
+          const partCount = Number(fields.parts?.[0] ?? 1)
+          const keywords = (fields.keyword ?? []).slice(0, MAX_RESULT_KEYWORDS)
+          const description = fields.description?.find(value => getHighlightSegments(value, highlightTerms).some(segment => segment.highlighted))
+          const href = resolveResultHref(entry, characterPagesPath)
+          const body = (
+            <>
+              <span className="flex min-w-0 items-baseline gap-2">
+                <span className="
+                  truncate text-gray-900
+                  dark:text-gray-100
+                "
+                >
+                  <HighlightedText text={character} terms={highlightTerms} />
+                </span>
+                {creator
+                  ? (
+                      <span className="
+                        truncate text-gray-500
+                        dark:text-gray-400
+                      "
+                      >
+                        <HighlightedText text={creator} terms={highlightTerms} />
+                      </span>
+                    )
+                  : null}
+                <span className="
+                  ml-auto shrink-0 text-[11px] text-gray-500 tabular-nums
+                  dark:text-gray-400
+                "
+                >
+                  {partCount > 1 ? `${formatPartCount(partCount)} · ${date}` : date}
+                </span>
+              </span>
+              {keywords.length > 0 || description
+                ? (
+                    <span className="
+                      block truncate text-[11px]/4 text-gray-500
+                      dark:text-gray-400
+                    "
+                    >
+                      {keywords.map((keyword, keywordIndex) => (
+                        <span key={keyword}>
+                          {keywordIndex > 0 ? ' / ' : null}
+                          <HighlightedText text={keyword} terms={highlightTerms} />
+                        </span>
+                      ))}
+                      {description
+                        ? (
+                            <span>
+                              {keywords.length > 0 ? ' — ' : null}
+                              <HighlightedText text={description} terms={highlightTerms} />
+                            </span>
+                          )
+                        : null}
+                    </span>
+                  )
+                : null}
+            </>
+          )
+
+          return (
+            <li key={entry.id} data-search-result-id={entry.id}>
+              {href
+                ? (
+                    <a
+                      href={href}
+                      className="
+                        block px-3 py-1.5 font-mono text-gray-700
+                        hover:bg-gray-900/6
+                        focus-visible:outline-2 focus-visible:-outline-offset-2
+                        focus-visible:outline-gray-500
+                        dark:text-gray-300
+                        dark:hover:bg-white/10
+                      "
+                    >
+                      {body}
+                    </a>
+                  )
+                : (
+                    <div className="
+                      px-3 py-1.5 font-mono text-gray-700
+                      dark:text-gray-300
+                    "
+                    >
+                      {body}
+                    </div>
+                  )}
+            </li>
+          )
+        })}
+      </ol>
+    </section>
+  )
+}
+
+export default CommissionSearchResultsPanel
@@ -1,5 +1,9 @@
+import type { SearchMemoryKind } from '#features/home/search/searchHistoryStorage'
 import type { SuggestionTokenOperator } from '#lib/search/index'
-import { CommandItem, CommandList } from '#components/ui/command'
+import type { MouseEvent, PointerEvent, ReactNode } from 'react'
+import { CommandGroup, CommandItem, CommandList } from '#components/ui/command'
+import { getSearchMemoryCommandValue } from '#features/home/search/searchHistoryStorage'
+import { IconPin, IconPinFilled, IconX } from '@tabler/icons-react'
 
 export interface SuggestionViewModel {
   term: string
@@ -8,13 +12,38 @@ export interface SuggestionViewModel {
   relatedTerms: string[]
 }
 
-export const LOAD_STALE_COMMAND_VALUE = '__load-stale__'
+export interface StoredSearchViewModel {
+  query: string
+  timeLabel: string
+  isSaved: boolean
+}
+
+/** Saved and recent searches offered while the input is empty. */
+export interface SearchMemoryViewModel {
+  saved: StoredSearchViewModel[]
+  history: StoredSearchViewModel[]
+}
+
+export interface SearchMemoryLabels {
+  savedHeading: string
+  historyHeading: string
+  saveSearch: string
+  removeSavedSearch: string
+  removeHistoryEntry: string
+  keyboardHint: string
+}
 
+export const LOAD_STALE_COMMAND_VALUE = '__load-stale__'
 interface CommissionSearchSuggestionDropdownProps {
   hiddenStaleNoticeMessage: string
   loadStaleCharactersLabel: string
   onLoadStaleCharacters: () => void
   onSelectSuggestion: (suggestion: string) => void
+  onSelectStoredSearch: (query: string) => void
+  onRemoveStoredSearch: (kind: SearchMemoryKind, query: string) => void
+  onToggleSavedSearch: (query: string) => void
+  searchMemory: SearchMemoryViewModel | null
+  searchMemoryLabels: SearchMemoryLabels
   shouldAnimate: boolean
   shouldShow: boolean
   shouldShowHiddenStaleNotice: boolean
@@ -22,14 +51,152 @@ interface CommissionSearchSuggestionDropdownProps {
   suggestionIsExclusion: boolean
   suggestionOperator: SuggestionTokenOperator
   suggestionViewModels: SuggestionViewModel[]
+  syntaxErrorMessage: string | null
   visibleStatusMessage: string
 }
 
+// Row actions must not reach cmdk, which would select the row (and refocus nothing).
+function stopRowSelection(event: MouseEvent | PointerEvent) {
+  event.preventDefault()
+  event.stopPropagation()
+}
+
+function SearchMemoryRowAction({
+  label,
+  onActivate,
+  pressed,
+  children,
+}: {
+  label: string
+  onActivate: () => void
+  pressed?: boolean
+  children: ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      tabIndex={-1}
+      aria-label={label}
+      aria-pressed={pressed}
+      title={label}
+      onPointerDown={stopRowSelection}
+      onClick={(event) => {
+        stopRowSelection(event)
+        onActivate()
+      }}
+      className="
+        inline-flex size-6 shrink-0 items-center justify-center rounded-full
+        text-gray-400
+        hover:text-gray-900
+        dark:text-gray-500
+        dark:hover:text-gray-100
+      "
+    >
+      {children}
+    </button>
+  )
+}
+
+function SearchMemoryGroups({
+  labels,
+  memory,
+  onRemove,
+  onSelect,
+  onToggleSaved,
+}: {
+  labels: SearchMemoryLabels
+  memory: SearchMemoryViewModel
+  onRemove: (kind: SearchMemoryKind, query: string) => void
+  onSelect: (query: string) => void
+  onToggleSaved: (query: string) => void
+}) {
+  const groups = [
+    { kind: 'saved' as const, heading: labels.savedHeading, items: memory.saved },
+    { kind: 'history' as const, heading: labels.historyHeading, items: memory.history },
+  ].filter(group => group.items.length > 0)
+
+  return (
+    <>
+      {groups.map(group => (
+        <CommandGroup
+          key={group.kind}
+          heading={group.heading}
+          data-search-memory={group.kind}
+          className="
+            p-0
+            **:[[cmdk-group-heading]]:px-3 **:[[cmdk-group-heading]]:pt-1.5
+            **:[[cmdk-group-heading]]:pb-0.5 **:[[cmdk-group-heading]]:font-mono
+            **:[[cmdk-group-heading]]:text-[11px]/4
+            **:[[cmdk-group-heading]]:text-gray-500
+            dark:**:[[cmdk-group-heading]]:text-gray-400
+          "
+        >
+          {group.items.map(item => (
+            <CommandItem
+              key={item.query}
+              value={getSearchMemoryCommandValue(group.kind, item.query)}
+              onSelect={() => onSelect(item.query)}
+              className="
+                cursor-pointer gap-2 px-3 py-1 font-mono text-gray-700
+                data-[selected=true]:bg-gray-900/6
+                data-[selected=true]:text-gray-900
+                dark:text-gray-300
+                dark:data-[selected=true]:bg-white/10
+                dark:data-[selected=true]:text-white
+              "
+            >
+              <span className="min-w-0 flex-1 truncate">{item.query}</span>
+              <span className="
+                shrink-0 text-[11px]/4 text-gray-500 tabular-nums
+                dark:text-gray-400
+              "
+              >
+                {item.timeLabel}
+              </span>
+              {group.kind === 'history'
+                ? (
+                    <SearchMemoryRowAction
+                      label={item.isSaved ? labels.removeSavedSearch : labels.saveSearch}
+                      pressed={item.isSaved}
+                      onActivate={() => onToggleSaved(item.query)}
+                    >
+                      {item.isSaved
+                        ? <IconPinFilled className="size-3.5" aria-hidden="true" />
+                        : <IconPin className="size-3.5" stroke={2} aria-hidden="true" />}
+                    </SearchMemoryRowAction>
+                  )
+                : null}
+              <SearchMemoryRowAction
+                label={group.kind === 'saved' ? labels.removeSavedSearch : labels.removeHistoryEntry}
+                onActivate={() => onRemove(group.kind, item.query)}
+              >
+                <IconX className="size-3.5" stroke={2} aria-hidden="true" />
+              </SearchMemoryRowAction>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      ))}
+      <p className="
+        px-3 pt-1 pb-0.5 font-mono text-[10px]/4 text-gray-400
+        dark:text-gray-500
+      "
+      >
+        {labels.keyboardHint}
+      </p>
+    </>
+  )
+}
+
 function CommissionSearchSuggestionDropdown({
   hiddenStaleNoticeMessage,
   loadStaleCharactersLabel,
   onLoadStaleCharacters,
   onSelectSuggestion,
+  onSelectStoredSearch,
+  onRemoveStoredSearch,
+  onToggleSavedSearch,
+  searchMemory,
+  searchMemoryLabels,
   shouldAnimate,
   shouldShow,
   shouldShowHiddenStaleNotice,
@@ -37,6 +204,7 @@ function CommissionSearchSuggestionDropdown({
   suggestionIsExclusion,
   suggestionOperator,
   suggestionViewModels,
+  syntaxErrorMessage,
   visibleStatusMessage,
 }: CommissionSearchSuggestionDropdownProps) {
   if (!shouldShow)
@@ -59,6 +227,33 @@ function CommissionSearchSuggestionDropdown({
         dark:border-gray-700 dark:bg-black/90
       `}
     >
+      {syntaxErrorMessage
+        ? (
+            <p
+              data-search-syntax-error="true"
+              className="
+                px-3 py-1.5 font-mono text-[11px]/4 wrap-break-word
+                whitespace-normal text-amber-700
+                dark:text-amber-400
+              "
+            >
+              {syntaxErrorMessage}
+            </p>
+          )
+        : null}
+
+      {searchMemory
+        ? (
+            <SearchMemoryGroups
+              labels={searchMemoryLabels}
+              memory={searchMemory}
+              onRemove={onRemoveStoredSearch}
+              onSelect={onSelectStoredSearch}
+              onToggleSaved={onToggleSavedSearch}
+            />
+          )
+        : null}
+
       {suggestionViewModels.map((suggestion) => {
         return (
           <CommandItem
@@ -1,7 +1,11 @@
 import type { CommissionSearchEntrySource } from './commissionSearchIndex'
+import { gzipSync } from 'node:zlib'
+import { getMatchedEntryIds, SEARCH_FUSE_KEYS } from '#lib/search/index'
+import { packSearchIndex } from '#lib/search/packedIndex'
+import Fuse from 'fuse.js'
 // @vitest-environment jsdom
 import { describe, expect, it } from 'vitest'
-import { buildSearchIndex } from './commissionSearchIndex'
+import { adoptPackedSearchIndex, buildSearchIndex, decodePackedSearchIndex } from './commissionSearchIndex'
 
 function buildEntry({
   id,
@@ -105,4 +109,28 @@ describe('commissionSearchIndex', () => {
     expect(second.entries[1]?.element).toBeInstanceOf(HTMLElement)
     expect(second.entries[1]?.sectionId).toBe('beta')
   })
+
+  it('decodes gzip and plain packed indexes and builds the search index from them', async () => {
+    const sources = [
+      { domKey: 'first', searchText: 'Maid tea', searchSuggest: 'Keyword\tmaid', searchFields: 'keyword\tmaid' },
+      { domKey: 'second', searchText: 'Butler tea', searchSuggest: 'Keyword\tbutler', searchFields: 'keyword\tbutler' },
+    ]
+    const packed = packSearchIndex(sources, {
+      fuseIndex: Fuse.createIndex(SEARCH_FUSE_KEYS, sources.map(source => ({ searchText: source.searchText.toLowerCase() }))).toJSON(),
+      popularKeywords: ['maid'],
+    })
+    const json = JSON.stringify(packed)
+    const gzipped = gzipSync(json)
+
+    expect(await decodePackedSearchIndex(gzipped.buffer.slice(gzipped.byteOffset, gzipped.byteOffset + gzipped.byteLength))).toEqual(packed)
+    expect(await decodePackedSearchIndex(new TextEncoder().encode(json).buffer)).toEqual(packed)
+
+    const { entries, popularKeywords } = adoptPackedSearchIndex(packed)
+    const index = buildSearchIndex('character', entries, { skipDomContext: true })
+
+    expect(popularKeywords).toEqual(['maid'])
+    expect(index.fuseIndex).toBe(packed.fuseIndex)
+    expect(index.suggestions.map(suggestion => suggestion.term)).toEqual(['butler', 'maid'])
+    expect(getMatchedEntryIds('tea !kw:maid', index)).toEqual(new Set([1]))
+  })
 })
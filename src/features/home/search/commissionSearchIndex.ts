@@ -1,10 +1,14 @@
 import type { SearchEntryLike, SearchIndexLike, Suggestion, SuggestionEntryLike } from '#lib/search/index'
+import type { PackedSearchIndex } from '#lib/search/packedIndex'
 import {
   collectSuggestions,
   createSearchIndex,
+  parseSearchFieldRows,
   parseSuggestionRows,
 
 } from '#lib/search/index'
+import { unpackSearchIndex } from '#lib/search/packedIndex'
+import { foldSearchText } from '#lib/search/textFolding'
 
 export type Entry = SearchEntryLike
   & SuggestionEntryLike & {
@@ -39,6 +43,12 @@ export interface CommissionSearchEntrySource {
   domKey: string
   searchText: string
   searchSuggest?: string
+  searchFields?: string
+}
+
+export interface PackedSearchEntries {
+  entries: CommissionSearchEntrySource[]
+  popularKeywords: string[]
 }
 
 const normalizeSuggestionTermKey = (term: string) => term.trim().toLowerCase()
@@ -53,6 +63,11 @@ const stableEntryDerivedStateCache = new WeakMap<
     suggestions: Suggestion[]
   }
 >()
+const prebuiltSearchIndexCache = new WeakMap<
+  Entry[],
+  Pick<SearchIndexLike<Entry>, 'strictTermIndex' | 'fieldTermIndex' | 'fuseIndex'>
+>()
+const GZIP_MAGIC_BYTES = [0x1F, 0x8B]
 
 function setParsedSuggestionRowsCacheEntry(key: string, value: ReturnType<typeof parseSuggestionRows>) {
   if (parsedSuggestionRowsCache.has(key)) {
@@ -89,8 +104,9 @@ function getCachedExternalEntries(externalEntries: CommissionSearchEntrySource[]
   const nextEntries: Entry[] = externalEntries.map(entry => ({
     id: entry.id,
     domKey: entry.domKey,
-    searchText: entry.searchText.toLowerCase(),
+    searchText: foldSearchText(entry.searchText),
     suggestionRows: getParsedSuggestionRows(entry.searchSuggest ?? ''),
+    searchFields: parseSearchFieldRows(entry.searchFields ?? ''),
   }))
 
   externalEntryCache.set(externalEntries, nextEntries)
@@ -111,6 +127,43 @@ function getStableEntryDerivedState(entries: Entry[]) {
   return next
 }
 
+/**
+ * Seeds the entry, suggestion and term index caches from a pipeline-built index, so
+ * `buildSearchIndex` over the returned entries skips every client-side rebuild.
+ */
+export function adoptPackedSearchIndex(packed: PackedSearchIndex): PackedSearchEntries {
+  const { entries, strictTermIndex, fieldTermIndex, suggestions, popularKeywords, fuseIndex } = unpackSearchIndex(packed)
+  const sources = entries.map(entry => ({ id: entry.id, domKey: entry.domKey, searchText: entry.searchText }))
+
+  externalEntryCache.set(sources, entries)
+  stableEntryDerivedStateCache.set(entries, {
+    entryById: new Map(entries.map(entry => [entry.id, entry])),
+    suggestions,
+  })
+  prebuiltSearchIndexCache.set(entries, { strictTermIndex, fieldTermIndex, fuseIndex })
+
+  return { entries: sources, popularKeywords }
+}
+
+/**
+ * Parses a packed index body. Hosts that serve the file with `Content-Encoding: gzip`
+ * hand over plain JSON, so only bodies starting with the gzip magic bytes are inflated.
+ */
+export async function decodePackedSearchIndex(buffer: ArrayBuffer): Promise<PackedSearchIndex> {
+  const bytes = new Uint8Array(buffer)
+  const isGzip = GZIP_MAGIC_BYTES.every((byte, position) => bytes[position] === byte)
+  const body = isGzip ? new Response(bytes).body?.pipeThrough(new DecompressionStream('gzip')) : bytes
+  return new Response(body).json()
+}
+
+export async function loadPackedSearchEntries(url: string) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load search index: ${response.status}`)
+  }
+  return adoptPackedSearchIndex(await decodePackedSearchIndex(await response.arrayBuffer()))
+}
+
 export function createEmptySearchIndex(): SearchIndex {
   return {
     entries: [],
@@ -154,7 +207,7 @@ function finalizeSearchIndex(entries: Entry[], {
   const { entryById, suggestions } = getStableEntryDerivedState(entries)
 
   return {
-    ...createSearchIndex(entries),
+    ...createSearchIndex(entries, prebuiltSearchIndexCache.get(entries)),
     ...collectVisibilityMetrics(entries),
     entryById,
     sections,
@@ -303,7 +356,8 @@ export function buildSearchIndex(viewMode: 'character' | 'timeline', externalEnt
       element,
       sectionId,
       domKey,
-      searchText: (element.dataset.searchText ?? '').toLowerCase(),
+      searchText: foldSearchText(element.dataset.searchText ?? ''),
+      searchFields: parseSearchFieldRows(element.dataset.searchFields ?? ''),
     }
   })
 
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  readSearchHistoryState,
+  removeStoredSearch,
+  upsertStoredSearch,
+  writeSearchHistoryState,
+} from './searchHistoryStorage'
+
+describe('searchHistoryStorage', () => {
+  afterEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('moves a repeated query to the front, ignoring case and whitespace', () => {
+    const history = [
+      { query: 'Lucia', at: 1 },
+      { query: 'kw:sketch', at: 2 },
+    ]
+
+    expect(upsertStoredSearch(history, '  kw:Sketch ', 3, 10)).toEqual([
+      { query: 'kw:Sketch', at: 3 },
+      { query: 'Lucia', at: 1 },
+    ])
+    expect(upsertStoredSearch(history, 'new', 3, 2)).toEqual([
+      { query: 'new', at: 3 },
+      { query: 'Lucia', at: 1 },
+    ])
+    expect(upsertStoredSearch(history, '   ', 3, 10)).toBe(history)
+  })
+
+  it('removes a single query and keeps the array when nothing matches', () => {
+    const saved = [{ query: 'Lucia', at: 1 }, { query: 'qiu', at: 2 }]
+
+    expect(removeStoredSearch(saved, 'lucia')).toEqual([{ query: 'qiu', at: 2 }])
+    expect(removeStoredSearch(saved, 'missing')).toBe(saved)
+  })
+
+  it('round-trips through localStorage and drops malformed rows', () => {
+    writeSearchHistoryState(window.localStorage, {
+      history: [{ query: 'lucia', at: 1 }],
+      saved: [],
+    })
+    expect(window.localStorage.getItem('commission-index:saved-searches')).toBeNull()
+
+    window.localStorage.setItem(
+      'commission-index:saved-searches',
+      JSON.stringify([{ query: 'qiu', at: 2 }, { query: '', at: 3 }, { query: 'x' }, 'junk']),
+    )
+    expect(readSearchHistoryState(window.localStorage)).toEqual({
+      history: [{ query: 'lucia', at: 1 }],
+      saved: [{ query: 'qiu', at: 2 }],
+    })
+
+    window.localStorage.setItem('commission-index:search-history', '{not json')
+    expect(readSearchHistoryState(window.localStorage).history).toEqual([])
+  })
+})
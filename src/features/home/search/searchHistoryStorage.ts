@@ -0,0 +1,112 @@
+import { normalizeQuery } from '#lib/search/index'
+
+const SEARCH_HISTORY_STORAGE_KEY = 'commission-index:search-history'
+const SAVED_SEARCHES_STORAGE_KEY = 'commission-index:saved-searches'
+
+export const MAX_SEARCH_HISTORY_ENTRIES = 10
+export const MAX_SAVED_SEARCHES = 20
+
+export interface StoredSearch {
+  query: string
+  /** Epoch milliseconds of the last search (history) or when it was pinned (saved). */
+  at: number
+}
+
+export interface SearchHistoryState {
+  history: StoredSearch[]
+  saved: StoredSearch[]
+}
+
+/** Which list a remembered search belongs to. */
+export type SearchMemoryKind = 'saved' | 'history'
+
+export const EMPTY_SEARCH_HISTORY_STATE: SearchHistoryState = { history: [], saved: [] }
+
+function isStoredSearch(value: unknown): value is StoredSearch {
+  if (!value || typeof value !== 'object')
+    return false
+  const { query, at } = value as Partial<StoredSearch>
+  return typeof query === 'string' && !!query.trim() && typeof at === 'number' && Number.isFinite(at)
+}
+
+function readStoredSearches(storage: Storage | undefined, key: string, limit: number) {
+  try {
+    const raw = storage?.getItem(key)
+    if (!raw)
+      return []
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isStoredSearch).slice(0, limit) : []
+  }
+  catch {
+    return []
+  }
+}
+
+function writeStoredSearches(storage: Storage | undefined, key: string, searches: StoredSearch[]) {
+  try {
+    if (searches.length === 0)
+      storage?.removeItem(key)
+    else
+      storage?.setItem(key, JSON.stringify(searches))
+  }
+  catch {}
+}
+
+export function readSearchHistoryState(storage: Storage | undefined): SearchHistoryState {
+  return {
+    history: readStoredSearches(storage, SEARCH_HISTORY_STORAGE_KEY, MAX_SEARCH_HISTORY_ENTRIES),
+    saved: readStoredSearches(storage, SAVED_SEARCHES_STORAGE_KEY, MAX_SAVED_SEARCHES),
+  }
+}
+
+export function writeSearchHistoryState(storage: Storage | undefined, state: SearchHistoryState) {
+  writeStoredSearches(storage, SEARCH_HISTORY_STORAGE_KEY, state.history)
+  writeStoredSearches(storage, SAVED_SEARCHES_STORAGE_KEY, state.saved)
+}
+
+export function isSearchHistoryStorageKey(key: string | null) {
+  return key === SEARCH_HISTORY_STORAGE_KEY || key === SAVED_SEARCHES_STORAGE_KEY
+}
+
+const isSameQuery = (a: string, b: string) => normalizeQuery(a) === normalizeQuery(b)
+
+export function findStoredSearch(searches: StoredSearch[], query: string) {
+  return searches.find(search => isSameQuery(search.query, query))
+}
+
+/**
+ * Moves `query` to the front of `searches` with a fresh timestamp, dropping earlier
+ * spellings of the same query (case and surrounding whitespace ignored).
+ */
+export function upsertStoredSearch(searches: StoredSearch[], query: string, at: number, limit: number) {
+  const trimmedQuery = query.trim()
+  if (!normalizeQuery(trimmedQuery))
+    return searches
+  return [
+    { query: trimmedQuery, at },
+    ...searches.filter(search => !isSameQuery(search.query, trimmedQuery)),
+  ].slice(0, limit)
+}
+
+export function removeStoredSearch(searches: StoredSearch[], query: string) {
+  const next = searches.filter(search => !isSameQuery(search.query, query))
+  return next.length === searches.length ? searches : next
+}
+
+const SEARCH_MEMORY_COMMAND_PREFIX: Record<SearchMemoryKind, string> = {
+  saved: '__saved-search__:',
+  history: '__search-history__:',
+}
+
+/** cmdk item value for a remembered search; unique across both lists and suggestions. */
+export function getSearchMemoryCommandValue(kind: SearchMemoryKind, query: string) {
+  return `${SEARCH_MEMORY_COMMAND_PREFIX[kind]}${query}`
+}
+
+export function parseSearchMemoryCommandValue(value: string): { kind: SearchMemoryKind, query: string } | null {
+  for (const kind of ['saved', 'history'] as const) {
+    if (value.startsWith(SEARCH_MEMORY_COMMAND_PREFIX[kind]))
+      return { kind, query: value.slice(SEARCH_MEMORY_COMMAND_PREFIX[kind].length) }
+  }
+  return null
+}
@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  appendPendingSearchQuery,
+  flushPendingSearchQueries,
+  MAX_PENDING_SEARCH_QUERIES,
+  readPendingSearchQueries,
+} from './searchQueryLogStorage'
+
+const record = (query: string, at = 1) => ({ query, matchedCount: 0, locale: 'en', at })
+
+describe('searchQueryLogStorage', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('keeps the newest pending searches up to the cap', () => {
+    for (let index = 0; index < MAX_PENDING_SEARCH_QUERIES + 2; index += 1)
+      appendPendingSearchQuery(localStorage, record(`q${index}`, index))
+
+    const pending = readPendingSearchQueries(localStorage)
+    expect(pending).toHaveLength(MAX_PENDING_SEARCH_QUERIES)
+    expect(pending[0].query).toBe('q2')
+  })
+
+  it('drops flushed searches but keeps ones logged during the request', async () => {
+    appendPendingSearchQuery(localStorage, record('mira'))
+    const fetchImpl = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      appendPendingSearchQuery(localStorage, record('sky'))
+      expect(JSON.parse(String(init?.body))).toEqual({ records: [record('mira')] })
+      return new Response('{}', { status: 200 })
+    })
+
+    await expect(flushPendingSearchQueries({ storage: localStorage, endpoint: '/log', fetchImpl })).resolves.toBe(1)
+    expect(readPendingSearchQueries(localStorage)).toEqual([record('sky')])
+  })
+
+  it('keeps searches pending when the endpoint rejects them', async () => {
+    appendPendingSearchQuery(localStorage, record('mira'))
+    const fetchImpl = vi.fn(async () => new Response('', { status: 500 }))
+
+    await expect(flushPendingSearchQueries({ storage: localStorage, endpoint: '/log', fetchImpl })).rejects.toThrow('500')
+    expect(readPendingSearchQueries(localStorage)).toEqual([record('mira')])
+  })
+})
@@ -0,0 +1,64 @@
+import type { SearchQueryLogRecord } from '#lib/search/queryLog'
+import { parseSearchQueryLogRecords } from '#lib/search/queryLog'
+
+const SEARCH_QUERY_LOG_STORAGE_KEY = 'commission-index:search-query-log'
+
+/** Oldest searches are dropped past this many, so an unflushed log stays small. */
+export const MAX_PENDING_SEARCH_QUERIES = 200
+
+export function readPendingSearchQueries(storage: Storage | undefined): SearchQueryLogRecord[] {
+  try {
+    const raw = storage?.getItem(SEARCH_QUERY_LOG_STORAGE_KEY)
+    return raw ? parseSearchQueryLogRecords(JSON.parse(raw)) : []
+  }
+  catch {
+    return []
+  }
+}
+
+function writePendingSearchQueries(storage: Storage | undefined, records: SearchQueryLogRecord[]) {
+  try {
+    if (records.length === 0)
+      storage?.removeItem(SEARCH_QUERY_LOG_STORAGE_KEY)
+    else
+      storage?.setItem(SEARCH_QUERY_LOG_STORAGE_KEY, JSON.stringify(records))
+  }
+  catch {}
+}
+
+export function appendPendingSearchQuery(storage: Storage | undefined, record: SearchQueryLogRecord) {
+  writePendingSearchQueries(
+    storage,
+    [...readPendingSearchQueries(storage), record].slice(-MAX_PENDING_SEARCH_QUERIES),
+  )
+}
+
+/**
+ * Posts the pending searches to `endpoint` and drops them once accepted. Searches
+ * logged while the request is in flight stay pending for the next flush.
+ */
+export async function flushPendingSearchQueries({
+  storage,
+  endpoint,
+  fetchImpl = fetch,
+}: {
+  storage: Storage | undefined
+  endpoint: string
+  fetchImpl?: typeof fetch
+}) {
+  const records = readPendingSearchQueries(storage)
+  if (records.length === 0)
+    return 0
+
+  const response = await fetchImpl(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ records }),
+    keepalive: true,
+  })
+  if (!response.ok)
+    throw new Error(`Failed to flush search query log: ${response.status}`)
+
+  writePendingSearchQueries(storage, readPendingSearchQueries(storage).slice(records.length))
+  return records.length
+}
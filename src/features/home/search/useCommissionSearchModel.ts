@@ -22,6 +22,7 @@ import { trackRybbitEvent } from '#lib/analytics/track'
 import {
   filterSuggestions,
   getMatchedEntryIds,
+  getSearchQueryError,
   hydrateSearchIndexFuse,
   normalizeQuery,
   parseSuggestionInputState,
@@ -42,10 +43,14 @@ interface SearchControls {
   sourceCreator: string
   sourceKeyword: string
   sourceDate: string
+  sourceField: string
   formatMatchCount: (count: number) => string
   formatSearchResultsStatus: (matchedCount: number, totalCount: number) => string
   formatSearchClearedStatus: (totalCount: number) => string
   formatHiddenStaleResultsNotice: (hiddenCount: number) => string
+  searchErrorUnclosedGroup: string
+  searchErrorUnexpectedClose: string
+  searchErrorUnclosedQuote: string
 }
 
 interface UseCommissionSearchModelOptions {
@@ -167,8 +172,15 @@ export function useCommissionSearchModel({
         Creator: controls.sourceCreator,
         Keyword: controls.sourceKeyword,
         Date: controls.sourceDate,
+        Field: controls.sourceField,
       }) as const,
-    [controls.sourceCharacter, controls.sourceCreator, controls.sourceDate, controls.sourceKeyword],
+    [
+      controls.sourceCharacter,
+      controls.sourceCreator,
+      controls.sourceDate,
+      controls.sourceField,
+      controls.sourceKeyword,
+    ],
   )
   const initialUrlQuery = useSyncExternalStore(
     subscribeToUrlQuerySnapshot,
@@ -367,17 +379,30 @@ export function useCommissionSearchModel({
   const suggestionViewModels = useMemo<SuggestionViewModel[]>(() => {
     return filteredSuggestions.map(suggestion => ({
       term: suggestion.term,
-      matchCountLabel: controls.formatMatchCount(suggestion.matchedCount),
+      matchCountLabel: suggestion.sources.includes('Field')
+        ? ''
+        : controls.formatMatchCount(suggestion.matchedCount),
       sourcesLabel: suggestion.sources.map(source => suggestionSourceLabels[source]).join(' / '),
       relatedTerms: relatedSuggestionTermsMap.get(suggestion.term.trim().toLowerCase()) ?? [],
     }))
   }, [controls, filteredSuggestions, relatedSuggestionTermsMap, suggestionSourceLabels])
 
+  const syntaxErrorMessage = useMemo(() => {
+    const error = getSearchQueryError(deferredQuery)
+    if (!error)
+      return null
+    return {
+      'unclosed-group': controls.searchErrorUnclosedGroup,
+      'unexpected-close': controls.searchErrorUnexpectedClose,
+      'unclosed-quote': controls.searchErrorUnclosedQuote,
+    }[error.code]
+  }, [controls, deferredQuery])
+
   const shouldShowHiddenStaleNotice = hiddenStaleMatchedCount > 0
   const shouldShowSuggestionPanel
     = !isSuggestionPanelDismissed
       && hasQuery
-      && (suggestionViewModels.length > 0 || shouldShowHiddenStaleNotice)
+      && (suggestionViewModels.length > 0 || shouldShowHiddenStaleNotice || !!syntaxErrorMessage)
 
   const visibleStatusMessage = useMemo(
     () =>
@@ -412,10 +437,14 @@ export function useCommissionSearchModel({
   const shouldAnimateSuggestionPanel = !shouldSuppressHandoffPanelAnimation
   const statusMessage = useMemo(
     () =>
-      shouldShowHiddenStaleNotice
-        ? `${visibleStatusMessage} ${hiddenStaleNoticeMessage}`
-        : visibleStatusMessage,
-    [hiddenStaleNoticeMessage, shouldShowHiddenStaleNotice, visibleStatusMessage],
+      [
+        syntaxErrorMessage,
+        visibleStatusMessage,
+        shouldShowHiddenStaleNotice ? hiddenStaleNoticeMessage : null,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    [hiddenStaleNoticeMessage, shouldShowHiddenStaleNotice, syntaxErrorMessage, visibleStatusMessage],
   )
   const { liveRef } = useCommissionSearchDomSync({
     disableDomFiltering,
@@ -490,6 +519,7 @@ export function useCommissionSearchModel({
     suggestionIsExclusion,
     suggestionOperator,
     suggestionViewModels,
+    syntaxErrorMessage,
     visibleEntriesCount,
     visibleStatusMessage,
   }
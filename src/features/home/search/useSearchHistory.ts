@@ -0,0 +1,126 @@
+import type { SearchHistoryState } from '#features/home/search/searchHistoryStorage'
+import {
+  EMPTY_SEARCH_HISTORY_STATE,
+  findStoredSearch,
+  isSearchHistoryStorageKey,
+  MAX_SAVED_SEARCHES,
+  MAX_SEARCH_HISTORY_ENTRIES,
+  readSearchHistoryState,
+  removeStoredSearch,
+  upsertStoredSearch,
+  writeSearchHistoryState,
+} from '#features/home/search/searchHistoryStorage'
+import { normalizeQuery } from '#lib/search/index'
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+
+/** How long a query has to stay unchanged before it is remembered as a search. */
+export const SEARCH_HISTORY_SETTLE_DELAY_MS = 1500
+
+function getStorage() {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage
+  }
+  catch {
+    return undefined
+  }
+}
+
+const listeners = new Set<() => void>()
+let currentState: SearchHistoryState | null = null
+
+function getSearchHistorySnapshot() {
+  currentState ??= readSearchHistoryState(getStorage())
+  return currentState
+}
+
+const getServerSearchHistorySnapshot = () => EMPTY_SEARCH_HISTORY_STATE
+
+function updateSearchHistory(updater: (current: SearchHistoryState) => SearchHistoryState) {
+  const current = getSearchHistorySnapshot()
+  const next = updater(current)
+  if (next === current)
+    return
+  currentState = next
+  writeSearchHistoryState(getStorage(), next)
+  for (const listener of listeners) listener()
+}
+
+function subscribeToSearchHistory(onStoreChange: () => void) {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== null && !isSearchHistoryStorageKey(event.key))
+      return
+    currentState = null
+    onStoreChange()
+  }
+
+  listeners.add(onStoreChange)
+  window.addEventListener('storage', handleStorage)
+  return () => {
+    listeners.delete(onStoreChange)
+    window.removeEventListener('storage', handleStorage)
+    // Re-read on the next mount so storage edits made while unmounted are picked up.
+    if (listeners.size === 0)
+      currentState = null
+  }
+}
+
+function removeHistoryEntry(query: string) {
+  updateSearchHistory((current) => {
+    const history = removeStoredSearch(current.history, query)
+    return history === current.history ? current : { ...current, history }
+  })
+}
+
+function saveSearch(query: string) {
+  updateSearchHistory(current => ({
+    ...current,
+    saved: upsertStoredSearch(current.saved, query, Date.now(), MAX_SAVED_SEARCHES),
+  }))
+}
+
+function removeSavedSearch(query: string) {
+  updateSearchHistory((current) => {
+    const saved = removeStoredSearch(current.saved, query)
+    return saved === current.saved ? current : { ...current, saved }
+  })
+}
+
+/**
+ * Recent and saved searches kept in localStorage. The server snapshot is empty, so
+ * hydration matches, and writes from other tabs arrive through `storage` events.
+ * `settledQuery` joins the history once it has stayed unchanged for a moment.
+ */
+export function useSearchHistory({ settledQuery, isQueryValid }: { settledQuery: string, isQueryValid: boolean }) {
+  const state = useSyncExternalStore(
+    subscribeToSearchHistory,
+    getSearchHistorySnapshot,
+    getServerSearchHistorySnapshot,
+  )
+
+  useEffect(() => {
+    if (!isQueryValid || !normalizeQuery(settledQuery))
+      return
+
+    const timer = setTimeout(() => {
+      updateSearchHistory(current => ({
+        ...current,
+        history: upsertStoredSearch(current.history, settledQuery, Date.now(), MAX_SEARCH_HISTORY_ENTRIES),
+      }))
+    }, SEARCH_HISTORY_SETTLE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [isQueryValid, settledQuery])
+
+  const isSavedSearch = useCallback(
+    (query: string) => !!findStoredSearch(state.saved, query),
+    [state.saved],
+  )
+
+  return {
+    history: state.history,
+    saved: state.saved,
+    isSavedSearch,
+    removeHistoryEntry,
+    removeSavedSearch,
+    saveSearch,
+  }
+}
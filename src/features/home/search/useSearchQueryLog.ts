@@ -0,0 +1,54 @@
+import { appendPendingSearchQuery, flushPendingSearchQueries } from '#features/home/search/searchQueryLogStorage'
+import { SEARCH_HISTORY_SETTLE_DELAY_MS } from '#features/home/search/useSearchHistory'
+import { createSearchQueryLogRecord, SEARCH_QUERY_LOG_INGEST_PATH } from '#lib/search/queryLog'
+import { useEffect, useRef } from 'react'
+
+const defaultEndpoint = import.meta.env?.DEV ? SEARCH_QUERY_LOG_INGEST_PATH : null
+
+function getStorage() {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage
+  }
+  catch {
+    return undefined
+  }
+}
+
+/**
+ * Queues each settled query with its matched count in localStorage and flushes the
+ * queue to `endpoint` (the dev admin stand-in by default), feeding the admin search
+ * insights. Without an endpoint nothing is recorded. `isReady` should hold only
+ * once the count is final.
+ */
+export function useSearchQueryLog({
+  settledQuery,
+  matchedCount,
+  locale,
+  isReady,
+  endpoint = defaultEndpoint,
+}: {
+  settledQuery: string
+  matchedCount: number
+  locale: string
+  isReady: boolean
+  endpoint?: string | null
+}) {
+  const lastLoggedQueryRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!isReady || !endpoint)
+      return
+
+    const timer = setTimeout(() => {
+      const record = createSearchQueryLogRecord(settledQuery, matchedCount, locale, Date.now())
+      if (!record || record.query === lastLoggedQueryRef.current)
+        return
+      lastLoggedQueryRef.current = record.query
+
+      const storage = getStorage()
+      appendPendingSearchQuery(storage, record)
+      void flushPendingSearchQueries({ storage, endpoint }).catch(() => {})
+    }, SEARCH_HISTORY_SETTLE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [endpoint, isReady, locale, matchedCount, settledQuery])
+}
@@ -6,6 +6,7 @@ import type {
 } from '#features/home/commission/homeCharacterBatchPayload'
 import type { HomeLocale } from '#features/home/i18n/homeLocale'
 import type { HomeCharacterBatchStatus } from './homeCharacterBatches'
+import { getCreatorPageHref } from '#features/creators/creatorPagePath'
 import {
   COMMISSION_LINK_TEXT_CLASS,
   selectDisplayLinks,
@@ -16,14 +17,16 @@ import {
   getCharacterSectionId,
   getCharacterTitleId,
 } from '#lib/characters/nav'
-import { parseCommissionFileName } from '#lib/commissions'
+import { formatCommissionCreatorLabel, getCommissionMetadata, groupCommissionParts } from '#lib/commissions'
 import { parseAndFormatDate } from '#lib/date/format'
-import { resolveSourceImageByCommissionFileName } from '#lib/images/sourceImageRegistry'
+import {
+  resolveSourceImageByCommissionFileName,
+  resolveSourceImagePlaceholderByCommissionFileName,
+} from '#lib/images/sourceImageRegistry'
 import {
   buildCommissionSearchDomKey,
   buildCommissionSearchMetadata,
 } from '#lib/search/commissionSearchMetadata'
-import { getBaseFileName } from '#lib/utils/strings'
 import { getImage } from 'astro:assets'
 
 const COMMISSION_IMAGE_WIDTH = 1280
@@ -47,7 +50,7 @@ function buildInterestPayload({
   }
 }
 
-async function buildImagePayload(commission: Commission) {
+async function buildImagePayload(commission: Commission, locale: HomeLocale) {
   const sourceImage = resolveSourceImageByCommissionFileName(commission.fileName)
   if (!sourceImage)
     return null
@@ -66,6 +69,8 @@ async function buildImagePayload(commission: Commission) {
     sizes: COMMISSION_IMAGE_SIZES,
     width: Number(image.attributes.width ?? COMMISSION_IMAGE_WIDTH),
     height: Number(image.attributes.height ?? sourceImage.height),
+    placeholderColor: resolveSourceImagePlaceholderByCommissionFileName(commission.fileName)?.color ?? null,
+    openLabel: getHomeLocaleMessages(locale).listing.lightboxOpen,
   }
 }
 
@@ -76,25 +81,29 @@ async function buildEntryPayload({
   creatorAliasesMap,
   keywordAliasesMap,
   locale,
+  parts,
   sectionId,
 }: {
   characterAliasesMap: Map<string, string[]> | null
   characterName: string
   commission: Commission
+  parts: Commission[]
   creatorAliasesMap: Map<string, string[]> | null
   keywordAliasesMap: Map<string, string[]> | null
   locale: HomeLocale
   sectionId: string
 }): Promise<HomeCharacterBatchEntryPayload> {
   const messages = getHomeLocaleMessages(locale)
-  const { date, year, creator } = parseCommissionFileName(commission.fileName)
-  const copyrightCreator = creator ? getBaseFileName(creator).trim() || creator : 'Anonymous'
+  const { date, year, creator } = getCommissionMetadata(commission)
+  const creatorLabel = formatCommissionCreatorLabel(commission)
+  const copyrightCreator = creator || 'Anonymous'
   const altText = `© ${year} ${copyrightCreator} & Crystallize`
-  const image = await buildImagePayload(commission)
+  const images = await Promise.all(parts.map(part => buildImagePayload(part, locale)))
   const searchKey = buildCommissionSearchDomKey(sectionId, commission.fileName)
   const metadata = buildCommissionSearchMetadata({
     characterName,
-    fileName: commission.fileName,
+    commissionDate: commission.commissionDate,
+    creatorName: commission.creatorName,
     design: commission.Design,
     description: commission.Description,
     keyword: commission.Keyword,
@@ -103,6 +112,7 @@ async function buildEntryPayload({
     keywordAliasesMap: keywordAliasesMap ?? undefined,
     creatorSuggestionMode: 'normalized',
     creatorSearchTextMode: 'normalized',
+    partCount: parts.length,
   })
   const quotedDescription = commission.Description ? `"${commission.Description}"` : ''
   const displayLinks = selectDisplayLinks({
@@ -123,9 +133,9 @@ async function buildEntryPayload({
         ]
       : []),
   ]
-  const hasCreator = Boolean(creator)
+  const hasCreator = Boolean(creatorLabel)
   const hasDescription = Boolean(commission.Description)
-  const primaryText = hasCreator ? creator : hasDescription ? quotedDescription : '-'
+  const primaryText = hasCreator ? creatorLabel : hasDescription ? quotedDescription : '-'
   const secondaryText = hasCreator && hasDescription ? quotedDescription : null
   const interestKey = `${sectionId}-${date}`
 
@@ -135,11 +145,21 @@ async function buildEntryPayload({
     searchKey,
     searchText: metadata.searchText,
     searchSuggest: metadata.searchSuggestionText,
+    searchFields: metadata.searchFieldText,
     altText,
-    image,
+    image: images[0] ?? null,
+    parts: images.length > 1
+      ? {
+          images,
+          label: messages.listing.formatPartCount(images.length),
+          previousLabel: messages.listing.partPrevious,
+          nextLabel: messages.listing.partNext,
+        }
+      : null,
     sourceImageNotFoundText: messages.listing.sourceImageNotFound,
     timeLabel: parseAndFormatDate(date, 'yyyy/MM/dd'),
     primaryText,
+    primaryHref: hasCreator ? getCreatorPageHref(locale, commission.creatorName) : null,
     secondaryText,
     links,
     interest: links.length > 0 ? null : buildInterestPayload({ interestKey, locale }),
@@ -167,7 +187,7 @@ async function buildSectionPayload({
   const sectionId = getCharacterSectionId(characterName)
   const commissions = commissionMap.get(characterName)?.Commissions ?? []
   const entries = await Promise.all(
-    commissions.map(commission =>
+    groupCommissionParts(commissions).map(({ commission, parts }) =>
       buildEntryPayload({
         characterAliasesMap,
         characterName,
@@ -175,6 +195,7 @@ async function buildSectionPayload({
         creatorAliasesMap,
         keywordAliasesMap,
         locale,
+        parts,
         sectionId,
       }),
     ),
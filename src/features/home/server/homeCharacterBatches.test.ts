@@ -12,6 +12,7 @@ function buildCharacterCommissions(character: string, date: string): CharacterCo
     Commissions: [
       {
         fileName: `${date}-artist`,
+        commissionDate: date,
         Links: [],
       },
     ],
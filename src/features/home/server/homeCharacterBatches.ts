@@ -1,7 +1,7 @@
 import type { CharacterCommissions } from '#data/types'
 import type { HomeLocale } from '#features/home/i18n/homeLocale'
 import { getCharacterSectionId, getCharacterTitleId } from '#lib/characters/nav'
-import { parseCommissionFileName } from '#lib/commissions'
+import { getCommissionMetadata } from '#lib/commissions'
 
 export type HomeCharacterBatchStatus = 'active' | 'stale'
 
@@ -67,7 +67,7 @@ function buildTargetBatchById({
 
       const commissions = commissionMap.get(characterName)?.Commissions ?? []
       commissions.forEach((commission) => {
-        const { date } = parseCommissionFileName(commission.fileName)
+        const { date } = getCommissionMetadata(commission)
         targetBatchById[`${sectionId}-${date}`] = batchIndex
       })
     })
@@ -0,0 +1,21 @@
+import type { PackedSearchIndexManifest } from '#lib/search/packedIndex'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import process from 'node:process'
+import { HOME_SEARCH_INDEX_MANIFEST_PATH, PACKED_SEARCH_INDEX_VERSION } from '#lib/search/packedIndex'
+
+/**
+ * URL of the packed search index written by the asset pipeline, which runs before the
+ * build renders pages. Null when the manifest is missing or from another format version.
+ */
+export function readHomeSearchIndexUrl(): string | null {
+  try {
+    const manifest = JSON.parse(
+      readFileSync(path.join(process.cwd(), 'public', HOME_SEARCH_INDEX_MANIFEST_PATH), 'utf8'),
+    ) as PackedSearchIndexManifest
+    return manifest.version === PACKED_SEARCH_INDEX_VERSION ? manifest.url : null
+  }
+  catch {
+    return null
+  }
+}
@@ -1,6 +1,6 @@
 import type { TimelineYearGroup } from '#lib/commissions/timeline'
 import { getCharacterSectionId } from '#lib/characters/nav'
-import { parseCommissionFileName } from '#lib/commissions'
+import { getCommissionMetadata } from '#lib/commissions'
 
 export interface HomeTimelineBatchPlan {
   initialGroups: TimelineYearGroup[]
@@ -38,7 +38,7 @@ function buildTargetBatchById(batches: TimelineYearGroup[][]) {
       targetBatchById[group.titleId] = batchIndex
 
       group.entries.forEach((entry) => {
-        const { date } = parseCommissionFileName(entry.commission.fileName)
+        const { date } = getCommissionMetadata(entry.commission)
         const entryAnchorPrefix = getCharacterSectionId(entry.character)
         targetBatchById[`${entryAnchorPrefix}-${date}`] = batchIndex
       })
@@ -0,0 +1,616 @@
+import type Database from 'better-sqlite3'
+import type { NormalizedCreatorInput } from './creators'
+import { parseCommissionFileName } from '#lib/commissions/index'
+import {
+  countCreatorCommissions,
+  insertCreatorInDatabase,
+  resolveCreatorIdInDatabase,
+  updateCreatorInDatabase,
+  writeCreatorAliases,
+} from './creators'
+import {
+  restoreCharacterInDatabase,
+  restoreCommissionInDatabase,
+  trashCharacterInDatabase,
+  trashCommissionInDatabase,
+} from './trash'
+
+type BetterSqlite3Database = Database.Database
+
+export type AdminAuditAction
+  = | 'create-character'
+    | 'update-character'
+    | 'reorder-characters'
+    | 'delete-character'
+    | 'restore-character'
+    | 'purge-character'
+    | 'create-commission'
+    | 'update-commission'
+    | 'delete-commission'
+    | 'restore-commission'
+    | 'purge-commission'
+    | 'create-creator'
+    | 'update-creator'
+    | 'delete-creator'
+    | 'merge-creators'
+    | 'save-creator-aliases'
+    | 'save-character-aliases'
+    | 'save-keyword-aliases'
+    | 'save-featured-keywords'
+
+export interface CharacterSnapshot {
+  id: number
+  name: string
+  status: 'active' | 'stale'
+  sortOrder: number
+}
+
+export interface CommissionSnapshot {
+  id: number
+  characterId: number
+  fileName: string
+  commissionDate: string | null
+  creatorId: number | null
+  partIndex: number | null
+  links: string
+  design: string | null
+  description: string | null
+  keyword: string | null
+  hidden: number
+}
+
+/** Commission snapshots recorded before the structured and creator columns existed. */
+type LegacyCommissionSnapshot = Omit<CommissionSnapshot, 'commissionDate' | 'creatorId' | 'partIndex'>
+  & Partial<Pick<CommissionSnapshot, 'commissionDate' | 'creatorId' | 'partIndex'>>
+  & { creatorName?: string | null }
+
+export interface CreatorSnapshot {
+  id: number
+  name: string
+  homepage: string | null
+  links: string
+  notes: string | null
+  aliases: string[]
+}
+
+export interface CreatorMergeSnapshot {
+  source: CreatorSnapshot
+  target: CreatorSnapshot
+  commissionIds: number[]
+}
+
+export interface CharacterDeletionSnapshot {
+  character: CharacterSnapshot
+  commissions: CommissionSnapshot[]
+}
+
+type LegacyCharacterDeletionSnapshot = Omit<CharacterDeletionSnapshot, 'commissions'> & {
+  commissions: LegacyCommissionSnapshot[]
+}
+
+export interface TrashSnapshot {
+  deletedAt: string
+  fileNames: string[]
+}
+
+export interface AliasRowSnapshot {
+  key: string
+  aliases: string[] | null
+}
+
+export interface AdminAuditEntry {
+  id: number
+  action: AdminAuditAction
+  entityId: number | null
+  summary: string
+  before: unknown
+  after: unknown
+  createdAt: string
+  revertedAt: string | null
+}
+
+type AliasAuditAction = Extract<
+  AdminAuditAction,
+  'save-creator-aliases' | 'save-character-aliases' | 'save-keyword-aliases'
+>
+
+const ALIAS_TABLES: Record<AliasAuditAction, { table: string, keyColumn: string }> = {
+  'save-creator-aliases': { table: 'creator_aliases', keyColumn: 'creator_name' },
+  'save-character-aliases': { table: 'character_aliases', keyColumn: 'character_name' },
+  'save-keyword-aliases': { table: 'keyword_aliases', keyColumn: 'base_keyword' },
+}
+
+const DEFAULT_HISTORY_LIMIT = 100
+
+/** Purges are permanent, so their entries are kept for the record only. */
+export const NON_REVERTIBLE_AUDIT_ACTIONS: ReadonlySet<AdminAuditAction> = new Set([
+  'purge-character',
+  'purge-commission',
+])
+
+function parseSnapshotJson(raw: string | null): unknown {
+  if (raw === null)
+    return null
+  try {
+    return JSON.parse(raw) as unknown
+  }
+  catch {
+    return null
+  }
+}
+
+const isSameSnapshot = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+export function readCharacterSnapshot(db: BetterSqlite3Database, id: number): CharacterSnapshot | null {
+  const row = db
+    .prepare('SELECT id, name, status, sort_order as sortOrder FROM characters WHERE id = @id')
+    .get({ id }) as CharacterSnapshot | undefined
+  return row ?? null
+}
+
+export function readCharacterSnapshots(db: BetterSqlite3Database): CharacterSnapshot[] {
+  return db
+    .prepare('SELECT id, name, status, sort_order as sortOrder FROM characters ORDER BY sort_order ASC')
+    .all() as CharacterSnapshot[]
+}
+
+const COMMISSION_SNAPSHOT_COLUMNS = `
+  id,
+  character_id as characterId,
+  file_name as fileName,
+  commission_date as commissionDate,
+  creator_id as creatorId,
+  part_index as partIndex,
+  links,
+  design,
+  description,
+  keyword,
+  hidden
+`
+
+export function readCommissionSnapshot(db: BetterSqlite3Database, id: number): CommissionSnapshot | null {
+  const row = db
+    .prepare(`SELECT ${COMMISSION_SNAPSHOT_COLUMNS} FROM commissions WHERE id = @id`)
+    .get({ id }) as CommissionSnapshot | undefined
+  return row ?? null
+}
+
+export function readCreatorSnapshot(db: BetterSqlite3Database, id: number): CreatorSnapshot | null {
+  const row = db
+    .prepare('SELECT id, name, homepage, links, notes FROM creators WHERE id = @id')
+    .get({ id }) as Omit<CreatorSnapshot, 'aliases'> | undefined
+  if (!row)
+    return null
+
+  const aliases = db
+    .prepare('SELECT aliases FROM creator_aliases WHERE creator_name = @name')
+    .get({ name: row.name }) as { aliases: string } | undefined
+  const parsed = aliases ? parseSnapshotJson(aliases.aliases) : null
+  return { ...row, aliases: Array.isArray(parsed) ? parsed.map(String) : [] }
+}
+
+export function readCharacterDeletionSnapshot(db: BetterSqlite3Database, id: number): CharacterDeletionSnapshot | null {
+  const character = readCharacterSnapshot(db, id)
+  if (!character)
+    return null
+
+  const commissions = db
+    .prepare(
+      `
+        SELECT ${COMMISSION_SNAPSHOT_COLUMNS}
+        FROM commissions
+        WHERE character_id = @characterId AND deleted_at IS NULL
+        ORDER BY id ASC
+      `,
+    )
+    .all({ characterId: id }) as CommissionSnapshot[]
+
+  return { character, commissions }
+}
+
+export function readAliasSnapshots(db: BetterSqlite3Database, action: AliasAuditAction, keys: string[]): AliasRowSnapshot[] {
+  const { table, keyColumn } = ALIAS_TABLES[action]
+  const statement = db.prepare(`SELECT aliases FROM ${table} WHERE ${keyColumn} = @key`)
+
+  return Array.from(new Set(keys), (key) => {
+    const row = statement.get({ key }) as { aliases: string } | undefined
+    const parsed = row ? parseSnapshotJson(row.aliases) : null
+    return {
+      key,
+      aliases: Array.isArray(parsed) ? parsed.map(String) : null,
+    }
+  })
+}
+
+export function readFeaturedKeywordsSnapshot(db: BetterSqlite3Database): string[] {
+  const rows = db
+    .prepare('SELECT keyword FROM home_featured_search_keywords ORDER BY sort_order ASC')
+    .all() as Array<{ keyword: string }>
+  return rows.map(row => row.keyword)
+}
+
+export function recordAdminAuditEntry(db: BetterSqlite3Database, input: {
+  action: AdminAuditAction
+  entityId?: number | null
+  summary: string
+  before: unknown
+  after: unknown
+}) {
+  db.prepare(
+    `
+      INSERT INTO admin_audit_log (action, entity_id, summary, before_json, after_json, created_at)
+      VALUES (@action, @entityId, @summary, @beforeJson, @afterJson, @createdAt)
+    `,
+  ).run({
+    action: input.action,
+    entityId: input.entityId ?? null,
+    summary: input.summary,
+    beforeJson: input.before === null ? null : JSON.stringify(input.before),
+    afterJson: input.after === null ? null : JSON.stringify(input.after),
+    createdAt: new Date().toISOString(),
+  })
+}
+
+interface RawAuditRow {
+  id: number
+  action: AdminAuditAction
+  entityId: number | null
+  summary: string
+  beforeJson: string | null
+  afterJson: string | null
+  createdAt: string
+  revertedAt: string | null
+}
+
+const AUDIT_ROW_COLUMNS = `
+  id,
+  action,
+  entity_id as entityId,
+  summary,
+  before_json as beforeJson,
+  after_json as afterJson,
+  created_at as createdAt,
+  reverted_at as revertedAt
+`
+
+function toAuditEntry(row: RawAuditRow): AdminAuditEntry {
+  return {
+    id: row.id,
+    action: row.action,
+    entityId: row.entityId,
+    summary: row.summary,
+    before: parseSnapshotJson(row.beforeJson),
+    after: parseSnapshotJson(row.afterJson),
+    createdAt: row.createdAt,
+    revertedAt: row.revertedAt,
+  }
+}
+
+export function listAdminAuditEntries(db: BetterSqlite3Database, limit = DEFAULT_HISTORY_LIMIT): AdminAuditEntry[] {
+  const rows = db
+    .prepare(`SELECT ${AUDIT_ROW_COLUMNS} FROM admin_audit_log ORDER BY id DESC LIMIT @limit`)
+    .all({ limit: Math.max(1, limit) }) as RawAuditRow[]
+  return rows.map(toAuditEntry)
+}
+
+function assertFileNameAvailable(db: BetterSqlite3Database, fileName: string) {
+  const taken = db
+    .prepare('SELECT id FROM commissions WHERE file_name = @fileName')
+    .get({ fileName }) as { id: number } | undefined
+  if (taken) {
+    throw new Error(`Cannot restore "${fileName}": another commission already uses this file name.`)
+  }
+}
+
+/**
+ * Delete entries recorded before the trash existed removed the rows outright: their
+ * `after` is null and `before` holds the deleted rows instead of a trash snapshot.
+ */
+function isTrashSnapshot(value: unknown): value is TrashSnapshot {
+  return typeof value === 'object' && value !== null && Array.isArray((value as TrashSnapshot).fileNames)
+}
+
+function insertCommissionSnapshot(db: BetterSqlite3Database, snapshot: CommissionSnapshot) {
+  assertFileNameAvailable(db, snapshot.fileName)
+  db.prepare(
+    `
+      INSERT INTO commissions (
+        id, character_id, file_name, commission_date, creator_id, part_index,
+        links, design, description, keyword, hidden
+      ) VALUES (
+        @id, @characterId, @fileName, @commissionDate, @creatorId, @partIndex,
+        @links, @design, @description, @keyword, @hidden
+      )
+    `,
+  ).run(snapshot)
+}
+
+/**
+ * Snapshots recorded before the structured columns existed only carry the
+ * file name; fill the missing fields the same way the migration backfilled them.
+ */
+function withStructuredFields(db: BetterSqlite3Database, snapshot: LegacyCommissionSnapshot): CommissionSnapshot {
+  if (snapshot.creatorId !== undefined)
+    return snapshot as CommissionSnapshot
+
+  const { id, characterId, fileName, commissionDate, creatorName, partIndex, ...rest } = snapshot
+  const derived = commissionDate === undefined
+    ? parseCommissionFileName(fileName)
+    : { commissionDate, creatorName: creatorName ?? null, partIndex: partIndex ?? null }
+  return {
+    id,
+    characterId,
+    fileName,
+    commissionDate: derived.commissionDate,
+    creatorId: resolveCreatorIdInDatabase(db, derived.creatorName),
+    partIndex: derived.partIndex,
+    ...rest,
+  }
+}
+
+function toCreatorInput({ id: _id, ...snapshot }: CreatorSnapshot): NormalizedCreatorInput {
+  return snapshot
+}
+
+function assertUnchangedSince(current: unknown, expected: unknown, label: string) {
+  if (!isSameSnapshot(current, expected)) {
+    throw new Error(`${label} changed after this entry was recorded. Revert the newer changes first.`)
+  }
+}
+
+function restoreAliasSnapshots(db: BetterSqlite3Database, action: AliasAuditAction, rows: AliasRowSnapshot[]) {
+  const { table, keyColumn } = ALIAS_TABLES[action]
+  const deleteStatement = db.prepare(`DELETE FROM ${table} WHERE ${keyColumn} = @key`)
+  const upsertStatement = db.prepare(
+    `
+      INSERT INTO ${table} (${keyColumn}, aliases)
+      VALUES (@key, @aliases)
+      ON CONFLICT(${keyColumn}) DO UPDATE SET aliases = excluded.aliases
+    `,
+  )
+
+  rows.forEach(({ key, aliases }) => {
+    if (!aliases || aliases.length === 0) {
+      deleteStatement.run({ key })
+      return
+    }
+    upsertStatement.run({ key, aliases: JSON.stringify(aliases) })
+  })
+}
+
+/** Commission file names whose source images may need to move after reverting `entry`. */
+export function getAuditEntryTrashedFileNames(entry: AdminAuditEntry): string[] {
+  switch (entry.action) {
+    case 'delete-character':
+    case 'delete-commission':
+      return isTrashSnapshot(entry.after) ? entry.after.fileNames : []
+    case 'restore-character':
+    case 'restore-commission':
+      return isTrashSnapshot(entry.before) ? entry.before.fileNames : []
+    default:
+      return []
+  }
+}
+
+function applyRevert(db: BetterSqlite3Database, entry: AdminAuditEntry) {
+  switch (entry.action) {
+    case 'create-commission': {
+      const after = withStructuredFields(db, entry.after as LegacyCommissionSnapshot)
+      assertUnchangedSince(readCommissionSnapshot(db, after.id), after, 'Commission')
+      db.prepare('DELETE FROM commissions WHERE id = @id').run({ id: after.id })
+      return
+    }
+    case 'update-commission': {
+      const before = withStructuredFields(db, entry.before as LegacyCommissionSnapshot)
+      const after = withStructuredFields(db, entry.after as LegacyCommissionSnapshot)
+      assertUnchangedSince(readCommissionSnapshot(db, after.id), after, 'Commission')
+      if (before.fileName !== after.fileName)
+        assertFileNameAvailable(db, before.fileName)
+      if (!readCharacterSnapshot(db, before.characterId))
+        throw new Error('Cannot restore commission: its previous character no longer exists.')
+      db.prepare(
+        `
+          UPDATE commissions
+          SET
+            character_id = @characterId,
+            file_name = @fileName,
+            commission_date = @commissionDate,
+            creator_id = @creatorId,
+            part_index = @partIndex,
+            links = @links,
+            design = @design,
+            description = @description,
+            keyword = @keyword,
+            hidden = @hidden
+          WHERE id = @id
+        `,
+      ).run(before)
+      return
+    }
+    case 'delete-commission': {
+      if (isTrashSnapshot(entry.after)) {
+        restoreCommissionInDatabase(db, entry.entityId!, entry.after.deletedAt)
+        return
+      }
+      const before = withStructuredFields(db, entry.before as LegacyCommissionSnapshot)
+      if (readCommissionSnapshot(db, before.id))
+        throw new Error('Commission already exists.')
+      if (!readCharacterSnapshot(db, before.characterId))
+        throw new Error('Cannot restore commission: its character no longer exists.')
+      insertCommissionSnapshot(db, before)
+      return
+    }
+    case 'restore-commission': {
+      const before = entry.before as TrashSnapshot
+      if (!trashCommissionInDatabase(db, entry.entityId!, before.deletedAt))
+        throw new Error('Commission no longer exists or is already in the trash.')
+      return
+    }
+    case 'create-character': {
+      const after = entry.after as CharacterSnapshot
+      const current = readCharacterSnapshot(db, after.id)
+      if (!current)
+        throw new Error('Character no longer exists.')
+      const { commissionCount } = db
+        .prepare('SELECT COUNT(*) as commissionCount FROM commissions WHERE character_id = @id')
+        .get({ id: after.id }) as { commissionCount: number }
+      if (commissionCount > 0)
+        throw new Error('Character already has commissions. Delete or move them first.')
+      db.prepare('DELETE FROM characters WHERE id = @id').run({ id: after.id })
+      return
+    }
+    case 'update-character': {
+      const before = entry.before as CharacterSnapshot
+      const after = entry.after as CharacterSnapshot
+      const current = readCharacterSnapshot(db, after.id)
+      assertUnchangedSince(
+        current && { name: current.name, status: current.status },
+        { name: after.name, status: after.status },
+        'Character',
+      )
+      db.prepare('UPDATE characters SET name = @name, status = @status WHERE id = @id').run({
+        id: before.id,
+        name: before.name,
+        status: before.status,
+      })
+      return
+    }
+    case 'reorder-characters': {
+      const before = entry.before as CharacterSnapshot[]
+      const after = entry.after as CharacterSnapshot[]
+      const toOrder = (snapshot: CharacterSnapshot | null) =>
+        snapshot && { id: snapshot.id, sortOrder: snapshot.sortOrder, status: snapshot.status }
+      assertUnchangedSince(
+        after.map(({ id }) => toOrder(readCharacterSnapshot(db, id))),
+        after.map(toOrder),
+        'Character order',
+      )
+      const statement = db.prepare(
+        'UPDATE characters SET sort_order = @sortOrder, status = @status WHERE id = @id',
+      )
+      before.forEach(({ id, sortOrder, status }) => {
+        statement.run({ id, sortOrder, status })
+      })
+      return
+    }
+    case 'delete-character': {
+      if (isTrashSnapshot(entry.after)) {
+        restoreCharacterInDatabase(db, entry.entityId!, entry.after.deletedAt)
+        return
+      }
+      const before = entry.before as LegacyCharacterDeletionSnapshot
+      if (readCharacterSnapshot(db, before.character.id))
+        throw new Error('Character already exists.')
+      const nameTaken = db
+        .prepare('SELECT id FROM characters WHERE name = @name')
+        .get({ name: before.character.name })
+      if (nameTaken)
+        throw new Error(`Cannot restore "${before.character.name}": the name is already in use.`)
+      db.prepare(
+        'INSERT INTO characters (id, name, status, sort_order) VALUES (@id, @name, @status, @sortOrder)',
+      ).run(before.character)
+      before.commissions.forEach((commission) => {
+        insertCommissionSnapshot(db, withStructuredFields(db, commission))
+      })
+      return
+    }
+    case 'restore-character': {
+      const before = entry.before as TrashSnapshot
+      if (!trashCharacterInDatabase(db, entry.entityId!, before.deletedAt))
+        throw new Error('Character no longer exists or is already in the trash.')
+      return
+    }
+    case 'create-creator': {
+      const after = entry.after as CreatorSnapshot
+      assertUnchangedSince(readCreatorSnapshot(db, after.id), after, 'Creator')
+      if (countCreatorCommissions(db, after.id) > 0)
+        throw new Error('Creator already has commissions. Merge or reassign them first.')
+      db.prepare('DELETE FROM creators WHERE id = @id').run({ id: after.id })
+      writeCreatorAliases(db, after.name, [])
+      return
+    }
+    case 'update-creator': {
+      const before = entry.before as CreatorSnapshot
+      const after = entry.after as CreatorSnapshot
+      assertUnchangedSince(readCreatorSnapshot(db, after.id), after, 'Creator')
+      updateCreatorInDatabase(db, before.id, toCreatorInput(before))
+      return
+    }
+    case 'delete-creator': {
+      const before = entry.before as CreatorSnapshot
+      if (readCreatorSnapshot(db, before.id))
+        throw new Error('Creator already exists.')
+      insertCreatorInDatabase(db, toCreatorInput(before), before.id)
+      return
+    }
+    case 'merge-creators': {
+      const before = entry.before as CreatorMergeSnapshot
+      const after = entry.after as CreatorSnapshot
+      assertUnchangedSince(readCreatorSnapshot(db, after.id), after, 'Creator')
+      if (readCreatorSnapshot(db, before.source.id))
+        throw new Error(`Creator #${before.source.id} already exists.`)
+      updateCreatorInDatabase(db, before.target.id, toCreatorInput(before.target))
+      insertCreatorInDatabase(db, toCreatorInput(before.source), before.source.id)
+      const moveBack = db.prepare(
+        'UPDATE commissions SET creator_id = @sourceId WHERE id = @id AND creator_id = @targetId',
+      )
+      before.commissionIds.forEach((id) => {
+        moveBack.run({ id, sourceId: before.source.id, targetId: before.target.id })
+      })
+      return
+    }
+    case 'purge-character':
+    case 'purge-commission':
+      throw new Error('Purged items cannot be restored.')
+    case 'save-creator-aliases':
+    case 'save-character-aliases':
+    case 'save-keyword-aliases': {
+      const after = entry.after as AliasRowSnapshot[]
+      assertUnchangedSince(readAliasSnapshots(db, entry.action, after.map(row => row.key)), after, 'Aliases')
+      restoreAliasSnapshots(db, entry.action, entry.before as AliasRowSnapshot[])
+      return
+    }
+    case 'save-featured-keywords': {
+      const before = entry.before as string[]
+      assertUnchangedSince(readFeaturedKeywordsSnapshot(db), entry.after, 'Featured keywords')
+      db.prepare('DELETE FROM home_featured_search_keywords').run()
+      const insertStatement = db.prepare(
+        'INSERT INTO home_featured_search_keywords (keyword, sort_order) VALUES (@keyword, @sortOrder)',
+      )
+      before.forEach((keyword, index) => {
+        insertStatement.run({ keyword, sortOrder: index + 1 })
+      })
+    }
+  }
+}
+
+/**
+ * Restore the "before" snapshot of an audit entry. Entries refuse to revert when
+ * what they touched changed afterwards so newer edits are never clobbered.
+ */
+export function revertAdminAuditEntryInDatabase(db: BetterSqlite3Database, id: number): AdminAuditEntry {
+  const row = db
+    .prepare(`SELECT ${AUDIT_ROW_COLUMNS} FROM admin_audit_log WHERE id = @id`)
+    .get({ id }) as RawAuditRow | undefined
+
+  if (!row) {
+    throw new Error('History entry not found.')
+  }
+
+  const entry = toAuditEntry(row)
+  if (entry.revertedAt) {
+    throw new Error('History entry was already reverted.')
+  }
+
+  const revertedAt = new Date().toISOString()
+  const transaction = db.transaction(() => {
+    applyRevert(db, entry)
+    db.prepare('UPDATE admin_audit_log SET reverted_at = @revertedAt WHERE id = @id').run({
+      id,
+      revertedAt,
+    })
+  })
+
+  transaction()
+  return { ...entry, revertedAt }
+}
@@ -0,0 +1,132 @@
+import type { MigrationDatabase } from '#lib/schema/migrations'
+import fs from 'node:fs'
+import path from 'node:path'
+import { LATEST_SCHEMA_VERSION } from '#lib/schema/migrations'
+import Database from 'better-sqlite3'
+import { describe, expect, it } from 'vitest'
+import { setupTempCommissionDb } from '../../../test/utils/tempCommissionDb'
+import {
+  collectBackupImages,
+  createBackupArchive,
+  readBackupArchive,
+  readBackupSchemaVersion,
+  readBackupTables,
+  restoreBackupTables,
+  writeBackupImages,
+} from './backup'
+import { createZipArchive, readZipArchive } from './zipArchive'
+
+function toMigrationDatabase(db: Database.Database): MigrationDatabase {
+  return {
+    exec: (sql) => {
+      db.exec(sql)
+    },
+    queryAll: <T = unknown>(sql: string, params: ReadonlyArray<unknown> = []) =>
+      db.prepare(sql).all(params) as T[],
+    run: (sql, params = []) => {
+      db.prepare(sql).run(params)
+    },
+  }
+}
+
+function createArchiveFromTempDb() {
+  const { tempDir, dbPath } = setupTempCommissionDb('commission-index-backup-')
+  const writable = new Database(dbPath)
+  writable.prepare(
+    `INSERT INTO admin_audit_log (action, entity_id, summary, before_json, after_json, created_at)
+     VALUES ('save-featured-keywords', NULL, 'Saved home featured keywords.', '[]', '["a"]', '2026-01-01T00:00:00.000Z')`,
+  ).run()
+  writable.close()
+  const source = new Database(dbPath, { readonly: true })
+  try {
+    const db = toMigrationDatabase(source)
+    const tables = readBackupTables(db)
+    const images = [
+      { name: '20260101_A.jpg', data: new Uint8Array([0xFF, 0xD8, 1, 2, 3]) },
+      { name: '.trash/20250101_B.png', data: new Uint8Array([0x89, 0x50, 4]) },
+    ]
+    const archive = createBackupArchive({ tables, schemaVersion: readBackupSchemaVersion(db), images })
+    return { tempDir, tables, images, archive }
+  }
+  finally {
+    source.close()
+  }
+}
+
+describe('backup archive', () => {
+  it('restores every table into a fresh database', () => {
+    const { tables, images, archive } = createArchiveFromTempDb()
+    const contents = readBackupArchive(archive)
+    expect(contents.tables).toEqual(tables)
+    expect(contents.images).toEqual(images)
+    expect(contents.manifest.files.map(file => file.path)).toEqual([
+      'tables.json',
+      'images/20260101_A.jpg',
+      'images/.trash/20250101_B.png',
+    ])
+
+    const target = new Database(':memory:')
+    try {
+      const db = toMigrationDatabase(target)
+      restoreBackupTables(db, contents.tables, contents.manifest.schemaVersion)
+      expect(readBackupTables(db)).toEqual(tables)
+      expect(tables.admin_audit_log).toHaveLength(1)
+      expect(() => restoreBackupTables(db, contents.tables, contents.manifest.schemaVersion)).toThrow('already has characters rows')
+    }
+    finally {
+      target.close()
+    }
+  })
+
+  it('runs newer migrations after inserting rows from an older backup', () => {
+    const { tables } = createArchiveFromTempDb()
+    const legacyTables = {
+      ...tables,
+      creators: [],
+      commissions: tables.commissions.map(({ commission_date, creator_id, part_index, ...row }) => row),
+    }
+
+    const target = new Database(':memory:')
+    try {
+      const db = toMigrationDatabase(target)
+      restoreBackupTables(db, legacyTables, 8)
+      expect(readBackupSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION)
+      const restored = readBackupTables(db)
+      expect(restored.creators).toEqual(tables.creators)
+      expect(restored.commissions).toEqual(tables.commissions)
+    }
+    finally {
+      target.close()
+    }
+  })
+
+  it('reports checksum mismatches and unlisted files', () => {
+    const { archive } = createArchiveFromTempDb()
+    const tampered = readZipArchive(archive).map(entry =>
+      entry.name === 'images/20260101_A.jpg' ? { ...entry, data: new Uint8Array([0]) } : entry,
+    )
+    tampered.push({ name: 'images/extra.jpg', data: new Uint8Array([1]) })
+
+    expect(() => readBackupArchive(createZipArchive(tampered))).toThrow(
+      'Backup verification failed:\nimages/20260101_A.jpg: checksum mismatch\nimages/extra.jpg: not listed in the manifest',
+    )
+  })
+
+  it('rejects archives that are not backups', () => {
+    const archive = createZipArchive([{ name: 'notes.txt', data: new TextEncoder().encode('hi') }])
+    expect(() => readBackupArchive(archive)).toThrow('Archive has no manifest.json')
+  })
+
+  it('collects and writes images including the trash folder', async () => {
+    const { tempDir, images } = createArchiveFromTempDb()
+    const imagesDir = path.join(tempDir, 'images')
+    await writeBackupImages(imagesDir, images)
+    fs.writeFileSync(path.join(imagesDir, '.DS_Store'), '')
+
+    expect(fs.existsSync(path.join(imagesDir, '.trash', '20250101_B.png'))).toBe(true)
+    expect(await collectBackupImages(imagesDir)).toEqual([
+      images[1],
+      images[0],
+    ])
+  })
+})
@@ -0,0 +1,305 @@
+import type { MigrationDatabase, MigrationReader } from '#lib/schema/migrations'
+import type { ZipArchiveEntry } from './zipArchive'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import {
+  applySchemaMigrations,
+  getAppliedSchemaMigrations,
+  LATEST_SCHEMA_VERSION,
+} from '#lib/schema/migrations'
+import { createZipArchive, readZipArchive } from './zipArchive'
+
+export const BACKUP_FORMAT = 'commission-index-backup'
+export const BACKUP_FORMAT_VERSION = 1
+
+const MANIFEST_ENTRY_NAME = 'manifest.json'
+const TABLES_ENTRY_NAME = 'tables.json'
+const IMAGES_ENTRY_PREFIX = 'images/'
+const TIMESTAMP_SEPARATOR_PATTERN = /[-:]/g
+
+/**
+ * Tables included in a backup, in restore order (parents before children).
+ * Admin history comes last so its entries can still be reverted after a
+ * restore. `sinceSchemaVersion` marks tables that older backups do not have.
+ */
+export const BACKUP_TABLES = [
+  { name: 'characters', orderBy: 'id' },
+  { name: 'creators', orderBy: 'id', sinceSchemaVersion: 10 },
+  { name: 'commissions', orderBy: 'id' },
+  { name: 'creator_aliases', orderBy: 'creator_name' },
+  { name: 'character_aliases', orderBy: 'character_name' },
+  { name: 'keyword_aliases', orderBy: 'base_keyword' },
+  { name: 'home_featured_search_keywords', orderBy: 'sort_order' },
+  { name: 'admin_audit_log', orderBy: 'id', sinceSchemaVersion: 7 },
+] as const
+
+export type BackupTableName = (typeof BACKUP_TABLES)[number]['name']
+
+function listBackupTablesAt(schemaVersion: number) {
+  return BACKUP_TABLES.filter(table => !('sinceSchemaVersion' in table) || table.sinceSchemaVersion <= schemaVersion)
+}
+
+export type BackupTableRow = Record<string, string | number | null>
+
+export type BackupTables = Record<BackupTableName, BackupTableRow[]>
+
+export interface BackupFileChecksum {
+  path: string
+  size: number
+  sha256: string
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  formatVersion: number
+  createdAt: string
+  schemaVersion: number
+  rowCounts: Record<BackupTableName, number>
+  files: BackupFileChecksum[]
+}
+
+export interface BackupContents {
+  manifest: BackupManifest
+  tables: BackupTables
+  images: ZipArchiveEntry[]
+}
+
+function sha256(data: Uint8Array) {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function countRows(tables: BackupTables) {
+  return Object.fromEntries(
+    BACKUP_TABLES.map(table => [table.name, tables[table.name].length]),
+  ) as Record<BackupTableName, number>
+}
+
+function isSafeImagePath(imagePath: string) {
+  return imagePath.length > 0
+    && !imagePath.startsWith('/')
+    && imagePath.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+export function readBackupTables(db: MigrationReader): BackupTables {
+  return Object.fromEntries(
+    BACKUP_TABLES.map(table => [
+      table.name,
+      db.queryAll<BackupTableRow>(`SELECT * FROM ${table.name} ORDER BY ${table.orderBy} ASC`),
+    ]),
+  ) as BackupTables
+}
+
+export function readBackupSchemaVersion(db: MigrationReader) {
+  return getAppliedSchemaMigrations(db).at(-1)?.version ?? 0
+}
+
+// `20260102-030405`, used for archive and restore-backup folder names.
+export function formatBackupTimestamp(date: Date) {
+  return date.toISOString().slice(0, 19).replaceAll(TIMESTAMP_SEPARATOR_PATTERN, '').replace('T', '-')
+}
+
+export function formatBackupFileName(date: Date) {
+  return `commission-index-${formatBackupTimestamp(date)}.zip`
+}
+
+/**
+ * Collect every file under the source image directory (trashed images
+ * included) as archive entries relative to that directory. Dotfiles such as
+ * `.DS_Store` are skipped; the `.trash` folder is not.
+ */
+export async function collectBackupImages(imagesDir: string): Promise<ZipArchiveEntry[]> {
+  const images: ZipArchiveEntry[] = []
+
+  const visit = async (directory: string, prefix: string) => {
+    let dirents
+    try {
+      dirents = await fs.readdir(directory, { withFileTypes: true })
+    }
+    catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+        return
+      throw error
+    }
+
+    for (const dirent of dirents.toSorted((a, b) => a.name.localeCompare(b.name))) {
+      if (dirent.isDirectory() && dirent.name === '.trash') {
+        await visit(path.join(directory, dirent.name), `${prefix}${dirent.name}/`)
+        continue
+      }
+      if (!dirent.isFile() || dirent.name.startsWith('.'))
+        continue
+
+      const data = await fs.readFile(path.join(directory, dirent.name))
+      images.push({ name: `${prefix}${dirent.name}`, data: new Uint8Array(data) })
+    }
+  }
+
+  await visit(imagesDir, '')
+  return images
+}
+
+export function createBackupArchive(input: {
+  tables: BackupTables
+  schemaVersion: number
+  images: ZipArchiveEntry[]
+  createdAt?: Date
+}): Uint8Array<ArrayBuffer> {
+  const createdAt = input.createdAt ?? new Date()
+  const payloadEntries: ZipArchiveEntry[] = [
+    { name: TABLES_ENTRY_NAME, data: new TextEncoder().encode(JSON.stringify(input.tables, null, 2)) },
+    ...input.images.map(image => ({ name: `${IMAGES_ENTRY_PREFIX}${image.name}`, data: image.data })),
+  ]
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: createdAt.toISOString(),
+    schemaVersion: input.schemaVersion,
+    rowCounts: countRows(input.tables),
+    files: payloadEntries.map(entry => ({
+      path: entry.name,
+      size: entry.data.byteLength,
+      sha256: sha256(entry.data),
+    })),
+  }
+
+  return createZipArchive(
+    [
+      { name: MANIFEST_ENTRY_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+      ...payloadEntries,
+    ],
+    createdAt,
+  )
+}
+
+function parseManifest(entry: ZipArchiveEntry | undefined): BackupManifest {
+  if (!entry)
+    throw new Error(`Archive has no ${MANIFEST_ENTRY_NAME}; it is not a commission index backup.`)
+
+  let manifest: Partial<BackupManifest>
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(entry.data)) as Partial<BackupManifest>
+  }
+  catch {
+    throw new Error(`${MANIFEST_ENTRY_NAME} is not valid JSON.`)
+  }
+
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.files))
+    throw new Error('Archive is not a commission index backup.')
+  if (manifest.formatVersion !== BACKUP_FORMAT_VERSION)
+    throw new Error(`Unsupported backup format version ${String(manifest.formatVersion)} (expected ${BACKUP_FORMAT_VERSION}).`)
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Backup uses schema version ${String(manifest.schemaVersion)}, but this checkout only knows up to ${LATEST_SCHEMA_VERSION}.`,
+    )
+  }
+
+  return manifest as BackupManifest
+}
+
+/**
+ * Unpack a backup archive and verify it against its manifest: every listed
+ * file must be present with a matching size and SHA-256, and nothing unlisted
+ * may be present. All problems are reported together.
+ */
+export function readBackupArchive(bytes: Uint8Array): BackupContents {
+  const contents = readZipArchive(bytes)
+  const entries = new Map(contents.map(entry => [entry.name, entry]))
+  const manifest = parseManifest(entries.get(MANIFEST_ENTRY_NAME))
+  entries.delete(MANIFEST_ENTRY_NAME)
+
+  const problems: string[] = []
+  for (const file of manifest.files) {
+    const entry = entries.get(file.path)
+    if (!entry) {
+      problems.push(`${file.path}: missing`)
+      continue
+    }
+    entries.delete(file.path)
+    if (entry.data.byteLength !== file.size || sha256(entry.data) !== file.sha256)
+      problems.push(`${file.path}: checksum mismatch`)
+  }
+  for (const name of entries.keys())
+    problems.push(`${name}: not listed in the manifest`)
+
+  if (problems.length > 0)
+    throw new Error(`Backup verification failed:\n${problems.join('\n')}`)
+
+  const tablesEntry = contents.find(entry => entry.name === TABLES_ENTRY_NAME)
+  if (!tablesEntry)
+    throw new Error(`Archive has no ${TABLES_ENTRY_NAME}.`)
+
+  const tables = JSON.parse(new TextDecoder().decode(tablesEntry.data)) as Partial<BackupTables>
+  for (const table of BACKUP_TABLES) {
+    if (!listBackupTablesAt(manifest.schemaVersion).includes(table)) {
+      tables[table.name] = []
+      continue
+    }
+    const rows = tables[table.name]
+    if (!Array.isArray(rows))
+      throw new Error(`${TABLES_ENTRY_NAME} is missing the ${table.name} table.`)
+    if (rows.length !== manifest.rowCounts[table.name])
+      throw new Error(`${table.name} has ${rows.length} row(s), but the manifest lists ${manifest.rowCounts[table.name]}.`)
+  }
+
+  const images = contents
+    .filter(entry => entry.name.startsWith(IMAGES_ENTRY_PREFIX))
+    .map(entry => ({ name: entry.name.slice(IMAGES_ENTRY_PREFIX.length), data: entry.data }))
+  const unsafeImage = images.find(image => !isSafeImagePath(image.name))
+  if (unsafeImage)
+    throw new Error(`Archive image path "${unsafeImage.name}" is not allowed.`)
+
+  return { manifest, tables: tables as BackupTables, images }
+}
+
+/**
+ * Rebuild the data tables of an empty database: migrate it to the schema the
+ * backup was taken at, insert every backed-up row with its original id in a
+ * single transaction, then run the remaining migrations so their backfills
+ * see the restored rows.
+ */
+export function restoreBackupTables(db: MigrationDatabase, tables: BackupTables, schemaVersion: number) {
+  applySchemaMigrations(db, { toVersion: schemaVersion })
+  const restoredTables = listBackupTablesAt(schemaVersion)
+
+  for (const table of restoredTables) {
+    const [{ count }] = db.queryAll<{ count: number }>(`SELECT COUNT(*) as count FROM ${table.name}`)
+    if (count > 0)
+      throw new Error(`Refusing to restore into a database that already has ${table.name} rows.`)
+  }
+
+  db.exec('BEGIN')
+  try {
+    for (const table of restoredTables) {
+      const knownColumns = new Set(
+        db.queryAll<{ name: string }>(`PRAGMA table_info(${table.name})`).map(column => column.name),
+      )
+      for (const row of tables[table.name]) {
+        const columns = Object.keys(row)
+        const unknownColumn = columns.find(column => !knownColumns.has(column))
+        if (unknownColumn)
+          throw new Error(`${table.name} has no column named "${unknownColumn}".`)
+        db.run(
+          `INSERT INTO ${table.name} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          columns.map(column => row[column]),
+        )
+      }
+    }
+    db.exec('COMMIT')
+  }
+  catch (error) {
+    db.exec('ROLLBACK')
+    throw error
+  }
+
+  applySchemaMigrations(db)
+}
+
+export async function writeBackupImages(imagesDir: string, images: ZipArchiveEntry[]) {
+  for (const image of images) {
+    const targetPath = path.join(imagesDir, ...image.name.split('/'))
+    await fs.mkdir(path.dirname(targetPath), { recursive: true })
+    await fs.writeFile(targetPath, image.data)
+  }
+}
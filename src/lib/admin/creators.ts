@@ -0,0 +1,283 @@
+import type Database from 'better-sqlite3'
+import { normalizeAliases, normalizeCreatorName, parseAliasesJson } from '#lib/creatorAliases/shared'
+
+type BetterSqlite3Database = Database.Database
+
+export interface CreatorRow {
+  id: number
+  name: string
+  aliases: string[]
+  homepage: string | null
+  links: string[]
+  notes: string | null
+  commissionCount: number
+}
+
+export interface AdminCreatorsData {
+  creators: CreatorRow[]
+}
+
+export interface CreatorInput {
+  name: string
+  aliases: string[] | string
+  homepage?: string | null
+  links: string[]
+  notes?: string | null
+}
+
+export interface NormalizedCreatorInput {
+  name: string
+  aliases: string[]
+  homepage: string | null
+  links: string
+  notes: string | null
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  }
+  catch {
+    return false
+  }
+}
+
+export function normalizeCreatorInput(input: CreatorInput): NormalizedCreatorInput {
+  const name = normalizeCreatorName(input.name)
+  if (!name) {
+    throw new Error('Creator name is required.')
+  }
+
+  const homepage = input.homepage?.trim() || null
+  if (homepage && !isHttpUrl(homepage)) {
+    throw new Error('Homepage must be an http(s) URL.')
+  }
+
+  const links = [...new Set(input.links.map(link => link.trim()).filter(Boolean))]
+  const invalidLink = links.find(link => !isHttpUrl(link))
+  if (invalidLink) {
+    throw new Error(`Link "${invalidLink}" is not an http(s) URL.`)
+  }
+
+  return {
+    name,
+    aliases: normalizeAliases(input.aliases).filter(alias => alias !== name),
+    homepage,
+    links: JSON.stringify(links),
+    notes: input.notes?.trim() || null,
+  }
+}
+
+/**
+ * Creator aliases stay in `creator_aliases`, keyed by the creator's name, so
+ * the alias editor and the search pipeline keep working unchanged. Renaming
+ * or merging a creator moves its row.
+ */
+export function readCreatorAliases(db: BetterSqlite3Database, name: string): string[] {
+  const row = db
+    .prepare('SELECT aliases FROM creator_aliases WHERE creator_name = @name')
+    .get({ name }) as { aliases: string } | undefined
+  return row ? parseAliasesJson(row.aliases) : []
+}
+
+export function writeCreatorAliases(db: BetterSqlite3Database, name: string, aliases: string[]) {
+  if (aliases.length === 0) {
+    db.prepare('DELETE FROM creator_aliases WHERE creator_name = @name').run({ name })
+    return
+  }
+
+  db.prepare(
+    `
+      INSERT INTO creator_aliases (creator_name, aliases)
+      VALUES (@name, @aliases)
+      ON CONFLICT(creator_name) DO UPDATE SET aliases = excluded.aliases
+    `,
+  ).run({ name, aliases: JSON.stringify(aliases) })
+}
+
+export function listCreatorsFromDatabase(db: BetterSqlite3Database): CreatorRow[] {
+  const rows = db
+    .prepare(
+      `
+        SELECT
+          creators.id as id,
+          creators.name as name,
+          creators.homepage as homepage,
+          creators.links as links,
+          creators.notes as notes,
+          COUNT(commissions.id) as commissionCount
+        FROM creators
+        LEFT JOIN commissions
+          ON commissions.creator_id = creators.id
+          AND commissions.deleted_at IS NULL
+        GROUP BY creators.id
+      `,
+    )
+    .all() as Array<Omit<CreatorRow, 'aliases' | 'links'> & { links: string }>
+
+  return rows
+    .map(row => ({
+      ...row,
+      aliases: readCreatorAliases(db, row.name),
+      links: JSON.parse(row.links) as string[],
+      commissionCount: Number(row.commissionCount ?? 0),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'ja'))
+}
+
+export function findCreatorIdByName(db: BetterSqlite3Database, name: string): number | null {
+  const row = db
+    .prepare('SELECT id FROM creators WHERE name = @name')
+    .get({ name }) as { id: number } | undefined
+  return row?.id ?? null
+}
+
+const foldCreatorName = (value: string) => normalizeCreatorName(value)?.toLowerCase() ?? ''
+
+/**
+ * Creator listing `name` among its aliases, ignoring case. Merged creators live
+ * on here, since a merge turns the source name into an alias of the target.
+ */
+function findCreatorIdByAlias(db: BetterSqlite3Database, name: string): number | null {
+  const key = foldCreatorName(name)
+  const rows = db
+    .prepare(
+      `
+        SELECT creators.id as id, creator_aliases.aliases as aliases
+        FROM creator_aliases
+        JOIN creators ON creators.name = creator_aliases.creator_name
+        ORDER BY creators.id ASC
+      `,
+    )
+    .all() as Array<{ id: number, aliases: string }>
+  return rows.find(row => parseAliasesJson(row.aliases).some(alias => foldCreatorName(alias) === key))?.id ?? null
+}
+
+/**
+ * Look up the creator a commission is credited to, by name and then by alias,
+ * creating a bare creator row the first time a name is used.
+ */
+export function resolveCreatorIdInDatabase(db: BetterSqlite3Database, rawName: string | null): number | null {
+  const name = rawName ? normalizeCreatorName(rawName) : null
+  if (!name)
+    return null
+
+  const existingId = findCreatorIdByName(db, name) ?? findCreatorIdByAlias(db, name)
+  if (existingId !== null)
+    return existingId
+
+  const result = db.prepare('INSERT INTO creators (name) VALUES (@name)').run({ name })
+  return Number(result.lastInsertRowid)
+}
+
+function assertCreatorNameAvailable(db: BetterSqlite3Database, name: string, exceptId?: number) {
+  const existingId = findCreatorIdByName(db, name)
+  if (existingId !== null && existingId !== exceptId) {
+    throw new Error(`Creator "${name}" already exists. Merge the two creators instead.`)
+  }
+}
+
+function readCreatorName(db: BetterSqlite3Database, id: number) {
+  const row = db
+    .prepare('SELECT name FROM creators WHERE id = @id')
+    .get({ id }) as { name: string } | undefined
+  if (!row) {
+    throw new Error('Creator not found.')
+  }
+  return row.name
+}
+
+export function insertCreatorInDatabase(db: BetterSqlite3Database, input: NormalizedCreatorInput, id?: number) {
+  assertCreatorNameAvailable(db, input.name)
+  const result = db
+    .prepare(
+      `
+        INSERT INTO creators (id, name, homepage, links, notes)
+        VALUES (@id, @name, @homepage, @links, @notes)
+      `,
+    )
+    .run({ id: id ?? null, ...input })
+  writeCreatorAliases(db, input.name, input.aliases)
+  return Number(result.lastInsertRowid)
+}
+
+export function updateCreatorInDatabase(db: BetterSqlite3Database, id: number, input: NormalizedCreatorInput) {
+  const previousName = readCreatorName(db, id)
+  assertCreatorNameAvailable(db, input.name, id)
+
+  db.prepare(
+    `
+      UPDATE creators
+      SET name = @name, homepage = @homepage, links = @links, notes = @notes
+      WHERE id = @id
+    `,
+  ).run({ id, ...input })
+
+  if (previousName !== input.name)
+    writeCreatorAliases(db, previousName, [])
+  writeCreatorAliases(db, input.name, input.aliases)
+}
+
+/** Counts trashed commissions too: restoring them must not find a dangling creator id. */
+export function countCreatorCommissions(db: BetterSqlite3Database, id: number) {
+  const { count } = db
+    .prepare('SELECT COUNT(*) as count FROM commissions WHERE creator_id = @id')
+    .get({ id }) as { count: number }
+  return Number(count)
+}
+
+export function deleteCreatorInDatabase(db: BetterSqlite3Database, id: number) {
+  const name = readCreatorName(db, id)
+  const commissionCount = countCreatorCommissions(db, id)
+  if (commissionCount > 0) {
+    throw new Error(`Creator "${name}" still has ${commissionCount} commission(s). Merge it into another creator instead.`)
+  }
+
+  db.prepare('DELETE FROM creators WHERE id = @id').run({ id })
+  writeCreatorAliases(db, name, [])
+}
+
+/**
+ * Fold `sourceId` into `targetId`: its commissions (trashed ones included)
+ * move over, its name and aliases become aliases of the target, and blank
+ * profile fields on the target are filled from the source. Returns the ids
+ * of the moved commissions.
+ */
+export function mergeCreatorsInDatabase(db: BetterSqlite3Database, sourceId: number, targetId: number): number[] {
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a creator into itself.')
+  }
+
+  const readProfile = db.prepare('SELECT name, homepage, links, notes FROM creators WHERE id = @id')
+  const source = readProfile.get({ id: sourceId }) as Omit<NormalizedCreatorInput, 'aliases'> | undefined
+  const target = readProfile.get({ id: targetId }) as Omit<NormalizedCreatorInput, 'aliases'> | undefined
+  if (!source || !target) {
+    throw new Error('Creator not found.')
+  }
+
+  const commissionIds = (
+    db.prepare('SELECT id FROM commissions WHERE creator_id = @id ORDER BY id ASC').all({ id: sourceId }) as Array<{ id: number }>
+  ).map(row => row.id)
+
+  db.prepare('UPDATE commissions SET creator_id = @targetId WHERE creator_id = @sourceId').run({ sourceId, targetId })
+  db.prepare('DELETE FROM creators WHERE id = @id').run({ id: sourceId })
+
+  const sourceAliases = readCreatorAliases(db, source.name)
+  writeCreatorAliases(db, source.name, [])
+  updateCreatorInDatabase(db, targetId, {
+    name: target.name,
+    aliases: normalizeAliases([
+      ...readCreatorAliases(db, target.name),
+      source.name,
+      ...sourceAliases,
+    ]).filter(alias => alias !== target.name),
+    homepage: target.homepage ?? source.homepage,
+    links: JSON.stringify([
+      ...new Set([...JSON.parse(target.links) as string[], ...JSON.parse(source.links) as string[]]),
+    ]),
+    notes: target.notes ?? source.notes,
+  })
+
+  return commissionIds
+}
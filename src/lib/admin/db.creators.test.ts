@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { resetModulesInTempDir, setupTempCommissionDb } from '../../../test/utils/tempCommissionDb'
+
+async function loadAdminDbInTempDir() {
+  const { tempDir } = setupTempCommissionDb('commission-index-admin-creators-')
+  resetModulesInTempDir(tempDir)
+  const adminDb = await import('./db')
+  return { adminDb }
+}
+
+function findCreator(adminDb: Awaited<ReturnType<typeof loadAdminDbInTempDir>>['adminDb'], name: string) {
+  return adminDb.getAdminCreatorsData().creators.find(creator => creator.name === name)
+}
+
+describe('admin creators (sqlite integration)', () => {
+  it('creates, edits and deletes a creator profile', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+
+    adminDb.createCreator({
+      name: ' Vitest Artist ',
+      aliases: 'VA, Vitest Artist',
+      homepage: 'https://example.com',
+      links: ['https://www.pixiv.net/users/1', ' https://www.pixiv.net/users/1 '],
+      notes: '',
+    })
+    expect(() => adminDb.createCreator({ name: 'Vitest Artist', aliases: [], links: [] })).toThrow('already exists')
+    expect(() => adminDb.createCreator({ name: 'Bad', aliases: [], links: ['ftp://example.com'] })).toThrow(
+      'Link "ftp://example.com" is not an http(s) URL.',
+    )
+
+    const created = findCreator(adminDb, 'Vitest Artist')!
+    expect(created).toMatchObject({
+      aliases: ['VA'],
+      homepage: 'https://example.com',
+      links: ['https://www.pixiv.net/users/1'],
+      notes: null,
+      commissionCount: 0,
+    })
+
+    adminDb.updateCreator(created.id, { name: 'Vitest Artist 2', aliases: ['VA'], links: [], notes: 'typo fixed' })
+    expect(findCreator(adminDb, 'Vitest Artist')).toBeUndefined()
+    expect(findCreator(adminDb, 'Vitest Artist 2')).toMatchObject({ id: created.id, aliases: ['VA'], notes: 'typo fixed' })
+    expect(adminDb.getCreatorAliasesAdminData().map(row => row.creatorName)).not.toContain('Vitest Artist')
+
+    const [renameEntry] = adminDb.getAdminAuditHistory()
+    expect(renameEntry?.action).toBe('update-creator')
+    adminDb.revertAdminAuditEntry(renameEntry!.id)
+    expect(findCreator(adminDb, 'Vitest Artist')).toMatchObject({ id: created.id, aliases: ['VA'], notes: null })
+
+    adminDb.deleteCreator(created.id)
+    expect(findCreator(adminDb, 'Vitest Artist')).toBeUndefined()
+  })
+
+  it('renames every credited commission with a single edit', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const creator = adminDb.getAdminCreatorsData().creators.find(row => row.commissionCount > 1)!
+    const before = adminDb.getAdminData().commissions.filter(row => row.creatorName === creator.name)
+
+    adminDb.updateCreator(creator.id, { name: `${creator.name} (renamed)`, aliases: creator.aliases, links: [] })
+
+    const after = adminDb.getAdminData().commissions.filter(row => before.some(item => item.id === row.id))
+    expect(after.map(row => row.creatorName)).toEqual(before.map(() => `${creator.name} (renamed)`))
+    expect(after.map(row => row.fileName)).toEqual(before.map(row => row.fileName))
+    expect(() => adminDb.deleteCreator(creator.id)).toThrow('Merge it into another creator instead.')
+  })
+
+  it('merges one creator into another and reverts the merge', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const [source, target] = adminDb.getAdminCreatorsData().creators.filter(row => row.commissionCount > 0)
+    const sourceCommissionIds = adminDb
+      .getAdminData()
+      .commissions
+      .filter(row => row.creatorName === source!.name)
+      .map(row => row.id)
+
+    expect(adminDb.mergeCreators(source!.id, target!.id)).toEqual({ targetName: target!.name })
+    expect(() => adminDb.mergeCreators(target!.id, target!.id)).toThrow('Cannot merge a creator into itself.')
+
+    const merged = findCreator(adminDb, target!.name)!
+    expect(findCreator(adminDb, source!.name)).toBeUndefined()
+    expect(merged.commissionCount).toBe(source!.commissionCount + target!.commissionCount)
+    expect(merged.aliases).toContain(source!.name)
+
+    const [entry] = adminDb.getAdminAuditHistory()
+    expect(entry?.action).toBe('merge-creators')
+    adminDb.revertAdminAuditEntry(entry!.id)
+
+    expect(findCreator(adminDb, source!.name)).toEqual(source)
+    expect(findCreator(adminDb, target!.name)).toEqual(target)
+    expect(
+      adminDb.getAdminData().commissions.filter(row => row.creatorName === source!.name).map(row => row.id),
+    ).toEqual(sourceCommissionIds)
+  })
+
+  it('credits the merge target when a commission names a merged creator', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const [source, target] = adminDb.getAdminCreatorsData().creators.filter(row => row.commissionCount > 0)
+    const character = adminDb.getAdminData().characters[0]!
+    adminDb.mergeCreators(source!.id, target!.id)
+
+    adminDb.createCommission({
+      characterId: character.id,
+      fileName: `20991231_${source!.name.toUpperCase()}`,
+      links: [],
+    })
+
+    expect(findCreator(adminDb, source!.name)).toBeUndefined()
+    expect(adminDb.getAdminData().commissions.find(row => row.fileName === `20991231_${source!.name.toUpperCase()}`))
+      .toMatchObject({ creatorName: target!.name })
+    expect(findCreator(adminDb, target!.name)?.commissionCount).toBe(source!.commissionCount + target!.commissionCount + 1)
+  })
+
+  it('creates a creator the first time a commission credits a new name', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const character = adminDb.getAdminData().characters[0]!
+
+    adminDb.createCommission({
+      characterId: character.id,
+      fileName: '20991231_Brand New Artist (part 1)',
+      links: [],
+      hidden: false,
+    })
+
+    expect(findCreator(adminDb, 'Brand New Artist')).toMatchObject({ commissionCount: 1, aliases: [] })
+  })
+})
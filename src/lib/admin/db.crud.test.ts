@@ -134,9 +134,16 @@ describe('admin db commission and character operations (sqlite integration)', ()
     expect(updated?.keyword).toBe('alpha, beta')
     expect(updated?.hidden).toBe(0)
 
-    expect(adminDb.deleteCommission(999999999)).toBeUndefined()
-    expect(adminDb.deleteCommission(inserted!.id)).toBeUndefined()
+    expect(adminDb.deleteCommission(999999999)).toEqual({ fileNames: [] })
+    expect(adminDb.deleteCommission(inserted!.id)).toEqual({ fileNames: [renamedFileName] })
 
+    const trashed = writableDb
+      .prepare('SELECT deleted_at as deletedAt FROM commissions WHERE id = ?')
+      .get(inserted!.id) as { deletedAt: string | null } | undefined
+    expect(trashed?.deletedAt).toEqual(expect.any(String))
+    expect(adminDb.getAdminCommissionsByCharacterId(targetCharacter!.id).map(row => row.id)).not.toContain(inserted!.id)
+
+    expect(adminDb.purgeCommission(inserted!.id)).toEqual({ fileNames: [renamedFileName] })
     const deleted = writableDb
       .prepare('SELECT id FROM commissions WHERE id = ?')
       .get(inserted!.id) as { id: number } | undefined
@@ -145,6 +152,94 @@ describe('admin db commission and character operations (sqlite integration)', ()
     expect(deleted).toBeUndefined()
   })
 
+  it('stores structured date, creator and part fields independently of the file name', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const targetCharacter = adminDb.getAdminData().characters[0]!
+    const baseInput = {
+      characterId: targetCharacter.id,
+      links: [],
+      design: null,
+      description: null,
+      keyword: null,
+      hidden: false,
+    }
+
+    expect(() => adminDb.createCommission({ ...baseInput, fileName: 'stream-sketch' })).toThrow(
+      'Commission date is required when the file name does not start with YYYYMMDD.',
+    )
+    expect(() =>
+      adminDb.createCommission({ ...baseInput, fileName: 'stream-sketch', commissionDate: '2099-02-30' }),
+    ).toThrow('Commission date must be a valid YYYY-MM-DD date.')
+
+    adminDb.createCommission({
+      ...baseInput,
+      fileName: 'stream-sketch',
+      commissionDate: '2099-12-31',
+      creatorName: 'Vitest Artist',
+    })
+    adminDb.createCommission({ ...baseInput, fileName: '20991230_Vitest Artist (part 2)' })
+
+    const rows = adminDb.getAdminCommissionsByCharacterId(targetCharacter.id)
+    const undated = rows.find(row => row.fileName === 'stream-sketch')!
+    expect(undated).toMatchObject({ commissionDate: '20991231', creatorName: 'Vitest Artist', partIndex: null })
+    expect(rows.find(row => row.fileName === '20991230_Vitest Artist (part 2)')).toMatchObject({
+      commissionDate: '20991230',
+      creatorName: 'Vitest Artist',
+      partIndex: 2,
+    })
+
+    expect(
+      adminDb.updateCommission({
+        ...baseInput,
+        id: undated.id,
+        fileName: '20200101_Renamed',
+        commissionDate: '20991231',
+        creatorName: 'Vitest Artist',
+      }),
+    ).toBe(true)
+    expect(adminDb.getAdminCommissionsByCharacterId(targetCharacter.id).find(row => row.id === undated.id))
+      .toMatchObject({ fileName: '20200101_Renamed', commissionDate: '20991231', creatorName: 'Vitest Artist' })
+  })
+
+  it('renumbers the parts of one commission and rejects partial or mixed orders', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const targetCharacter = adminDb.getAdminData().characters[0]!
+    const baseInput = { characterId: targetCharacter.id, links: [], hidden: false }
+
+    adminDb.createCommission({ ...baseInput, fileName: '20991230_Vitest Artist (part 1)' })
+    adminDb.createCommission({ ...baseInput, fileName: '20991230_Vitest Artist (part 2)' })
+    adminDb.createCommission({ ...baseInput, fileName: '20991230_Vitest Artist (part 3)' })
+    adminDb.createCommission({ ...baseInput, fileName: '20991229_Vitest Artist (part 1)' })
+
+    const findId = (fileName: string) =>
+      adminDb.getAdminCommissionsByCharacterId(targetCharacter.id).find(row => row.fileName === fileName)!.id
+    const [first, second, third, other] = [
+      '20991230_Vitest Artist (part 1)',
+      '20991230_Vitest Artist (part 2)',
+      '20991230_Vitest Artist (part 3)',
+      '20991229_Vitest Artist (part 1)',
+    ].map(findId)
+
+    expect(() => adminDb.updateCommissionPartsOrder([first, second])).toThrow(
+      'Every part of the commission must be included in the new order.',
+    )
+    expect(() => adminDb.updateCommissionPartsOrder([first, second, other])).toThrow(
+      'Only parts of the same commission can be reordered together.',
+    )
+
+    adminDb.updateCommissionPartsOrder([third, first, second])
+
+    const partIndexById = new Map(
+      adminDb.getAdminCommissionsByCharacterId(targetCharacter.id).map(row => [row.id, row.partIndex] as const),
+    )
+    expect([third, first, second].map(id => partIndexById.get(id))).toEqual([1, 2, 3])
+    expect(adminDb.getAdminAuditHistory(3).map(entry => entry.summary)).toEqual([
+      'Moved commission "20991230_Vitest Artist (part 2)" to part 3.',
+      'Moved commission "20991230_Vitest Artist (part 1)" to part 2.',
+      'Moved commission "20991230_Vitest Artist (part 3)" to part 1.',
+    ])
+  })
+
   it('updates character ordering and statuses across active/stale groups', async () => {
     const { adminDb } = await loadAdminDbInTempDir()
     const before = adminDb.getAdminData().characters
@@ -0,0 +1,192 @@
+import Database from 'better-sqlite3'
+import { describe, expect, it } from 'vitest'
+import { resetModulesInTempDir, setupTempCommissionDb } from '../../../test/utils/tempCommissionDb'
+import { getAuditEntryTrashedFileNames } from './auditLog'
+
+async function loadAdminDbInTempDir() {
+  const { tempDir, dbPath } = setupTempCommissionDb('commission-index-admin-history-')
+  resetModulesInTempDir(tempDir)
+  const adminDb = await import('./db')
+  return { adminDb, dbPath }
+}
+
+function countRows(dbPath: string, sql: string, params: unknown[] = []) {
+  const db = new Database(dbPath, { readonly: true })
+  try {
+    return (db.prepare(sql).get(params) as { count: number }).count
+  }
+  finally {
+    db.close()
+  }
+}
+
+describe('admin audit history (sqlite integration)', () => {
+  it('records a deleted character and restores it with its commissions on revert', async () => {
+    const { adminDb, dbPath } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+    const commissionCount = countRows(
+      dbPath,
+      'SELECT COUNT(*) as count FROM commissions WHERE character_id = ?',
+      [target.id],
+    )
+
+    adminDb.deleteCharacter(target.id)
+
+    const [entry] = adminDb.getAdminAuditHistory()
+    expect(entry?.action).toBe('delete-character')
+    expect(entry?.entityId).toBe(target.id)
+    expect(entry?.revertedAt).toBeNull()
+
+    const reverted = adminDb.revertAdminAuditEntry(entry!.id)
+    expect(reverted.revertedAt).toEqual(expect.any(String))
+
+    expect(countRows(dbPath, 'SELECT COUNT(*) as count FROM characters WHERE id = ?', [target.id])).toBe(1)
+    expect(
+      countRows(dbPath, 'SELECT COUNT(*) as count FROM commissions WHERE character_id = ?', [target.id]),
+    ).toBe(commissionCount)
+    expect(() => adminDb.revertAdminAuditEntry(entry!.id)).toThrow('History entry was already reverted.')
+  })
+
+  it('skips no-op updates and reverts commission edits', async () => {
+    const { adminDb, dbPath } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+
+    adminDb.createCommission({
+      characterId: target.id,
+      fileName: '20991231_History Artist',
+      links: [],
+      hidden: false,
+    })
+    const created = adminDb
+      .getAdminCommissionsByCharacterId(target.id)
+      .find(commission => commission.fileName === '20991231_History Artist')!
+
+    const input = {
+      id: created.id,
+      characterId: target.id,
+      fileName: created.fileName,
+      links: [],
+      hidden: false,
+    }
+    expect(adminDb.updateCommission(input)).toBe(false)
+    expect(adminDb.getAdminAuditHistory().map(entry => entry.action)).toEqual(['create-commission'])
+
+    adminDb.updateCommission({ ...input, description: 'edited' })
+    const [updateEntry] = adminDb.getAdminAuditHistory()
+    expect(updateEntry?.action).toBe('update-commission')
+
+    adminDb.revertAdminAuditEntry(updateEntry!.id)
+    const db = new Database(dbPath, { readonly: true })
+    const row = db.prepare('SELECT description FROM commissions WHERE id = ?').get(created.id) as {
+      description: string | null
+    }
+    db.close()
+    expect(row.description).toBeNull()
+  })
+
+  it('refuses to revert an entry whose row changed afterwards', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+
+    adminDb.updateCharacter({ id: target.id, name: `${target.name} (renamed)`, status: target.status })
+    const [firstRename] = adminDb.getAdminAuditHistory()
+    adminDb.updateCharacter({ id: target.id, name: `${target.name} (renamed again)`, status: target.status })
+
+    expect(() => adminDb.revertAdminAuditEntry(firstRename!.id)).toThrow(/changed after this entry/)
+
+    const [secondRename] = adminDb.getAdminAuditHistory()
+    adminDb.revertAdminAuditEntry(secondRename!.id)
+    adminDb.revertAdminAuditEntry(firstRename!.id)
+
+    const restored = adminDb.getAdminData().characters.find(character => character.id === target.id)
+    expect(restored?.name).toBe(target.name)
+  })
+
+  it('refuses to revert order, alias and featured keyword saves that were changed afterwards', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const ids = adminDb.getAdminData().characters.map(character => character.id)
+    const latestEntryId = () => adminDb.getAdminAuditHistory()[0]!.id
+
+    adminDb.updateCharactersOrder({ active: ids.toReversed(), stale: [] })
+    const firstReorder = latestEntryId()
+    adminDb.updateCharactersOrder({ active: ids, stale: [] })
+    expect(() => adminDb.revertAdminAuditEntry(firstReorder)).toThrow('Character order changed after this entry')
+
+    adminDb.saveCharacterAliasesBatch([{ characterName: 'History Character', aliases: ['first'] }])
+    const firstAliases = latestEntryId()
+    adminDb.saveCharacterAliasesBatch([{ characterName: 'History Character', aliases: ['second'] }])
+    expect(() => adminDb.revertAdminAuditEntry(firstAliases)).toThrow('Aliases changed after this entry')
+
+    const initialKeywords = adminDb.getHomeFeaturedSearchKeywords()
+    adminDb.saveHomeFeaturedSearchKeywords(['first'])
+    const firstKeywords = latestEntryId()
+    adminDb.saveHomeFeaturedSearchKeywords(['second'])
+    expect(() => adminDb.revertAdminAuditEntry(firstKeywords)).toThrow('Featured keywords changed after this entry')
+    adminDb.revertAdminAuditEntry(latestEntryId())
+    adminDb.revertAdminAuditEntry(firstKeywords)
+    expect(adminDb.getHomeFeaturedSearchKeywords()).toEqual(initialKeywords)
+  })
+
+  it('refuses to revert a character restore once the character is back in the trash', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+
+    adminDb.deleteCharacter(target.id)
+    adminDb.restoreCharacter(target.id)
+    const [restoreEntry] = adminDb.getAdminAuditHistory()
+    expect(restoreEntry?.action).toBe('restore-character')
+    adminDb.deleteCharacter(target.id)
+
+    expect(() => adminDb.revertAdminAuditEntry(restoreEntry!.id)).toThrow(
+      'Character no longer exists or is already in the trash.',
+    )
+  })
+
+  it('reverts a delete recorded before the trash existed by re-inserting the deleted row', async () => {
+    const { adminDb, dbPath } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+    adminDb.createCommission({
+      characterId: target.id,
+      fileName: '20991231_Legacy Artist (part 2)',
+      links: ['https://example.com/legacy'],
+      hidden: false,
+    })
+    const created = adminDb
+      .getAdminCommissionsByCharacterId(target.id)
+      .find(commission => commission.fileName === '20991231_Legacy Artist (part 2)')!
+
+    // Deletes used to remove the row and log it in `before` with a null `after`.
+    const db = new Database(dbPath)
+    db.prepare('DELETE FROM commissions WHERE id = ?').run(created.id)
+    db.prepare(
+      `INSERT INTO admin_audit_log (action, entity_id, summary, before_json, after_json, created_at)
+       VALUES ('delete-commission', ?, 'Deleted commission.', ?, NULL, ?)`,
+    ).run(
+      created.id,
+      JSON.stringify({
+        id: created.id,
+        characterId: target.id,
+        fileName: created.fileName,
+        links: '["https://example.com/legacy"]',
+        design: null,
+        description: null,
+        keyword: null,
+        hidden: 0,
+      }),
+      new Date().toISOString(),
+    )
+    db.close()
+
+    const [entry] = adminDb.getAdminAuditHistory()
+    expect(getAuditEntryTrashedFileNames(entry!)).toEqual([])
+
+    adminDb.revertAdminAuditEntry(entry!.id)
+    expect(adminDb.getAdminCommissionsByCharacterId(target.id).find(row => row.id === created.id)).toMatchObject({
+      fileName: '20991231_Legacy Artist (part 2)',
+      commissionDate: '20991231',
+      creatorName: 'Legacy Artist',
+      partIndex: 2,
+      links: ['https://example.com/legacy'],
+    })
+  })
+})
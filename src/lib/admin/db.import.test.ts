@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { resetModulesInTempDir, setupTempCommissionDb } from '../../../test/utils/tempCommissionDb'
+
+async function loadAdminDbInTempDir() {
+  const { tempDir } = setupTempCommissionDb('commission-index-admin-import-')
+  resetModulesInTempDir(tempDir)
+  const adminDb = await import('./db')
+  return { adminDb }
+}
+
+function createOptions(uploadedImages: string[] = []) {
+  return {
+    uploadedImages: new Set(uploadedImages),
+    existingImages: new Set<string>(),
+    validateFileName: (fileName: string) => (/^\d{8}(?:_.+)?$/.test(fileName) ? null : 'Invalid file name.'),
+  }
+}
+
+function manifestRow(overrides: Record<string, unknown>) {
+  return {
+    line: 1,
+    characterId: null,
+    characterName: null,
+    fileName: '',
+    links: [],
+    hidden: false,
+    ...overrides,
+  }
+}
+
+describe('admin commission import (sqlite integration)', () => {
+  it('previews creates, updates and invalid rows without writing', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+    const existing = adminDb.getAdminCommissionsByCharacterId(target.id)[0]!
+
+    const plan = adminDb.previewCommissionImport([
+      manifestRow({ line: 1, characterName: target.name.toUpperCase(), fileName: '20991231_Import' }),
+      manifestRow({ line: 2, characterName: target.name, fileName: existing.fileName, links: existing.links, description: 'imported' }),
+      manifestRow({ line: 3, characterName: 'Nobody', fileName: 'bad name' }),
+      manifestRow({ line: 4, characterName: target.name, fileName: '20991231_Import' }),
+    ], createOptions(['20991231_Import', '20991231_Orphan']))
+
+    expect(plan.rows.map(row => row.action)).toEqual(['create', 'update', 'invalid', 'invalid'])
+    expect(plan.rows[0]?.characterName).toBe(target.name)
+    expect(plan.rows[1]?.changes).toContainEqual({
+      field: 'description',
+      before: existing.description,
+      after: 'imported',
+    })
+    expect(plan.rows[2]?.errors).toEqual(['Invalid file name.', 'Character "Nobody" does not exist.'])
+    expect(plan.rows[3]?.errors).toEqual(['File name is already used on row 1.'])
+    expect(plan.unmatchedImages).toEqual(['20991231_Orphan'])
+    expect(adminDb.getAdminAuditHistory()).toEqual([])
+  })
+
+  it('applies every row in one transaction and refuses invalid manifests', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+    const rows = [
+      manifestRow({ line: 1, characterId: target.id, fileName: '20991230_Import', keyword: 'a, b' }),
+      manifestRow({ line: 2, characterId: target.id, fileName: '20991231_Import' }),
+    ]
+
+    expect(() => adminDb.applyCommissionImport(rows, createOptions(['20991230_Import']))).toThrow(
+      'Import has 1 invalid row(s); nothing was applied.',
+    )
+    expect(adminDb.getAdminAuditHistory()).toEqual([])
+
+    const plan = adminDb.applyCommissionImport(rows, createOptions(['20991230_Import', '20991231_Import']))
+    expect(plan.counts).toEqual({ create: 2, update: 0, unchanged: 0, invalid: 0 })
+
+    const imported = adminDb
+      .getAdminCommissionsByCharacterId(target.id)
+      .filter(commission => commission.fileName.endsWith('_Import'))
+    expect(imported.map(commission => commission.fileName).toSorted()).toEqual(['20991230_Import', '20991231_Import'])
+    expect(adminDb.getAdminAuditHistory().map(entry => entry.action)).toEqual(['create-commission', 'create-commission'])
+
+    const rerun = adminDb.previewCommissionImport(rows, createOptions())
+    expect(rerun.counts.unchanged).toBe(2)
+  })
+
+  it('marks rows whose uploaded image failed processing or would overwrite a file as invalid', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+    const existing = adminDb.getAdminCommissionsByCharacterId(target.id)[0]!
+
+    const plan = adminDb.previewCommissionImport([
+      manifestRow({ line: 1, characterId: target.id, fileName: existing.fileName, links: existing.links }),
+      manifestRow({ line: 2, characterId: target.id, fileName: '20991231_Import' }),
+    ], {
+      ...createOptions([existing.fileName, '20991231_Import']),
+      existingImages: new Set(['20991231_Import']),
+      imageErrors: new Map([[existing.fileName, 'Uploaded file is not a readable image.']]),
+    })
+
+    expect(plan.rows.map(row => row.action)).toEqual(['invalid', 'invalid'])
+    expect(plan.rows[0]?.errors).toEqual(['Uploaded file is not a readable image.'])
+    expect(plan.rows[1]?.errors).toEqual([
+      'A source image with this file name already exists; remove it before importing a new entry.',
+    ])
+  })
+})
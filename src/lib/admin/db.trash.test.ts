@@ -0,0 +1,60 @@
+import Database from 'better-sqlite3'
+import { describe, expect, it } from 'vitest'
+import { resetModulesInTempDir, setupTempCommissionDb } from '../../../test/utils/tempCommissionDb'
+
+async function loadAdminDbInTempDir() {
+  const { tempDir, dbPath } = setupTempCommissionDb('commission-index-admin-trash-')
+  resetModulesInTempDir(tempDir)
+  const adminDb = await import('./db')
+  return { adminDb, dbPath }
+}
+
+describe('admin trash (sqlite integration)', () => {
+  it('hides a trashed character and restores only the commissions trashed with it', async () => {
+    const { adminDb } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters.find(character => character.commissionCount > 1)!
+    const [earlier, ...rest] = adminDb.getAdminCommissionsByCharacterId(target.id)
+
+    adminDb.deleteCommission(earlier!.id)
+    const { fileNames } = adminDb.deleteCharacter(target.id)
+    expect(fileNames.toSorted()).toEqual(rest.map(commission => commission.fileName).toSorted())
+
+    const adminData = adminDb.getAdminData()
+    expect(adminData.characters.map(character => character.id)).not.toContain(target.id)
+    expect(adminData.commissions.some(commission => commission.characterId === target.id)).toBe(false)
+
+    const trash = adminDb.getAdminTrashData()
+    expect(trash.characters).toEqual([
+      expect.objectContaining({ id: target.id, commissionCount: rest.length }),
+    ])
+    expect(trash.commissions).toEqual([])
+    expect(() => adminDb.restoreCommission(earlier!.id)).toThrow('Restore the commission\'s character first.')
+
+    adminDb.restoreCharacter(target.id)
+    expect(adminDb.getAdminCommissionsByCharacterId(target.id)).toHaveLength(rest.length)
+    expect(adminDb.getAdminTrashData().commissions.map(commission => commission.id)).toEqual([earlier!.id])
+  })
+
+  it('purges a trashed character with every commission it owns', async () => {
+    const { adminDb, dbPath } = await loadAdminDbInTempDir()
+    const target = adminDb.getAdminData().characters[0]!
+
+    expect(() => adminDb.purgeCharacter(target.id)).toThrow('Character is not in the trash.')
+    adminDb.deleteCharacter(target.id)
+    expect(() => adminDb.createCharacter({ name: target.name, status: 'active' })).toThrow(/is in the trash/)
+
+    adminDb.purgeCharacter(target.id)
+
+    const db = new Database(dbPath, { readonly: true })
+    const remaining = db
+      .prepare('SELECT COUNT(*) as count FROM commissions WHERE character_id = ?')
+      .get(target.id) as { count: number }
+    db.close()
+    expect(remaining.count).toBe(0)
+    expect(adminDb.getCommissionTrashStates(['missing-file'])).toEqual(new Map([['missing-file', 'missing']]))
+
+    const [entry] = adminDb.getAdminAuditHistory()
+    expect(entry?.action).toBe('purge-character')
+    expect(() => adminDb.revertAdminAuditEntry(entry!.id)).toThrow('Purged items cannot be restored.')
+  })
+})
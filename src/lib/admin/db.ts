@@ -1,3 +1,9 @@
+import type { MigrationDatabase } from '#lib/schema/migrations'
+import type { AdminAuditEntry } from './auditLog'
+import type { BackupTables } from './backup'
+import type { AdminCreatorsData, CreatorInput } from './creators'
+import type { ImportManifestRow } from './importManifest'
+import type { AdminTrashData, CommissionTrashState } from './trash'
 import fs from 'node:fs'
 import path from 'node:path'
 import process from 'node:process'
@@ -7,6 +13,7 @@ import {
   normalizeCharacterAliasName,
   parseCharacterAliasesJson,
 } from '#lib/characterAliases/shared'
+import { normalizeCommissionDate, parseCommissionFileName } from '#lib/commissions/index'
 import {
   normalizeAliases,
   normalizeCreatorName,
@@ -19,12 +26,46 @@ import {
   parseKeywordAliasesJson,
   splitKeywordTerms,
 } from '#lib/keywordAliases/shared'
+import { applySchemaMigrations, assertSchemaUpToDate } from '#lib/schema/migrations'
 import { buildCommissionSearchMetadata } from '#lib/search/commissionSearchMetadata'
 import {
   buildPopularKeywordPoolFromSuggestTexts,
   dedupeKeywords,
 } from '#lib/search/popularKeywords'
 import Database from 'better-sqlite3'
+import {
+  listAdminAuditEntries,
+  readAliasSnapshots,
+  readCharacterDeletionSnapshot,
+  readCharacterSnapshot,
+  readCharacterSnapshots,
+  readCommissionSnapshot,
+  readCreatorSnapshot,
+  readFeaturedKeywordsSnapshot,
+  recordAdminAuditEntry,
+  revertAdminAuditEntryInDatabase,
+} from './auditLog'
+import { readBackupSchemaVersion, readBackupTables } from './backup'
+import {
+  deleteCreatorInDatabase,
+  insertCreatorInDatabase,
+  listCreatorsFromDatabase,
+  mergeCreatorsInDatabase,
+  normalizeCreatorInput,
+  resolveCreatorIdInDatabase,
+  updateCreatorInDatabase,
+} from './creators'
+import {
+  assertNotInTrash,
+  listTrashFromDatabase,
+  purgeCharacterInDatabase,
+  purgeCommissionInDatabase,
+  readCommissionTrashStates,
+  restoreCharacterInDatabase,
+  restoreCommissionInDatabase,
+  trashCharacterInDatabase,
+  trashCommissionInDatabase,
+} from './trash'
 
 export type CharacterStatus = 'active' | 'stale'
 
@@ -41,6 +82,9 @@ interface CommissionRow {
   characterId: number
   characterName: string
   fileName: string
+  commissionDate: string | null
+  creatorName: string | null
+  partIndex: number | null
   links: string[]
   design?: string | null
   description?: string | null
@@ -53,6 +97,8 @@ export interface AdminCommissionSearchRow {
   characterId: number
   characterName: string
   fileName: string
+  commissionDate: string | null
+  creatorName: string | null
   design?: string | null
   description?: string | null
   keyword?: string | null
@@ -102,7 +148,7 @@ type BetterSqlite3Database = Database.Database
 
 const isDevelopment = process.env.NODE_ENV !== 'production'
 const databasePath = path.join(process.cwd(), 'data', 'commissions.db')
-let hasCommissionKeywordColumnCache: boolean | null = null
+let hasMigratedSchema = false
 
 function ensureDatabaseExists() {
   if (!fs.existsSync(databasePath)) {
@@ -110,115 +156,43 @@ function ensureDatabaseExists() {
   }
 }
 
-function hasCommissionKeywordColumn(db: BetterSqlite3Database, options?: { useCache?: boolean }): boolean {
-  const useCache = options?.useCache !== false
-  if (useCache && hasCommissionKeywordColumnCache !== null) {
-    return hasCommissionKeywordColumnCache
-  }
-
-  const columns = db.prepare('PRAGMA table_info(commissions)').all() as Array<{
-    name?: string | null
-  }>
-  const hasColumn = columns.some(column => column.name === 'keyword')
-  if (useCache) {
-    hasCommissionKeywordColumnCache = hasColumn
+function toMigrationDatabase(db: BetterSqlite3Database): MigrationDatabase {
+  return {
+    exec: (sql) => {
+      db.exec(sql)
+    },
+    queryAll: <T = unknown>(sql: string, params: ReadonlyArray<unknown> = []) =>
+      db.prepare(sql).all(params) as T[],
+    run: (sql, params = []) => {
+      db.prepare(sql).run(params)
+    },
   }
-  return hasColumn
 }
 
-function ensureCommissionKeywordColumn(db: BetterSqlite3Database) {
-  const hasColumn = hasCommissionKeywordColumn(db, { useCache: false })
-  if (hasColumn) {
-    hasCommissionKeywordColumnCache = true
+// Development (and tests) migrate once per process; production only verifies the schema.
+function ensureSchemaMigrated() {
+  if (hasMigratedSchema)
     return
-  }
-
-  db.prepare('ALTER TABLE commissions ADD COLUMN keyword TEXT').run()
-  hasCommissionKeywordColumnCache = true
-}
-
-function hasCreatorAliasesTable(db: BetterSqlite3Database): boolean {
-  const row = db
-    .prepare(
-      'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'creator_aliases\' LIMIT 1',
-    )
-    .get() as { name?: string } | undefined
-
-  return row?.name === 'creator_aliases'
-}
-
-function ensureCreatorAliasesTable(db: BetterSqlite3Database) {
-  db.prepare(
-    `
-      CREATE TABLE IF NOT EXISTS creator_aliases (
-        creator_name TEXT PRIMARY KEY,
-        aliases TEXT NOT NULL
-      )
-    `,
-  ).run()
-}
-
-function hasCharacterAliasesTable(db: BetterSqlite3Database): boolean {
-  const row = db
-    .prepare(
-      'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'character_aliases\' LIMIT 1',
-    )
-    .get() as { name?: string } | undefined
-
-  return row?.name === 'character_aliases'
-}
 
-function ensureCharacterAliasesTable(db: BetterSqlite3Database) {
-  db.prepare(
-    `
-      CREATE TABLE IF NOT EXISTS character_aliases (
-        character_name TEXT PRIMARY KEY,
-        aliases TEXT NOT NULL
-      )
-    `,
-  ).run()
-}
-
-function hasKeywordAliasesTable(db: BetterSqlite3Database): boolean {
-  const row = db
-    .prepare(
-      'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'keyword_aliases\' LIMIT 1',
-    )
-    .get() as { name?: string } | undefined
-
-  return row?.name === 'keyword_aliases'
-}
-
-function ensureKeywordAliasesTable(db: BetterSqlite3Database) {
-  db.prepare(
-    `
-      CREATE TABLE IF NOT EXISTS keyword_aliases (
-        base_keyword TEXT PRIMARY KEY,
-        aliases TEXT NOT NULL
-      )
-    `,
-  ).run()
-}
-
-function hasHomeFeaturedSearchKeywordsTable(db: BetterSqlite3Database): boolean {
-  const row = db
-    .prepare(
-      'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'home_featured_search_keywords\' LIMIT 1',
-    )
-    .get() as { name?: string } | undefined
-
-  return row?.name === 'home_featured_search_keywords'
-}
+  const db = new Database(databasePath, {
+    readonly: !isDevelopment,
+    fileMustExist: true,
+  })
 
-function ensureHomeFeaturedSearchKeywordsTable(db: BetterSqlite3Database) {
-  db.prepare(
-    `
-      CREATE TABLE IF NOT EXISTS home_featured_search_keywords (
-        keyword TEXT PRIMARY KEY,
-        sort_order INTEGER NOT NULL
-      )
-    `,
-  ).run()
+  try {
+    db.pragma('busy_timeout = 5000')
+    const migrationDb = toMigrationDatabase(db)
+    if (isDevelopment) {
+      applySchemaMigrations(migrationDb)
+    }
+    else {
+      assertSchemaUpToDate(migrationDb)
+    }
+    hasMigratedSchema = true
+  }
+  finally {
+    db.close()
+  }
 }
 
 function normalizeKeyword(value?: string | null): string | null {
@@ -231,6 +205,9 @@ function normalizeKeyword(value?: string | null): string | null {
 interface NormalizedCommissionMutation {
   characterId: number
   fileName: string
+  commissionDate: string
+  creatorName: string | null
+  partIndex: number | null
   links: string
   design: string | null
   description: string | null
@@ -238,7 +215,17 @@ interface NormalizedCommissionMutation {
   hidden: number
 }
 
-function normalizeCommissionMutation(input: {
+/**
+ * Optional overrides for the structured commission fields. Anything left
+ * blank is derived from the `YYYYMMDD_creator (part N)` file name.
+ */
+export interface CommissionStructuredFieldsInput {
+  commissionDate?: string | null
+  creatorName?: string | null
+  partIndex?: number | null
+}
+
+function normalizeCommissionMutation(input: CommissionStructuredFieldsInput & {
   characterId: number
   fileName: string
   links: string[]
@@ -247,9 +234,28 @@ function normalizeCommissionMutation(input: {
   keyword?: string | null
   hidden?: boolean
 }): NormalizedCommissionMutation {
+  const fileName = input.fileName.trim()
+  const derived = parseCommissionFileName(fileName)
+  const rawCommissionDate = input.commissionDate?.trim()
+  const commissionDate = rawCommissionDate ? normalizeCommissionDate(rawCommissionDate) : derived.commissionDate
+  if (rawCommissionDate && !commissionDate) {
+    throw new Error('Commission date must be a valid YYYY-MM-DD date.')
+  }
+  if (!commissionDate) {
+    throw new Error('Commission date is required when the file name does not start with YYYYMMDD.')
+  }
+
+  const partIndex = input.partIndex ?? derived.partIndex
+  if (partIndex !== null && (!Number.isInteger(partIndex) || partIndex <= 0)) {
+    throw new Error('Part number must be a positive integer.')
+  }
+
   return {
     characterId: input.characterId,
-    fileName: input.fileName.trim(),
+    fileName,
+    commissionDate,
+    creatorName: normalizeCreatorName(input.creatorName ?? '') ?? derived.creatorName,
+    partIndex,
     links: JSON.stringify(input.links),
     design: input.design ?? null,
     description: input.description ?? null,
@@ -260,6 +266,7 @@ function normalizeCommissionMutation(input: {
 
 function openDatabase(readonly: boolean) {
   ensureDatabaseExists()
+  ensureSchemaMigrated()
 
   const db = new Database(databasePath, {
     readonly,
@@ -271,11 +278,6 @@ function openDatabase(readonly: boolean) {
   if (!readonly) {
     db.pragma('foreign_keys = ON')
     db.pragma('journal_mode = DELETE')
-    ensureCommissionKeywordColumn(db)
-    ensureCharacterAliasesTable(db)
-    ensureCreatorAliasesTable(db)
-    ensureKeywordAliasesTable(db)
-    ensureHomeFeaturedSearchKeywordsTable(db)
   }
 
   return db
@@ -299,19 +301,8 @@ function withWritableDatabase<TReturn>(handler: (db: BetterSqlite3Database) => T
   return withDatabase({ readonly: false }, handler)
 }
 
-function extractCreatorNameFromFileName(fileName: string): string | null {
-  const separatorIndex = fileName.indexOf('_')
-  if (separatorIndex < 0)
-    return null
-
-  return normalizeCreatorName(fileName.slice(separatorIndex + 1))
-}
-
 export function getAdminData(): AdminData {
   return withReadOnlyDatabase((db) => {
-    const hasKeywordColumn = hasCommissionKeywordColumn(db)
-    const keywordSelect = hasKeywordColumn ? 'commissions.keyword as keyword,' : 'NULL as keyword,'
-
     const rawCharacters = db
       .prepare(
         `
@@ -322,7 +313,10 @@ export function getAdminData(): AdminData {
           characters.sort_order as sortOrder,
           COUNT(commissions.id) as commissionCount
         FROM characters
-        LEFT JOIN commissions ON commissions.character_id = characters.id
+        LEFT JOIN commissions
+          ON commissions.character_id = characters.id
+          AND commissions.deleted_at IS NULL
+        WHERE characters.deleted_at IS NULL
         GROUP BY characters.id
         ORDER BY characters.sort_order ASC
       `,
@@ -348,14 +342,19 @@ export function getAdminData(): AdminData {
           commissions.character_id as characterId,
           characters.name as characterName,
           commissions.file_name as fileName,
+          commissions.commission_date as commissionDate,
+          creators.name as creatorName,
+          commissions.part_index as partIndex,
           commissions.links as links,
           commissions.design as design,
           commissions.description as description,
-          ${keywordSelect}
+          commissions.keyword as keyword,
           commissions.hidden as hidden
         FROM commissions
         JOIN characters ON characters.id = commissions.character_id
-        ORDER BY characters.sort_order ASC, commissions.file_name DESC
+        LEFT JOIN creators ON creators.id = commissions.creator_id
+        WHERE commissions.deleted_at IS NULL
+        ORDER BY characters.sort_order ASC, commissions.commission_date DESC, commissions.file_name DESC
       `,
       )
       .all() as Array<{
@@ -363,6 +362,9 @@ export function getAdminData(): AdminData {
       characterId: number
       characterName: string
       fileName: string
+      commissionDate: string | null
+      creatorName: string | null
+      partIndex: number | null
       links: string
       design?: string | null
       description?: string | null
@@ -375,6 +377,9 @@ export function getAdminData(): AdminData {
       characterId: row.characterId,
       characterName: row.characterName,
       fileName: row.fileName,
+      commissionDate: row.commissionDate,
+      creatorName: row.creatorName,
+      partIndex: row.partIndex,
       links: JSON.parse(row.links) as string[],
       design: row.design ?? null,
       description: row.description ?? null,
@@ -388,9 +393,6 @@ export function getAdminData(): AdminData {
 
 export function getAdminBootstrapData(): AdminBootstrapData {
   return withReadOnlyDatabase((db) => {
-    const hasKeywordColumn = hasCommissionKeywordColumn(db)
-    const keywordSelect = hasKeywordColumn ? 'commissions.keyword as keyword' : 'NULL as keyword'
-
     const rawCharacters = db
       .prepare(
         `
@@ -401,7 +403,10 @@ export function getAdminBootstrapData(): AdminBootstrapData {
           characters.sort_order as sortOrder,
           COUNT(commissions.id) as commissionCount
         FROM characters
-        LEFT JOIN commissions ON commissions.character_id = characters.id
+        LEFT JOIN commissions
+          ON commissions.character_id = characters.id
+          AND commissions.deleted_at IS NULL
+        WHERE characters.deleted_at IS NULL
         GROUP BY characters.id
         ORDER BY characters.sort_order ASC
       `,
@@ -427,12 +432,16 @@ export function getAdminBootstrapData(): AdminBootstrapData {
           commissions.character_id as characterId,
           characters.name as characterName,
           commissions.file_name as fileName,
+          commissions.commission_date as commissionDate,
+          creators.name as creatorName,
           commissions.design as design,
           commissions.description as description,
-          ${keywordSelect}
+          commissions.keyword as keyword
         FROM commissions
         JOIN characters ON characters.id = commissions.character_id
-        ORDER BY characters.sort_order ASC, commissions.file_name DESC
+        LEFT JOIN creators ON creators.id = commissions.creator_id
+        WHERE commissions.deleted_at IS NULL
+        ORDER BY characters.sort_order ASC, commissions.commission_date DESC, commissions.file_name DESC
       `,
       )
       .all() as Array<{
@@ -440,6 +449,8 @@ export function getAdminBootstrapData(): AdminBootstrapData {
       characterId: number
       characterName: string
       fileName: string
+      commissionDate: string | null
+      creatorName: string | null
       design?: string | null
       description?: string | null
       keyword?: string | null
@@ -450,6 +461,8 @@ export function getAdminBootstrapData(): AdminBootstrapData {
       characterId: row.characterId,
       characterName: row.characterName,
       fileName: row.fileName,
+      commissionDate: row.commissionDate,
+      creatorName: row.creatorName,
       design: row.design ?? null,
       description: row.description ?? null,
       keyword: row.keyword ?? null,
@@ -465,9 +478,6 @@ export function getAdminBootstrapData(): AdminBootstrapData {
 
 export function getAdminCommissionsByCharacterId(characterId: number): CommissionRow[] {
   return withReadOnlyDatabase((db) => {
-    const hasKeywordColumn = hasCommissionKeywordColumn(db)
-    const keywordSelect = hasKeywordColumn ? 'commissions.keyword as keyword,' : 'NULL as keyword,'
-
     const rawCommissions = db
       .prepare(
         `
@@ -476,15 +486,19 @@ export function getAdminCommissionsByCharacterId(characterId: number): Commissio
           commissions.character_id as characterId,
           characters.name as characterName,
           commissions.file_name as fileName,
+          commissions.commission_date as commissionDate,
+          creators.name as creatorName,
+          commissions.part_index as partIndex,
           commissions.links as links,
           commissions.design as design,
           commissions.description as description,
-          ${keywordSelect}
+          commissions.keyword as keyword,
           commissions.hidden as hidden
         FROM commissions
         JOIN characters ON characters.id = commissions.character_id
-        WHERE commissions.character_id = @characterId
-        ORDER BY commissions.file_name DESC
+        LEFT JOIN creators ON creators.id = commissions.creator_id
+        WHERE commissions.character_id = @characterId AND commissions.deleted_at IS NULL
+        ORDER BY commissions.commission_date DESC, commissions.file_name DESC
       `,
       )
       .all({
@@ -494,6 +508,9 @@ export function getAdminCommissionsByCharacterId(characterId: number): Commissio
       characterId: number
       characterName: string
       fileName: string
+      commissionDate: string | null
+      creatorName: string | null
+      partIndex: number | null
       links: string
       design?: string | null
       description?: string | null
@@ -506,6 +523,9 @@ export function getAdminCommissionsByCharacterId(characterId: number): Commissio
       characterId: row.characterId,
       characterName: row.characterName,
       fileName: row.fileName,
+      commissionDate: row.commissionDate,
+      creatorName: row.creatorName,
+      partIndex: row.partIndex,
       links: JSON.parse(row.links) as string[],
       design: row.design ?? null,
       description: row.description ?? null,
@@ -516,39 +536,43 @@ export function getAdminCommissionsByCharacterId(characterId: number): Commissio
 }
 
 function loadCreatorAliasesAdminDataFromDatabase(db: BetterSqlite3Database): CreatorAliasRow[] {
-  const rawFileNames = db.prepare('SELECT file_name as fileName FROM commissions').all() as Array<{
-    fileName: string
+  const creatorCountRows = db
+    .prepare(
+      `
+        SELECT creators.name as creatorName, COUNT(commissions.id) as commissionCount
+        FROM creators
+        JOIN commissions ON commissions.creator_id = creators.id AND commissions.deleted_at IS NULL
+        GROUP BY creators.id
+      `,
+    )
+    .all() as Array<{
+    creatorName: string
+    commissionCount: number
   }>
 
-  const creatorCounts = new Map<string, number>()
-  rawFileNames.forEach(({ fileName }) => {
-    const creatorName = extractCreatorNameFromFileName(fileName)
-    if (!creatorName)
-      return
-    creatorCounts.set(creatorName, (creatorCounts.get(creatorName) ?? 0) + 1)
-  })
+  const creatorCounts = new Map(
+    creatorCountRows.map(({ creatorName, commissionCount }) => [creatorName, Number(commissionCount)] as const),
+  )
 
   const aliasMap = new Map<string, string[]>()
-  if (hasCreatorAliasesTable(db)) {
-    const aliasRows = db
-      .prepare(
-        'SELECT creator_name as creatorName, aliases as aliasesJson FROM creator_aliases ORDER BY creator_name ASC',
-      )
-      .all() as Array<{ creatorName: string, aliasesJson: string }>
+  const aliasRows = db
+    .prepare(
+      'SELECT creator_name as creatorName, aliases as aliasesJson FROM creator_aliases ORDER BY creator_name ASC',
+    )
+    .all() as Array<{ creatorName: string, aliasesJson: string }>
 
-    aliasRows.forEach((row) => {
-      const normalizedCreatorName = normalizeCreatorName(row.creatorName)
-      if (!normalizedCreatorName)
-        return
+  aliasRows.forEach((row) => {
+    const normalizedCreatorName = normalizeCreatorName(row.creatorName)
+    if (!normalizedCreatorName)
+      return
 
-      const mergedAliases = normalizeAliases([
-        ...(aliasMap.get(normalizedCreatorName) ?? []),
-        ...parseAliasesJson(row.aliasesJson),
-      ])
+    const mergedAliases = normalizeAliases([
+      ...(aliasMap.get(normalizedCreatorName) ?? []),
+      ...parseAliasesJson(row.aliasesJson),
+    ])
 
-      aliasMap.set(normalizedCreatorName, mergedAliases)
-    })
-  }
+    aliasMap.set(normalizedCreatorName, mergedAliases)
+  })
 
   const allCreatorNames = new Set<string>([...creatorCounts.keys(), ...aliasMap.keys()])
 
@@ -570,8 +594,6 @@ interface KeywordCountRow {
 
 function getCharacterAliasesMapFromDatabase(db: BetterSqlite3Database) {
   const aliasesByCharacter = new Map<string, { characterName: string, aliases: string[] }>()
-  if (!hasCharacterAliasesTable(db))
-    return aliasesByCharacter
 
   const aliasRows = db
     .prepare(
@@ -609,7 +631,10 @@ function loadCharacterAliasesAdminDataFromDatabase(db: BetterSqlite3Database): C
           characters.name as characterName,
           COUNT(commissions.id) as commissionCount
         FROM characters
-        LEFT JOIN commissions ON commissions.character_id = characters.id
+        LEFT JOIN commissions
+          ON commissions.character_id = characters.id
+          AND commissions.deleted_at IS NULL
+        WHERE characters.deleted_at IS NULL
         GROUP BY characters.id
         ORDER BY characters.sort_order ASC
       `,
@@ -649,8 +674,6 @@ export function getCharacterAliasesAdminData(): CharacterAliasRow[] {
 
 function getKeywordAliasesMapFromDatabase(db: BetterSqlite3Database) {
   const aliasesByKeyword = new Map<string, { baseKeyword: string, aliases: string[] }>()
-  if (!hasKeywordAliasesTable(db))
-    return aliasesByKeyword
 
   const aliasRows = db
     .prepare(
@@ -683,7 +706,9 @@ function getKeywordAliasesMapFromDatabase(db: BetterSqlite3Database) {
 function loadKeywordAliasesAdminDataFromDatabase(db: BetterSqlite3Database): KeywordAliasRow[] {
   const keywordCounts = new Map<string, { baseKeyword: string, commissionCount: number }>()
 
-  const keywordRows = db.prepare('SELECT keyword FROM commissions').all() as KeywordCountRow[]
+  const keywordRows = db
+    .prepare('SELECT keyword FROM commissions WHERE deleted_at IS NULL')
+    .all() as KeywordCountRow[]
   keywordRows.forEach((row) => {
     const uniqueTerms = new Set(splitKeywordTerms(row.keyword))
     uniqueTerms.forEach((term) => {
@@ -759,8 +784,6 @@ const MAX_FEATURED_SEARCH_KEYWORDS = 6
 
 function getCreatorAliasesMapFromDatabase(db: BetterSqlite3Database) {
   const aliasesByCreator = new Map<string, string[]>()
-  if (!hasCreatorAliasesTable(db))
-    return aliasesByCreator
 
   const aliasRows = db
     .prepare('SELECT creator_name as creatorName, aliases as aliasesJson FROM creator_aliases')
@@ -782,24 +805,26 @@ function getCreatorAliasesMapFromDatabase(db: BetterSqlite3Database) {
 }
 
 function loadPopularKeywordOptions(db: BetterSqlite3Database) {
-  const hasKeywordColumn = hasCommissionKeywordColumn(db)
-  const keywordSelect = hasKeywordColumn ? 'commissions.keyword as keyword' : 'NULL as keyword'
   const commissionRows = db
     .prepare(
       `
         SELECT
           characters.name as characterName,
-          commissions.file_name as fileName,
+          commissions.commission_date as commissionDate,
+          creators.name as creatorName,
           commissions.design as design,
           commissions.description as description,
-          ${keywordSelect}
+          commissions.keyword as keyword
         FROM commissions
         JOIN characters ON characters.id = commissions.character_id
+        LEFT JOIN creators ON creators.id = commissions.creator_id
+        WHERE commissions.deleted_at IS NULL
       `,
     )
     .all() as Array<{
     characterName: string
-    fileName: string
+    commissionDate: string | null
+    creatorName: string | null
     design?: string | null
     description?: string | null
     keyword?: string | null
@@ -815,7 +840,8 @@ function loadPopularKeywordOptions(db: BetterSqlite3Database) {
   const suggestTexts = commissionRows.map((row) => {
     return buildCommissionSearchMetadata({
       characterName: row.characterName,
-      fileName: row.fileName,
+      commissionDate: row.commissionDate ?? '',
+      creatorName: row.creatorName,
       design: row.design ?? null,
       description: row.description ?? null,
       keyword: row.keyword ?? null,
@@ -831,7 +857,7 @@ function loadPopularKeywordOptions(db: BetterSqlite3Database) {
 }
 
 function loadHomeFeaturedSearchKeywordsFromDatabase(db: BetterSqlite3Database, limit = MAX_FEATURED_SEARCH_KEYWORDS) {
-  if (limit <= 0 || !hasHomeFeaturedSearchKeywordsTable(db)) {
+  if (limit <= 0) {
     return []
   }
 
@@ -878,17 +904,32 @@ export function createCharacter(input: { name: string, status: CharacterStatus }
   }
 
   withWritableDatabase((db) => {
-    const maxOrderRow = db
-      .prepare('SELECT COALESCE(MAX(sort_order), 0) as maxOrder FROM characters')
-      .get() as { maxOrder: number }
-
-    db.prepare(
-      'INSERT INTO characters (name, status, sort_order) VALUES (@name, @status, @sortOrder)',
-    ).run({
-      name,
-      status: input.status,
-      sortOrder: Number(maxOrderRow?.maxOrder ?? 0) + 1,
+    assertNotInTrash(db, { characterName: name })
+
+    const transaction = db.transaction(() => {
+      const maxOrderRow = db
+        .prepare('SELECT COALESCE(MAX(sort_order), 0) as maxOrder FROM characters')
+        .get() as { maxOrder: number }
+
+      const result = db.prepare(
+        'INSERT INTO characters (name, status, sort_order) VALUES (@name, @status, @sortOrder)',
+      ).run({
+        name,
+        status: input.status,
+        sortOrder: Number(maxOrderRow?.maxOrder ?? 0) + 1,
+      })
+
+      const id = Number(result.lastInsertRowid)
+      recordAdminAuditEntry(db, {
+        action: 'create-character',
+        entityId: id,
+        summary: `Created character "${name}".`,
+        before: null,
+        after: readCharacterSnapshot(db, id),
+      })
     })
+
+    transaction()
   })
 }
 
@@ -901,11 +942,30 @@ export function updateCharacter(input: { id: number, name: string, status: Chara
   }
 
   withWritableDatabase((db) => {
-    db.prepare('UPDATE characters SET name = @name, status = @status WHERE id = @id').run({
-      id: input.id,
-      name: trimmed,
-      status: input.status,
+    const transaction = db.transaction(() => {
+      const before = readCharacterSnapshot(db, input.id)
+      db.prepare('UPDATE characters SET name = @name, status = @status WHERE id = @id').run({
+        id: input.id,
+        name: trimmed,
+        status: input.status,
+      })
+
+      const after = readCharacterSnapshot(db, input.id)
+      if (!before || !after || JSON.stringify(before) === JSON.stringify(after))
+        return
+
+      recordAdminAuditEntry(db, {
+        action: 'update-character',
+        entityId: input.id,
+        summary: before.name === after.name
+          ? `Updated character "${after.name}".`
+          : `Renamed character "${before.name}" to "${after.name}".`,
+        before,
+        after,
+      })
     })
+
+    transaction()
   })
 }
 
@@ -932,6 +992,7 @@ export function updateCharactersOrder({ active, stale }: CharacterOrderPayload)
     )
 
     const transaction = db.transaction(() => {
+      const before = readCharacterSnapshots(db)
       const combined = [
         ...active.map<[number, CharacterStatus]>(id => [id, 'active']),
         ...stale.map<[number, CharacterStatus]>(id => [id, 'stale']),
@@ -940,13 +1001,24 @@ export function updateCharactersOrder({ active, stale }: CharacterOrderPayload)
       combined.forEach(([id, status], index) => {
         updateStatement.run({ id, sortOrder: index + 1, status })
       })
+
+      const after = readCharacterSnapshots(db)
+      if (JSON.stringify(before) === JSON.stringify(after))
+        return
+
+      recordAdminAuditEntry(db, {
+        action: 'reorder-characters',
+        summary: 'Reordered characters.',
+        before,
+        after,
+      })
     })
 
     transaction()
   })
 }
 
-export function createCommission(input: {
+export function createCommission(input: CommissionStructuredFieldsInput & {
   characterId: number
   fileName: string
   links: string[]
@@ -958,20 +1030,26 @@ export function createCommission(input: {
   ensureWritable()
 
   return withWritableDatabase((db) => {
-    const fileName = input.fileName.trim()
+    const mutation = normalizeCommissionMutation(input)
+    const { fileName } = mutation
     const characterRecord = db
-      .prepare('SELECT id, name FROM characters WHERE id = @id')
+      .prepare('SELECT id, name FROM characters WHERE id = @id AND deleted_at IS NULL')
       .get({ id: input.characterId }) as { id: number, name: string } | undefined
 
     if (!characterRecord) {
       throw new Error('Selected character does not exist.')
     }
 
-    db.prepare(
+    assertNotInTrash(db, { fileName })
+
+    const insertCommission = db.prepare(
       `
       INSERT INTO commissions (
         character_id,
         file_name,
+        commission_date,
+        creator_id,
+        part_index,
         links,
         design,
         description,
@@ -980,6 +1058,9 @@ export function createCommission(input: {
       ) VALUES (
         @characterId,
         @fileName,
+        @commissionDate,
+        @creatorId,
+        @partIndex,
         @links,
         @design,
         @description,
@@ -987,23 +1068,34 @@ export function createCommission(input: {
         @hidden
       )
     `,
-    ).run({
-      characterId: characterRecord.id,
-      fileName,
-      links: JSON.stringify(input.links),
-      design: input.design ?? null,
-      description: input.description ?? null,
-      keyword: normalizeKeyword(input.keyword),
-      hidden: input.hidden ? 1 : 0,
+    )
+
+    const transaction = db.transaction(() => {
+      const result = insertCommission.run({
+        ...mutation,
+        characterId: characterRecord.id,
+        creatorId: resolveCreatorIdInDatabase(db, mutation.creatorName),
+      })
+
+      const id = Number(result.lastInsertRowid)
+      recordAdminAuditEntry(db, {
+        action: 'create-commission',
+        entityId: id,
+        summary: `Created commission "${fileName}" for ${characterRecord.name}.`,
+        before: null,
+        after: readCommissionSnapshot(db, id),
+      })
     })
 
+    transaction()
+
     return {
       characterName: characterRecord.name,
     }
   })
 }
 
-export function updateCommission(input: {
+export function updateCommission(input: CommissionStructuredFieldsInput & {
   id: number
   characterId: number
   fileName: string
@@ -1023,13 +1115,16 @@ export function updateCommission(input: {
         SELECT
           character_id as characterId,
           file_name as fileName,
+          commission_date as commissionDate,
+          (SELECT name FROM creators WHERE creators.id = commissions.creator_id) as creatorName,
+          part_index as partIndex,
           links as links,
           design as design,
           description as description,
           keyword as keyword,
           hidden as hidden
         FROM commissions
-        WHERE id = @id
+        WHERE id = @id AND deleted_at IS NULL
       `,
       )
       .get({ id: input.id }) as NormalizedCommissionMutation | undefined
@@ -1039,7 +1134,7 @@ export function updateCommission(input: {
     }
 
     const characterRecord = db
-      .prepare('SELECT id FROM characters WHERE id = @id')
+      .prepare('SELECT id FROM characters WHERE id = @id AND deleted_at IS NULL')
       .get({ id: input.characterId }) as { id: number } | undefined
 
     if (!characterRecord) {
@@ -1051,6 +1146,9 @@ export function updateCommission(input: {
     const isUnchanged
       = currentCommission.characterId === normalizedInput.characterId
         && currentCommission.fileName === normalizedInput.fileName
+        && currentCommission.commissionDate === normalizedInput.commissionDate
+        && currentCommission.creatorName === normalizedInput.creatorName
+        && currentCommission.partIndex === normalizedInput.partIndex
         && currentCommission.links === normalizedInput.links
         && currentCommission.design === normalizedInput.design
         && currentCommission.description === normalizedInput.description
@@ -1061,12 +1159,15 @@ export function updateCommission(input: {
       return false
     }
 
-    db.prepare(
+    const updateStatement = db.prepare(
       `
       UPDATE commissions
       SET
         character_id = @characterId,
         file_name = @fileName,
+        commission_date = @commissionDate,
+        creator_id = @creatorId,
+        part_index = @partIndex,
         links = @links,
         design = @design,
         description = @description,
@@ -1074,15 +1175,225 @@ export function updateCommission(input: {
         hidden = @hidden
       WHERE id = @id
     `,
-    ).run({
-      id: input.id,
-      ...normalizedInput,
+    )
+
+    const transaction = db.transaction(() => {
+      const before = readCommissionSnapshot(db, input.id)
+      updateStatement.run({
+        id: input.id,
+        ...normalizedInput,
+        creatorId: resolveCreatorIdInDatabase(db, normalizedInput.creatorName),
+      })
+      recordAdminAuditEntry(db, {
+        action: 'update-commission',
+        entityId: input.id,
+        summary: `Updated commission "${normalizedInput.fileName}".`,
+        before,
+        after: readCommissionSnapshot(db, input.id),
+      })
     })
 
+    transaction()
     return true
   })
 }
 
+interface CommissionPartRecord {
+  characterId: number
+  commissionDate: string
+  creatorId: number | null
+  partIndex: number | null
+}
+
+/**
+ * Renumber the parts of one commission in the given order. Only the stored part
+ * numbers change; file names, and so the image paths, stay as uploaded.
+ */
+export function updateCommissionPartsOrder(ids: number[]) {
+  ensureWritable()
+
+  if (!Array.isArray(ids) || ids.length < 2 || ids.some(id => !Number.isInteger(id)) || new Set(ids).size !== ids.length) {
+    throw new Error('Invalid commission parts order payload.')
+  }
+
+  withWritableDatabase((db) => {
+    const selectPart = db.prepare(
+      `
+      SELECT character_id as characterId, commission_date as commissionDate, creator_id as creatorId, part_index as partIndex
+      FROM commissions
+      WHERE id = @id AND deleted_at IS NULL
+    `,
+    )
+    const parts = ids.map((id) => {
+      const part = selectPart.get({ id }) as CommissionPartRecord | undefined
+      if (!part) {
+        throw new Error('Commission not found.')
+      }
+      return part
+    })
+
+    const [first] = parts
+    const isSameCommission = parts.every(part =>
+      part.partIndex !== null
+      && part.characterId === first.characterId
+      && part.commissionDate === first.commissionDate
+      && part.creatorId === first.creatorId,
+    )
+    if (!isSameCommission) {
+      throw new Error('Only parts of the same commission can be reordered together.')
+    }
+
+    const { partCount } = db
+      .prepare(
+        `
+        SELECT COUNT(*) as partCount
+        FROM commissions
+        WHERE character_id = @characterId
+          AND commission_date = @commissionDate
+          AND creator_id IS @creatorId
+          AND part_index IS NOT NULL
+          AND deleted_at IS NULL
+      `,
+      )
+      .get({
+        characterId: first.characterId,
+        commissionDate: first.commissionDate,
+        creatorId: first.creatorId,
+      }) as { partCount: number }
+    if (partCount !== ids.length) {
+      throw new Error('Every part of the commission must be included in the new order.')
+    }
+
+    const updateStatement = db.prepare('UPDATE commissions SET part_index = @partIndex WHERE id = @id')
+
+    const transaction = db.transaction(() => {
+      ids.forEach((id, index) => {
+        const partIndex = index + 1
+        if (parts[index].partIndex === partIndex)
+          return
+
+        const before = readCommissionSnapshot(db, id)
+        updateStatement.run({ id, partIndex })
+        recordAdminAuditEntry(db, {
+          action: 'update-commission',
+          entityId: id,
+          summary: `Moved commission "${before?.fileName}" to part ${partIndex}.`,
+          before,
+          after: readCommissionSnapshot(db, id),
+        })
+      })
+    })
+
+    transaction()
+  })
+}
+
+export function getAdminCreatorsData(): AdminCreatorsData {
+  return withReadOnlyDatabase(db => ({ creators: listCreatorsFromDatabase(db) }))
+}
+
+export function createCreator(input: CreatorInput) {
+  ensureWritable()
+
+  const normalized = normalizeCreatorInput(input)
+  withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const id = insertCreatorInDatabase(db, normalized)
+      recordAdminAuditEntry(db, {
+        action: 'create-creator',
+        entityId: id,
+        summary: `Created creator "${normalized.name}".`,
+        before: null,
+        after: readCreatorSnapshot(db, id),
+      })
+    })
+
+    transaction()
+  })
+}
+
+export function updateCreator(id: number, input: CreatorInput) {
+  ensureWritable()
+
+  const normalized = normalizeCreatorInput(input)
+  withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const before = readCreatorSnapshot(db, id)
+      if (!before) {
+        throw new Error('Creator not found.')
+      }
+
+      updateCreatorInDatabase(db, id, normalized)
+      const after = readCreatorSnapshot(db, id)
+      if (JSON.stringify(before) === JSON.stringify(after))
+        return
+
+      recordAdminAuditEntry(db, {
+        action: 'update-creator',
+        entityId: id,
+        summary: before.name === normalized.name
+          ? `Updated creator "${normalized.name}".`
+          : `Renamed creator "${before.name}" to "${normalized.name}".`,
+        before,
+        after,
+      })
+    })
+
+    transaction()
+  })
+}
+
+export function deleteCreator(id: number) {
+  ensureWritable()
+
+  withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const before = readCreatorSnapshot(db, id)
+      if (!before) {
+        throw new Error('Creator not found.')
+      }
+
+      deleteCreatorInDatabase(db, id)
+      recordAdminAuditEntry(db, {
+        action: 'delete-creator',
+        entityId: id,
+        summary: `Deleted creator "${before.name}".`,
+        before,
+        after: null,
+      })
+    })
+
+    transaction()
+  })
+}
+
+/** Fold one creator into another; returns the name the commissions are now credited to. */
+export function mergeCreators(sourceId: number, targetId: number): { targetName: string } {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const source = readCreatorSnapshot(db, sourceId)
+      const target = readCreatorSnapshot(db, targetId)
+      if (!source || !target) {
+        throw new Error('Creator not found.')
+      }
+
+      const commissionIds = mergeCreatorsInDatabase(db, sourceId, targetId)
+      recordAdminAuditEntry(db, {
+        action: 'merge-creators',
+        entityId: targetId,
+        summary: `Merged creator "${source.name}" into "${target.name}".`,
+        before: { source, target, commissionIds },
+        after: readCreatorSnapshot(db, targetId),
+      })
+      return { targetName: target.name }
+    })
+
+    return transaction()
+  })
+}
+
 export function saveCreatorAliases(input: { creatorName: string, aliases: string[] | string }) {
   ensureWritable()
 
@@ -1099,8 +1410,6 @@ export function saveCreatorAliases(input: { creatorName: string, aliases: string
 }
 
 function saveCreatorAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array<{ creatorName: string, aliases: string[] }>) {
-  ensureCreatorAliasesTable(db)
-
   const deleteStatement = db.prepare(
     'DELETE FROM creator_aliases WHERE creator_name = @creatorName',
   )
@@ -1112,7 +1421,9 @@ function saveCreatorAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array
     `,
   )
 
+  const keys = rows.map(row => row.creatorName)
   const transaction = db.transaction(() => {
+    const before = readAliasSnapshots(db, 'save-creator-aliases', keys)
     rows.forEach(({ creatorName, aliases }) => {
       if (aliases.length === 0) {
         deleteStatement.run({ creatorName })
@@ -1124,14 +1435,23 @@ function saveCreatorAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array
         aliases: JSON.stringify(aliases),
       })
     })
+
+    const after = readAliasSnapshots(db, 'save-creator-aliases', keys)
+    if (JSON.stringify(before) === JSON.stringify(after))
+      return
+
+    recordAdminAuditEntry(db, {
+      action: 'save-creator-aliases',
+      summary: `Saved creator aliases (${keys.length} row${keys.length === 1 ? '' : 's'}).`,
+      before,
+      after,
+    })
   })
 
   transaction()
 }
 
 function saveCharacterAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array<{ characterName: string, aliases: string[] }>) {
-  ensureCharacterAliasesTable(db)
-
   const deleteStatement = db.prepare(
     'DELETE FROM character_aliases WHERE character_name = @characterName',
   )
@@ -1143,7 +1463,9 @@ function saveCharacterAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Arr
     `,
   )
 
+  const keys = rows.map(row => row.characterName)
   const transaction = db.transaction(() => {
+    const before = readAliasSnapshots(db, 'save-character-aliases', keys)
     rows.forEach(({ characterName, aliases }) => {
       if (aliases.length === 0) {
         deleteStatement.run({ characterName })
@@ -1155,6 +1477,17 @@ function saveCharacterAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Arr
         aliases: JSON.stringify(aliases),
       })
     })
+
+    const after = readAliasSnapshots(db, 'save-character-aliases', keys)
+    if (JSON.stringify(before) === JSON.stringify(after))
+      return
+
+    recordAdminAuditEntry(db, {
+      action: 'save-character-aliases',
+      summary: `Saved character aliases (${keys.length} row${keys.length === 1 ? '' : 's'}).`,
+      before,
+      after,
+    })
   })
 
   transaction()
@@ -1220,8 +1553,6 @@ export function saveCharacterAliasesBatch(rows: Array<{ characterName: string, a
 }
 
 function saveKeywordAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array<{ baseKeyword: string, aliases: string[] }>) {
-  ensureKeywordAliasesTable(db)
-
   const deleteStatement = db.prepare(
     'DELETE FROM keyword_aliases WHERE base_keyword = @baseKeyword',
   )
@@ -1233,7 +1564,9 @@ function saveKeywordAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array
     `,
   )
 
+  const keys = rows.map(row => row.baseKeyword)
   const transaction = db.transaction(() => {
+    const before = readAliasSnapshots(db, 'save-keyword-aliases', keys)
     rows.forEach(({ baseKeyword, aliases }) => {
       if (aliases.length === 0) {
         deleteStatement.run({ baseKeyword })
@@ -1245,6 +1578,17 @@ function saveKeywordAliasesRowsInDatabase(db: BetterSqlite3Database, rows: Array
         aliases: JSON.stringify(aliases),
       })
     })
+
+    const after = readAliasSnapshots(db, 'save-keyword-aliases', keys)
+    if (JSON.stringify(before) === JSON.stringify(after))
+      return
+
+    recordAdminAuditEntry(db, {
+      action: 'save-keyword-aliases',
+      summary: `Saved keyword aliases (${keys.length} row${keys.length === 1 ? '' : 's'}).`,
+      before,
+      after,
+    })
   })
 
   transaction()
@@ -1290,8 +1634,6 @@ export function saveHomeFeaturedSearchKeywords(keywords: string[]) {
   const normalizedKeywords = dedupeKeywords(keywords, MAX_FEATURED_SEARCH_KEYWORDS)
 
   withWritableDatabase((db) => {
-    ensureHomeFeaturedSearchKeywordsTable(db)
-
     const clearStatement = db.prepare('DELETE FROM home_featured_search_keywords')
     const insertStatement = db.prepare(
       `
@@ -1301,6 +1643,7 @@ export function saveHomeFeaturedSearchKeywords(keywords: string[]) {
     )
 
     const transaction = db.transaction(() => {
+      const before = readFeaturedKeywordsSnapshot(db)
       clearStatement.run()
       normalizedKeywords.forEach((keyword, index) => {
         insertStatement.run({
@@ -1308,49 +1651,494 @@ export function saveHomeFeaturedSearchKeywords(keywords: string[]) {
           sortOrder: index + 1,
         })
       })
+
+      const after = readFeaturedKeywordsSnapshot(db)
+      if (JSON.stringify(before) === JSON.stringify(after))
+        return
+
+      recordAdminAuditEntry(db, {
+        action: 'save-featured-keywords',
+        summary: 'Saved home featured keywords.',
+        before,
+        after,
+      })
     })
 
     transaction()
   })
 }
 
-export type { CharacterRow, CommissionRow }
+export type { AdminAuditEntry, AdminTrashData, CharacterRow, CommissionRow }
 
-export function deleteCharacter(id: number) {
+/** Move a character and its commissions to the trash; returns the trashed commission file names. */
+export function deleteCharacter(id: number): { fileNames: string[] } {
   ensureWritable()
 
   return withWritableDatabase((db) => {
-    const existing = db.prepare('SELECT name FROM characters WHERE id = @id').get({ id }) as
-      | { name: string }
-      | undefined
+    const existing = readCharacterDeletionSnapshot(db, id)
 
     if (!existing) {
       throw new Error('Character not found.')
     }
 
     const transaction = db.transaction(() => {
-      db.prepare('DELETE FROM commissions WHERE character_id = @characterId').run({
-        characterId: id,
+      const deletedAt = new Date().toISOString()
+      const trashed = trashCharacterInDatabase(db, id, deletedAt)
+      if (!trashed)
+        throw new Error('Character not found.')
+      const { fileNames } = trashed
+      recordAdminAuditEntry(db, {
+        action: 'delete-character',
+        entityId: id,
+        summary: `Moved character "${existing.character.name}" with ${existing.commissions.length} commission(s) to the trash.`,
+        before: existing,
+        after: { deletedAt, fileNames },
       })
-      db.prepare('DELETE FROM characters WHERE id = @id').run({ id })
+      return { fileNames }
     })
 
-    transaction()
+    return transaction()
   })
 }
 
-export function deleteCommission(id: number) {
+export function deleteCommission(id: number): { fileNames: string[] } {
   ensureWritable()
 
   return withWritableDatabase((db) => {
-    const existing = db
-      .prepare('SELECT file_name as fileName FROM commissions WHERE id = @id')
-      .get({ id }) as { fileName: string } | undefined
+    const existing = readCommissionSnapshot(db, id)
 
     if (!existing) {
-      return
+      return { fileNames: [] }
     }
 
-    db.prepare('DELETE FROM commissions WHERE id = @id').run({ id })
+    const transaction = db.transaction(() => {
+      const deletedAt = new Date().toISOString()
+      if (!trashCommissionInDatabase(db, id, deletedAt))
+        return { fileNames: [] }
+
+      recordAdminAuditEntry(db, {
+        action: 'delete-commission',
+        entityId: id,
+        summary: `Moved commission "${existing.fileName}" to the trash.`,
+        before: existing,
+        after: { deletedAt, fileNames: [existing.fileName] },
+      })
+      return { fileNames: [existing.fileName] }
+    })
+
+    return transaction()
+  })
+}
+
+export function getAdminTrashData(): AdminTrashData {
+  return withReadOnlyDatabase(db => listTrashFromDatabase(db))
+}
+
+export function getCommissionTrashStates(fileNames: string[]): Map<string, CommissionTrashState> {
+  return withReadOnlyDatabase(db => readCommissionTrashStates(db, fileNames))
+}
+
+export function restoreCharacter(id: number): { fileNames: string[] } {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const { name, deletedAt, fileNames } = restoreCharacterInDatabase(db, id)
+      recordAdminAuditEntry(db, {
+        action: 'restore-character',
+        entityId: id,
+        summary: `Restored character "${name}" with ${fileNames.length} commission(s) from the trash.`,
+        before: { deletedAt, fileNames },
+        after: null,
+      })
+      return { fileNames }
+    })
+
+    return transaction()
+  })
+}
+
+export function restoreCommission(id: number): { fileNames: string[] } {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const { fileName, deletedAt } = restoreCommissionInDatabase(db, id)
+      recordAdminAuditEntry(db, {
+        action: 'restore-commission',
+        entityId: id,
+        summary: `Restored commission "${fileName}" from the trash.`,
+        before: { deletedAt, fileNames: [fileName] },
+        after: null,
+      })
+      return { fileNames: [fileName] }
+    })
+
+    return transaction()
+  })
+}
+
+export function purgeCharacter(id: number): { fileNames: string[] } {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const before = readCharacterSnapshot(db, id)
+      const { name, fileNames } = purgeCharacterInDatabase(db, id)
+      recordAdminAuditEntry(db, {
+        action: 'purge-character',
+        entityId: id,
+        summary: `Permanently deleted character "${name}" with ${fileNames.length} commission(s).`,
+        before,
+        after: null,
+      })
+      return { fileNames }
+    })
+
+    return transaction()
+  })
+}
+
+export function purgeCommission(id: number): { fileNames: string[] } {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const transaction = db.transaction(() => {
+      const before = readCommissionSnapshot(db, id)
+      const { fileName } = purgeCommissionInDatabase(db, id)
+      recordAdminAuditEntry(db, {
+        action: 'purge-commission',
+        entityId: id,
+        summary: `Permanently deleted commission "${fileName}".`,
+        before,
+        after: null,
+      })
+      return { fileNames: [fileName] }
+    })
+
+    return transaction()
+  })
+}
+
+export function getAdminAuditHistory(limit?: number): AdminAuditEntry[] {
+  return withReadOnlyDatabase(db => listAdminAuditEntries(db, limit))
+}
+
+export function revertAdminAuditEntry(id: number): AdminAuditEntry {
+  ensureWritable()
+
+  return withWritableDatabase(db => revertAdminAuditEntryInDatabase(db, id))
+}
+
+export function getBackupSnapshot(): { tables: BackupTables, schemaVersion: number } {
+  return withReadOnlyDatabase((db) => {
+    const migrationDb = toMigrationDatabase(db)
+    return {
+      tables: readBackupTables(migrationDb),
+      schemaVersion: readBackupSchemaVersion(migrationDb),
+    }
+  })
+}
+
+export type CommissionImportAction = 'create' | 'update' | 'unchanged' | 'invalid'
+
+export interface CommissionImportFieldChange {
+  field: 'character' | 'date' | 'creator' | 'part' | 'links' | 'design' | 'description' | 'keyword' | 'hidden'
+  before: string | null
+  after: string | null
+}
+
+export interface CommissionImportPlanRow {
+  line: number
+  fileName: string
+  characterName: string | null
+  action: CommissionImportAction
+  errors: string[]
+  changes: CommissionImportFieldChange[]
+  replacesImage: boolean
+}
+
+export interface CommissionImportPlan {
+  rows: CommissionImportPlanRow[]
+  counts: Record<CommissionImportAction, number>
+  unmatchedImages: string[]
+}
+
+export interface CommissionImportOptions {
+  /** File name stems of images uploaded together with the manifest. */
+  uploadedImages: ReadonlySet<string>
+  /** File name stems that already have a source image in `data/images`. */
+  existingImages: ReadonlySet<string>
+  /** Problems found while processing the uploaded images, keyed by file name stem. */
+  imageErrors?: ReadonlyMap<string, string>
+  validateFileName: (fileName: string) => string | null
+}
+
+interface PlannedCommissionImportRow extends CommissionImportPlanRow {
+  commissionId: number | null
+  mutation: NormalizedCommissionMutation | null
+}
+
+function formatImportFields(mutation: NormalizedCommissionMutation, characterName: string) {
+  return {
+    character: characterName,
+    date: mutation.commissionDate,
+    creator: mutation.creatorName,
+    part: mutation.partIndex === null ? null : String(mutation.partIndex),
+    links: (JSON.parse(mutation.links) as string[]).join('\n') || null,
+    design: mutation.design,
+    description: mutation.description,
+    keyword: mutation.keyword,
+    hidden: mutation.hidden ? 'yes' : 'no',
+  } satisfies Record<CommissionImportFieldChange['field'], string | null>
+}
+
+function diffImportFields(
+  before: ReturnType<typeof formatImportFields> | null,
+  after: ReturnType<typeof formatImportFields>,
+): CommissionImportFieldChange[] {
+  return (Object.keys(after) as Array<CommissionImportFieldChange['field']>)
+    .filter(field => (before ? before[field] !== after[field] : after[field] !== null))
+    .map(field => ({ field, before: before?.[field] ?? null, after: after[field] }))
+}
+
+function resolveImportCharacter(db: BetterSqlite3Database, row: ImportManifestRow) {
+  if (row.characterId !== null) {
+    return db
+      .prepare('SELECT id, name FROM characters WHERE id = @id AND deleted_at IS NULL')
+      .get({ id: row.characterId }) as { id: number, name: string } | undefined
+  }
+
+  if (!row.characterName)
+    return undefined
+
+  return db
+    .prepare(
+      `
+        SELECT id, name
+        FROM characters
+        WHERE deleted_at IS NULL AND name = @name COLLATE NOCASE
+        ORDER BY name = @name DESC
+        LIMIT 1
+      `,
+    )
+    .get({ name: row.characterName }) as { id: number, name: string } | undefined
+}
+
+function planCommissionImportRows(
+  db: BetterSqlite3Database,
+  rows: ImportManifestRow[],
+  options: CommissionImportOptions,
+): PlannedCommissionImportRow[] {
+  const characterNameById = new Map(
+    (db.prepare('SELECT id, name FROM characters').all() as Array<{ id: number, name: string }>)
+      .map(({ id, name }) => [id, name]),
+  )
+  const findCommission = db.prepare(
+    `
+      SELECT
+        id,
+        character_id as characterId,
+        file_name as fileName,
+        commission_date as commissionDate,
+        (SELECT name FROM creators WHERE creators.id = commissions.creator_id) as creatorName,
+        part_index as partIndex,
+        links,
+        design,
+        description,
+        keyword,
+        hidden,
+        deleted_at as deletedAt
+      FROM commissions
+      WHERE file_name = @fileName
+    `,
+  )
+  const firstLineByFileName = new Map<string, number>()
+
+  return rows.map((row) => {
+    const errors: string[] = []
+    const fileNameError = options.validateFileName(row.fileName)
+    if (fileNameError)
+      errors.push(fileNameError)
+
+    const firstLine = firstLineByFileName.get(row.fileName)
+    if (firstLine !== undefined)
+      errors.push(`File name is already used on row ${firstLine}.`)
+    else
+      firstLineByFileName.set(row.fileName, row.line)
+
+    const character = resolveImportCharacter(db, row)
+    if (!character) {
+      errors.push(
+        row.characterId !== null
+          ? `Character #${row.characterId} does not exist.`
+          : row.characterName
+            ? `Character "${row.characterName}" does not exist.`
+            : 'Character is required.',
+      )
+    }
+
+    const existing = fileNameError
+      ? undefined
+      : findCommission.get({ fileName: row.fileName }) as
+        | (NormalizedCommissionMutation & { id: number, deletedAt: string | null })
+        | undefined
+    if (existing?.deletedAt)
+      errors.push(`Commission "${row.fileName}" is in the trash. Restore or purge it first.`)
+
+    const hasUploadedImage = options.uploadedImages.has(row.fileName)
+    const hasExistingImage = options.existingImages.has(row.fileName)
+    if (!fileNameError && !existing && !hasUploadedImage && !hasExistingImage)
+      errors.push('Source image is required for new commission entries.')
+    if (!fileNameError && !existing && hasUploadedImage && hasExistingImage)
+      errors.push('A source image with this file name already exists; remove it before importing a new entry.')
+    const imageError = options.imageErrors?.get(row.fileName)
+    if (imageError)
+      errors.push(imageError)
+
+    let mutation: NormalizedCommissionMutation | null = null
+    if (character) {
+      try {
+        mutation = normalizeCommissionMutation({ ...row, characterId: character.id })
+      }
+      catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    const base = {
+      line: row.line,
+      fileName: row.fileName,
+      characterName: character?.name ?? row.characterName,
+      replacesImage: Boolean(existing) && hasUploadedImage,
+    }
+
+    if (errors.length > 0 || !character || !mutation) {
+      return { ...base, action: 'invalid', errors, changes: [], commissionId: null, mutation: null }
+    }
+
+    const after = formatImportFields(mutation, character.name)
+    const before = existing
+      ? formatImportFields(existing, characterNameById.get(existing.characterId) ?? `#${existing.characterId}`)
+      : null
+    const changes = diffImportFields(before, after)
+
+    return {
+      ...base,
+      action: !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+      errors,
+      changes,
+      commissionId: existing?.id ?? null,
+      mutation,
+    }
+  })
+}
+
+function toCommissionImportPlan(
+  rows: PlannedCommissionImportRow[],
+  options: CommissionImportOptions,
+): CommissionImportPlan {
+  const counts: Record<CommissionImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  rows.forEach((row) => {
+    counts[row.action] += 1
+  })
+
+  const fileNames = new Set(rows.map(row => row.fileName))
+
+  return {
+    rows: rows.map(({ commissionId: _commissionId, mutation: _mutation, ...row }) => row),
+    counts,
+    unmatchedImages: [...options.uploadedImages].filter(stem => !fileNames.has(stem)).toSorted(),
+  }
+}
+
+/** Dry run: validate every manifest row and diff it against the current database. */
+export function previewCommissionImport(rows: ImportManifestRow[], options: CommissionImportOptions): CommissionImportPlan {
+  return withReadOnlyDatabase(db => toCommissionImportPlan(planCommissionImportRows(db, rows, options), options))
+}
+
+/**
+ * Apply a manifest in one transaction. The plan is recomputed inside the
+ * transaction and nothing is written when any row is invalid.
+ */
+export function applyCommissionImport(rows: ImportManifestRow[], options: CommissionImportOptions): CommissionImportPlan {
+  ensureWritable()
+
+  return withWritableDatabase((db) => {
+    const insertStatement = db.prepare(
+      `
+        INSERT INTO commissions (
+          character_id, file_name, commission_date, creator_id, part_index,
+          links, design, description, keyword, hidden
+        )
+        VALUES (
+          @characterId, @fileName, @commissionDate, @creatorId, @partIndex,
+          @links, @design, @description, @keyword, @hidden
+        )
+      `,
+    )
+    const updateStatement = db.prepare(
+      `
+        UPDATE commissions
+        SET
+          character_id = @characterId,
+          commission_date = @commissionDate,
+          creator_id = @creatorId,
+          part_index = @partIndex,
+          links = @links,
+          design = @design,
+          description = @description,
+          keyword = @keyword,
+          hidden = @hidden
+        WHERE id = @id
+      `,
+    )
+
+    const transaction = db.transaction(() => {
+      const planned = planCommissionImportRows(db, rows, options)
+      const invalidCount = planned.filter(row => row.action === 'invalid').length
+      if (invalidCount > 0) {
+        throw new Error(`Import has ${invalidCount} invalid row(s); nothing was applied.`)
+      }
+
+      planned.forEach((row) => {
+        if (!row.mutation || row.action === 'unchanged')
+          return
+
+        if (row.action === 'create') {
+          const id = Number(insertStatement.run({
+            ...row.mutation,
+            creatorId: resolveCreatorIdInDatabase(db, row.mutation.creatorName),
+          }).lastInsertRowid)
+          recordAdminAuditEntry(db, {
+            action: 'create-commission',
+            entityId: id,
+            summary: `Imported commission "${row.fileName}" for ${row.characterName}.`,
+            before: null,
+            after: readCommissionSnapshot(db, id),
+          })
+          return
+        }
+
+        const id = row.commissionId!
+        const before = readCommissionSnapshot(db, id)
+        updateStatement.run({
+          id,
+          ...row.mutation,
+          creatorId: resolveCreatorIdInDatabase(db, row.mutation.creatorName),
+        })
+        recordAdminAuditEntry(db, {
+          action: 'update-commission',
+          entityId: id,
+          summary: `Updated commission "${row.fileName}" from an import.`,
+          before,
+          after: readCommissionSnapshot(db, id),
+        })
+      })
+
+      return toCommissionImportPlan(planned, options)
+    })
+
+    return transaction()
   })
 }
@@ -0,0 +1,30 @@
+import type { ImageIntegrityReport } from '#lib/images/sourceImageIntegrity'
+import path from 'node:path'
+import process from 'node:process'
+import { getCommissionData } from '#data/commissionData'
+import { scanSourceImageFiles } from '#lib/images/sourceImageFiles'
+import { buildImageIntegrityReport } from '#lib/images/sourceImageIntegrity'
+
+const defaultImagesDir = path.join(process.cwd(), 'data', 'images')
+
+export function listCommissionFileNames() {
+  return getCommissionData().flatMap(character =>
+    character.Commissions.map(commission => commission.fileName),
+  )
+}
+
+export async function getImageIntegrityData({
+  imagesDir = defaultImagesDir,
+  commissionFileNames = listCommissionFileNames(),
+  nearDuplicateDistance,
+}: {
+  imagesDir?: string
+  commissionFileNames?: string[]
+  nearDuplicateDistance?: number
+} = {}): Promise<ImageIntegrityReport> {
+  return buildImageIntegrityReport({
+    commissionFileNames,
+    images: await scanSourceImageFiles(imagesDir),
+    nearDuplicateDistance,
+  })
+}
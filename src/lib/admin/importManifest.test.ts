@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { detectImportManifestFormat, parseCsv, parseImportManifest } from './importManifest'
+
+describe('parseCsv', () => {
+  it('handles quoted commas, escaped quotes, newlines and CRLF', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\n"multi\nline",\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['multi\nline', ''],
+    ])
+  })
+})
+
+describe('parseImportManifest', () => {
+  it('maps CSV columns onto commission fields', () => {
+    const { rows, errors } = parseImportManifest(
+      [
+        'character,fileName,links,keyword,hidden',
+        'Lucia,20260101_Artist,"https://a.example https://b.example",maid,yes',
+        'Lucia,20260102_Artist,,,',
+      ].join('\n'),
+      'csv',
+    )
+
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      expect.objectContaining({
+        line: 1,
+        characterId: null,
+        characterName: 'Lucia',
+        fileName: '20260101_Artist',
+        links: ['https://a.example', 'https://b.example'],
+        keyword: 'maid',
+        hidden: true,
+      }),
+      expect.objectContaining({ line: 2, links: [], keyword: undefined, hidden: false }),
+    ])
+  })
+
+  it('reads structured date, creator and part columns', () => {
+    const { rows, errors } = parseImportManifest(
+      [
+        'character,fileName,commissionDate,creatorName,partIndex',
+        'Lucia,stream-sketch,2026-01-03,Artist,2',
+        'Lucia,20260104_Artist,,,0',
+      ].join('\n'),
+      'csv',
+    )
+
+    expect(rows).toEqual([
+      expect.objectContaining({ fileName: 'stream-sketch', commissionDate: '2026-01-03', creatorName: 'Artist', partIndex: 2 }),
+    ])
+    expect(errors).toEqual(['Row 2: partIndex must be a positive integer.'])
+  })
+
+  it('accepts JSON arrays and { commissions } objects', () => {
+    const rows = [{ characterId: 3, fileName: '20260101', links: ['https://a.example'], hidden: 1 }]
+
+    expect(parseImportManifest(JSON.stringify(rows), 'json').rows[0]).toEqual(
+      expect.objectContaining({ characterId: 3, links: ['https://a.example'], hidden: true }),
+    )
+    expect(parseImportManifest(JSON.stringify({ commissions: rows }), 'json').rows).toHaveLength(1)
+  })
+
+  it('reports unknown columns and malformed manifests', () => {
+    expect(parseImportManifest('character,fileName,artist\nLucia,20260101,x', 'csv').errors).toEqual([
+      'Row 1: unknown column(s) "artist".',
+    ])
+    expect(parseImportManifest('{"rows": []}', 'json').errors[0]).toMatch(/"commissions" array/)
+    expect(parseImportManifest('fileName\n', 'csv').errors).toEqual(['Manifest contains no rows.'])
+  })
+})
+
+describe('detectImportManifestFormat', () => {
+  it('prefers the file extension and falls back to sniffing', () => {
+    expect(detectImportManifestFormat('rows.JSON', 'a,b')).toBe('json')
+    expect(detectImportManifestFormat('', '  [{}]')).toBe('json')
+    expect(detectImportManifestFormat('', 'fileName')).toBe('csv')
+  })
+})
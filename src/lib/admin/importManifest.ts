@@ -0,0 +1,228 @@
+export type ImportManifestFormat = 'csv' | 'json'
+
+/**
+ * One commission described by an import manifest. Columns mirror the admin
+ * commission fields; the character may be given by id or by name.
+ */
+export interface ImportManifestRow {
+  line: number
+  characterId: number | null
+  characterName: string | null
+  fileName: string
+  commissionDate?: string
+  creatorName?: string
+  partIndex?: number
+  links: string[]
+  design?: string
+  description?: string
+  keyword?: string
+  hidden: boolean
+}
+
+export interface ParsedImportManifest {
+  rows: ImportManifestRow[]
+  errors: string[]
+}
+
+const MANIFEST_COLUMNS = new Set([
+  'characterId',
+  'character',
+  'characterName',
+  'fileName',
+  'commissionDate',
+  'creatorName',
+  'partIndex',
+  'links',
+  'design',
+  'description',
+  'keyword',
+  'hidden',
+])
+
+const LINK_SEPARATOR_PATTERN = /\s+/
+const BOM_PATTERN = /^\uFEFF/
+const TRUTHY_FLAG_PATTERN = /^(?:1|true|yes|y|on)$/i
+
+export function detectImportManifestFormat(fileName: string, content: string): ImportManifestFormat {
+  const lowerName = fileName.toLowerCase()
+  if (lowerName.endsWith('.json'))
+    return 'json'
+  if (lowerName.endsWith('.csv'))
+    return 'csv'
+
+  const firstChar = content.trimStart().charAt(0)
+  return firstChar === '[' || firstChar === '{' ? 'json' : 'csv'
+}
+
+/** RFC 4180 style CSV: quoted fields may contain commas, quotes ("") and newlines. */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  const text = content.replace(BOM_PATTERN, '')
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      }
+      else if (char === '"') {
+        inQuotes = false
+      }
+      else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    }
+    else if (char === ',') {
+      record.push(field)
+      field = ''
+    }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n')
+        index += 1
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    }
+    else {
+      field += char
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records.filter(row => row.some(cell => cell.trim()))
+}
+
+function toOptionalText(value: unknown) {
+  if (value === null || value === undefined)
+    return undefined
+  const text = String(value).trim()
+  return text || undefined
+}
+
+function toLinks(value: unknown): string[] {
+  const values = Array.isArray(value) ? value.map(String) : String(value ?? '').split(LINK_SEPARATOR_PATTERN)
+  return values.map(link => link.trim()).filter(Boolean)
+}
+
+function toHiddenFlag(value: unknown) {
+  if (typeof value === 'boolean')
+    return value
+  if (typeof value === 'number')
+    return value !== 0
+  return TRUTHY_FLAG_PATTERN.test(String(value ?? '').trim())
+}
+
+function toManifestRow(record: Record<string, unknown>, line: number, errors: string[]): ImportManifestRow | null {
+  const unknownColumns = Object.keys(record).filter(key => !MANIFEST_COLUMNS.has(key))
+  if (unknownColumns.length > 0) {
+    errors.push(`Row ${line}: unknown column(s) ${unknownColumns.map(key => `"${key}"`).join(', ')}.`)
+    return null
+  }
+
+  const rawCharacterId = toOptionalText(record.characterId)
+  const characterId = rawCharacterId === undefined ? null : Number(rawCharacterId)
+  if (characterId !== null && (!Number.isInteger(characterId) || characterId <= 0)) {
+    errors.push(`Row ${line}: characterId must be a positive integer.`)
+    return null
+  }
+
+  const rawPartIndex = toOptionalText(record.partIndex)
+  const partIndex = rawPartIndex === undefined ? undefined : Number(rawPartIndex)
+  if (partIndex !== undefined && (!Number.isInteger(partIndex) || partIndex <= 0)) {
+    errors.push(`Row ${line}: partIndex must be a positive integer.`)
+    return null
+  }
+
+  return {
+    line,
+    characterId,
+    characterName: toOptionalText(record.character ?? record.characterName) ?? null,
+    fileName: String(record.fileName ?? '').trim(),
+    commissionDate: toOptionalText(record.commissionDate),
+    creatorName: toOptionalText(record.creatorName),
+    partIndex,
+    links: toLinks(record.links),
+    design: toOptionalText(record.design),
+    description: toOptionalText(record.description),
+    keyword: toOptionalText(record.keyword),
+    hidden: toHiddenFlag(record.hidden),
+  }
+}
+
+function parseJsonManifest(content: string, errors: string[]): Array<Record<string, unknown>> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  }
+  catch (error) {
+    errors.push(`Manifest is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    return []
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { commissions?: unknown } | null)?.commissions
+
+  if (!Array.isArray(entries)) {
+    errors.push('JSON manifest must be an array of rows or an object with a "commissions" array.')
+    return []
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`Row ${index + 1}: expected an object.`)
+      return {}
+    }
+    return entry as Record<string, unknown>
+  })
+}
+
+function parseCsvManifest(content: string, errors: string[]): Array<Record<string, unknown>> {
+  const [header, ...records] = parseCsv(content)
+  if (!header) {
+    errors.push('CSV manifest is empty.')
+    return []
+  }
+
+  const columns = header.map(column => column.trim())
+  return records.map((cells) => {
+    const record: Record<string, unknown> = {}
+    columns.forEach((column, index) => {
+      if (column)
+        record[column] = cells[index] ?? ''
+    })
+    return record
+  })
+}
+
+export function parseImportManifest(content: string, format: ImportManifestFormat): ParsedImportManifest {
+  const errors: string[] = []
+  const records = format === 'json'
+    ? parseJsonManifest(content, errors)
+    : parseCsvManifest(content, errors)
+
+  const rows = records
+    .map((record, index) => toManifestRow(record, index + 1, errors))
+    .filter((row): row is ImportManifestRow => row !== null)
+
+  if (errors.length === 0 && rows.length === 0) {
+    errors.push('Manifest contains no rows.')
+  }
+
+  return { rows, errors }
+}
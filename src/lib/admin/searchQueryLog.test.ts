@@ -0,0 +1,26 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { appendSearchQueryLogRecords, getSearchInsightsData, readSearchQueryLogRecords } from './searchQueryLog'
+
+describe('searchQueryLog', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-query-log-'))
+  const logPath = path.join(tempDir, 'nested', 'search-query-log.jsonl')
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(logPath), { recursive: true, force: true })
+  })
+
+  it('appends records as JSON lines and skips unreadable lines', () => {
+    expect(readSearchQueryLogRecords(logPath)).toEqual([])
+
+    appendSearchQueryLogRecords([{ query: 'mira', matchedCount: 2, locale: 'en', at: 1 }], logPath)
+    fs.appendFileSync(logPath, '{"query":"cut sho')
+    fs.appendFileSync(logPath, '\n')
+    appendSearchQueryLogRecords([{ query: 'nanashi', matchedCount: 0, locale: 'ja', at: 2 }], logPath)
+
+    expect(readSearchQueryLogRecords(logPath).map(record => record.query)).toEqual(['mira', 'nanashi'])
+    expect(getSearchInsightsData(logPath).zeroResultQueries.map(stat => stat.query)).toEqual(['nanashi'])
+  })
+})
@@ -0,0 +1,37 @@
+import type { SearchInsights, SearchQueryLogRecord } from '#lib/search/queryLog'
+import fs from 'node:fs'
+import path from 'node:path'
+import process from 'node:process'
+import { parseSearchQueryLogRecords, summarizeSearchQueryLog } from '#lib/search/queryLog'
+
+/** Local, untracked JSON-lines log of searches ingested from the home page. */
+const defaultLogPath = path.join(process.cwd(), 'data', 'search-query-log.jsonl')
+
+export function appendSearchQueryLogRecords(records: SearchQueryLogRecord[], logPath = defaultLogPath) {
+  if (records.length === 0)
+    return
+  fs.mkdirSync(path.dirname(logPath), { recursive: true })
+  fs.appendFileSync(logPath, records.map(record => `${JSON.stringify(record)}\n`).join(''))
+}
+
+export function readSearchQueryLogRecords(logPath = defaultLogPath): SearchQueryLogRecord[] {
+  if (!fs.existsSync(logPath))
+    return []
+
+  const rows = fs.readFileSync(logPath, 'utf8').split('\n').flatMap((line) => {
+    if (!line.trim())
+      return []
+    try {
+      return [JSON.parse(line) as unknown]
+    }
+    catch {
+      // Skip a line cut short by an interrupted write.
+      return []
+    }
+  })
+  return parseSearchQueryLogRecords(rows)
+}
+
+export function getSearchInsightsData(logPath = defaultLogPath): SearchInsights {
+  return summarizeSearchQueryLog(readSearchQueryLogRecords(logPath))
+}
@@ -0,0 +1,238 @@
+import type Database from 'better-sqlite3'
+
+type BetterSqlite3Database = Database.Database
+
+export interface TrashedCharacterRow {
+  id: number
+  name: string
+  deletedAt: string
+  commissionCount: number
+}
+
+export interface TrashedCommissionRow {
+  id: number
+  characterId: number
+  characterName: string
+  fileName: string
+  deletedAt: string
+}
+
+export interface AdminTrashData {
+  characters: TrashedCharacterRow[]
+  commissions: TrashedCommissionRow[]
+}
+
+export type CommissionTrashState = 'live' | 'trashed' | 'missing'
+
+/**
+ * Trashed rows stay in their tables with `deleted_at` set. Commissions trashed
+ * together with their character share its timestamp, which is how a character
+ * restore knows which commissions to bring back.
+ */
+export function listTrashFromDatabase(db: BetterSqlite3Database): AdminTrashData {
+  const characters = db
+    .prepare(
+      `
+        SELECT
+          characters.id as id,
+          characters.name as name,
+          characters.deleted_at as deletedAt,
+          COUNT(commissions.id) as commissionCount
+        FROM characters
+        LEFT JOIN commissions
+          ON commissions.character_id = characters.id
+          AND commissions.deleted_at = characters.deleted_at
+        WHERE characters.deleted_at IS NOT NULL
+        GROUP BY characters.id
+        ORDER BY characters.deleted_at DESC
+      `,
+    )
+    .all() as TrashedCharacterRow[]
+
+  const commissions = db
+    .prepare(
+      `
+        SELECT
+          commissions.id as id,
+          commissions.character_id as characterId,
+          characters.name as characterName,
+          commissions.file_name as fileName,
+          commissions.deleted_at as deletedAt
+        FROM commissions
+        JOIN characters ON characters.id = commissions.character_id
+        WHERE commissions.deleted_at IS NOT NULL AND characters.deleted_at IS NULL
+        ORDER BY commissions.deleted_at DESC, commissions.file_name DESC
+      `,
+    )
+    .all() as TrashedCommissionRow[]
+
+  return {
+    characters: characters.map(row => ({ ...row, commissionCount: Number(row.commissionCount ?? 0) })),
+    commissions,
+  }
+}
+
+function readCharacterDeletedAt(db: BetterSqlite3Database, id: number) {
+  return db
+    .prepare('SELECT name, deleted_at as deletedAt FROM characters WHERE id = @id')
+    .get({ id }) as { name: string, deletedAt: string | null } | undefined
+}
+
+function readCommissionDeletedAt(db: BetterSqlite3Database, id: number) {
+  return db
+    .prepare(
+      `
+        SELECT
+          commissions.file_name as fileName,
+          commissions.deleted_at as deletedAt,
+          characters.deleted_at as characterDeletedAt
+        FROM commissions
+        JOIN characters ON characters.id = commissions.character_id
+        WHERE commissions.id = @id
+      `,
+    )
+    .get({ id }) as { fileName: string, deletedAt: string | null, characterDeletedAt: string | null } | undefined
+}
+
+function listCommissionFileNames(db: BetterSqlite3Database, characterId: number, deletedAt?: string) {
+  const rows = deletedAt === undefined
+    ? db
+        .prepare('SELECT file_name as fileName FROM commissions WHERE character_id = @characterId')
+        .all({ characterId })
+    : db
+        .prepare(
+          'SELECT file_name as fileName FROM commissions WHERE character_id = @characterId AND deleted_at = @deletedAt',
+        )
+        .all({ characterId, deletedAt })
+  return (rows as Array<{ fileName: string }>).map(row => row.fileName)
+}
+
+export function assertNotInTrash(
+  db: BetterSqlite3Database,
+  input: { characterName: string } | { fileName: string },
+) {
+  if ('characterName' in input) {
+    const trashed = db
+      .prepare('SELECT id FROM characters WHERE name = @name AND deleted_at IS NOT NULL')
+      .get({ name: input.characterName })
+    if (trashed)
+      throw new Error(`Character "${input.characterName}" is in the trash. Restore or purge it first.`)
+    return
+  }
+
+  const trashed = db
+    .prepare('SELECT id FROM commissions WHERE file_name = @fileName AND deleted_at IS NOT NULL')
+    .get({ fileName: input.fileName })
+  if (trashed)
+    throw new Error(`Commission "${input.fileName}" is in the trash. Restore or purge it first.`)
+}
+
+/** Move a live character and its live commissions to the trash; null when it is not live. */
+export function trashCharacterInDatabase(db: BetterSqlite3Database, id: number, deletedAt: string) {
+  const existing = readCharacterDeletedAt(db, id)
+  if (!existing || existing.deletedAt) {
+    return null
+  }
+
+  db.prepare(
+    'UPDATE commissions SET deleted_at = @deletedAt WHERE character_id = @id AND deleted_at IS NULL',
+  ).run({ id, deletedAt })
+  db.prepare('UPDATE characters SET deleted_at = @deletedAt WHERE id = @id').run({ id, deletedAt })
+
+  return { name: existing.name, fileNames: listCommissionFileNames(db, id, deletedAt) }
+}
+
+export function trashCommissionInDatabase(db: BetterSqlite3Database, id: number, deletedAt: string) {
+  const existing = readCommissionDeletedAt(db, id)
+  if (!existing || existing.deletedAt) {
+    return null
+  }
+
+  db.prepare('UPDATE commissions SET deleted_at = @deletedAt WHERE id = @id').run({ id, deletedAt })
+  return { fileName: existing.fileName }
+}
+
+function assertTrashedAt(label: string, deletedAt: string, expectedDeletedAt?: string) {
+  if (expectedDeletedAt !== undefined && deletedAt !== expectedDeletedAt) {
+    throw new Error(`${label} changed after this entry was recorded. Revert the newer changes first.`)
+  }
+}
+
+/**
+ * Bring a trashed character back with the commissions that were trashed with
+ * it. `expectedDeletedAt` lets history reverts refuse a later trash round.
+ */
+export function restoreCharacterInDatabase(db: BetterSqlite3Database, id: number, expectedDeletedAt?: string) {
+  const existing = readCharacterDeletedAt(db, id)
+  if (!existing) {
+    throw new Error('Character was purged from the trash.')
+  }
+  if (!existing.deletedAt) {
+    throw new Error('Character is not in the trash.')
+  }
+  assertTrashedAt('Character', existing.deletedAt, expectedDeletedAt)
+
+  const fileNames = listCommissionFileNames(db, id, existing.deletedAt)
+  db.prepare(
+    'UPDATE commissions SET deleted_at = NULL WHERE character_id = @id AND deleted_at = @deletedAt',
+  ).run({ id, deletedAt: existing.deletedAt })
+  db.prepare('UPDATE characters SET deleted_at = NULL WHERE id = @id').run({ id })
+
+  return { name: existing.name, deletedAt: existing.deletedAt, fileNames }
+}
+
+export function restoreCommissionInDatabase(db: BetterSqlite3Database, id: number, expectedDeletedAt?: string) {
+  const existing = readCommissionDeletedAt(db, id)
+  if (!existing) {
+    throw new Error('Commission was purged from the trash.')
+  }
+  if (!existing.deletedAt) {
+    throw new Error('Commission is not in the trash.')
+  }
+  assertTrashedAt('Commission', existing.deletedAt, expectedDeletedAt)
+  if (existing.characterDeletedAt) {
+    throw new Error('Restore the commission\'s character first.')
+  }
+
+  db.prepare('UPDATE commissions SET deleted_at = NULL WHERE id = @id').run({ id })
+  return { fileName: existing.fileName, deletedAt: existing.deletedAt }
+}
+
+/** Permanently delete a trashed character together with every commission it still owns. */
+export function purgeCharacterInDatabase(db: BetterSqlite3Database, id: number) {
+  const existing = readCharacterDeletedAt(db, id)
+  if (!existing?.deletedAt) {
+    throw new Error('Character is not in the trash.')
+  }
+
+  const fileNames = listCommissionFileNames(db, id)
+  db.prepare('DELETE FROM commissions WHERE character_id = @id').run({ id })
+  db.prepare('DELETE FROM characters WHERE id = @id').run({ id })
+
+  return { name: existing.name, fileNames }
+}
+
+export function purgeCommissionInDatabase(db: BetterSqlite3Database, id: number) {
+  const existing = readCommissionDeletedAt(db, id)
+  if (!existing?.deletedAt) {
+    throw new Error('Commission is not in the trash.')
+  }
+
+  db.prepare('DELETE FROM commissions WHERE id = @id').run({ id })
+  return { fileName: existing.fileName }
+}
+
+export function readCommissionTrashStates(
+  db: BetterSqlite3Database,
+  fileNames: string[],
+): Map<string, CommissionTrashState> {
+  const statement = db.prepare('SELECT deleted_at as deletedAt FROM commissions WHERE file_name = @fileName')
+
+  return new Map(
+    Array.from(new Set(fileNames), (fileName) => {
+      const row = statement.get({ fileName }) as { deletedAt: string | null } | undefined
+      const state: CommissionTrashState = !row ? 'missing' : row.deletedAt ? 'trashed' : 'live'
+      return [fileName, state]
+    }),
+  )
+}
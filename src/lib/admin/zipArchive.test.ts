@@ -0,0 +1,87 @@
+import { Buffer } from 'node:buffer'
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { createZipArchive, readZipArchive } from './zipArchive'
+
+function buildZip(files: Array<{ name: string, data: Uint8Array, deflate: boolean }>) {
+  const encoder = new TextEncoder()
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const payload = file.deflate ? deflateRawSync(file.data) : Buffer.from(file.data)
+    const method = file.deflate ? 8 : 0
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034B50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(payload.length, 18)
+    local.writeUInt32LE(file.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    localParts.push(local, Buffer.from(name), payload)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014B50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(payload.length, 20)
+    central.writeUInt32LE(file.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, Buffer.from(name))
+
+    offset += local.length + name.length + payload.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054B50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return new Uint8Array(Buffer.concat([...localParts, centralDirectory, end]))
+}
+
+describe('readZipArchive', () => {
+  it('reads stored and deflated entries', () => {
+    const text = new TextEncoder().encode('hello hello hello hello')
+    const entries = readZipArchive(buildZip([
+      { name: 'images/20260101_A.jpg', data: text, deflate: true },
+      { name: '20260102_B.png', data: new Uint8Array([1, 2, 3]), deflate: false },
+    ]))
+
+    expect(entries.map(entry => entry.name)).toEqual(['images/20260101_A.jpg', '20260102_B.png'])
+    expect(new TextDecoder().decode(entries[0]!.data)).toBe('hello hello hello hello')
+    expect([...entries[1]!.data]).toEqual([1, 2, 3])
+  })
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => readZipArchive(new TextEncoder().encode('not a zip archive at all'))).toThrow(
+      'Archive is not a valid zip file.',
+    )
+  })
+})
+
+describe('createZipArchive', () => {
+  it('round-trips entries through readZipArchive', () => {
+    const json = new TextEncoder().encode(JSON.stringify({ rows: Array.from({ length: 20 }).fill('same') }))
+    const image = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 7])
+    const archive = createZipArchive([
+      { name: 'tables.json', data: json },
+      { name: 'images/20260101_A.jpg', data: image },
+    ])
+
+    const entries = readZipArchive(archive)
+    expect(entries.map(entry => entry.name)).toEqual(['tables.json', 'images/20260101_A.jpg'])
+    expect(entries[0]!.data).toEqual(json)
+    expect(entries[1]!.data).toEqual(image)
+  })
+
+  it('writes standard CRC-32 checksums', () => {
+    const archive = createZipArchive([{ name: 'a.txt', data: new TextEncoder().encode('123456789') }])
+    expect(new DataView(archive.buffer).getUint32(14, true)).toBe(0xCBF43926)
+  })
+})
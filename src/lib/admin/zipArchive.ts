@@ -0,0 +1,182 @@
+import { deflateRawSync, inflateRawSync } from 'node:zlib'
+
+export interface ZipArchiveEntry {
+  name: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014B50
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034B50
+const END_OF_CENTRAL_DIRECTORY_MIN_SIZE = 22
+const MAX_COMMENT_LENGTH = 0xFFFF
+const COMPRESSION_STORED = 0
+const COMPRESSION_DEFLATE = 8
+const ZIP_VERSION = 20
+const UTF8_FILE_NAME_FLAG = 0x0800
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index
+  for (let bit = 0; bit < 8; bit += 1)
+    value = value & 1 ? 0xEDB88320 ^ (value >>> 1) : value >>> 1
+  return value >>> 0
+})
+
+function crc32(data: Uint8Array) {
+  let crc = 0xFFFFFFFF
+  for (const byte of data)
+    crc = CRC32_TABLE[(crc ^ byte) & 0xFF]! ^ (crc >>> 8)
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+function toDosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function findEndOfCentralDirectory(view: DataView) {
+  const lowestOffset = Math.max(0, view.byteLength - END_OF_CENTRAL_DIRECTORY_MIN_SIZE - MAX_COMMENT_LENGTH)
+  for (let offset = view.byteLength - END_OF_CENTRAL_DIRECTORY_MIN_SIZE; offset >= lowestOffset; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE)
+      return offset
+  }
+  throw new Error('Archive is not a valid zip file.')
+}
+
+/**
+ * Minimal zip reader for admin uploads: stored and deflated entries only, no
+ * encryption or zip64. Directory entries are skipped.
+ */
+export function readZipArchive(bytes: Uint8Array): ZipArchiveEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.byteLength < END_OF_CENTRAL_DIRECTORY_MIN_SIZE)
+    throw new Error('Archive is not a valid zip file.')
+
+  const endOffset = findEndOfCentralDirectory(view)
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipArchiveEntry[] = []
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE)
+      throw new Error('Archive central directory is corrupted.')
+
+    const flags = view.getUint16(offset + 8, true)
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const uncompressedSize = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/'))
+      continue
+    if (flags & 0x1)
+      throw new Error(`Archive entry "${name}" is encrypted.`)
+    if (compressedSize === 0xFFFFFFFF || uncompressedSize === 0xFFFFFFFF)
+      throw new Error(`Archive entry "${name}" uses zip64, which is not supported.`)
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE)
+      throw new Error(`Archive entry "${name}" has a corrupted header.`)
+
+    const dataStart = localHeaderOffset
+      + 30
+      + view.getUint16(localHeaderOffset + 26, true)
+      + view.getUint16(localHeaderOffset + 28, true)
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === COMPRESSION_STORED) {
+      entries.push({ name, data: compressed.slice() })
+    }
+    else if (method === COMPRESSION_DEFLATE) {
+      entries.push({ name, data: new Uint8Array(inflateRawSync(compressed)) })
+    }
+    else {
+      throw new Error(`Archive entry "${name}" uses an unsupported compression method (${method}).`)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Counterpart to `readZipArchive`: entries are deflated when that makes them
+ * smaller (JSON) and stored otherwise (already-compressed images).
+ */
+export function createZipArchive(entries: ZipArchiveEntry[], modifiedAt = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const dosDateTime = toDosDateTime(modifiedAt)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const deflated = deflateRawSync(entry.data)
+    const useDeflate = deflated.byteLength < entry.data.byteLength
+    const payload = useDeflate ? new Uint8Array(deflated) : entry.data
+    const method = useDeflate ? COMPRESSION_DEFLATE : COMPRESSION_STORED
+    const checksum = crc32(entry.data)
+
+    const local = new Uint8Array(30 + name.byteLength)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+    localView.setUint16(4, ZIP_VERSION, true)
+    localView.setUint16(6, UTF8_FILE_NAME_FLAG, true)
+    localView.setUint16(8, method, true)
+    localView.setUint16(10, dosDateTime.time, true)
+    localView.setUint16(12, dosDateTime.date, true)
+    localView.setUint32(14, checksum, true)
+    localView.setUint32(18, payload.byteLength, true)
+    localView.setUint32(22, entry.data.byteLength, true)
+    localView.setUint16(26, name.byteLength, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.byteLength)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+    centralView.setUint16(4, ZIP_VERSION, true)
+    centralView.setUint16(6, ZIP_VERSION, true)
+    centralView.setUint16(8, UTF8_FILE_NAME_FLAG, true)
+    centralView.setUint16(10, method, true)
+    centralView.setUint16(12, dosDateTime.time, true)
+    centralView.setUint16(14, dosDateTime.date, true)
+    centralView.setUint32(16, checksum, true)
+    centralView.setUint32(20, payload.byteLength, true)
+    centralView.setUint32(24, entry.data.byteLength, true)
+    centralView.setUint16(28, name.byteLength, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, payload)
+    centralParts.push(central)
+    offset += local.byteLength + payload.byteLength
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.byteLength, 0)
+  if (entries.length > 0xFFFF || offset + centralSize > 0xFFFFFFFF)
+    throw new Error('Archive is too large for a zip file without zip64 support.')
+
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_MIN_SIZE)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const archive = new Uint8Array(offset + centralSize + end.byteLength)
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.byteLength
+  }
+  return archive
+}
@@ -0,0 +1,30 @@
+import type { Commission } from '#data/types'
+import { describe, expect, it } from 'vitest'
+import { buildCharacterPageEntries } from './pages'
+
+function commission(fileName: string): Commission {
+  return { fileName, commissionDate: fileName.slice(0, 8), Links: [] }
+}
+
+describe('character pages', () => {
+  it('builds one entry per character with its first and last commission dates', () => {
+    const commissions = [commission('20240301_Q'), commission('20221105_七市'), commission('20230710_Q')]
+
+    expect(buildCharacterPageEntries([
+      { Character: 'L*cia', Commissions: commissions },
+      { Character: 'Studio K', Commissions: [] },
+    ])).toEqual([
+      { name: 'L*cia', slug: 'l-cia', commissions, firstDate: '20221105', lastDate: '20240301' },
+      { name: 'Studio K', slug: 'studio-k', commissions: [], firstDate: null, lastDate: null },
+    ])
+  })
+
+  it('rejects two characters that map to the same slug', () => {
+    expect(() =>
+      buildCharacterPageEntries([
+        { Character: 'Studio K', Commissions: [] },
+        { Character: 'studio-k', Commissions: [] },
+      ]),
+    ).toThrow('Characters "Studio K" and "studio-k" share the page slug "studio-k"')
+  })
+})
@@ -0,0 +1,39 @@
+import type { Commission, Props } from '#data/types'
+import { getCharacterSlug } from '#lib/characters/nav'
+
+export interface CharacterPageEntry {
+  name: string
+  slug: string
+  commissions: Commission[]
+  firstDate: string | null
+  lastDate: string | null
+}
+
+/**
+ * One `/characters/[slug]` page per listed character, including characters
+ * whose commissions are all still to be announced. Dates are `yyyyMMdd`.
+ */
+export function buildCharacterPageEntries(commissionData: Props): CharacterPageEntry[] {
+  const slugOwners = new Map<string, string>()
+
+  return commissionData.flatMap(({ Character, Commissions }) => {
+    const slug = getCharacterSlug(Character)
+    if (!slug)
+      return []
+
+    const owner = slugOwners.get(slug)
+    if (owner) {
+      throw new Error(`Characters "${owner}" and "${Character}" share the page slug "${slug}"; rename one of them.`)
+    }
+    slugOwners.set(slug, Character)
+
+    const dates = Commissions.map(commission => commission.commissionDate).filter(Boolean).toSorted()
+    return [{
+      name: Character,
+      slug,
+      commissions: Commissions,
+      firstDate: dates[0] ?? null,
+      lastDate: dates.at(-1) ?? null,
+    }]
+  })
+}
@@ -1,7 +1,15 @@
+import type { Commission } from '#data/types'
 import { getCommissionData } from '#data/commissionData'
 import { getBaseFileName } from '#lib/utils/strings'
 import { describe, expect, it } from 'vitest'
-import { collectUniqueCommissions, flattenCommissions, parseCommissionFileName } from './index'
+import {
+  collectUniqueCommissions,
+  flattenCommissions,
+  getCommissionMetadata,
+  groupCommissionParts,
+  normalizeCommissionDate,
+  parseCommissionFileName,
+} from './index'
 
 describe('commissions utils (real db sample)', () => {
   const data = getCommissionData()
@@ -32,14 +40,93 @@ describe('commissions utils (real db sample)', () => {
     )
   })
 
-  it('parses real file names into date/year/creator fields', () => {
-    const sample = flattened.find(entry => entry.fileName.length >= 8)
+  it('exposes stored date/year/creator fields for real commissions', () => {
+    const sample = flattened.find(entry => entry.commissionDate.length === 8)
 
     expect(sample).toBeTruthy()
 
-    const parsed = parseCommissionFileName(sample!.fileName)
-    expect(parsed.date).toBe(sample!.fileName.slice(0, 8))
-    expect(parsed.year).toBe(parsed.date.slice(0, 4))
-    expect(parsed.creator).toBe(sample!.fileName.slice(9))
+    const metadata = getCommissionMetadata(sample!)
+    expect(metadata.date).toBe(sample!.commissionDate)
+    expect(metadata.year).toBe(sample!.commissionDate.slice(0, 4))
+    expect(metadata.creator).toBe(sample!.creatorName ?? '')
+  })
+})
+
+describe('parseCommissionFileName', () => {
+  it('derives date, creator and part from dated file names', () => {
+    expect(parseCommissionFileName('20250302_Q (part 2)')).toEqual({
+      commissionDate: '20250302',
+      creatorName: 'Q',
+      partIndex: 2,
+    })
+    expect(parseCommissionFileName('20240101_A')).toEqual({
+      commissionDate: '20240101',
+      creatorName: 'A',
+      partIndex: null,
+    })
+    expect(parseCommissionFileName('20240101')).toEqual({
+      commissionDate: '20240101',
+      creatorName: null,
+      partIndex: null,
+    })
+  })
+
+  it('returns no date for file names without a YYYYMMDD prefix', () => {
+    expect(parseCommissionFileName('sketch-from-stream').commissionDate).toBeNull()
+  })
+})
+
+describe('normalizeCommissionDate', () => {
+  it('accepts compact and dashed dates', () => {
+    expect(normalizeCommissionDate('2025-03-02')).toBe('20250302')
+    expect(normalizeCommissionDate('20250302')).toBe('20250302')
+  })
+
+  it('rejects impossible dates', () => {
+    expect(normalizeCommissionDate('2025-02-30')).toBeNull()
+    expect(normalizeCommissionDate('yesterday')).toBeNull()
+  })
+})
+
+describe('groupCommissionParts', () => {
+  const commission = (fileName: string, fields: Partial<Commission> = {}): Commission => ({
+    fileName,
+    commissionDate: fileName.slice(0, 8),
+    creatorName: 'Q',
+    Links: [],
+    ...fields,
+  })
+
+  it('merges the parts of one commission in part order, keeping standalone entries apart', () => {
+    const groups = groupCommissionParts([
+      commission('20250302_Q (part 2)', { partIndex: 2, Links: ['https://a', 'https://b'], Design: 'https://design', Keyword: 'sky, sea' }),
+      commission('20250101_Q'),
+      commission('20250302_Q (part 1)', { partIndex: 1, Links: ['https://a'], Keyword: 'sky', Description: 'Beach' }),
+    ])
+
+    expect(groups.map(group => group.parts.map(part => part.fileName))).toEqual([
+      ['20250302_Q (part 1)', '20250302_Q (part 2)'],
+      ['20250101_Q'],
+    ])
+    expect(groups[0].commission).toMatchObject({
+      fileName: '20250302_Q (part 1)',
+      partIndex: undefined,
+      Links: ['https://a', 'https://b'],
+      Design: 'https://design',
+      Description: 'Beach',
+      Keyword: 'sky, sea',
+    })
+    expect(groups[1].commission).toBe(groups[1].parts[0])
+  })
+
+  it('groups by stored date and creator rather than by file name, within each scope', () => {
+    const groups = groupCommissionParts([
+      commission('20250302_Q_a', { partIndex: 1, creatorId: 7 }),
+      commission('20250302_Q_b', { partIndex: 2, creatorId: 7 }),
+      commission('20250302_R (part 1)', { partIndex: 1, creatorName: 'R' }),
+      commission('20250302_Q_c', { partIndex: 1, creatorId: 7, Hidden: true }),
+    ], entry => (entry.Hidden ? 'other' : 'main'))
+
+    expect(groups.map(group => group.parts.length)).toEqual([2, 1, 1])
   })
 })
@@ -1,8 +1,20 @@
 import type { CharacterCommissions, Commission, Props } from '#data/types'
+import { parseDateString } from '#lib/date/format'
+import { splitKeywordTerms } from '#lib/keywordAliases/shared'
 import { getBaseFileName } from '#lib/utils/strings'
 
 export type CommissionWithCharacter = Commission & { character: string }
 
+export interface CommissionFileNameFields {
+  commissionDate: string | null
+  creatorName: string | null
+  partIndex: number | null
+}
+
+const FILE_NAME_DATE_PATTERN = /^(\d{8})(?:_|$)/
+const PART_SUFFIX_PATTERN = /\(part\s*(\d+)\)$/i
+const DATE_INPUT_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})$/
+
 /**
  * Filter out hidden commissions to speed up builds.
  */
@@ -31,23 +43,134 @@ export function mergePartsAndPreviews<T extends Commission>(commissions: T[]): M
   return commissionMap
 }
 
+export interface CommissionPartGroup<T extends Commission = Commission> {
+  key: string
+  /**
+   * The logical commission: the first part's fields with the links, keywords and
+   * descriptions of every part merged in. The part itself when it stands alone.
+   */
+  commission: T
+  /** Parts in `partIndex` order. */
+  parts: T[]
+}
+
+/**
+ * Parts of one commission share the date and creator and each carry a part number;
+ * a commission without a part number stands alone under its file name.
+ */
+export function getCommissionPartGroupKey(commission: Pick<Commission, 'fileName' | 'commissionDate' | 'creatorId' | 'creatorName' | 'partIndex'>) {
+  if (!commission.partIndex)
+    return commission.fileName
+  return `${commission.commissionDate}\t${commission.creatorId ?? commission.creatorName ?? ''}`
+}
+
+function uniqueTexts(values: Array<string | undefined>) {
+  return [...new Set(values.map(value => value?.trim()).filter((value): value is string => Boolean(value)))]
+}
+
+/**
+ * Merge ordered parts into the one commission shown for them.
+ */
+export function mergeCommissionParts<T extends Commission>(parts: T[]): T {
+  const [first] = parts
+  if (parts.length === 1)
+    return first
+
+  return {
+    ...first,
+    partIndex: undefined,
+    Links: uniqueTexts(parts.flatMap(part => part.Links)),
+    Design: parts.find(part => part.Design)?.Design,
+    Description: uniqueTexts(parts.map(part => part.Description)).join(' / ') || undefined,
+    Keyword: uniqueTexts(parts.flatMap(part => splitKeywordTerms(part.Keyword))).join(', ') || undefined,
+  }
+}
+
+/**
+ * Group the parts of each commission, keeping the order in which groups first appear.
+ * `getScope` separates lists spanning several characters, since parts never cross one.
+ */
+export function groupCommissionParts<T extends Commission>(
+  commissions: T[],
+  getScope: (commission: T) => string = () => '',
+): CommissionPartGroup<T>[] {
+  const partsByKey = new Map<string, T[]>()
+  for (const commission of commissions) {
+    const key = `${getScope(commission)}\n${getCommissionPartGroupKey(commission)}`
+    const parts = partsByKey.get(key)
+    if (parts)
+      parts.push(commission)
+    else
+      partsByKey.set(key, [commission])
+  }
+
+  return Array.from(partsByKey, ([key, parts]) => {
+    const orderedParts = parts.toSorted((a, b) => (a.partIndex ?? 0) - (b.partIndex ?? 0) || a.fileName.localeCompare(b.fileName))
+    return {
+      key,
+      commission: mergeCommissionParts(orderedParts),
+      parts: orderedParts,
+    }
+  })
+}
+
 /**
- * Sort commissions by date (desc).
+ * Sort commissions by date (desc); same-day entries fall back to file name.
  */
 export function sortCommissionsByDate<T extends Commission>(a: T, b: T): number {
-  return b.fileName.localeCompare(a.fileName)
+  return b.commissionDate.localeCompare(a.commissionDate) || b.fileName.localeCompare(a.fileName)
+}
+
+/**
+ * Derive the structured fields of a `YYYYMMDD_creator (part N)` file name.
+ * Only used to fill the stored columns; anything the pattern does not cover
+ * comes back as null.
+ */
+export function parseCommissionFileName(fileName: string): CommissionFileNameFields {
+  const trimmed = fileName.trim()
+  const commissionDate = FILE_NAME_DATE_PATTERN.exec(trimmed)?.[1] ?? null
+  const partIndex = Number(PART_SUFFIX_PATTERN.exec(trimmed)?.[1] ?? Number.NaN)
+  const creatorPart = commissionDate ? trimmed.slice(9) : ''
+  const creatorName = getBaseFileName(creatorPart).trim() || null
+
+  return {
+    commissionDate,
+    creatorName,
+    partIndex: Number.isInteger(partIndex) && partIndex > 0 ? partIndex : null,
+  }
+}
+
+/**
+ * Normalize a `YYYY-MM-DD` or `YYYYMMDD` input to the stored `yyyyMMdd` form;
+ * null when it is not a real calendar date.
+ */
+export function normalizeCommissionDate(value: string): string | null {
+  const match = DATE_INPUT_PATTERN.exec(value.trim())
+  if (!match)
+    return null
+  const compact = `${match[1]}${match[2]}${match[3]}`
+  return parseDateString(compact) ? compact : null
 }
 
 /**
- * Extract metadata from a commission file name.
+ * Date, year and creator of a commission, read from its stored fields.
  */
-export function parseCommissionFileName(fileName: string) {
-  const date = fileName.slice(0, 8)
+export function getCommissionMetadata(commission: Pick<Commission, 'commissionDate' | 'creatorName'>) {
+  const date = commission.commissionDate
   const year = date.slice(0, 4)
-  const creator = fileName.slice(9)
+  const creator = commission.creatorName ?? ''
   return { date, year, creator }
 }
 
+/**
+ * Creator label shown next to an entry, e.g. `Artist (part 2)`.
+ */
+export function formatCommissionCreatorLabel(commission: Pick<Commission, 'creatorName' | 'partIndex'>) {
+  if (!commission.creatorName)
+    return ''
+  return commission.partIndex ? `${commission.creatorName} (part ${commission.partIndex})` : commission.creatorName
+}
+
 /**
  * Flatten commission data to include character names for downstream processing.
  */
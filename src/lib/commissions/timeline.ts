@@ -1,6 +1,6 @@
 import type { CharacterCommissions, Commission } from '#data/types'
 import type { CharacterNavItem } from '#lib/characters/nav'
-import { sortCommissionsByDate } from '#lib/commissions'
+import { getCommissionMetadata, sortCommissionsByDate } from '#lib/commissions'
 
 export interface TimelineCommissionEntry {
   character: string
@@ -47,7 +47,7 @@ export function buildCommissionTimeline(commissionMap: Map<string, CharacterComm
   const groupsByYear = new Map<string, TimelineYearGroup>()
 
   for (const entry of sortedEntries) {
-    const yearKey = entry.commission.fileName.slice(0, 4)
+    const { year: yearKey } = getCommissionMetadata(entry.commission)
     const existing = groupsByYear.get(yearKey)
 
     if (existing) {
@@ -0,0 +1,46 @@
+import type { Commission } from '#data/types'
+import { describe, expect, it } from 'vitest'
+import { buildCreatorPageEntries, getCreatorSlug } from './pages'
+
+function commission(fileName: string, creatorName?: string): Commission {
+  return { fileName, commissionDate: fileName.slice(0, 8), creatorName, Links: [] }
+}
+
+describe('creator pages', () => {
+  it('builds slugs that keep CJK names readable', () => {
+    expect(getCreatorSlug('Q')).toBe('q')
+    expect(getCreatorSlug('U枝Z狼')).toBe('u枝z狼')
+    expect(getCreatorSlug('島どうま')).toBe('島どうま')
+    expect(getCreatorSlug('  Ｍｉｎｋ (art) ')).toBe('mink-art')
+    expect(getCreatorSlug('!!!')).toBe('')
+  })
+
+  it('groups commissions by creator and character in listing order', () => {
+    const q1 = commission('20240301_Q (part 2)', 'Q')
+    const q2 = commission('20240201_Q (part 1)', 'Q')
+    const q3 = commission('20231201_Q', 'Q')
+    const other = commission('20240101_七市', '七市')
+
+    const entries = buildCreatorPageEntries([
+      { Character: 'Alice', Commissions: [q1, other, q2] },
+      { Character: 'Bob', Commissions: [commission('20230101_anonymous'), q3] },
+    ])
+
+    expect(entries.map(entry => [entry.name, entry.slug, entry.commissionCount])).toEqual([
+      ['Q', 'q', 3],
+      ['七市', '七市', 1],
+    ])
+    expect(entries[0]!.characters).toEqual([
+      { character: 'Alice', commissions: [q1, q2] },
+      { character: 'Bob', commissions: [q3] },
+    ])
+  })
+
+  it('rejects two creators that map to the same slug', () => {
+    expect(() =>
+      buildCreatorPageEntries([
+        { Character: 'Alice', Commissions: [commission('20240101_A B', 'A B'), commission('20240102_a-b', 'a-b')] },
+      ]),
+    ).toThrow('Creators "A B" and "a-b" share the page slug "a-b"')
+  })
+})
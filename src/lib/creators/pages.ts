@@ -0,0 +1,65 @@
+import type { Commission, Props } from '#data/types'
+
+const NON_WORD_PATTERN = /[^\p{L}\p{N}]+/gu
+const EDGE_HYPHEN_PATTERN = /^-|-$/g
+
+export interface CreatorPageCharacterGroup {
+  character: string
+  commissions: Commission[]
+}
+
+export interface CreatorPageEntry {
+  name: string
+  slug: string
+  commissionCount: number
+  characters: CreatorPageCharacterGroup[]
+}
+
+/**
+ * Slug for `/creators/[slug]`. Unlike character anchors this keeps CJK
+ * letters, since most creator names have no ASCII form.
+ */
+export function getCreatorSlug(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(NON_WORD_PATTERN, '-')
+    .replace(EDGE_HYPHEN_PATTERN, '')
+}
+
+/**
+ * Group the published commissions by creator, keeping the character order of
+ * `commissionData`. Creators without a usable slug are skipped; two creators
+ * sharing a slug fail the build so neither page silently overwrites the other.
+ */
+export function buildCreatorPageEntries(commissionData: Props): CreatorPageEntry[] {
+  const entries = new Map<string, CreatorPageEntry>()
+
+  commissionData.forEach(({ Character, Commissions }) => {
+    Commissions.forEach((commission) => {
+      const name = commission.creatorName
+      const slug = name ? getCreatorSlug(name) : ''
+      if (!name || !slug)
+        return
+
+      let entry = entries.get(slug)
+      if (!entry) {
+        entry = { name, slug, commissionCount: 0, characters: [] }
+        entries.set(slug, entry)
+      }
+      else if (entry.name !== name) {
+        throw new Error(`Creators "${entry.name}" and "${name}" share the page slug "${slug}"; rename one of them.`)
+      }
+
+      let group = entry.characters.at(-1)
+      if (group?.character !== Character) {
+        group = { character: Character, commissions: [] }
+        entry.characters.push(group)
+      }
+      group.commissions.push(commission)
+      entry.commissionCount += 1
+    })
+  })
+
+  return [...entries.values()].toSorted((a, b) => a.name.localeCompare(b.name, 'ja'))
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest'
 import {
   buildDateSearchTokensFromCompactDate,
+  getDateSearchRange,
   normalizeDateQueryToken,
   parseDateSearchInput,
   toDateSearchTokens,
@@ -54,4 +55,10 @@ describe('dateSearch utils', () => {
     expect(normalizeDateQueryToken('09/2025')).toBe('date_ym_2025_09')
     expect(normalizeDateQueryToken('2025/09/14')).toBe('date_ym_2025_09')
   })
+
+  it('builds compact date bounds for years and months', () => {
+    expect(getDateSearchRange({ year: '2024' })).toEqual({ start: '20240101', end: '20250101' })
+    expect(getDateSearchRange({ year: '2023', month: '06' })).toEqual({ start: '20230601', end: '20230701' })
+    expect(getDateSearchRange({ year: '2023', month: '12' })).toEqual({ start: '20231201', end: '20240101' })
+  })
 })
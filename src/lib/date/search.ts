@@ -83,3 +83,16 @@ export function normalizeDateQueryToken(token: string): string | null {
     return null
   return toPrimaryDateSearchToken(parsed)
 }
+
+/**
+ * Compact `yyyyMMdd` bounds of a year or month: `start` is inclusive, `end` exclusive.
+ */
+export function getDateSearchRange(parts: DateSearchParts) {
+  const year = Number(parts.year)
+  if (!parts.month)
+    return { start: `${parts.year}0101`, end: `${year + 1}0101` }
+
+  const month = Number(parts.month)
+  const end = month === 12 ? `${year + 1}0101` : `${parts.year}${pad2(String(month + 1))}01`
+  return { start: `${parts.year}${parts.month}01`, end }
+}
@@ -2,7 +2,7 @@ import type { Props } from '#data/types'
 import {
   collectUniqueCommissions,
   flattenCommissions,
-  parseCommissionFileName,
+  getCommissionMetadata,
 } from '#lib/commissions'
 import { parseAndFormatDate } from '#lib/date/format'
 import { getBaseFileName, kebabCase } from '#lib/utils/strings'
@@ -34,8 +34,9 @@ export function buildHomeUpdateSummary(commissionData: Props, activeCharacters:
     activeCharacterSet.has(Character))
   const uniqueEntries = collectUniqueCommissions(latestEntries)
 
-  const entries = uniqueEntries.slice(0, 3).map(({ fileName, character }) => {
-    const { date } = parseCommissionFileName(fileName)
+  const entries = uniqueEntries.slice(0, 3).map((commission) => {
+    const { fileName, character } = commission
+    const { date } = getCommissionMetadata(commission)
     return {
       key: fileName,
       character,
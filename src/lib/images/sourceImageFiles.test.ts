@@ -0,0 +1,49 @@
+import { Buffer } from 'node:buffer'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterAll, describe, expect, it } from 'vitest'
+import { computeDifferenceHash, scanSourceImageFiles } from './sourceImageFiles'
+
+function createGradient(width: number, height: number) {
+  const pixels = Buffer.alloc(width * height * 3)
+  for (let index = 0; index < width * height; index += 1)
+    pixels.fill(Math.floor(((index % width) / width) * 255), index * 3, index * 3 + 3)
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+}
+
+describe('sourceImageFiles', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-image-files-'))
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('hashes resized copies alike', async () => {
+    const large = await createGradient(180, 160).png().toBuffer()
+    const small = await createGradient(90, 80).jpeg().toBuffer()
+    const flipped = await createGradient(180, 160).flop().png().toBuffer()
+
+    expect(await computeDifferenceHash(small)).toBe(await computeDifferenceHash(large))
+    expect(await computeDifferenceHash(flipped)).not.toBe(await computeDifferenceHash(large))
+  })
+
+  it('scans top-level source images only', async () => {
+    const data = await createGradient(18, 16).jpeg().toBuffer()
+    fs.writeFileSync(path.join(tempDir, '20240101_A.jpg'), data)
+    fs.writeFileSync(path.join(tempDir, '20240101_B.JPG'), data)
+    fs.writeFileSync(path.join(tempDir, 'broken.png'), 'not an image')
+    fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'skip')
+    fs.mkdirSync(path.join(tempDir, '.trash'))
+    fs.writeFileSync(path.join(tempDir, '.trash', '20230101_C.jpg'), data)
+
+    const files = await scanSourceImageFiles(tempDir)
+
+    expect(files.map(file => file.fileName)).toEqual(['20240101_A.jpg', '20240101_B.JPG', 'broken.png'])
+    expect(files[0].sha256).toBe(files[1].sha256)
+    expect(files[0].perceptualHash).toMatch(/^[0-9a-f]{16}$/)
+    expect(files[2].perceptualHash).toBeNull()
+    expect(await scanSourceImageFiles(path.join(tempDir, 'missing'))).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import type { SourceImageFileInfo } from './sourceImageIntegrity'
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import sharp from 'sharp'
+
+const SOURCE_IMAGE_FILE_PATTERN = /\.(?:jpe?g|png)$/i
+const DIFFERENCE_HASH_WIDTH = 9
+const DIFFERENCE_HASH_HEIGHT = 8
+
+/**
+ * 64-bit difference hash: each bit says whether a pixel of a 9x8 greyscale thumbnail
+ * is brighter than its right neighbour, so re-encodes and resizes hash alike.
+ */
+export async function computeDifferenceHash(data: Uint8Array): Promise<string> {
+  const pixels = await sharp(data)
+    .greyscale()
+    .resize(DIFFERENCE_HASH_WIDTH, DIFFERENCE_HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < DIFFERENCE_HASH_HEIGHT; row += 1) {
+    let byte = 0
+    for (let column = 0; column < DIFFERENCE_HASH_WIDTH - 1; column += 1) {
+      const offset = row * DIFFERENCE_HASH_WIDTH + column
+      byte = (byte << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0)
+    }
+    hash += byte.toString(16).padStart(2, '0')
+  }
+  return hash
+}
+
+/** Top-level source images the site serves (`data/images/*.{jpg,jpeg,png}`), sorted by name. */
+export async function listSourceImageFileNames(imagesDir: string): Promise<string[]> {
+  let dirents
+  try {
+    dirents = await fs.readdir(imagesDir, { withFileTypes: true })
+  }
+  catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+      return []
+    throw error
+  }
+
+  return dirents
+    .filter(dirent => dirent.isFile() && !dirent.name.startsWith('.') && SOURCE_IMAGE_FILE_PATTERN.test(dirent.name))
+    .map(dirent => dirent.name)
+    .toSorted((a, b) => a.localeCompare(b))
+}
+
+export function computeSha256(data: Uint8Array) {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+export async function scanSourceImageFiles(imagesDir: string): Promise<SourceImageFileInfo[]> {
+  const files: SourceImageFileInfo[] = []
+  for (const fileName of await listSourceImageFileNames(imagesDir)) {
+    const data = await fs.readFile(path.join(imagesDir, fileName))
+    let perceptualHash: string | null = null
+    try {
+      perceptualHash = await computeDifferenceHash(data)
+    }
+    catch {
+      // Undecodable files still take part in the byte-identical check.
+    }
+    files.push({
+      fileName,
+      sha256: computeSha256(data),
+      perceptualHash,
+    })
+  }
+  return files
+}
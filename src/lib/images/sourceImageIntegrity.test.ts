@@ -0,0 +1,83 @@
+import type { SourceImageFileInfo } from './sourceImageIntegrity'
+import { describe, expect, it } from 'vitest'
+import {
+  buildImageIntegrityReport,
+  countImageIntegrityIssues,
+  parseImageIntegritySeverities,
+} from './sourceImageIntegrity'
+
+function image(fileName: string, sha256: string, perceptualHash: string | null = null): SourceImageFileInfo {
+  return { fileName, sha256, perceptualHash }
+}
+
+describe('sourceImageIntegrity', () => {
+  it('reports missing, orphaned and fallback-matched images', () => {
+    const report = buildImageIntegrityReport({
+      commissionFileNames: [
+        '20240421_Gisyu part 1',
+        '20250101_Q',
+        '20250202_Nobody',
+        '20250303_七市',
+        '20250303_七市',
+        '20250505_Sora',
+      ],
+      images: [
+        image('20240421_Gisyu (part 1).jpg', 'a'),
+        image('20250101_Q (commission).jpg', 'b'),
+        image('20250202_Mira.jpg', 'c'),
+        image('20250202_Sora.jpg', 'd'),
+        image('20250303_七市.jpg', 'e'),
+        image('20250303_七市.png', 'f'),
+        image('20250505_Sora san.jpg', 'g'),
+        image('20250505_Mira.jpg', 'h'),
+      ],
+    })
+
+    expect(report.commissionCount).toBe(5)
+    expect(report.imageCount).toBe(8)
+    expect(report.missing).toEqual([
+      { commissionFileName: '20250202_Nobody', candidates: ['20250202_Mira', '20250202_Sora'] },
+    ])
+    expect(report.fallbackMatches).toEqual([
+      { commissionFileName: '20240421_Gisyu part 1', imageStem: '20240421_Gisyu (part 1)', rule: 'normalized-stem' },
+      { commissionFileName: '20250101_Q', imageStem: '20250101_Q (commission)', rule: 'date-prefix' },
+      { commissionFileName: '20250505_Sora', imageStem: '20250505_Sora san', rule: 'creator-substring' },
+    ])
+    expect(report.orphans).toEqual([
+      { fileName: '20250202_Mira.jpg', reason: 'unreferenced' },
+      { fileName: '20250202_Sora.jpg', reason: 'unreferenced' },
+      { fileName: '20250303_七市.jpg', reason: 'shadowed' },
+      { fileName: '20250505_Mira.jpg', reason: 'unreferenced' },
+    ])
+  })
+
+  it('groups byte-identical files and pairs perceptually near-identical ones', () => {
+    const report = buildImageIntegrityReport({
+      commissionFileNames: [],
+      images: [
+        image('20240406_Dorei.jpg', 'same', 'ffff000000000000'),
+        image('20240406_どれい.jpg', 'same', 'ffff000000000000'),
+        image('20240406_Dorei (small).jpg', 'resized', 'ffff000000000003'),
+        image('20240501_Other.jpg', 'other', '0000ffff0000ffff'),
+        image('broken.png', 'broken', null),
+      ],
+    })
+
+    expect(report.duplicates).toEqual([
+      { kind: 'identical', fileNames: ['20240406_Dorei.jpg', '20240406_どれい.jpg'], distance: 0 },
+      { kind: 'similar', fileNames: ['20240406_Dorei (small).jpg', '20240406_Dorei.jpg'], distance: 2 },
+    ])
+    expect(countImageIntegrityIssues(report)).toEqual({ error: 0, warning: 6, info: 1 })
+    expect(buildImageIntegrityReport({
+      commissionFileNames: [],
+      images: [image('a.jpg', 'x', 'ffff000000000000'), image('b.jpg', 'y', 'ffff000000000003')],
+      nearDuplicateDistance: 1,
+    }).duplicates).toEqual([])
+  })
+
+  it('parses configured severities', () => {
+    expect(parseImageIntegritySeverities(undefined)).toEqual([])
+    expect(parseImageIntegritySeverities(' warning, error ')).toEqual(['error', 'warning'])
+    expect(() => parseImageIntegritySeverities('error,fatal')).toThrow('Unknown image integrity severity "fatal"')
+  })
+})
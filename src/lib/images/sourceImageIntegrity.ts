@@ -0,0 +1,207 @@
+import type { SourceImageMatchRule } from './sourceImageLookup'
+import {
+  buildSourceImageLookup,
+  extractSourceImageStem,
+  getSourceImageExtensionPriority,
+  resolveSourceImageMatch,
+} from './sourceImageLookup'
+
+export const IMAGE_INTEGRITY_SEVERITIES = ['error', 'warning', 'info'] as const
+export type ImageIntegritySeverity = (typeof IMAGE_INTEGRITY_SEVERITIES)[number]
+
+/** Hamming distance (of 64 bits) under which two perceptual hashes count as near-identical. */
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6
+
+export interface SourceImageFileInfo {
+  fileName: string
+  sha256: string
+  /** 64-bit difference hash as 16 hex digits; null when the image could not be decoded. */
+  perceptualHash: string | null
+}
+
+export interface MissingSourceImage {
+  commissionFileName: string
+  /** Images sharing the date prefix, which made the fallback ambiguous when there are several. */
+  candidates: string[]
+}
+
+export interface OrphanSourceImage {
+  fileName: string
+  /** `shadowed` files share a stem with a file of a preferred extension and are never served. */
+  reason: 'unreferenced' | 'shadowed'
+}
+
+export interface FallbackSourceImageMatch {
+  commissionFileName: string
+  imageStem: string
+  rule: Exclude<SourceImageMatchRule, 'exact'>
+}
+
+export interface DuplicateSourceImageGroup {
+  kind: 'identical' | 'similar'
+  fileNames: string[]
+  /** Perceptual hash distance; 0 for byte-identical groups. */
+  distance: number
+}
+
+export interface ImageIntegrityReport {
+  commissionCount: number
+  imageCount: number
+  missing: MissingSourceImage[]
+  orphans: OrphanSourceImage[]
+  fallbackMatches: FallbackSourceImageMatch[]
+  duplicates: DuplicateSourceImageGroup[]
+}
+
+export type ImageIntegrityIssueCounts = Record<ImageIntegritySeverity, number>
+
+const byText = (a: string, b: string) => a.localeCompare(b)
+
+function getHammingDistance(a: string, b: string) {
+  let distance = 0
+  for (let index = 0; index < a.length; index += 4) {
+    let bits = Number.parseInt(a.slice(index, index + 4), 16) ^ Number.parseInt(b.slice(index, index + 4), 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+function findDuplicates(images: SourceImageFileInfo[], nearDuplicateDistance: number) {
+  const filesByHash = new Map<string, string[]>()
+  for (const image of images) {
+    const files = filesByHash.get(image.sha256)
+    if (files)
+      files.push(image.fileName)
+    else filesByHash.set(image.sha256, [image.fileName])
+  }
+
+  const duplicates: DuplicateSourceImageGroup[] = [...filesByHash.values()]
+    .filter(files => files.length > 1)
+    .map(files => ({ kind: 'identical', fileNames: files.toSorted(byText), distance: 0 }))
+
+  // One representative per byte-identical group, so copies are not reported twice.
+  const distinct = Array.from(filesByHash.values(), files => images.find(image => image.fileName === files[0])!)
+    .filter(image => image.perceptualHash !== null)
+  for (let left = 0; left < distinct.length; left += 1) {
+    for (let right = left + 1; right < distinct.length; right += 1) {
+      const distance = getHammingDistance(distinct[left].perceptualHash!, distinct[right].perceptualHash!)
+      if (distance <= nearDuplicateDistance) {
+        duplicates.push({
+          kind: 'similar',
+          fileNames: [distinct[left].fileName, distinct[right].fileName].toSorted(byText),
+          distance,
+        })
+      }
+    }
+  }
+
+  return duplicates.toSorted((a, b) => a.distance - b.distance || byText(a.fileNames[0], b.fileNames[0]))
+}
+
+/**
+ * Cross-checks commission file names against the source images on disk the same
+ * way the site resolves them (see `resolveSourceImageMatch`).
+ */
+export function buildImageIntegrityReport({
+  commissionFileNames,
+  images,
+  nearDuplicateDistance = DEFAULT_NEAR_DUPLICATE_DISTANCE,
+}: {
+  commissionFileNames: string[]
+  images: SourceImageFileInfo[]
+  nearDuplicateDistance?: number
+}): ImageIntegrityReport {
+  const servedFileByStem = new Map<string, string>()
+  for (const image of images.toSorted((a, b) =>
+    getSourceImageExtensionPriority(a.fileName) - getSourceImageExtensionPriority(b.fileName)
+    || byText(a.fileName, b.fileName),
+  )) {
+    const stem = extractSourceImageStem(image.fileName)
+    if (!servedFileByStem.has(stem))
+      servedFileByStem.set(stem, image.fileName)
+  }
+  const lookup = buildSourceImageLookup(
+    Array.from(servedFileByStem.keys(), stem => ({ stem, metadata: null })),
+  )
+
+  const missing: MissingSourceImage[] = []
+  const fallbackMatches: FallbackSourceImageMatch[] = []
+  const referencedStems = new Set<string>()
+  for (const commissionFileName of new Set(commissionFileNames)) {
+    const match = resolveSourceImageMatch(commissionFileName, lookup)
+    if (!match) {
+      missing.push({
+        commissionFileName,
+        candidates: (lookup.dateMap.get(commissionFileName.slice(0, 8)) ?? []).toSorted(byText),
+      })
+      continue
+    }
+    referencedStems.add(match.stem)
+    if (match.rule !== 'exact')
+      fallbackMatches.push({ commissionFileName, imageStem: match.stem, rule: match.rule })
+  }
+
+  const orphans: OrphanSourceImage[] = images
+    .flatMap((image): OrphanSourceImage[] => {
+      const stem = extractSourceImageStem(image.fileName)
+      if (servedFileByStem.get(stem) !== image.fileName)
+        return [{ fileName: image.fileName, reason: 'shadowed' }]
+      return referencedStems.has(stem) ? [] : [{ fileName: image.fileName, reason: 'unreferenced' }]
+    })
+    .toSorted((a, b) => byText(a.fileName, b.fileName))
+
+  return {
+    commissionCount: new Set(commissionFileNames).size,
+    imageCount: images.length,
+    missing: missing.toSorted((a, b) => byText(a.commissionFileName, b.commissionFileName)),
+    orphans,
+    fallbackMatches: fallbackMatches.toSorted((a, b) => byText(a.commissionFileName, b.commissionFileName)),
+    duplicates: findDuplicates(images, nearDuplicateDistance),
+  }
+}
+
+/**
+ * Missing images break the site, so they are errors. Unserved files and byte-identical
+ * copies are warnings; fallback matches and look-alikes only need a human glance.
+ */
+export function countImageIntegrityIssues(report: ImageIntegrityReport): ImageIntegrityIssueCounts {
+  const identical = report.duplicates.filter(group => group.kind === 'identical').length
+  return {
+    error: report.missing.length,
+    warning: report.orphans.length + identical,
+    info: report.fallbackMatches.length + report.duplicates.length - identical,
+  }
+}
+
+/** Parses a comma separated severity list such as `error,warning`; unknown names throw. */
+export function parseImageIntegritySeverities(value: string | undefined): ImageIntegritySeverity[] {
+  const names = (value ?? '').split(',').map(name => name.trim()).filter(Boolean)
+  for (const name of names) {
+    if (!(IMAGE_INTEGRITY_SEVERITIES as readonly string[]).includes(name))
+      throw new Error(`Unknown image integrity severity "${name}" (expected ${IMAGE_INTEGRITY_SEVERITIES.join(', ')})`)
+  }
+  return IMAGE_INTEGRITY_SEVERITIES.filter(severity => names.includes(severity))
+}
+
+export function formatImageIntegrityReport(report: ImageIntegrityReport): string[] {
+  const counts = countImageIntegrityIssues(report)
+  const lines = [
+    `commissions=${report.commissionCount} images=${report.imageCount} errors=${counts.error} warnings=${counts.warning} info=${counts.info}`,
+  ]
+  for (const item of report.missing) {
+    const candidates = item.candidates.length > 0 ? ` (ambiguous: ${item.candidates.join(', ')})` : ''
+    lines.push(`error   missing image for ${item.commissionFileName}${candidates}`)
+  }
+  for (const item of report.orphans)
+    lines.push(`warning ${item.reason} image ${item.fileName}`)
+  for (const group of report.duplicates) {
+    const severity = group.kind === 'identical' ? 'warning' : 'info   '
+    lines.push(`${severity} ${group.kind} images (distance ${group.distance}): ${group.fileNames.join(', ')}`)
+  }
+  for (const item of report.fallbackMatches)
+    lines.push(`info    ${item.commissionFileName} -> ${item.imageStem} via ${item.rule}`)
+  return lines
+}
@@ -0,0 +1,117 @@
+export interface SourceImageRecord<T = ImageMetadata> {
+  stem: string
+  metadata: T
+}
+
+export interface SourceImageLookup<T = ImageMetadata> {
+  byStem: Map<string, T>
+  normalizedMap: Map<string, string[]>
+  dateMap: Map<string, string[]>
+}
+
+/** How a commission file name was matched to a source image stem, strictest first. */
+export type SourceImageMatchRule = 'exact' | 'normalized-stem' | 'date-prefix' | 'creator-substring'
+
+export interface SourceImageMatch {
+  stem: string
+  rule: SourceImageMatchRule
+}
+
+const STEM_CONNECTOR_PATTERN = /[_-]+/g
+const STEM_NOISE_PATTERN = /[\s'"`’“”()（）[\]{}]/g
+
+export function normalizeSourceImageStem(value: string) {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(STEM_CONNECTOR_PATTERN, '')
+    .replace(STEM_NOISE_PATTERN, '')
+}
+
+/** Lower wins when a stem exists with several extensions. */
+export function getSourceImageExtensionPriority(filePath: string) {
+  const normalized = filePath.toLowerCase()
+  if (normalized.endsWith('.png'))
+    return 0
+  if (normalized.endsWith('.jpg'))
+    return 1
+  if (normalized.endsWith('.jpeg'))
+    return 2
+  return 99
+}
+
+export function extractSourceImageStem(filePath: string): string {
+  const fileName = filePath.split('/').pop() ?? filePath
+  const dotIndex = fileName.lastIndexOf('.')
+  if (dotIndex === -1)
+    return fileName
+  return fileName.slice(0, dotIndex)
+}
+
+const getDatePrefix = (value: string) => value.slice(0, 8)
+const getCreatorName = (value: string) => (value.length > 9 ? value.slice(9) : '')
+
+export function buildSourceImageLookup<T>(records: SourceImageRecord<T>[]): SourceImageLookup<T> {
+  const byStem = new Map<string, T>()
+  const normalizedMap = new Map<string, string[]>()
+  const dateMap = new Map<string, string[]>()
+
+  for (const record of records) {
+    byStem.set(record.stem, record.metadata)
+
+    const normalized = normalizeSourceImageStem(record.stem)
+    const normalizedEntries = normalizedMap.get(normalized)
+    if (normalizedEntries)
+      normalizedEntries.push(record.stem)
+    else normalizedMap.set(normalized, [record.stem])
+
+    const datePrefix = getDatePrefix(record.stem)
+    const dateEntries = dateMap.get(datePrefix)
+    if (dateEntries)
+      dateEntries.push(record.stem)
+    else dateMap.set(datePrefix, [record.stem])
+  }
+
+  return { byStem, normalizedMap, dateMap }
+}
+
+function resolveMatchByFallback(fileName: string, lookup: SourceImageLookup<unknown>): SourceImageMatch | null {
+  const normalized = normalizeSourceImageStem(fileName)
+  const normalizedCandidates = lookup.normalizedMap.get(normalized) ?? []
+  if (normalizedCandidates.length === 1) {
+    return { stem: normalizedCandidates[0], rule: 'normalized-stem' }
+  }
+
+  const datePrefix = getDatePrefix(fileName)
+  const dateCandidates = lookup.dateMap.get(datePrefix) ?? []
+  if (dateCandidates.length === 1) {
+    return { stem: dateCandidates[0], rule: 'date-prefix' }
+  }
+
+  const creatorNormalized = normalizeSourceImageStem(getCreatorName(fileName))
+  if (!creatorNormalized || dateCandidates.length <= 1) {
+    return null
+  }
+
+  const creatorCandidates = dateCandidates.filter((candidate) => {
+    const candidateCreatorNormalized = normalizeSourceImageStem(getCreatorName(candidate))
+    return (
+      candidateCreatorNormalized.includes(creatorNormalized)
+      || creatorNormalized.includes(candidateCreatorNormalized)
+    )
+  })
+
+  return creatorCandidates.length === 1 ? { stem: creatorCandidates[0], rule: 'creator-substring' } : null
+}
+
+export function resolveSourceImageMatch(fileName: string, lookup: SourceImageLookup<unknown>): SourceImageMatch | null {
+  if (lookup.byStem.has(fileName)) {
+    return { stem: fileName, rule: 'exact' }
+  }
+
+  return resolveMatchByFallback(fileName, lookup)
+}
+
+export function resolveSourceImageStem(fileName: string, lookup: SourceImageLookup<unknown>): string | null {
+  return resolveSourceImageMatch(fileName, lookup)?.stem ?? null
+}
@@ -0,0 +1,47 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterAll, describe, expect, it } from 'vitest'
+import { buildSourceImagePlaceholders, computeSourceImagePlaceholder } from './sourceImagePlaceholders'
+
+function createSolidImage(width: number, height: number, color: { r: number, g: number, b: number }) {
+  return sharp({ create: { width, height, channels: 3, background: color } })
+}
+
+describe('sourceImagePlaceholders', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-image-placeholders-'))
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('computes the dominant colour and displayed size', async () => {
+    const data = await createSolidImage(40, 20, { r: 200, g: 40, b: 40 }).png().toBuffer()
+    const rotated = await createSolidImage(40, 20, { r: 200, g: 40, b: 40 }).jpeg().withMetadata({ orientation: 6 }).toBuffer()
+
+    const placeholder = await computeSourceImagePlaceholder(data)
+    expect(placeholder).toEqual({ color: expect.stringMatching(/^#[0-9a-f]{6}$/), width: 40, height: 20 })
+    expect(Number.parseInt(placeholder.color.slice(1, 3), 16)).toBeGreaterThan(Number.parseInt(placeholder.color.slice(3, 5), 16))
+    expect(await computeSourceImagePlaceholder(rotated)).toMatchObject({ width: 20, height: 40 })
+  })
+
+  it('keys served images by stem and reuses entries whose content hash is unchanged', async () => {
+    fs.writeFileSync(path.join(tempDir, '20240101_A.jpg'), await createSolidImage(30, 10, { r: 0, g: 0, b: 0 }).jpeg().toBuffer())
+    fs.writeFileSync(path.join(tempDir, '20240101_A.png'), await createSolidImage(20, 10, { r: 0, g: 0, b: 0 }).png().toBuffer())
+    fs.writeFileSync(path.join(tempDir, '20240202_B.jpg'), 'not an image')
+
+    const first = await buildSourceImagePlaceholders(tempDir)
+    expect(first.computedCount).toBe(1)
+    expect(Object.keys(first.placeholders.images)).toEqual(['20240101_A'])
+    expect(first.placeholders.images['20240101_A']).toMatchObject({ width: 20, height: 10 })
+
+    const cached = { ...first.placeholders.images['20240101_A'], color: '#123456' }
+    const second = await buildSourceImagePlaceholders(tempDir, {
+      version: first.placeholders.version,
+      images: { renamed: cached },
+    })
+    expect(second.computedCount).toBe(0)
+    expect(second.placeholders.images['20240101_A']).toEqual(cached)
+  })
+})
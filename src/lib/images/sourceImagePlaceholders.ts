@@ -0,0 +1,91 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import sharp from 'sharp'
+import { computeSha256, listSourceImageFileNames } from './sourceImageFiles'
+import { extractSourceImageStem, getSourceImageExtensionPriority } from './sourceImageLookup'
+
+export const SOURCE_IMAGE_PLACEHOLDERS_VERSION = 1
+const STATS_SAMPLE_SIZE = 64
+
+export interface SourceImagePlaceholder {
+  /** SHA-256 of the source file the placeholder was computed from. */
+  hash: string
+  /** Dominant colour as `#rrggbb`. */
+  color: string
+  width: number
+  height: number
+}
+
+export interface SourceImagePlaceholders {
+  version: number
+  /** Keyed by the stem of the served source image. */
+  images: Record<string, SourceImagePlaceholder>
+}
+
+const toHexChannel = (value: number) => Math.round(value).toString(16).padStart(2, '0')
+
+export async function computeSourceImagePlaceholder(data: Uint8Array): Promise<Omit<SourceImagePlaceholder, 'hash'>> {
+  const metadata = await sharp(data).metadata()
+  // EXIF orientations 5-8 rotate by 90 degrees, which swaps the displayed dimensions.
+  const isRotated = (metadata.orientation ?? 1) >= 5
+  const sample = await sharp(data)
+    .resize(STATS_SAMPLE_SIZE, STATS_SAMPLE_SIZE, { fit: 'inside' })
+    .toBuffer()
+  const { dominant } = await sharp(sample).stats()
+
+  return {
+    color: `#${toHexChannel(dominant.r)}${toHexChannel(dominant.g)}${toHexChannel(dominant.b)}`,
+    width: (isRotated ? metadata.height : metadata.width) ?? 0,
+    height: (isRotated ? metadata.width : metadata.height) ?? 0,
+  }
+}
+
+/**
+ * Placeholder of every served source image. Entries of `previous` whose content hash
+ * still matches are reused, so only added or changed images are decoded.
+ */
+export async function buildSourceImagePlaceholders(
+  imagesDir: string,
+  previous: SourceImagePlaceholders | null = null,
+): Promise<{ placeholders: SourceImagePlaceholders, computedCount: number }> {
+  const previousByHash = new Map<string, SourceImagePlaceholder>()
+  if (previous?.version === SOURCE_IMAGE_PLACEHOLDERS_VERSION) {
+    for (const placeholder of Object.values(previous.images))
+      previousByHash.set(placeholder.hash, placeholder)
+  }
+
+  const servedFileByStem = new Map<string, string>()
+  const fileNames = (await listSourceImageFileNames(imagesDir)).toSorted((a, b) =>
+    getSourceImageExtensionPriority(a) - getSourceImageExtensionPriority(b) || a.localeCompare(b),
+  )
+  for (const fileName of fileNames) {
+    const stem = extractSourceImageStem(fileName)
+    if (!servedFileByStem.has(stem))
+      servedFileByStem.set(stem, fileName)
+  }
+
+  const images: Record<string, SourceImagePlaceholder> = {}
+  let computedCount = 0
+  for (const [stem, fileName] of [...servedFileByStem].toSorted(([a], [b]) => a.localeCompare(b))) {
+    const data = await fs.readFile(path.join(imagesDir, fileName))
+    const hash = computeSha256(data)
+    const cached = previousByHash.get(hash)
+    if (cached) {
+      images[stem] = cached
+      continue
+    }
+
+    try {
+      images[stem] = { hash, ...await computeSourceImagePlaceholder(data) }
+      computedCount += 1
+    }
+    catch {
+      // Undecodable images keep the plain loading placeholder.
+    }
+  }
+
+  return {
+    placeholders: { version: SOURCE_IMAGE_PLACEHOLDERS_VERSION, images },
+    computedCount,
+  }
+}
@@ -0,0 +1,68 @@
+import { Buffer } from 'node:buffer'
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+import { processSourceImage } from './sourceImageProcessing'
+
+function createImage(width: number, height: number, channels: 3 | 4 = 3) {
+  return sharp(Buffer.alloc(width * height * channels, 200), { raw: { width, height, channels } })
+}
+
+describe('processSourceImage', () => {
+  it('strips metadata, applies the orientation and caps the longest edge', async () => {
+    const input = await createImage(300, 200)
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Artist: 'Vitest' } } })
+      .toBuffer()
+
+    const processed = await processSourceImage(input, { maxEdge: 100 })
+
+    expect(processed).toMatchObject({
+      ext: '.jpg',
+      width: 67,
+      height: 100,
+      originalWidth: 200,
+      originalHeight: 300,
+      originalBytes: input.byteLength,
+      bytes: processed.data.byteLength,
+    })
+    const metadata = await sharp(processed.data).metadata()
+    expect(metadata.exif).toBeUndefined()
+    expect(metadata.orientation).toBeUndefined()
+  })
+
+  it('drops JPEG metadata without re-encoding when no rotation or resize applies', async () => {
+    const input = await createImage(300, 200)
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { Artist: 'Vitest' } } })
+      .toBuffer()
+
+    const processed = await processSourceImage(input)
+
+    expect(processed).toMatchObject({ ext: '.jpg', width: 300, height: 200, bytes: processed.data.byteLength })
+    expect(processed.bytes).toBeLessThan(input.byteLength)
+    const startOfScan = Buffer.from([0xFF, 0xDA])
+    expect(processed.data.subarray(processed.data.indexOf(startOfScan))).toEqual(input.subarray(input.indexOf(startOfScan)))
+    expect((await sharp(processed.data).metadata()).exif).toBeUndefined()
+  })
+
+  it('converts PNGs without transparency to JPEG only when asked', async () => {
+    const opaque = await createImage(40, 20).png().toBuffer()
+    const transparent = await createImage(40, 20, 4).png().toBuffer()
+
+    expect(await processSourceImage(opaque)).toMatchObject({ ext: '.png', canConvertToJpeg: true, width: 40 })
+    expect(await processSourceImage(opaque, { convertOpaquePng: true })).toMatchObject({ ext: '.jpg' })
+    expect(await processSourceImage(transparent, { convertOpaquePng: true })).toMatchObject({
+      ext: '.png',
+      canConvertToJpeg: false,
+    })
+  })
+
+  it('rejects files that are not JPG or PNG images', async () => {
+    await expect(processSourceImage(new TextEncoder().encode('not an image'))).rejects.toThrow(
+      'Uploaded file is not a readable image.',
+    )
+    await expect(processSourceImage(await createImage(10, 10).webp().toBuffer())).rejects.toThrow(
+      'Only JPG and PNG uploads are supported.',
+    )
+  })
+})
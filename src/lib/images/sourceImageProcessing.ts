@@ -0,0 +1,137 @@
+import { Buffer } from 'node:buffer'
+import sharp from 'sharp'
+
+/** Longest edge kept for uploaded source images; larger uploads are scaled down. */
+export const SOURCE_IMAGE_MAX_EDGE = 4096
+const JPEG_QUALITY = 92
+
+export interface SourceImageProcessingOptions {
+  maxEdge?: number
+  /** Re-encode PNGs without transparency as JPEG. */
+  convertOpaquePng?: boolean
+}
+
+export interface SourceImageProcessingSummary {
+  ext: '.jpg' | '.png'
+  width: number
+  height: number
+  bytes: number
+  originalWidth: number
+  originalHeight: number
+  originalBytes: number
+  /** True for PNG uploads without transparency, which can be stored as JPEG. */
+  canConvertToJpeg: boolean
+}
+
+export interface ProcessedSourceImage extends SourceImageProcessingSummary {
+  data: Buffer
+}
+
+// Segments that only carry metadata: APP1 (EXIF, GPS, XMP), APP13 (IPTC) and comments.
+const JPEG_METADATA_MARKERS = new Set([0xE1, 0xED, 0xFE])
+const JPEG_START_OF_SCAN = 0xDA
+
+/**
+ * Drop the metadata segments of a JPEG without touching the compressed image
+ * data, so a JPEG that needs no rotation or resize is stored without another
+ * lossy generation. Null when the header cannot be walked safely.
+ */
+function stripJpegMetadata(input: Uint8Array): Buffer | null {
+  if (input[0] !== 0xFF || input[1] !== 0xD8)
+    return null
+
+  const kept: Uint8Array[] = [input.subarray(0, 2)]
+  let offset = 2
+  while (offset + 4 <= input.length) {
+    if (input[offset] !== 0xFF)
+      return null
+    const marker = input[offset + 1]!
+    if (marker === 0xFF) {
+      offset += 1
+      continue
+    }
+    if (marker === JPEG_START_OF_SCAN) {
+      kept.push(input.subarray(offset))
+      return Buffer.concat(kept)
+    }
+
+    const end = offset + 2 + ((input[offset + 2]! << 8) | input[offset + 3]!)
+    if (end > input.length)
+      return null
+    if (!JPEG_METADATA_MARKERS.has(marker))
+      kept.push(input.subarray(offset, end))
+    offset = end
+  }
+  return null
+}
+
+/**
+ * Normalize an uploaded JPG/PNG before it is stored: apply the EXIF orientation, drop
+ * EXIF/GPS and other metadata, cap the longest edge and re-encode. JPEGs that need no
+ * rotation or resize only lose their metadata segments and are not re-encoded.
+ */
+export async function processSourceImage(
+  input: Uint8Array,
+  { maxEdge = SOURCE_IMAGE_MAX_EDGE, convertOpaquePng = false }: SourceImageProcessingOptions = {},
+): Promise<ProcessedSourceImage> {
+  let metadata
+  let isOpaque
+  try {
+    metadata = await sharp(input).metadata()
+    isOpaque = (await sharp(input).stats()).isOpaque
+  }
+  catch {
+    throw new Error('Uploaded file is not a readable image.')
+  }
+
+  if (metadata.format !== 'jpeg' && metadata.format !== 'png') {
+    throw new Error('Only JPG and PNG uploads are supported.')
+  }
+
+  // Orientations 5-8 rotate by a quarter turn, so the stored size is transposed.
+  const isTransposed = (metadata.orientation ?? 1) >= 5
+  const canConvertToJpeg = metadata.format === 'png' && isOpaque
+  const toJpeg = metadata.format === 'jpeg' || (convertOpaquePng && canConvertToJpeg)
+
+  const originalWidth = (isTransposed ? metadata.height : metadata.width) ?? 0
+  const originalHeight = (isTransposed ? metadata.width : metadata.height) ?? 0
+  const needsRotation = (metadata.orientation ?? 1) !== 1
+  const needsResize = Math.max(originalWidth, originalHeight) > maxEdge
+
+  if (metadata.format === 'jpeg' && !needsRotation && !needsResize) {
+    const data = stripJpegMetadata(input)
+    if (data) {
+      return {
+        data,
+        ext: '.jpg',
+        width: originalWidth,
+        height: originalHeight,
+        bytes: data.byteLength,
+        originalWidth,
+        originalHeight,
+        originalBytes: input.byteLength,
+        canConvertToJpeg,
+      }
+    }
+  }
+
+  const pipeline = sharp(input)
+    .rotate()
+    .resize({ width: maxEdge, height: maxEdge, fit: 'inside', withoutEnlargement: true })
+  const { data, info } = await (toJpeg
+    ? pipeline.jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+    : pipeline.png({ compressionLevel: 9 })
+  ).toBuffer({ resolveWithObject: true })
+
+  return {
+    data,
+    ext: toJpeg ? '.jpg' : '.png',
+    width: info.width,
+    height: info.height,
+    bytes: data.byteLength,
+    originalWidth: originalWidth || info.width,
+    originalHeight: originalHeight || info.height,
+    originalBytes: input.byteLength,
+    canConvertToJpeg,
+  }
+}
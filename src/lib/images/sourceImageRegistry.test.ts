@@ -5,6 +5,7 @@ import {
   listMissingSourceImages,
   normalizeSourceImageStem,
   resolveSourceImageByCommissionFileName,
+  resolveSourceImagePlaceholderByCommissionFileName,
   resolveSourceImageStem,
 
 } from './sourceImageRegistry'
@@ -53,4 +54,15 @@ describe('sourceImageRegistry', () => {
 
     expect(missing).toEqual(['20260221_七市'])
   })
+
+  it('resolves placeholders through the same stem fallback', () => {
+    const lookup = buildSourceImageLookup([
+      { stem: '20240421_Gisyu (part 1)', metadata: createMetadata('a') },
+    ])
+    const placeholder = { hash: 'abc', color: '#102030', width: 1280, height: 525 }
+    const placeholders = { version: 1, images: { '20240421_Gisyu (part 1)': placeholder } }
+
+    expect(resolveSourceImagePlaceholderByCommissionFileName('20240421_Gisyu part 1', lookup, placeholders)).toBe(placeholder)
+    expect(resolveSourceImagePlaceholderByCommissionFileName('20250101_Missing', lookup, placeholders)).toBeNull()
+  })
 })
@@ -1,16 +1,53 @@
 import { createAstroStyleLogger } from './astroLogger'
-import { generateHomeSearchEntriesFile } from './homeSearchEntries'
+import {
+  generateAtomFile,
+  generateCharacterFeedFiles,
+  generateCreatorFeedFiles,
+  generateJsonFeedFile,
+  generateRssFile,
+} from './feeds'
+import { generateHomeSearchIndexFiles } from './homeSearchIndex'
 import { generateHomeUpdateSummaryModule } from './homeUpdateSummary'
-import { generateRssFile } from './rss'
+import { runImageIntegrityGate } from './imageIntegrity'
+import { generateImagePlaceholdersFile } from './imagePlaceholders'
+import { generateSimilarCommissionsFile } from './similarCommissions'
 
-export type AssetTask = 'home-update-summary' | 'home-search-entries' | 'rss'
+export type AssetTask
+  = | 'image-integrity'
+    | 'image-placeholders'
+    | 'home-update-summary'
+    | 'home-search-index'
+    | 'similar-commissions'
+    | 'rss'
+    | 'atom'
+    | 'json-feed'
+    | 'character-feeds'
+    | 'creator-feeds'
 
-const FULL_TASK_ORDER: AssetTask[] = ['home-update-summary', 'home-search-entries', 'rss']
+const FULL_TASK_ORDER: AssetTask[] = [
+  'image-integrity',
+  'image-placeholders',
+  'home-update-summary',
+  'home-search-index',
+  'similar-commissions',
+  'rss',
+  'atom',
+  'json-feed',
+  'character-feeds',
+  'creator-feeds',
+]
 
 const TASK_RUNNERS: Record<AssetTask, () => Promise<void>> = {
+  'image-integrity': runImageIntegrityGate,
+  'image-placeholders': generateImagePlaceholdersFile,
   'home-update-summary': generateHomeUpdateSummaryModule,
-  'home-search-entries': generateHomeSearchEntriesFile,
+  'home-search-index': generateHomeSearchIndexFiles,
+  'similar-commissions': generateSimilarCommissionsFile,
   'rss': generateRssFile,
+  'atom': generateAtomFile,
+  'json-feed': generateJsonFeedFile,
+  'character-feeds': generateCharacterFeedFiles,
+  'creator-feeds': generateCreatorFeedFiles,
 }
 
 const logger = createAstroStyleLogger('assets')
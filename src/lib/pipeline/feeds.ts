@@ -0,0 +1,74 @@
+import type { FeedDocument } from '../rss/feed'
+import type { FeedFormat } from '../rss/formats'
+import { mkdir, readdir, rm } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+
+import { getCommissionData } from '../../../data/commissionData'
+import { buildCharacterFeeds, buildCreatorFeeds, buildSiteFeed } from '../rss/feed'
+import { FEED_FILES, FEED_RENDERERS } from '../rss/formats'
+import { createAstroStyleLogger } from './astroLogger'
+import { writeFileIfChanged } from './writeFileIfChanged'
+
+const publicDir = path.join(process.cwd(), 'public')
+const logger = createAstroStyleLogger('assets')
+
+async function writeFeedFile(feed: FeedDocument, format: FeedFormat) {
+  const outputPath = path.join(publicDir, ...feed.basePath.split('/').filter(Boolean), FEED_FILES[format])
+  await mkdir(path.dirname(outputPath), { recursive: true })
+  return writeFileIfChanged(outputPath, `${FEED_RENDERERS[format](feed)}\n`)
+}
+
+async function generateSiteFeedFile(format: FeedFormat) {
+  const result = await writeFeedFile(buildSiteFeed(getCommissionData()), format)
+  const relativeOutputPath = path.relative(process.cwd(), path.join(publicDir, FEED_FILES[format]))
+
+  if (result === 'unchanged') {
+    logger.info(`${format} feed unchanged -> ${relativeOutputPath}`)
+  }
+  else {
+    logger.success(`generated ${format} feed -> ${relativeOutputPath}`)
+  }
+}
+
+/**
+ * Write every format of each feed into `public/feeds/<kind>/<slug>/` and drop
+ * folders left behind by renamed, merged or deleted characters and creators.
+ */
+async function generateEntityFeedFiles(kind: 'characters' | 'creators', feeds: FeedDocument[]) {
+  const kindDir = path.join(publicDir, 'feeds', kind)
+  let writtenCount = 0
+
+  for (const feed of feeds) {
+    for (const format of Object.keys(FEED_FILES) as FeedFormat[]) {
+      if (await writeFeedFile(feed, format) === 'written')
+        writtenCount += 1
+    }
+  }
+
+  const currentSlugs = new Set(feeds.map(feed => path.basename(feed.basePath)))
+  const existingSlugs = await readdir(kindDir).catch(() => [] as string[])
+  const staleSlugs = existingSlugs.filter(slug => !currentSlugs.has(slug))
+  await Promise.all(staleSlugs.map(slug => rm(path.join(kindDir, slug), { recursive: true, force: true })))
+
+  const relativeOutputPath = path.relative(process.cwd(), kindDir)
+  const summary = `${feeds.length} ${kind.slice(0, -1)} feeds (${writtenCount} files written, ${staleSlugs.length} removed)`
+  if (writtenCount === 0 && staleSlugs.length === 0) {
+    logger.info(`${summary} -> ${relativeOutputPath}`)
+  }
+  else {
+    logger.success(`${summary} -> ${relativeOutputPath}`)
+  }
+}
+
+export const generateRssFile = () => generateSiteFeedFile('rss')
+export const generateAtomFile = () => generateSiteFeedFile('atom')
+export const generateJsonFeedFile = () => generateSiteFeedFile('json')
+
+export function generateCharacterFeedFiles() {
+  return generateEntityFeedFiles('characters', buildCharacterFeeds(getCommissionData()))
+}
+
+export function generateCreatorFeedFiles() {
+  return generateEntityFeedFiles('creators', buildCreatorFeeds(getCommissionData()))
+}
@@ -0,0 +1,125 @@
+import type { PackableSearchEntry, PackedSearchIndexManifest } from '../search/packedIndex'
+import { createHash } from 'node:crypto'
+import { access, mkdir, readdir, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { gzipSync } from 'node:zlib'
+import Fuse from 'fuse.js'
+
+import { getCharacterAliasesMap } from '../../../data/characterAliases'
+import { getCommissionDataMap } from '../../../data/commissionData'
+import { getCharacterRecords } from '../../../data/commissionRecords'
+import { getCreatorAliasesMap } from '../../../data/creatorAliases'
+import { getKeywordAliasesMap } from '../../../data/keywordAliases'
+import { getCharacterSectionId } from '../characters/nav'
+import { groupCommissionParts } from '../commissions'
+import {
+  buildCommissionSearchDomKey,
+  buildCommissionSearchMetadata,
+} from '../search/commissionSearchMetadata'
+import { SEARCH_FUSE_KEYS } from '../search/index'
+import {
+  HOME_SEARCH_INDEX_MANIFEST_PATH,
+  PACKED_SEARCH_INDEX_VERSION,
+  packSearchIndex,
+} from '../search/packedIndex'
+import { buildPopularKeywordPoolFromSuggestTexts } from '../search/popularKeywords'
+import { foldSearchText } from '../search/textFolding'
+import { createAstroStyleLogger } from './astroLogger'
+import { writeFileIfChanged } from './writeFileIfChanged'
+
+function buildHomeSearchEntries(): PackableSearchEntry[] {
+  const records = getCharacterRecords()
+  const commissionMap = getCommissionDataMap()
+  const characterAliasesMap = getCharacterAliasesMap()
+  const creatorAliasesMap = getCreatorAliasesMap()
+  const keywordAliasesMap = getKeywordAliasesMap()
+  const orderedCharacters = [
+    ...records.filter(record => record.status === 'active').map(record => record.name),
+    ...records.filter(record => record.status === 'stale').map(record => record.name),
+  ]
+  const entries: PackableSearchEntry[] = []
+
+  for (const characterName of orderedCharacters) {
+    const commissions = commissionMap.get(characterName)?.Commissions ?? []
+    const sectionId = getCharacterSectionId(characterName)
+
+    for (const { commission, parts } of groupCommissionParts(commissions)) {
+      const metadata = buildCommissionSearchMetadata({
+        characterName,
+        commissionDate: commission.commissionDate,
+        creatorName: commission.creatorName,
+        design: commission.Design,
+        description: commission.Description,
+        keyword: commission.Keyword,
+        characterAliasesMap,
+        creatorAliasesMap,
+        keywordAliasesMap,
+        creatorSuggestionMode: 'normalized',
+        creatorSearchTextMode: 'normalized',
+        partCount: parts.length,
+      })
+
+      entries.push({
+        domKey: buildCommissionSearchDomKey(sectionId, commission.fileName),
+        searchText: metadata.searchText,
+        searchSuggest: metadata.searchSuggestionText,
+        searchFields: metadata.searchFieldText,
+      })
+    }
+  }
+
+  return entries
+}
+
+const publicDir = path.join(process.cwd(), 'public')
+const manifestPath = path.join(publicDir, HOME_SEARCH_INDEX_MANIFEST_PATH)
+const indexDir = path.join(publicDir, 'search', 'index')
+const HASH_LENGTH = 16
+const logger = createAstroStyleLogger('assets')
+
+/**
+ * Writes the packed search index as gzip-compressed JSON under a content-hashed name
+ * (safe to cache forever), plus a small manifest naming the current file. Older
+ * index files are removed.
+ */
+export async function generateHomeSearchIndexFiles() {
+  const sources = buildHomeSearchEntries()
+  const fuseIndex = Fuse.createIndex(
+    SEARCH_FUSE_KEYS,
+    sources.map(source => ({ searchText: foldSearchText(source.searchText) })),
+  ).toJSON()
+  const packed = packSearchIndex(sources, {
+    fuseIndex,
+    popularKeywords: buildPopularKeywordPoolFromSuggestTexts(sources.map(source => source.searchSuggest)),
+  })
+  const json = JSON.stringify(packed)
+  const hash = createHash('sha256').update(json).digest('hex').slice(0, HASH_LENGTH)
+  const fileName = `${hash}.json.gz`
+  const manifest: PackedSearchIndexManifest = {
+    version: PACKED_SEARCH_INDEX_VERSION,
+    url: `/search/index/${fileName}`,
+    hash,
+    entryCount: sources.length,
+  }
+
+  const indexPath = path.join(indexDir, fileName)
+  await mkdir(indexDir, { recursive: true })
+  // The name is the content hash, so an existing file already holds this index.
+  const isIndexUnchanged = await access(indexPath).then(() => true, () => false)
+  if (!isIndexUnchanged)
+    await writeFile(indexPath, gzipSync(json, { level: 9 }))
+  const manifestResult = await writeFileIfChanged(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+  for (const staleFile of await readdir(indexDir)) {
+    if (staleFile !== fileName)
+      await rm(path.join(indexDir, staleFile), { force: true })
+  }
+
+  const relativeOutputPath = path.relative(process.cwd(), indexPath)
+  if (isIndexUnchanged && manifestResult === 'unchanged') {
+    logger.info(`home search index unchanged (${sources.length}) -> ${relativeOutputPath}`)
+  }
+  else {
+    logger.success(`generated home search index for ${sources.length} entries -> ${relativeOutputPath}`)
+  }
+}
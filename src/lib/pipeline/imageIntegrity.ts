@@ -0,0 +1,36 @@
+import process from 'node:process'
+import { getImageIntegrityData } from '../admin/imageIntegrity'
+import {
+  countImageIntegrityIssues,
+  formatImageIntegrityReport,
+  parseImageIntegritySeverities,
+} from '../images/sourceImageIntegrity'
+import { createAstroStyleLogger } from './astroLogger'
+
+const logger = createAstroStyleLogger('assets')
+
+/**
+ * Optional build gate: with `IMAGE_INTEGRITY_FAIL_ON=error[,warning[,info]]` set, fails
+ * when the source image integrity report has issues of a listed severity. Unset, it is
+ * skipped so dev startup does not hash every image.
+ */
+export async function runImageIntegrityGate() {
+  const failOn = parseImageIntegritySeverities(process.env.IMAGE_INTEGRITY_FAIL_ON)
+  if (failOn.length === 0) {
+    logger.info('image integrity gate skipped (IMAGE_INTEGRITY_FAIL_ON unset)')
+    return
+  }
+
+  const report = await getImageIntegrityData()
+  const counts = countImageIntegrityIssues(report)
+  const failing = failOn.filter(severity => counts[severity] > 0)
+  const [summary, ...details] = formatImageIntegrityReport(report)
+  if (failing.length === 0) {
+    logger.success(`image integrity ok: ${summary}`)
+    return
+  }
+
+  for (const line of details)
+    logger.warn(line)
+  throw new Error(`image integrity gate failed on ${failing.join(', ')}: ${summary}`)
+}
@@ -0,0 +1,43 @@
+import type { SourceImagePlaceholders } from '../images/sourceImagePlaceholders'
+import { mkdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+import { buildSourceImagePlaceholders } from '../images/sourceImagePlaceholders'
+import { createAstroStyleLogger } from './astroLogger'
+import { writeFileIfChanged } from './writeFileIfChanged'
+
+const imagesDir = path.join(process.cwd(), 'data', 'images')
+const outputPath = path.join(process.cwd(), 'src', 'lib', 'generated', 'imagePlaceholders.json')
+const logger = createAstroStyleLogger('assets')
+
+async function readPreviousPlaceholders(): Promise<SourceImagePlaceholders | null> {
+  try {
+    return JSON.parse(await readFile(outputPath, 'utf8')) as SourceImagePlaceholders
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Writes the dominant colour and size of every source image, shown behind the
+ * commission image until it loads. The previous output doubles as the cache.
+ */
+export async function generateImagePlaceholdersFile() {
+  const { placeholders, computedCount } = await buildSourceImagePlaceholders(
+    imagesDir,
+    await readPreviousPlaceholders(),
+  )
+
+  await mkdir(path.dirname(outputPath), { recursive: true })
+  const result = await writeFileIfChanged(outputPath, `${JSON.stringify(placeholders, null, 2)}\n`)
+  const relativeOutputPath = path.relative(process.cwd(), outputPath)
+  const count = Object.keys(placeholders.images).length
+
+  if (result === 'unchanged') {
+    logger.info(`image placeholders unchanged (${count}) -> ${relativeOutputPath}`)
+  }
+  else {
+    logger.success(`generated image placeholders for ${count} images (${computedCount} computed) -> ${relativeOutputPath}`)
+  }
+}
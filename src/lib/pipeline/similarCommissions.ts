@@ -0,0 +1,58 @@
+import type { SimilarCommissionSource } from '../search/similarCommissions'
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import process from 'node:process'
+
+import { getCommissionDataMap } from '../../../data/commissionData'
+import { getCharacterRecords } from '../../../data/commissionRecords'
+import { getKeywordAliasesMap } from '../../../data/keywordAliases'
+import { getCharacterSectionId } from '../characters/nav'
+import { groupCommissionParts } from '../commissions'
+import { buildCommissionSearchDomKey } from '../search/commissionSearchMetadata'
+import { buildSimilarCommissions, SIMILAR_COMMISSIONS_PATH } from '../search/similarCommissions'
+import { createAstroStyleLogger } from './astroLogger'
+import { writeFileIfChanged } from './writeFileIfChanged'
+
+const outputPath = path.join(process.cwd(), 'public', SIMILAR_COMMISSIONS_PATH)
+const logger = createAstroStyleLogger('assets')
+
+function buildSimilarCommissionSources(): SimilarCommissionSource[] {
+  const commissionMap = getCommissionDataMap()
+  const sources: SimilarCommissionSource[] = []
+
+  for (const { name: characterName } of getCharacterRecords()) {
+    const sectionId = getCharacterSectionId(characterName)
+    for (const { commission } of groupCommissionParts(commissionMap.get(characterName)?.Commissions ?? [])) {
+      sources.push({
+        key: buildCommissionSearchDomKey(sectionId, commission.fileName),
+        character: characterName,
+        creatorName: commission.creatorName,
+        commissionDate: commission.commissionDate,
+        keyword: commission.Keyword,
+      })
+    }
+  }
+
+  return sources
+}
+
+/**
+ * Writes the related commissions of every commission, read lazily by the
+ * "More like this" strip under each entry.
+ */
+export async function generateSimilarCommissionsFile() {
+  const payload = buildSimilarCommissions(buildSimilarCommissionSources(), {
+    keywordAliasesMap: getKeywordAliasesMap(),
+  })
+
+  await mkdir(path.dirname(outputPath), { recursive: true })
+  const result = await writeFileIfChanged(outputPath, `${JSON.stringify(payload)}\n`)
+  const relativeOutputPath = path.relative(process.cwd(), outputPath)
+
+  if (result === 'unchanged') {
+    logger.info(`similar commissions unchanged (${payload.items.length}) -> ${relativeOutputPath}`)
+  }
+  else {
+    logger.success(`generated similar commissions for ${payload.items.length} entries -> ${relativeOutputPath}`)
+  }
+}
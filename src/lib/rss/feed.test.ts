@@ -0,0 +1,114 @@
+import type { Commission } from '#data/types'
+import { describe, expect, it } from 'vitest'
+import { buildCharacterFeeds, buildCreatorFeeds, buildSiteFeed, getFeedFileUrl } from './feed'
+import { escapeXml, renderAtomFeed, renderJsonFeed, renderRssFeed } from './formats'
+
+function commission(fileName: string, fields: Partial<Commission> = {}): Commission {
+  return { fileName, commissionDate: fileName.slice(0, 8), Links: [], ...fields }
+}
+
+const commissionData = [
+  {
+    Character: 'L*cia',
+    Commissions: [
+      commission('20240301_Q (part 2)', { creatorName: 'Q', partIndex: 2, Keyword: 'isj, <Sekai>' }),
+      commission('20240301_Q (part 1)', { creatorName: 'Q', partIndex: 1 }),
+    ],
+  },
+  {
+    Character: 'Tom & Jerry',
+    Commissions: [commission('20230101', { Description: 'Summer "Vacation"' })],
+  },
+  {
+    Character: 'Studio K',
+    Commissions: [commission('20220505_七市', { creatorName: '七市' })],
+  },
+]
+
+describe('feeds', () => {
+  it('builds site feed items with stable ids, character page links and keyword categories', () => {
+    const feed = buildSiteFeed(commissionData)
+
+    expect(feed.items.map(item => item.id)).toEqual([
+      'tag:crystallize.cc,2022:commission:20240301_Q%20(part%202)',
+      'tag:crystallize.cc,2022:commission:20230101',
+      'tag:crystallize.cc,2022:commission:20220505_%E4%B8%83%E5%B8%82',
+    ])
+    expect(feed.items[0]).toMatchObject({
+      title: 'L*cia by Q',
+      url: 'https://crystallize.cc/characters/l-cia/#l-cia-20240301',
+      author: 'Q',
+      summary: 'Illustrator: Q, published on 2024/03/01, 2 parts',
+      categories: ['isj', '<Sekai>'],
+    })
+    expect(feed.items[1]).toMatchObject({
+      title: 'Tom & Jerry',
+      author: 'Anonymous',
+      summary: 'Illustrator: Anonymous, published on 2023/01/01, "Summer "Vacation""',
+      categories: [],
+    })
+  })
+
+  it('escapes every text node and attribute in RSS and Atom output', () => {
+    const feed = buildSiteFeed(commissionData)
+    const rss = renderRssFeed(feed)
+    const atom = renderAtomFeed(feed)
+
+    expect(escapeXml('a & <b> "c" \'d\'\u0001')).toBe('a &amp; &lt;b&gt; &quot;c&quot; &apos;d&apos;')
+    expect(rss).toContain('<title>Tom &amp; Jerry</title>')
+    expect(rss).toContain('<category>&lt;Sekai&gt;</category>')
+    expect(rss).toContain('<guid isPermaLink="false">tag:crystallize.cc,2022:commission:20230101</guid>')
+    expect(rss).toContain('<pubDate>Fri, 01 Mar 2024 00:00:00 GMT</pubDate>')
+    expect(rss).toContain('<atom:link href="https://crystallize.cc/rss.xml" rel="self" type="application/rss+xml" />')
+    expect(rss).not.toContain('CDATA')
+    expect(atom).toContain('<category term="&lt;Sekai&gt;" />')
+    expect(atom).toContain('<updated>2024-03-01T00:00:00.000Z</updated>')
+    expect(atom).toContain('<link rel="self" type="application/atom+xml" href="https://crystallize.cc/atom.xml" />')
+  })
+
+  it('drops lone surrogates and noncharacters from titles', () => {
+    const feed = buildSiteFeed(commissionData)
+    feed.items[0]!.title = 'Tom\uD800 & \uFFFFJerry \u{1F338}'
+
+    expect(renderRssFeed(feed)).toContain('<title>Tom &amp; Jerry \u{1F338}</title>')
+    expect(renderAtomFeed(feed)).toContain('<title>Tom &amp; Jerry \u{1F338}</title>')
+  })
+
+  it('renders JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(buildSiteFeed(commissionData)))
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: 'https://crystallize.cc/feed.json',
+      home_page_url: 'https://crystallize.cc',
+    })
+    expect(json.items[0]).toEqual({
+      id: 'tag:crystallize.cc,2022:commission:20240301_Q%20(part%202)',
+      url: 'https://crystallize.cc/characters/l-cia/#l-cia-20240301',
+      title: 'L*cia by Q',
+      content_text: 'Illustrator: Q, published on 2024/03/01, 2 parts',
+      date_published: '2024-03-01T00:00:00.000Z',
+      authors: [{ name: 'Q' }],
+      tags: ['isj', '<Sekai>'],
+    })
+    expect(json.items[1]).not.toHaveProperty('tags')
+  })
+
+  it('builds per-character and per-creator feeds under /feeds', () => {
+    const characterFeeds = buildCharacterFeeds(commissionData)
+    const creatorFeeds = buildCreatorFeeds(commissionData)
+
+    expect(characterFeeds.map(feed => [feed.basePath, feed.items.length])).toEqual([
+      ['feeds/characters/l-cia', 1],
+      ['feeds/characters/tom-jerry', 1],
+      ['feeds/characters/studio-k', 1],
+    ])
+    expect(creatorFeeds.map(feed => [feed.basePath, feed.homePageUrl, feed.items.length])).toEqual([
+      ['feeds/creators/q', 'https://crystallize.cc/creators/q/', 1],
+      ['feeds/creators/七市', 'https://crystallize.cc/creators/%E4%B8%83%E5%B8%82/', 1],
+    ])
+    expect(getFeedFileUrl(creatorFeeds[1]!, 'atom.xml')).toBe(
+      'https://crystallize.cc/feeds/creators/%E4%B8%83%E5%B8%82/atom.xml',
+    )
+  })
+})
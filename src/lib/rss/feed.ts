@@ -1,57 +1,138 @@
-import type {
-  CommissionWithCharacter,
-} from '#lib/commissions/index'
-import { commissionData } from '#data/commissionData'
+import type { Props } from '#data/types'
+import type { CommissionPartGroup, CommissionWithCharacter } from '#lib/commissions/index'
+import { getCharacterSectionId, getCharacterSlug } from '#lib/characters/nav'
 import {
   collectUniqueCommissions,
   flattenCommissions,
+  formatCommissionCreatorLabel,
+  groupCommissionParts,
 } from '#lib/commissions/index'
+import { getCreatorSlug } from '#lib/creators/pages'
 import { formatDate, parseDateString } from '#lib/date/format'
-import { getBaseFileName, kebabCase } from '#lib/utils/strings'
+import { splitKeywordTerms } from '#lib/keywordAliases/shared'
 
-const SITE_TITLE = 'Crystallize\'s Commission Index'
-const SITE_URL = 'https://crystallize.cc'
+export const SITE_TITLE = 'Crystallize\'s Commission Index'
+export const SITE_URL = 'https://crystallize.cc'
+const ITEM_ID_PREFIX = 'tag:crystallize.cc,2022:commission:'
 
-interface RssItem {
+export interface FeedItem {
+  id: string
+  url: string
   title: string
-  link: string
-  pubDate: string
+  date: Date
   author: string
+  summary: string
+  categories: string[]
+}
+
+export interface FeedDocument {
+  title: string
   description: string
+  homePageUrl: string
+  /** Directory the feed files are written to, relative to the site root ('' for the site feed). */
+  basePath: string
+  items: FeedItem[]
+}
+
+/**
+ * Absolute URL of one feed file, e.g. `https://…/feeds/characters/l-cia/atom.xml`.
+ */
+export function getFeedFileUrl(feed: Pick<FeedDocument, 'basePath'>, fileName: string) {
+  const segments = [...(feed.basePath ? feed.basePath.split('/') : []), fileName]
+  return `${SITE_URL}/${segments.map(segment => encodeURIComponent(segment)).join('/')}`
+}
+
+function getCharacterPageUrl(character: string) {
+  return `${SITE_URL}/characters/${encodeURIComponent(getCharacterSlug(character))}/`
 }
 
-function buildItem(commission: CommissionWithCharacter): RssItem {
-  const cleanedFileName = getBaseFileName(commission.fileName)
-  const [datePart, artistPartWithExt] = cleanedFileName.split('_')
-  const artistName = artistPartWithExt ? artistPartWithExt.split('.')[0] : 'Anonymous'
-  const dateObj = parseDateString(datePart)!
-  const pubDate = dateObj.toUTCString()
-  const formatted = formatDate(dateObj, 'yyyy/MM/dd')
-  const link = `${SITE_URL}#${encodeURIComponent(kebabCase(commission.character))}-${datePart}`
-  const description = `<![CDATA[Illustrator: ${artistName}, published on ${formatted}]]>`
+/**
+ * `commission` is the newest part, whose file name has always keyed the item, and
+ * `group` the merged commission it belongs to.
+ */
+function buildItem(commission: CommissionWithCharacter, group: CommissionPartGroup<CommissionWithCharacter>): FeedItem | null {
+  const date = parseDateString(commission.commissionDate)
+  if (!date)
+    return null
+
+  const merged = group.parts.length > 1 ? group.commission : commission
+  const author = formatCommissionCreatorLabel(merged) || 'Anonymous'
+  const summaryParts = [
+    `Illustrator: ${author}`,
+    `published on ${formatDate(date, 'yyyy/MM/dd')}`,
+    group.parts.length > 1 ? `${group.parts.length} parts` : null,
+    merged.Description ? `"${merged.Description}"` : null,
+  ]
+
   return {
-    title: commission.character,
-    link,
-    pubDate,
-    author: artistName,
-    description,
+    // File names are unique and never reused, so the id survives page and slug changes.
+    id: `${ITEM_ID_PREFIX}${encodeURIComponent(commission.fileName)}`,
+    url: `${getCharacterPageUrl(commission.character)}#${getCharacterSectionId(commission.character)}-${commission.commissionDate}`,
+    title: merged.creatorName ? `${commission.character} by ${author}` : commission.character,
+    date,
+    author,
+    summary: summaryParts.filter(Boolean).join(', '),
+    categories: splitKeywordTerms(merged.Keyword),
   }
 }
 
-export const rssItems: RssItem[] = (() => {
-  const flattened = flattenCommissions(commissionData)
-  const sorted = collectUniqueCommissions(flattened)
+function buildItems(commissions: CommissionWithCharacter[]): FeedItem[] {
+  const groupByPart = new Map(
+    groupCommissionParts(commissions, commission => commission.character)
+      .flatMap(group => group.parts.map(part => [part, group] as const)),
+  )
+  return collectUniqueCommissions(commissions)
+    .map(commission => buildItem(commission, groupByPart.get(commission)!))
+    .filter((item): item is FeedItem => Boolean(item))
+}
+
+export function buildSiteFeed(commissionData: Props): FeedDocument {
+  return {
+    title: SITE_TITLE,
+    description: 'Feed from Crystallize',
+    homePageUrl: SITE_URL,
+    basePath: '',
+    items: buildItems(flattenCommissions(commissionData)),
+  }
+}
 
-  return sorted.map(buildItem)
-})()
+/**
+ * One feed per character under `feeds/characters/<slug>`.
+ */
+export function buildCharacterFeeds(commissionData: Props): FeedDocument[] {
+  return commissionData
+    .filter(({ Character }) => getCharacterSlug(Character))
+    .map(({ Character, Commissions }) => ({
+      title: `${Character} | ${SITE_TITLE}`,
+      description: `New commissions of ${Character}`,
+      homePageUrl: getCharacterPageUrl(Character),
+      basePath: `feeds/characters/${getCharacterSlug(Character)}`,
+      items: buildItems(Commissions.map(commission => ({ ...commission, character: Character }))),
+    }))
+}
 
-export function generateRssFeed(): string {
-  const items = rssItems
-    .map(
-      item =>
-        `\n    <item>\n      <title>${item.title}</title>\n      <link>${item.link}</link>\n      <pubDate>${item.pubDate}</pubDate>\n      <author>${item.author}</author>\n      <description>${item.description}</description>\n    </item>`,
-    )
-    .join('')
+/**
+ * One feed per credited creator under `feeds/creators/<slug>`, using the same
+ * slugs as the `/creators/[slug]` pages.
+ */
+export function buildCreatorFeeds(commissionData: Props): FeedDocument[] {
+  const commissionsByCreator = new Map<string, CommissionWithCharacter[]>()
+  flattenCommissions(commissionData).forEach((commission) => {
+    if (!commission.creatorName || !getCreatorSlug(commission.creatorName))
+      return
+    const commissions = commissionsByCreator.get(commission.creatorName) ?? []
+    commissions.push(commission)
+    commissionsByCreator.set(commission.creatorName, commissions)
+  })
 
-  return `<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0">\n  <channel>\n    <title>${SITE_TITLE}</title>\n    <link>${SITE_URL}</link>\n    <description>Feed from Crystallize</description>\n    <language>en-US</language>\n    <webMaster>Crystallize</webMaster>\n    <ttl>60</ttl>${items}\n  </channel>\n</rss>`
+  return Array.from(commissionsByCreator, ([creatorName, commissions]) => {
+    const slug = getCreatorSlug(creatorName)
+    return {
+      title: `${creatorName} | ${SITE_TITLE}`,
+      description: `New commissions illustrated by ${creatorName}`,
+      homePageUrl: `${SITE_URL}/creators/${encodeURIComponent(slug)}/`,
+      basePath: `feeds/creators/${slug}`,
+      items: buildItems(commissions),
+    }
+  })
 }
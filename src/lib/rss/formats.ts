@@ -0,0 +1,130 @@
+import type { FeedDocument } from './feed'
+import { getFeedFileUrl } from './feed'
+
+export const FEED_FILES = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+} as const
+
+export type FeedFormat = keyof typeof FEED_FILES
+
+const XML_ESCAPE_PATTERN = /[&<>"']/g
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&apos;',
+}
+
+// The `Char` production of XML 1.0: control characters other than tab/newline/carriage
+// return, lone surrogates and U+FFFE/U+FFFF are not allowed.
+function isXmlChar(char: string) {
+  const code = char.codePointAt(0)!
+  return code === 0x09 || code === 0x0A || code === 0x0D
+    || (code >= 0x20 && code <= 0xD7FF)
+    || (code >= 0xE000 && code <= 0xFFFD)
+    || (code >= 0x10000 && code <= 0x10FFFF)
+}
+
+export function escapeXml(value: string): string {
+  return [...value]
+    .filter(isXmlChar)
+    .join('')
+    .replace(XML_ESCAPE_PATTERN, char => XML_ESCAPES[char]!)
+}
+
+function latestDate(feed: FeedDocument) {
+  return feed.items[0]?.date ?? new Date(0)
+}
+
+export function renderRssFeed(feed: FeedDocument): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${item.date.toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+    ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(item.summary)}</description>`,
+    '    </item>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <atom:link href="${escapeXml(getFeedFileUrl(feed, FEED_FILES.rss))}" rel="self" type="application/rss+xml" />`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en-US</language>',
+    `    <lastBuildDate>${latestDate(feed).toUTCString()}</lastBuildDate>`,
+    '    <webMaster>Crystallize</webMaster>',
+    '    <ttl>60</ttl>',
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].join('\n')
+}
+
+export function renderAtomFeed(feed: FeedDocument): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+    `    <published>${item.date.toISOString()}</published>`,
+    `    <updated>${item.date.toISOString()}</updated>`,
+    `    <author><name>${escapeXml(item.author)}</name></author>`,
+    ...item.categories.map(category => `    <category term="${escapeXml(category)}" />`),
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    '  </entry>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-US">',
+    `  <id>${escapeXml(getFeedFileUrl(feed, FEED_FILES.atom))}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(getFeedFileUrl(feed, FEED_FILES.atom))}" />`,
+    `  <updated>${latestDate(feed).toISOString()}</updated>`,
+    '  <author><name>Crystallize</name></author>',
+    ...entries,
+    '</feed>',
+  ].join('\n')
+}
+
+/**
+ * JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/).
+ */
+export function renderJsonFeed(feed: FeedDocument): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homePageUrl,
+    feed_url: getFeedFileUrl(feed, FEED_FILES.json),
+    description: feed.description,
+    language: 'en-US',
+    authors: [{ name: 'Crystallize' }],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      content_text: item.summary,
+      date_published: item.date.toISOString(),
+      authors: [{ name: item.author }],
+      ...(item.categories.length > 0 ? { tags: item.categories } : {}),
+    })),
+  }, null, 2)
+}
+
+export const FEED_RENDERERS: Record<FeedFormat, (feed: FeedDocument) => string> = {
+  rss: renderRssFeed,
+  atom: renderAtomFeed,
+  json: renderJsonFeed,
+}
@@ -0,0 +1,154 @@
+import type { MigrationDatabase } from './migrations'
+import Database from 'better-sqlite3'
+import { describe, expect, it } from 'vitest'
+import {
+  applySchemaMigrations,
+  assertSchemaUpToDate,
+  getAppliedSchemaMigrations,
+  getPendingSchemaMigrations,
+  LATEST_SCHEMA_VERSION,
+  schemaMigrations,
+} from './migrations'
+
+function createMigrationDatabase(db: Database.Database): MigrationDatabase {
+  return {
+    exec: (sql) => {
+      db.exec(sql)
+    },
+    queryAll: <T = unknown>(sql: string, params: ReadonlyArray<unknown> = []) =>
+      db.prepare(sql).all(params) as T[],
+    run: (sql, params = []) => {
+      db.prepare(sql).run(params)
+    },
+  }
+}
+
+function listTables(db: Database.Database) {
+  return (db.prepare('SELECT name FROM sqlite_master WHERE type = \'table\' ORDER BY name').all() as Array<{ name: string }>)
+    .map(row => row.name)
+}
+
+describe('schema migrations', () => {
+  it('keeps migration versions unique and ascending', () => {
+    const versions = schemaMigrations.map(migration => migration.version)
+    expect(versions).toEqual(versions.toSorted((a, b) => a - b))
+    expect(new Set(versions).size).toBe(versions.length)
+    expect(LATEST_SCHEMA_VERSION).toBe(versions.at(-1))
+  })
+
+  it('builds an empty database up to the latest schema and is idempotent', () => {
+    const rawDb = new Database(':memory:')
+    const db = createMigrationDatabase(rawDb)
+
+    expect(getPendingSchemaMigrations(db)).toHaveLength(schemaMigrations.length)
+    expect(() => assertSchemaUpToDate(db)).toThrow(/db:migrate/)
+
+    expect(applySchemaMigrations(db)).toHaveLength(schemaMigrations.length)
+    expect(applySchemaMigrations(db)).toEqual([])
+    expect(getPendingSchemaMigrations(db)).toEqual([])
+    expect(() => assertSchemaUpToDate(db)).not.toThrow()
+
+    expect(listTables(rawDb)).toEqual(expect.arrayContaining([
+      'characters',
+      'commissions',
+      'creator_aliases',
+      'character_aliases',
+      'keyword_aliases',
+      'home_featured_search_keywords',
+      'schema_migrations',
+    ]))
+    const commissionColumns = rawDb.prepare('PRAGMA table_info(commissions)').all() as Array<{ name: string }>
+    expect(commissionColumns.map(column => column.name)).toContain('keyword')
+    rawDb.close()
+  })
+
+  it('adopts a legacy database whose tables were created ad hoc', () => {
+    const rawDb = new Database(':memory:')
+    rawDb.exec(`
+      CREATE TABLE characters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL CHECK (status IN ('active', 'stale')),
+        sort_order INTEGER NOT NULL
+      );
+      CREATE TABLE commissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        character_id INTEGER NOT NULL,
+        file_name TEXT NOT NULL UNIQUE,
+        links TEXT NOT NULL,
+        design TEXT,
+        description TEXT,
+        hidden INTEGER NOT NULL DEFAULT 0,
+        keyword TEXT
+      );
+      CREATE TABLE creator_aliases (creator_name TEXT PRIMARY KEY, aliases TEXT NOT NULL);
+    `)
+    const db = createMigrationDatabase(rawDb)
+
+    applySchemaMigrations(db)
+
+    expect(getAppliedSchemaMigrations(db).map(row => row.version)).toEqual(
+      schemaMigrations.map(migration => migration.version),
+    )
+    rawDb.close()
+  })
+
+  it('backfills structured commission fields and creators from file names', () => {
+    const rawDb = new Database(':memory:')
+    const db = createMigrationDatabase(rawDb)
+    applySchemaMigrations(db, { toVersion: 8 })
+    expect(getPendingSchemaMigrations(db).map(migration => migration.version)).toEqual([9, 10])
+
+    rawDb.exec(`
+      INSERT INTO characters (id, name, status, sort_order) VALUES (1, 'A', 'active', 1);
+      INSERT INTO commissions (character_id, file_name, links) VALUES
+        (1, '20250302_Q (part 2)', '[]'),
+        (1, '20250301_Q (part 1)', '[]'),
+        (1, 'undated sketch', '[]');
+    `)
+    applySchemaMigrations(db)
+
+    expect(rawDb.prepare('SELECT id, name FROM creators').all()).toEqual([{ id: 1, name: 'Q' }])
+    expect(
+      rawDb
+        .prepare(`
+          SELECT
+            file_name as fileName,
+            commission_date as commissionDate,
+            creator_id as creatorId,
+            part_index as partIndex
+          FROM commissions
+          ORDER BY id
+        `)
+        .all(),
+    ).toEqual([
+      { fileName: '20250302_Q (part 2)', commissionDate: '20250302', creatorId: 1, partIndex: 2 },
+      { fileName: '20250301_Q (part 1)', commissionDate: '20250301', creatorId: 1, partIndex: 1 },
+      { fileName: 'undated sketch', commissionDate: null, creatorId: null, partIndex: null },
+    ])
+    const commissionColumns = rawDb.prepare('PRAGMA table_info(commissions)').all() as Array<{ name: string }>
+    expect(commissionColumns.map(column => column.name)).not.toContain('creator_name')
+    rawDb.close()
+  })
+
+  it('rolls back a failing migration without recording it', () => {
+    const rawDb = new Database(':memory:')
+    const db = createMigrationDatabase(rawDb)
+    applySchemaMigrations(db)
+    rawDb.prepare('DELETE FROM schema_migrations WHERE version = ?').run(LATEST_SCHEMA_VERSION)
+
+    const latestMigration = schemaMigrations.find(migration => migration.version === LATEST_SCHEMA_VERSION)!
+    const failingDb: MigrationDatabase = {
+      ...db,
+      exec: (sql) => {
+        if (sql.includes('CREATE') && !sql.includes('schema_migrations'))
+          throw new Error('disk I/O error')
+        db.exec(sql)
+      },
+    }
+
+    expect(() => applySchemaMigrations(failingDb)).toThrow(`${latestMigration.name} failed: disk I/O error`)
+    expect(getPendingSchemaMigrations(db).map(migration => migration.version)).toEqual([LATEST_SCHEMA_VERSION])
+    rawDb.close()
+  })
+})
@@ -0,0 +1,313 @@
+type QueryParams = ReadonlyArray<unknown>
+
+export interface MigrationDatabase {
+  exec: (sql: string) => void
+  queryAll: <T = unknown>(sql: string, params?: QueryParams) => T[]
+  run: (sql: string, params?: QueryParams) => void
+}
+
+export type MigrationReader = Pick<MigrationDatabase, 'queryAll'>
+
+export interface SchemaMigration {
+  version: number
+  name: string
+  up: (db: MigrationDatabase) => void
+}
+
+export interface AppliedSchemaMigration {
+  version: number
+  name: string
+  appliedAt: string
+}
+
+export const SCHEMA_MIGRATIONS_TABLE = 'schema_migrations'
+
+function hasTable(db: MigrationReader, tableName: string): boolean {
+  const rows = db.queryAll<{ name?: string }>(
+    'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = ? LIMIT 1',
+    [tableName],
+  )
+  return rows[0]?.name === tableName
+}
+
+function hasColumn(db: MigrationReader, tableName: string, columnName: string): boolean {
+  const columns = db.queryAll<{ name?: string | null }>(`PRAGMA table_info(${tableName})`)
+  return columns.some(column => column.name === columnName)
+}
+
+const MIGRATION_9_DATE_PATTERN = /^(\d{8})(?:_|$)/
+const MIGRATION_9_PART_PATTERN = /\(part\s*(\d+)\)$/i
+const MIGRATION_9_SUFFIX_PATTERN = /\s*\((preview|part).*?\)$/i
+
+/**
+ * Frozen copy of the `YYYYMMDD_creator (part N)` parsing used by migration 9, so
+ * later changes to the application parser never alter what the backfill writes.
+ */
+function parseMigration9FileName(fileName: string) {
+  const trimmed = fileName.trim()
+  const commissionDate = MIGRATION_9_DATE_PATTERN.exec(trimmed)?.[1] ?? null
+  const partIndex = Number(MIGRATION_9_PART_PATTERN.exec(trimmed)?.[1] ?? Number.NaN)
+  const creatorPart = commissionDate ? trimmed.slice(9) : ''
+  const creatorName = creatorPart.replace(MIGRATION_9_SUFFIX_PATTERN, '').trim() || null
+
+  return {
+    commissionDate,
+    creatorName,
+    partIndex: Number.isInteger(partIndex) && partIndex > 0 ? partIndex : null,
+  }
+}
+
+/**
+ * Ordered schema history. Every migration must stay idempotent so databases
+ * that were grown by the legacy ad hoc `ensure*` helpers can be adopted as-is.
+ */
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'create-core-tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS characters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          status TEXT NOT NULL CHECK (status IN ('active', 'stale')),
+          sort_order INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS commissions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          character_id INTEGER NOT NULL,
+          file_name TEXT NOT NULL UNIQUE,
+          links TEXT NOT NULL,
+          design TEXT,
+          description TEXT,
+          hidden INTEGER NOT NULL DEFAULT 0,
+          FOREIGN KEY (character_id) REFERENCES characters(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_characters_sort_order ON characters(sort_order);
+      `)
+    },
+  },
+  {
+    version: 2,
+    name: 'add-commission-keyword-column',
+    up: (db) => {
+      if (hasColumn(db, 'commissions', 'keyword'))
+        return
+      db.exec('ALTER TABLE commissions ADD COLUMN keyword TEXT')
+    },
+  },
+  {
+    version: 3,
+    name: 'create-creator-aliases-table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS creator_aliases (
+          creator_name TEXT PRIMARY KEY,
+          aliases TEXT NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 4,
+    name: 'create-character-aliases-table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS character_aliases (
+          character_name TEXT PRIMARY KEY,
+          aliases TEXT NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 5,
+    name: 'create-keyword-aliases-table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS keyword_aliases (
+          base_keyword TEXT PRIMARY KEY,
+          aliases TEXT NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 6,
+    name: 'create-home-featured-search-keywords-table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS home_featured_search_keywords (
+          keyword TEXT PRIMARY KEY,
+          sort_order INTEGER NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 7,
+    name: 'create-admin-audit-log-table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          entity_id INTEGER,
+          summary TEXT NOT NULL,
+          before_json TEXT,
+          after_json TEXT,
+          created_at TEXT NOT NULL,
+          reverted_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at);
+      `)
+    },
+  },
+  {
+    version: 8,
+    name: 'add-soft-delete-columns',
+    up: (db) => {
+      if (!hasColumn(db, 'characters', 'deleted_at'))
+        db.exec('ALTER TABLE characters ADD COLUMN deleted_at TEXT')
+      if (!hasColumn(db, 'commissions', 'deleted_at'))
+        db.exec('ALTER TABLE commissions ADD COLUMN deleted_at TEXT')
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_characters_deleted_at ON characters(deleted_at);
+        CREATE INDEX IF NOT EXISTS idx_commissions_deleted_at ON commissions(deleted_at);
+      `)
+    },
+  },
+  {
+    version: 9,
+    name: 'add-structured-commission-fields',
+    up: (db) => {
+      if (!hasColumn(db, 'commissions', 'commission_date'))
+        db.exec('ALTER TABLE commissions ADD COLUMN commission_date TEXT')
+      if (!hasColumn(db, 'commissions', 'creator_name'))
+        db.exec('ALTER TABLE commissions ADD COLUMN creator_name TEXT')
+      if (!hasColumn(db, 'commissions', 'part_index'))
+        db.exec('ALTER TABLE commissions ADD COLUMN part_index INTEGER')
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commissions_commission_date ON commissions(commission_date)')
+
+      const rows = db.queryAll<{ id: number, fileName: string }>(
+        'SELECT id, file_name as fileName FROM commissions WHERE commission_date IS NULL',
+      )
+      rows.forEach(({ id, fileName }) => {
+        const fields = parseMigration9FileName(fileName)
+        db.run(
+          'UPDATE commissions SET commission_date = ?, creator_name = ?, part_index = ? WHERE id = ?',
+          [fields.commissionDate, fields.creatorName, fields.partIndex, id],
+        )
+      })
+    },
+  },
+  {
+    version: 10,
+    name: 'add-creators',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS creators (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          homepage TEXT,
+          links TEXT NOT NULL DEFAULT '[]',
+          notes TEXT
+        )
+      `)
+      if (!hasColumn(db, 'commissions', 'creator_id'))
+        db.exec('ALTER TABLE commissions ADD COLUMN creator_id INTEGER REFERENCES creators(id)')
+      db.exec('CREATE INDEX IF NOT EXISTS idx_commissions_creator_id ON commissions(creator_id)')
+
+      // Creators were a free-text column until now; turn every distinct name into a row.
+      if (hasColumn(db, 'commissions', 'creator_name')) {
+        db.exec(`
+          INSERT OR IGNORE INTO creators (name)
+          SELECT DISTINCT creator_name FROM commissions WHERE creator_name IS NOT NULL ORDER BY creator_name;
+          UPDATE commissions
+          SET creator_id = (SELECT creators.id FROM creators WHERE creators.name = commissions.creator_name)
+          WHERE creator_name IS NOT NULL;
+          ALTER TABLE commissions DROP COLUMN creator_name;
+        `)
+      }
+    },
+  },
+]
+
+export const LATEST_SCHEMA_VERSION = schemaMigrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0,
+)
+
+export function formatSchemaMigrationLabel(migration: Pick<SchemaMigration, 'version' | 'name'>) {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`
+}
+
+function ensureSchemaMigrationsTable(db: MigrationDatabase) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${SCHEMA_MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `)
+}
+
+export function getAppliedSchemaMigrations(db: MigrationReader): AppliedSchemaMigration[] {
+  if (!hasTable(db, SCHEMA_MIGRATIONS_TABLE))
+    return []
+
+  return db.queryAll<AppliedSchemaMigration>(
+    `SELECT version, name, applied_at as appliedAt FROM ${SCHEMA_MIGRATIONS_TABLE} ORDER BY version ASC`,
+  )
+}
+
+export function getPendingSchemaMigrations(db: MigrationReader): SchemaMigration[] {
+  const appliedVersions = new Set(getAppliedSchemaMigrations(db).map(row => Number(row.version)))
+  return schemaMigrations
+    .filter(migration => !appliedVersions.has(migration.version))
+    .toSorted((a, b) => a.version - b.version)
+}
+
+/**
+ * Apply every pending migration in version order, each inside its own
+ * transaction together with its `schema_migrations` bookkeeping row. Pass
+ * `toVersion` to stop after that version.
+ */
+export function applySchemaMigrations(
+  db: MigrationDatabase,
+  options: { toVersion?: number } = {},
+): SchemaMigration[] {
+  ensureSchemaMigrationsTable(db)
+  const toVersion = options.toVersion ?? LATEST_SCHEMA_VERSION
+  const pending = getPendingSchemaMigrations(db).filter(migration => migration.version <= toVersion)
+
+  for (const migration of pending) {
+    db.exec('BEGIN')
+    try {
+      migration.up(db)
+      db.run(
+        `INSERT INTO ${SCHEMA_MIGRATIONS_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`,
+        [migration.version, migration.name, new Date().toISOString()],
+      )
+      db.exec('COMMIT')
+    }
+    catch (error) {
+      db.exec('ROLLBACK')
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(`Migration ${formatSchemaMigrationLabel(migration)} failed: ${message}`)
+    }
+  }
+
+  return pending
+}
+
+export function assertSchemaUpToDate(db: MigrationReader) {
+  const pending = getPendingSchemaMigrations(db)
+  if (pending.length === 0)
+    return
+
+  const labels = pending.map(formatSchemaMigrationLabel).join(', ')
+  throw new Error(
+    `SQLite schema is out of date (pending: ${labels}). Run \`bun run db:migrate\` to apply pending migrations.`,
+  )
+}
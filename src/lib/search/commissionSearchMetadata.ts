@@ -1,16 +1,19 @@
 import { normalizeCharacterAliasKey } from '#lib/characterAliases/shared'
-import { parseCommissionFileName } from '#lib/commissions/index'
 import { normalizeCreatorName } from '#lib/creatorAliases/shared'
 import { buildDateSearchTokensFromCompactDate } from '#lib/date/search'
 import { normalizeKeywordAliasKey, splitKeywordTerms } from '#lib/keywordAliases/shared'
+import { buildRomajiSearchTokens } from '#lib/search/romaji'
+import { foldSearchText } from '#lib/search/textFolding'
 
 type SuggestionSource = 'Character' | 'Creator' | 'Keyword' | 'Date'
+type SearchField = 'character' | 'creator' | 'keyword' | 'description' | 'date' | 'parts'
 type CreatorMode = 'normalized' | 'raw'
 type CreatorSearchTextMode = CreatorMode | 'both'
 
 interface BuildCommissionSearchMetadataInput {
   characterName: string
-  fileName: string
+  commissionDate: string
+  creatorName?: string | null
   design?: string | null
   description?: string | null
   keyword?: string | null
@@ -19,14 +22,21 @@ interface BuildCommissionSearchMetadataInput {
   keywordAliasesMap?: Map<string, string[]>
   creatorSuggestionMode?: CreatorMode
   creatorSearchTextMode?: CreatorSearchTextMode
+  /** Add romaji readings of Japanese character and creator names (default `true`). */
+  includeRomaji?: boolean
+  /** Number of parts of a multi-part commission; recorded as a `parts` field row when above one. */
+  partCount?: number
 }
 
 interface CommissionSearchMetadata {
   searchText: string
   searchSuggestionText: string
+  /** One `field\tvalue` row per value, backing `creator:`/`kw:`/`after:` style qualifiers. */
+  searchFieldText: string
 }
 
-const normalizeSuggestionKey = (term: string) => term.trim().toLowerCase()
+const normalizeSuggestionKey = (term: string) => foldSearchText(term.trim())
+const FIELD_VALUE_WHITESPACE_PATTERN = /\s+/g
 
 function resolveCreatorSuggestionTerm(rawCreatorName: string | null, normalizedCreatorName: string | null, mode: CreatorMode) {
   if (mode === 'raw')
@@ -55,7 +65,8 @@ export function buildCommissionSearchDomKey(sectionId: string, fileName: string)
 
 export function buildCommissionSearchMetadata({
   characterName,
-  fileName,
+  commissionDate,
+  creatorName,
   design,
   description,
   keyword,
@@ -64,15 +75,18 @@ export function buildCommissionSearchMetadata({
   keywordAliasesMap,
   creatorSuggestionMode = 'normalized',
   creatorSearchTextMode = 'normalized',
+  includeRomaji = true,
+  partCount = 1,
 }: BuildCommissionSearchMetadataInput): CommissionSearchMetadata {
-  const { date, year, creator } = parseCommissionFileName(fileName)
+  const date = commissionDate
+  const year = date.slice(0, 4)
   const month = date.slice(4, 6)
   const characterAliasKey = normalizeCharacterAliasKey(characterName)
   const characterAliases
     = characterAliasKey && characterAliasesMap
       ? (characterAliasesMap.get(characterAliasKey) ?? [])
       : []
-  const rawCreatorName = creator?.trim() || null
+  const rawCreatorName = creatorName?.trim() || null
   const normalizedCreatorName = rawCreatorName ? normalizeCreatorName(rawCreatorName) : null
   const creatorAliases
     = normalizedCreatorName && creatorAliasesMap
@@ -100,6 +114,10 @@ export function buildCommissionSearchMetadata({
     normalizedCreatorName,
     creatorSearchTextMode,
   )
+  const toRomaji = (names: string[]) =>
+    includeRomaji ? [...new Set(names.flatMap(buildRomajiSearchTokens))] : []
+  const characterRomaji = toRomaji([characterName, ...characterAliases])
+  const creatorRomaji = toRomaji([...creatorSearchTerms, ...creatorAliases])
 
   const suggestionEntries: Array<{ source: SuggestionSource, term: string }> = [
     { source: 'Character', term: characterName },
@@ -119,21 +137,42 @@ export function buildCommissionSearchMetadata({
     uniqueSuggestions.set(normalizedTerm, entry)
   }
 
+  const fieldEntries: Array<{ field: SearchField, value: string }> = [
+    { field: 'character', value: characterName },
+    ...characterAliases.map(value => ({ field: 'character' as const, value })),
+    ...creatorSearchTerms.map(value => ({ field: 'creator' as const, value })),
+    ...creatorAliases.map(value => ({ field: 'creator' as const, value })),
+    ...characterRomaji.map(value => ({ field: 'character' as const, value })),
+    ...creatorRomaji.map(value => ({ field: 'creator' as const, value })),
+    ...keywordTerms.map(value => ({ field: 'keyword' as const, value })),
+    ...keywordAliasTerms.map(value => ({ field: 'keyword' as const, value })),
+    ...[design, description].map(value => ({ field: 'description' as const, value: value ?? '' })),
+    { field: 'date', value: date },
+    { field: 'parts', value: partCount > 1 ? String(partCount) : '' },
+  ]
+  const uniqueFieldRows = new Set<string>()
+  for (const entry of fieldEntries) {
+    const value = entry.value.replace(FIELD_VALUE_WHITESPACE_PATTERN, ' ').trim()
+    if (value)
+      uniqueFieldRows.add(`${entry.field}\t${value}`)
+  }
+
   return {
-    searchText: [
+    searchText: foldSearchText([
       characterName,
       ...characterAliases,
       ...creatorSearchTerms,
       ...creatorAliases,
+      ...characterRomaji,
+      ...creatorRomaji,
       ...searchableDateTerms,
       design ?? '',
       description ?? '',
       keywordSearchText,
       keywordAliasesSearchText,
-    ]
-      .join(' ')
-      .toLowerCase(),
+    ].join(' ')),
     searchSuggestionText: Array.from(uniqueSuggestions.values(), entry => `${entry.source}\t${entry.term}`)
       .join('\n'),
+    searchFieldText: [...uniqueFieldRows].join('\n'),
   }
 }
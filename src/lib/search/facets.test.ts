@@ -0,0 +1,90 @@
+import type { SearchFacetGroup } from './facets'
+import type { SearchEntryLike, SuggestionEntryLike } from './index'
+import { describe, expect, it } from 'vitest'
+import { collectSearchFacets, toggleSearchFacet } from './facets'
+import {
+  buildFieldTermIndex,
+  buildStrictTermIndex,
+  getMatchedEntryIds,
+  parseSearchFieldRows,
+  parseSuggestionRows,
+} from './index'
+
+type Entry = SearchEntryLike & SuggestionEntryLike
+
+const entries: Entry[] = [
+  {
+    id: 1,
+    searchText: 'mira q sky 20230615 date_y_2023 date_ym_2023_06',
+    searchFields: parseSearchFieldRows('character\tMira\ncreator\tQ\nkeyword\tsky\ndate\t20230615'),
+    suggestionRows: parseSuggestionRows('Character\tMira\nDate\t2023/06\nCreator\tQ\nKeyword\tsky'),
+  },
+  {
+    id: 2,
+    searchText: 'mira qiu sketch 20240102 date_y_2024 date_ym_2024_01',
+    searchFields: parseSearchFieldRows('character\tMira\ncreator\tQiu\nkeyword\tsketch\ndate\t20240102'),
+    suggestionRows: parseSuggestionRows('Character\tMira\nDate\t2024/01\nCreator\tQiu\nKeyword\tsketch'),
+  },
+  {
+    id: 3,
+    searchText: 'lucia q blue hair 20240315 date_y_2024 date_ym_2024_03',
+    searchFields: parseSearchFieldRows('character\tLucia\ncreator\tQ\nkeyword\tblue hair\ndate\t20240315'),
+    suggestionRows: parseSuggestionRows('Character\tLucia\nDate\t2024/03\nCreator\tQ\nKeyword\tblue hair'),
+  },
+]
+const index = {
+  entries,
+  allIds: new Set(entries.map(entry => entry.id)),
+  strictTermIndex: buildStrictTermIndex(entries),
+  fieldTermIndex: buildFieldTermIndex(entries),
+  fuse: null,
+}
+
+function summarize(groups: SearchFacetGroup[]) {
+  return Object.fromEntries(groups.map(group => [
+    group.source,
+    group.values.map(value => `${value.term}:${value.count}${value.active ? '*' : ''}`),
+  ]))
+}
+
+describe('collectSearchFacets', () => {
+  it('counts each source over the matched entries, rolling dates up to years', () => {
+    expect(summarize(collectSearchFacets('', entries, index.allIds))).toEqual({
+      Character: ['Mira:2', 'Lucia:1'],
+      Creator: ['Q:2', 'Qiu:1'],
+      Date: ['2024:2', '2023:1'],
+      Keyword: ['blue hair:1', 'sketch:1', 'sky:1'],
+    })
+    expect(summarize(collectSearchFacets('mira', entries, getMatchedEntryIds('mira', index)))).toEqual({
+      Character: ['Mira:2'],
+      Creator: ['Q:1', 'Qiu:1'],
+      Date: ['2024:1', '2023:1'],
+      Keyword: ['sketch:1', 'sky:1'],
+    })
+  })
+
+  it('marks active facets, keeps them past the limit and lists months of an active year', () => {
+    const query = 'kw:sky date:2024'
+    const groups = collectSearchFacets(query, entries, index.allIds, { limit: 1 })
+
+    expect(summarize(groups).Keyword).toEqual(['blue hair:1', 'sky:1*'])
+    const year = groups.find(group => group.source === 'Date')!.values.find(value => value.term === '2024')!
+    expect(year.active).toBe(true)
+    expect(year.months?.map(month => `${month.term}:${month.count}`)).toEqual(['2024/01:1', '2024/03:1'])
+  })
+})
+
+describe('toggleSearchFacet', () => {
+  const facet = (term: string, token: string) => ({ term, token, count: 1, active: false })
+
+  it('appends a field-scoped token after the current query', () => {
+    expect(toggleSearchFacet('mira', 'Creator', facet('Q', 'creator:Q'))).toBe('mira creator:Q ')
+    expect(toggleSearchFacet('', 'Keyword', facet('blue hair', 'kw:blue hair'))).toBe('kw:"blue hair" ')
+  })
+
+  it('removes the token, including alias qualifiers and equivalent spellings', () => {
+    expect(toggleSearchFacet('mira kw:"Blue Hair" date:2024', 'Keyword', facet('blue hair', 'kw:blue hair'))).toBe('mira date:2024 ')
+    expect(toggleSearchFacet('artist:q', 'Creator', facet('Q', 'creator:Q'))).toBe('')
+    expect(toggleSearchFacet('mira date:2024-01', 'Date', facet('2024/01', 'date:2024/01'))).toBe('mira ')
+  })
+})
@@ -0,0 +1,175 @@
+import type { SearchField, SuggestionEntryLike, SuggestionSource } from './index'
+import { normalizeDateQueryToken } from '#lib/date/search'
+import { applySuggestionToQuery, normalizeQuery, parseSearchFieldTerm } from './index'
+
+/** Suggestion sources shown as facets; `Field` rows are qualifier completions, not values. */
+export type SearchFacetSource = Exclude<SuggestionSource, 'Field'>
+
+export interface SearchFacetValue {
+  /** Display term: the suggestion row term, or `yyyy` for a year rolled up from `yyyy/MM` rows. */
+  term: string
+  /** Field-scoped query token the facet adds, e.g. `creator:七市` or `date:2026/02`. */
+  token: string
+  count: number
+  active: boolean
+  /** Months of a date facet year, listed once that year or one of its months is active. */
+  months?: SearchFacetValue[]
+}
+
+export interface SearchFacetGroup {
+  source: SearchFacetSource
+  values: SearchFacetValue[]
+}
+
+export const SEARCH_FACET_SOURCES: SearchFacetSource[] = ['Character', 'Creator', 'Date', 'Keyword']
+const DEFAULT_FACET_VALUE_LIMIT = 8
+
+const FACETS: Record<SearchFacetSource, { qualifier: string, field: SearchField }> = {
+  Character: { qualifier: 'character', field: 'character' },
+  Creator: { qualifier: 'creator', field: 'creator' },
+  Date: { qualifier: 'date', field: 'date' },
+  Keyword: { qualifier: 'kw', field: 'keyword' },
+}
+const MONTH_TERM_PATTERN = /^(\d{4})\/\d{2}$/
+const WHITESPACE_PATTERN = /\s/
+
+interface QueryToken {
+  start: number
+  end: number
+  text: string
+}
+
+/** Whitespace-separated tokens of `rawQuery`, keeping quoted phrases together. */
+function splitQueryTokens(rawQuery: string) {
+  const tokens: QueryToken[] = []
+  let start = -1
+  let inQuote = false
+  for (let i = 0; i <= rawQuery.length; i += 1) {
+    const char = rawQuery[i]
+    if (char === undefined || (!inQuote && WHITESPACE_PATTERN.test(char))) {
+      if (start >= 0)
+        tokens.push({ start, end: i, text: rawQuery.slice(start, i) })
+      start = -1
+      continue
+    }
+    if (start < 0)
+      start = i
+    if (char === '"')
+      inQuote = !inQuote
+  }
+  return tokens
+}
+
+function normalizeFacetValue(source: SearchFacetSource, value: string) {
+  const normalized = normalizeQuery(value)
+  return source === 'Date' ? (normalizeDateQueryToken(normalized) ?? normalized) : normalized
+}
+
+/** True when `token` is a plain (not negated, not grouped) qualifier token for this facet. */
+function isFacetToken(token: string, source: SearchFacetSource, term: string) {
+  const fieldTerm = parseSearchFieldTerm(token)
+  if (!fieldTerm || fieldTerm.field !== FACETS[source].field)
+    return false
+  if (fieldTerm.range && fieldTerm.range !== 'within')
+    return false
+  return normalizeFacetValue(source, fieldTerm.value) === normalizeFacetValue(source, term)
+}
+
+function createFacetValue(source: SearchFacetSource, term: string, count: number, tokens: QueryToken[]): SearchFacetValue {
+  return {
+    term,
+    token: `${FACETS[source].qualifier}:${term}`,
+    count,
+    active: tokens.some(token => isFacetToken(token.text, source, term)),
+  }
+}
+
+const byCountThenTerm = (a: SearchFacetValue, b: SearchFacetValue) => b.count - a.count || a.term.localeCompare(b.term)
+
+/** Top values by count, with active values always kept so they can be switched off. */
+function pickFacetValues(values: SearchFacetValue[], limit: number) {
+  const sorted = values.toSorted(byCountThenTerm)
+  const picked = sorted.slice(0, limit)
+  for (const value of sorted.slice(limit)) {
+    if (value.active)
+      picked.push(value)
+  }
+  return picked
+}
+
+/**
+ * Counts the suggestion rows of the matched entries per source, the same rows and
+ * sources the suggestion dropdown counts. Date rows (`yyyy/MM`) roll up into years,
+ * newest first; the other sources list their most frequent values.
+ */
+export function collectSearchFacets(
+  rawQuery: string,
+  entries: SuggestionEntryLike[],
+  matchedIds: Set<number>,
+  { limit = DEFAULT_FACET_VALUE_LIMIT }: { limit?: number } = {},
+): SearchFacetGroup[] {
+  const counts = new Map<SearchFacetSource, Map<string, { term: string, count: number }>>(
+    SEARCH_FACET_SOURCES.map(source => [source, new Map()]),
+  )
+  const monthCounts = new Map<string, Map<string, number>>()
+
+  for (const entry of entries) {
+    if (!matchedIds.has(entry.id))
+      continue
+    for (const [normalizedTerm, row] of entry.suggestionRows) {
+      if (row.source === 'Field')
+        continue
+      let key = normalizedTerm
+      let term = row.term || normalizedTerm
+      if (row.source === 'Date') {
+        const year = MONTH_TERM_PATTERN.exec(term)?.[1]
+        if (!year)
+          continue
+        const months = monthCounts.get(year) ?? new Map<string, number>()
+        months.set(term, (months.get(term) ?? 0) + 1)
+        monthCounts.set(year, months)
+        key = year
+        term = year
+      }
+      const bucket = counts.get(row.source)!
+      const existing = bucket.get(key)
+      if (existing)
+        existing.count += 1
+      else
+        bucket.set(key, { term, count: 1 })
+    }
+  }
+
+  const tokens = splitQueryTokens(rawQuery)
+  return SEARCH_FACET_SOURCES.map((source) => {
+    const values = Array.from(counts.get(source)!.values(), ({ term, count }) =>
+      createFacetValue(source, term, count, tokens))
+    if (source !== 'Date')
+      return { source, values: pickFacetValues(values, limit) }
+
+    return {
+      source,
+      values: values
+        .toSorted((a, b) => b.term.localeCompare(a.term))
+        .map((year) => {
+          const months = Array.from(monthCounts.get(year.term) ?? [], ([term, count]) =>
+            createFacetValue(source, term, count, tokens))
+            .toSorted((a, b) => a.term.localeCompare(b.term))
+          return year.active || months.some(month => month.active) ? { ...year, months } : year
+        }),
+    }
+  }).filter(group => group.values.length > 0)
+}
+
+/**
+ * Adds the facet token through `applySuggestionToQuery`, or removes every plain token
+ * for the facet when it is already active.
+ */
+export function toggleSearchFacet(rawQuery: string, source: SearchFacetSource, value: SearchFacetValue) {
+  const tokens = splitQueryTokens(rawQuery)
+  const kept = tokens.filter(token => !isFacetToken(token.text, source, value.term))
+  if (kept.length !== tokens.length)
+    return kept.length > 0 ? `${kept.map(token => token.text).join(' ')} ` : ''
+
+  return applySuggestionToQuery(tokens.length > 0 ? `${rawQuery.trimEnd()} ` : '', value.token)
+}
@@ -1,17 +1,20 @@
 import type { SearchEntryLike, SearchIndexLike, SuggestionEntryLike } from './index'
 import { getCommissionData } from '#data/commissionData'
-import { flattenCommissions, parseCommissionFileName } from '#lib/commissions/index'
+import { flattenCommissions, getCommissionMetadata } from '#lib/commissions/index'
 import Fuse from 'fuse.js'
 import { describe, expect, it, vi } from 'vitest'
 import {
   applySuggestionToQuery,
   buildStrictTermIndex,
   collectSuggestions,
+  createSearchIndex,
   extractSuggestionContextQuery,
   extractSuggestionQuery,
   filterSuggestions,
   getMatchedEntryIds,
+  getSearchQueryError,
   getSuggestionTokenOperator,
+  parseSearchFieldRows,
   parseSuggestionRows,
   resolveSuggestionContextMatchedIds,
 
@@ -45,7 +48,7 @@ function buildRealFixtures() {
 
   commissions.forEach((commission, index) => {
     const id = index + 1
-    const { date, year, creator } = parseCommissionFileName(commission.fileName)
+    const { date, year, creator } = getCommissionMetadata(commission)
     const month = date.slice(4, 6)
     const dateTokens = [
       `date_y_${year}`,
@@ -231,3 +234,119 @@ describe('search utils (trimmed + real db sample)', () => {
     expect(warmMatch).toEqual(new Set([1]))
   })
 })
+
+describe('field-scoped search', () => {
+  const entries: Entry[] = [
+    {
+      id: 1,
+      searchText: 'l*cia q quiet blue hair 20230615',
+      searchFields: parseSearchFieldRows('character\tL*cia\ncreator\tQ\nkeyword\tblue hair\ndescription\tquiet\ndate\t20230615'),
+    },
+    {
+      id: 2,
+      searchText: 'kanaut nishe 七市 sketch quick 20240102',
+      searchFields: parseSearchFieldRows('character\tKanaut Nishe\ncreator\t七市\nkeyword\tsketch\ndescription\tquick\ndate\t20240102'),
+    },
+    {
+      id: 3,
+      searchText: 'lucia qiu silver 20231231',
+      searchFields: parseSearchFieldRows('character\tLucia\ncreator\tQiu\nkeyword\tsilver\ndate\t20231231'),
+    },
+  ]
+  const index = createSearchIndex(entries)
+
+  it('matches qualifiers against their own field instead of the search text blob', () => {
+    expect(getMatchedEntryIds('creator:Q', index)).toEqual(new Set([1]))
+    expect(getMatchedEntryIds('creator:七', index)).toEqual(new Set([2]))
+    expect(getMatchedEntryIds('character:"Kanaut Nishe"', index)).toEqual(new Set([2]))
+    expect(getMatchedEntryIds('kw:blue', index)).toEqual(new Set([1]))
+    expect(getMatchedEntryIds('kw:blue | !creator:q', index)).toEqual(new Set([1, 2, 3]))
+    expect(getMatchedEntryIds('!creator:q lucia', index)).toEqual(new Set([3]))
+    expect(getMatchedEntryIds('unknown:q', index)).toEqual(new Set())
+  })
+
+  it('filters by date ranges', () => {
+    expect(getMatchedEntryIds('after:2023/06 before:2024', index)).toEqual(new Set([1, 3]))
+    expect(getMatchedEntryIds('after:2023/07', index)).toEqual(new Set([2, 3]))
+    expect(getMatchedEntryIds('date:2023/12', index)).toEqual(new Set([3]))
+    expect(getMatchedEntryIds('before:nope', index)).toEqual(new Set())
+  })
+
+  it('completes field prefixes and scopes value suggestions to the field source', () => {
+    const suggestionEntries: SuggestionEntryLike[] = [
+      { id: 1, suggestionRows: parseSuggestionRows('Character\tL*cia\nCreator\tQ\nKeyword\tQuiet') },
+      { id: 2, suggestionRows: parseSuggestionRows('Character\tKanaut Nishe\nCreator\t七市') },
+    ]
+    const suggestions = collectSuggestions(suggestionEntries)
+    const filter = (suggestionQuery: string) =>
+      filterSuggestions({
+        entries: suggestionEntries,
+        suggestions,
+        suggestionQuery,
+        suggestionContextMatchedIds: new Set([1, 2]),
+      }).map(item => [item.term, item.sources])
+
+    expect(filter('cr')).toEqual([['creator:', ['Field']]])
+    expect(filter('creator:q')).toEqual([['creator:Q', ['Creator']]])
+    expect(filter('creator:')).toEqual([
+      ['creator:Q', ['Creator']],
+      ['creator:七市', ['Creator']],
+    ])
+    expect(filter('desc:q')).toEqual([])
+    expect(applySuggestionToQuery('blue cr', 'creator:')).toBe('blue creator:')
+    expect(applySuggestionToQuery('!character:kan', 'character:Kanaut Nishe')).toBe(
+      '!character:"Kanaut Nishe" ',
+    )
+  })
+})
+
+describe('grouped boolean search', () => {
+  const entries: Entry[] = [
+    { id: 1, searchText: 'blue hair sketch' },
+    { id: 2, searchText: 'silver hair' },
+    { id: 3, searchText: 'blue dress' },
+  ]
+  const index = createSearchIndex(entries)
+
+  it('applies precedence and parentheses', () => {
+    expect(getMatchedEntryIds('silver | blue dress', index)).toEqual(new Set([2, 3]))
+    expect(getMatchedEntryIds('(silver | blue) hair', index)).toEqual(new Set([1, 2]))
+    expect(getMatchedEntryIds('hair NOT (sketch OR silver)', index)).toEqual(new Set())
+    expect(getMatchedEntryIds('blue AND NOT sketch', index)).toEqual(new Set([3]))
+  })
+
+  it('shares cached results between spellings of the same query', () => {
+    expect(getMatchedEntryIds('blue OR silver', index)).toBe(getMatchedEntryIds('blue|silver', index))
+  })
+
+  it('matches the repaired query when parentheses are unbalanced', () => {
+    expect(getSearchQueryError('(silver | blue hair')).toEqual({ code: 'unclosed-group', position: 0 })
+    expect(getMatchedEntryIds('(silver | blue hair', index)).toEqual(new Set([1, 2]))
+  })
+
+  it('sends negated groups to the Fuse fallback as a logical query', () => {
+    const search = vi.fn(() => [])
+    const fuzzyIndex: SearchIndexLike<Entry> = {
+      ...index,
+      cacheKey: {},
+      fuse: { search } as unknown as Fuse<Entry>,
+    }
+
+    getMatchedEntryIds('blu !(sketch | drss)', fuzzyIndex)
+
+    expect(search).toHaveBeenCalledWith({
+      $and: [
+        { searchText: 'blu' },
+        { $and: [{ searchText: '!sketch' }, { searchText: '!drss' }] },
+      ],
+    })
+  })
+
+  it('reads suggestion operators after parentheses and keywords', () => {
+    expect(getSuggestionTokenOperator('blue | (sil')).toBe('or')
+    expect(getSuggestionTokenOperator('blue (sil')).toBe('and')
+    expect(getSuggestionTokenOperator('blue OR sil')).toBe('or')
+    expect(extractSuggestionContextQuery('blue NOT sk')).toBe('blue')
+    expect(applySuggestionToQuery('(blue | sil', 'silver')).toBe('(blue | silver ')
+  })
+})
@@ -1,8 +1,54 @@
 import type Fuse from 'fuse.js'
-import { normalizeDateQueryToken, parseDateSearchInput } from '#lib/date/search'
+import type { Expression, FuseIndexRecords } from 'fuse.js'
+import type { SearchQueryError, SearchQueryNode } from './queryParser'
+import { getDateSearchRange, normalizeDateQueryToken, parseDateSearchInput } from '#lib/date/search'
 import { getBaseFileName } from '#lib/utils/strings'
+import { formatSearchQuery, mapSearchQueryTerms, parseSearchQuery, someSearchQueryTerm } from './queryParser'
+import { foldSearchText, hasCjkText } from './textFolding'
 
-export type SuggestionSource = 'Character' | 'Creator' | 'Keyword' | 'Date'
+export type SuggestionSource = 'Character' | 'Creator' | 'Keyword' | 'Date' | 'Field'
+
+/** `parts` is display-only: the part count of a multi-part commission. */
+export type SearchField = 'character' | 'creator' | 'keyword' | 'description' | 'date' | 'parts'
+
+export type SearchFieldValues = Partial<Record<SearchField, string[]>>
+
+export type SearchFieldTermIndex = Map<SearchField, Map<string, Set<number>>>
+
+/** `FuseIndex#toJSON()` output, restored with `Fuse.parseIndex`. */
+export interface SerializedFuseIndex {
+  keys: ReadonlyArray<string>
+  records: FuseIndexRecords
+}
+
+type SearchFieldRange = 'within' | 'after' | 'before'
+
+interface SearchFieldQualifier {
+  field: SearchField
+  range?: SearchFieldRange
+  suggestionSource: SuggestionSource | null
+}
+
+/**
+ * Qualifiers accepted before a colon, e.g. `creator:七市` or `after:2023/06`.
+ * Date qualifiers compare against the commission date instead of matching terms.
+ */
+const SEARCH_FIELD_QUALIFIERS = new Map<string, SearchFieldQualifier>([
+  ['character', { field: 'character', suggestionSource: 'Character' }],
+  ['char', { field: 'character', suggestionSource: 'Character' }],
+  ['creator', { field: 'creator', suggestionSource: 'Creator' }],
+  ['artist', { field: 'creator', suggestionSource: 'Creator' }],
+  ['kw', { field: 'keyword', suggestionSource: 'Keyword' }],
+  ['keyword', { field: 'keyword', suggestionSource: 'Keyword' }],
+  ['desc', { field: 'description', suggestionSource: null }],
+  ['date', { field: 'date', range: 'within', suggestionSource: 'Date' }],
+  ['after', { field: 'date', range: 'after', suggestionSource: 'Date' }],
+  ['before', { field: 'date', range: 'before', suggestionSource: 'Date' }],
+])
+const SEARCH_FIELDS = new Set<SearchField>(['character', 'creator', 'keyword', 'description', 'date', 'parts'])
+
+/** Qualifiers offered by the suggestion dropdown, in display order. */
+export const SEARCH_FIELD_COMPLETIONS = ['character', 'creator', 'kw', 'desc', 'date', 'after', 'before'] as const
 
 export interface Suggestion {
   term: string
@@ -19,6 +65,7 @@ export type SuggestionTokenOperator = 'exclude' | 'or' | 'and' | null
 export interface SearchEntryLike {
   id: number
   searchText: string
+  searchFields?: SearchFieldValues
 }
 
 export type SuggestionRows = Map<string, { source: SuggestionSource, term: string }>
@@ -33,6 +80,9 @@ export interface SearchIndexLike<T extends SearchEntryLike> {
   entries: T[]
   allIds: Set<number>
   strictTermIndex?: Map<string, Set<number>>
+  fieldTermIndex?: SearchFieldTermIndex
+  /** Prebuilt Fuse index shipped with the entries, used instead of re-indexing on hydrate. */
+  fuseIndex?: SerializedFuseIndex
   fuse: Fuse<T> | null
 }
 
@@ -53,9 +103,21 @@ interface SuggestionMatch {
   monthSortKey: number | null
 }
 
-interface ParsedFuseQuery {
-  normalizedRawQuery: string
-  tokens: string[]
+interface ParsedQuery {
+  /** Tree with lower-cased, date-normalized terms. */
+  ast: SearchQueryNode | null
+  /** Canonical form of `ast`, shared by every spelling of the same query. */
+  cacheKey: string
+  hasFieldTerm: boolean
+  error: SearchQueryError | null
+}
+
+interface ParsedFieldTerm {
+  qualifier: string
+  value: string
+  field: SearchField
+  range?: SearchFieldRange
+  suggestionSource: SuggestionSource | null
 }
 
 interface ParsedSuggestionInputState {
@@ -65,18 +127,19 @@ interface ParsedSuggestionInputState {
   suggestionIsExclusion: boolean
 }
 
-const normalize = (s: string) => s.trim().toLowerCase()
+const normalize = (s: string) => foldSearchText(s.trim())
 const ESCAPE_REGEXP_PATTERN = /[.*+?^${}()|[\]\\]/g
 const SUGGESTION_MATCH_TOKEN_PATTERN = /[\s"'`]+/g
-const TOKENIZE_QUERY_PATTERN = /"[^"]*"|\S+/g
-const TRAILING_TOKEN_SEPARATOR_PATTERN = /[\s|!]$/
-const TRAILING_WHITESPACE_PATTERN = /\s+$/g
+const TRAILING_TOKEN_SEPARATOR_PATTERN = /[\s|!()]$/
+const TRAILING_GROUP_OPEN_PATTERN = /[\s(]+$/
+const TRAILING_WORD_PATTERN = /\S+$/
+const OPEN_SUGGESTION_TOKEN_END_PATTERN = /[\s|!:]$/
 const ENDS_WITH_WHITESPACE_PATTERN = /\s+$/
 const SEARCH_TEXT_TERM_PATTERN = /[a-z0-9_]+/g
-const NORMALIZE_PIPE_PATTERN = /\s*\|\s*/g
-const NORMALIZE_NEGATION_PATTERN = /\s*!\s*/g
-const NORMALIZE_MULTI_SPACE_PATTERN = /\s+/g
-const QUOTED_TOKEN_BOUNDARY_PATTERN = /("[^"]*")(?=[^\s|!])/g
+const FIELD_TERM_PATTERN = /^([a-z]+):(.*)$/i
+const FIELD_VALUE_WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+const FIELD_COMPLETION_MIN_LENGTH = 2
+const QUOTED_TOKEN_BOUNDARY_PATTERN = /("[^"]*")(?=[^\s|!)])/g
 const HAS_DIGIT_PATTERN = /\d/
 const LIKELY_DATE_QUERY_PATTERN = /^[\d./-]+$/
 const escapeRegExp = (s: string) => s.replace(ESCAPE_REGEXP_PATTERN, '\\$&')
@@ -85,10 +148,12 @@ const indexedTermPattern = /^[a-z0-9_]+$/
 const MAX_QUERY_CACHE_SIZE = 300
 const MAX_PARSED_QUERY_CACHE_SIZE = 300
 const MAX_EXCLUDED_SUGGESTION_TERMS_CACHE_SIZE = 200
+/** Keys indexed by Fuse; prebuilt indexes must be created with the same keys. */
+export const SEARCH_FUSE_KEYS = ['searchText']
 const BASE_SEARCH_FUSE_OPTIONS = {
   threshold: 0.33,
   ignoreLocation: true,
-  includeScore: false,
+  includeScore: true,
   minMatchCharLength: 1,
   useExtendedSearch: true,
 } as const
@@ -97,9 +162,10 @@ const EMPTY_IDS = new Set<number>()
 const EMPTY_STRING_SET = new Set<string>()
 const searchIndexCache = new WeakMap<SearchEntryLike[], SearchIndexLike<SearchEntryLike>>()
 const matchedIdsCache = new WeakMap<object, Map<string, Set<number>>>()
+const fuseScoresByMatchedIds = new WeakMap<Set<number>, Map<number, number>>()
 const strictTermMatchesCache = new WeakMap<object, Map<string, Set<number>>>()
 const preparedSuggestionsCache = new WeakMap<Suggestion[], PreparedSuggestion[]>()
-const parsedFuseQueryCache = new Map<string, ParsedFuseQuery>()
+const parsedQueryCache = new Map<string, ParsedQuery>()
 const excludedSuggestionTermsCache = new Map<string, Set<string>>()
 const parsedSuggestionInputStateCache = new Map<string, ParsedSuggestionInputState>()
 const suggestionEntriesByIdCache = new WeakMap<
@@ -187,14 +253,68 @@ function getStrictTermMatches<T extends SearchEntryLike>(index: SearchIndexLike<
     return EMPTY_IDS
   }
 
-  const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i')
+  // CJK text has no word breaks (and `\b` is ASCII-only), so it matches as a substring.
+  const pattern = hasCjkText(term) ? null : new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i')
   const matches = new Set(
-    index.entries.filter(entry => pattern.test(entry.searchText)).map(entry => entry.id),
+    index.entries
+      .filter(entry => pattern ? pattern.test(entry.searchText) : entry.searchText.includes(term))
+      .map(entry => entry.id),
   )
   termCache.set(term, matches)
   return matches
 }
 
+function getDateRangeMatches(dateIndex: Map<string, Set<number>>, range: SearchFieldRange, value: string) {
+  const parts = parseDateSearchInput(value)
+  if (!parts)
+    return EMPTY_IDS
+
+  const { start, end } = getDateSearchRange(parts)
+  const matches = new Set<number>()
+  for (const [date, ids] of dateIndex) {
+    const isMatch = range === 'after'
+      ? date >= start
+      : range === 'before'
+        ? date < start
+        : date >= start && date < end
+    if (!isMatch)
+      continue
+    for (const id of ids) matches.add(id)
+  }
+  return matches
+}
+
+function getFieldTermMatches<T extends SearchEntryLike>(index: SearchIndexLike<T>, term: ParsedFieldTerm): Set<number> {
+  const termCache = getStrictTermCache(index)
+  const cacheKey = `${term.qualifier}\t${term.value}`
+  const cached = termCache.get(cacheKey)
+  if (cached)
+    return cached
+
+  const fieldIndex = index.fieldTermIndex?.get(term.field)
+  const value = normalize(term.value)
+  let matches = EMPTY_IDS
+  if (fieldIndex && value) {
+    if (term.range) {
+      matches = getDateRangeMatches(fieldIndex, term.range, value)
+    }
+    else {
+      // Exact values and whole words win; otherwise fall back to substrings of this field only.
+      matches = fieldIndex.get(value) ?? new Set<number>()
+      if (matches.size === 0) {
+        for (const [fieldTerm, ids] of fieldIndex) {
+          if (!fieldTerm.includes(value))
+            continue
+          for (const id of ids) matches.add(id)
+        }
+      }
+    }
+  }
+
+  termCache.set(cacheKey, matches)
+  return matches
+}
+
 function intersectInPlace(source: Set<number>, filter: Set<number>) {
   for (const id of source) {
     if (!filter.has(id))
@@ -208,14 +328,6 @@ function excludeInPlace(source: Set<number>, excluded: Set<number>) {
   }
 }
 
-function includeInverseInPlace(source: Set<number>, allIds: Set<number>, excluded: Set<number>) {
-  for (const id of allIds) {
-    if (!excluded.has(id))
-      source.add(id)
-  }
-}
-
-const tokenizeQuery = (query: string) => query.match(TOKENIZE_QUERY_PATTERN) ?? []
 function getSuggestionTokenTailStart(rawQuery: string) {
   let inQuote = false
   let tokenStart: number | null = null
@@ -223,7 +335,7 @@ function getSuggestionTokenTailStart(rawQuery: string) {
   for (let i = 0; i < rawQuery.length; i += 1) {
     const char = rawQuery[i]
 
-    if (!inQuote && (char === ' ' || char === '|' || char === '!')) {
+    if (!inQuote && (char === ' ' || char === '|' || char === '!' || char === '(' || char === ')')) {
       tokenStart = null
       continue
     }
@@ -237,18 +349,40 @@ function getSuggestionTokenTailStart(rawQuery: string) {
   return tokenStart
 }
 
-function getParsedFuseQuery(rawQuery: string): ParsedFuseQuery {
-  const cached = parsedFuseQueryCache.get(rawQuery)
+function normalizeQueryTerm(term: Extract<SearchQueryNode, { type: 'term' }>) {
+  const value = normalize(term.value)
+  return { ...term, value: normalizeDateQueryToken(value) ?? value }
+}
+
+function getParsedQuery(rawQuery: string): ParsedQuery {
+  const cached = parsedQueryCache.get(rawQuery)
   if (cached)
     return cached
 
-  const normalizedRawQuery = toFuseOperatorQuery(rawQuery)
+  const { ast: rawAst, error } = parseSearchQuery(rawQuery)
+  const ast = mapSearchQueryTerms(rawAst, normalizeQueryTerm)
   const parsed = {
-    normalizedRawQuery,
-    tokens: normalizedRawQuery ? tokenizeQuery(normalizedRawQuery) : [],
+    ast,
+    cacheKey: formatSearchQuery(ast),
+    hasFieldTerm: someSearchQueryTerm(ast, term => Boolean(parseSearchFieldTerm(term.value))),
+    error,
   }
 
-  return setLruCacheEntry(parsedFuseQueryCache, rawQuery, parsed, MAX_PARSED_QUERY_CACHE_SIZE)
+  return setLruCacheEntry(parsedQueryCache, rawQuery, parsed, MAX_PARSED_QUERY_CACHE_SIZE)
+}
+
+/**
+ * Normalized query tree, as evaluated by `getMatchedEntryIds`.
+ */
+export function getSearchQueryAst(rawQuery: string) {
+  return getParsedQuery(rawQuery).ast
+}
+
+/**
+ * Syntax problem in the query, if any. Matching still runs on the repaired query.
+ */
+export function getSearchQueryError(rawQuery: string) {
+  return getParsedQuery(rawQuery).error
 }
 
 export function parseSuggestionInputState(rawQuery: string): ParsedSuggestionInputState {
@@ -316,30 +450,34 @@ export function parseSuggestionInputState(rawQuery: string): ParsedSuggestionInp
   let suggestionOperator: SuggestionTokenOperator = null
 
   if (tokenBody) {
-    const trimmedPrefix = prefix.replace(TRAILING_WHITESPACE_PATTERN, '')
-    const prefixEndsWithNegation = trimmedPrefix.at(-1) === '!'
+    // An opening parenthesis does not change which operator joins the token.
+    const trimmedPrefix = prefix.replace(TRAILING_GROUP_OPEN_PATTERN, '')
+    const lastPrefixWord = trimmedPrefix.match(TRAILING_WORD_PATTERN)?.[0]
+    const prefixEndsWithNegation = trimmedPrefix.at(-1) === '!' || lastPrefixWord === 'NOT'
 
     if (hasNegationPrefix || prefixEndsWithNegation) {
       suggestionOperator = 'exclude'
     }
     else {
-      if (trimmedPrefix.at(-1) === '|') {
+      if (trimmedPrefix.at(-1) === '|' || lastPrefixWord === 'OR') {
         suggestionOperator = 'or'
       }
-      else if (!hasClosedQuote && ENDS_WITH_WHITESPACE_PATTERN.test(prefix) && trimmedPrefix.length > 0) {
+      else if (
+        !hasClosedQuote
+        && (ENDS_WITH_WHITESPACE_PATTERN.test(prefix) || prefix.endsWith('(') || prefix.endsWith(')'))
+        && trimmedPrefix.length > 0
+      ) {
         suggestionOperator = 'and'
       }
     }
   }
 
   let suggestionContextQuery = prefix.trimEnd()
-  if (
-    tokenBody
-    && suggestionOperator === 'exclude'
-    && !hasNegationPrefix
-    && suggestionContextQuery.endsWith('!')
-  ) {
-    suggestionContextQuery = suggestionContextQuery.slice(0, -1).trimEnd()
+  if (tokenBody && suggestionOperator === 'exclude' && !hasNegationPrefix) {
+    if (suggestionContextQuery.endsWith('!'))
+      suggestionContextQuery = suggestionContextQuery.slice(0, -1).trimEnd()
+    else if (suggestionContextQuery.match(TRAILING_WORD_PATTERN)?.[0] === 'NOT')
+      suggestionContextQuery = suggestionContextQuery.slice(0, -3).trimEnd()
   }
 
   return setLruCacheEntry(
@@ -355,64 +493,53 @@ export function parseSuggestionInputState(rawQuery: string): ParsedSuggestionInp
   )
 }
 
-function parseQueryTermToken(token: string) {
-  if (!token || token === '|')
-    return null
-
-  const isNegated = token.startsWith('!')
-  const rawTerm = trimWrappingQuotes(isNegated ? token.slice(1) : token)
-  if (!rawTerm)
-    return null
-
-  return { isNegated, rawTerm }
-}
-
 function collectExcludedSuggestionTermsUncached(rawQuery: string) {
-  if (!rawQuery.trim())
-    return new Set<string>()
-
   const excludedTerms = new Set<string>()
-  const tokens = tokenizeQuery(normalizeQuotedTokenBoundary(rawQuery))
-  let segmentTerms: string[] = []
+  const { ast } = parseSearchQuery(normalizeQuotedTokenBoundary(rawQuery))
+  const getTermValue = (node: SearchQueryNode) => {
+    const term = node.type === 'not' ? node.operand : node
+    if (term.type !== 'term')
+      return null
+    return parseSearchFieldTerm(term.value)?.value || term.value
+  }
+  const addTerm = (term: string) => {
+    excludedTerms.add(normalizeSuggestionMatchToken(term))
+    const normalizedDateTerm = normalizeDateQueryToken(term)
+    if (normalizedDateTerm)
+      excludedTerms.add(normalizeSuggestionMatchToken(normalizedDateTerm))
+  }
 
-  const flushSegmentTerms = () => {
-    if (segmentTerms.length <= 1) {
-      segmentTerms = []
+  const visit = (node: SearchQueryNode) => {
+    if (node.type === 'term') {
+      const term = getTermValue(node)
+      if (term)
+        addTerm(term)
+      return
+    }
+    if (node.type === 'not') {
+      visit(node.operand)
       return
     }
+    node.operands.forEach(visit)
+    if (node.type === 'or')
+      return
 
+    // Adjacent terms may have been typed as the words of one multi-word suggestion.
+    const segmentTerms = node.operands.map(getTermValue)
     for (let start = 0; start < segmentTerms.length - 1; start += 1) {
       let phrase = segmentTerms[start]
-      for (let end = start + 1; end < segmentTerms.length; end += 1) {
-        phrase = `${phrase} ${segmentTerms[end]}`
+      for (let end = start + 1; end < segmentTerms.length && phrase; end += 1) {
+        const nextTerm = segmentTerms[end]
+        if (!nextTerm)
+          break
+        phrase = `${phrase} ${nextTerm}`
         excludedTerms.add(normalizeSuggestionMatchToken(phrase))
       }
     }
-
-    segmentTerms = []
   }
 
-  for (const token of tokens) {
-    if (token === '|') {
-      flushSegmentTerms()
-      continue
-    }
-
-    const parsedToken = parseQueryTermToken(token)
-    if (!parsedToken)
-      continue
-    const { rawTerm } = parsedToken
-
-    segmentTerms.push(rawTerm)
-    excludedTerms.add(normalizeSuggestionMatchToken(rawTerm))
-
-    const normalizedDateTerm = normalizeDateQueryToken(rawTerm)
-    if (normalizedDateTerm) {
-      excludedTerms.add(normalizeSuggestionMatchToken(normalizedDateTerm))
-    }
-  }
-
-  flushSegmentTerms()
+  if (ast)
+    visit(ast)
   return excludedTerms
 }
 
@@ -432,47 +559,59 @@ function collectExcludedSuggestionTerms(rawQuery: string) {
   )
 }
 
-function evaluateStrictQuery<T extends SearchEntryLike>(index: SearchIndexLike<T>, tokens: string[]) {
-  let current: Set<number> | null = null
-  let hasTerm = false
-  let pendingOperator: 'and' | 'or' = 'and'
-
-  for (const token of tokens) {
-    if (token === '|') {
-      pendingOperator = 'or'
-      continue
+function evaluateQueryNode<T extends SearchEntryLike>(index: SearchIndexLike<T>, node: SearchQueryNode): Set<number> {
+  switch (node.type) {
+    case 'term': {
+      const fieldTerm = parseSearchFieldTerm(node.value)
+      return fieldTerm
+        ? getFieldTermMatches(index, fieldTerm)
+        : getStrictTermMatches(index, node.value)
     }
-
-    const parsedToken = parseQueryTermToken(token)
-    if (!parsedToken)
-      continue
-    const { isNegated, rawTerm } = parsedToken
-
-    hasTerm = true
-    const termMatches = getStrictTermMatches(index, rawTerm)
-    if (!current) {
-      current = isNegated ? new Set(index.allIds) : new Set(termMatches)
-      if (isNegated)
-        excludeInPlace(current, termMatches)
+    case 'not': {
+      const matches = new Set(index.allIds)
+      excludeInPlace(matches, evaluateQueryNode(index, node.operand))
+      return matches
     }
-    else if (pendingOperator === 'or') {
-      if (isNegated) {
-        includeInverseInPlace(current, index.allIds, termMatches)
-      }
-      else {
-        for (const id of termMatches) current.add(id)
+    case 'and': {
+      const [first, ...rest] = node.operands
+      const matches = new Set(evaluateQueryNode(index, first))
+      for (const operand of rest) {
+        if (matches.size === 0)
+          break
+        intersectInPlace(matches, evaluateQueryNode(index, operand))
       }
+      return matches
     }
-    else {
-      if (isNegated)
-        excludeInPlace(current, termMatches)
-      else intersectInPlace(current, termMatches)
+    case 'or': {
+      const matches = new Set<number>()
+      for (const operand of node.operands) {
+        for (const id of evaluateQueryNode(index, operand)) matches.add(id)
+      }
+      return matches
     }
-
-    pendingOperator = 'and'
   }
+}
+
+function toFuseLeafPattern(term: Extract<SearchQueryNode, { type: 'term' }>) {
+  return term.quoted || term.value.includes(' ') ? `"${term.value}"` : term.value
+}
 
-  return hasTerm ? current : null
+/**
+ * Fuse logical query for the fuzzy fallback. Fuse only negates single patterns
+ * (`!term`), so negated groups are pushed down to the terms with De Morgan's laws.
+ */
+function toFuseExpression(node: SearchQueryNode, negated = false): Expression {
+  switch (node.type) {
+    case 'term':
+      return { searchText: `${negated ? '!' : ''}${toFuseLeafPattern(node)}` }
+    case 'not':
+      return toFuseExpression(node.operand, !negated)
+    case 'and':
+    case 'or': {
+      const operands = node.operands.map(operand => toFuseExpression(operand, negated))
+      return (node.type === 'and') !== negated ? { $and: operands } : { $or: operands }
+    }
+  }
 }
 
 function getSuggestionEntriesById(entries: SuggestionEntryLike[]) {
@@ -559,6 +698,78 @@ export function parseSuggestionRows(suggestText: string): SuggestionRows {
   return rows
 }
 
+/**
+ * Parses `field\tvalue` rows produced by `buildCommissionSearchMetadata`.
+ */
+export function parseSearchFieldRows(fieldText: string): SearchFieldValues {
+  const fields: SearchFieldValues = {}
+  for (const rawRow of fieldText.split('\n')) {
+    const [rawField = '', ...rest] = rawRow.split('\t')
+    const field = rawField.trim() as SearchField
+    const value = rest.join('\t').trim()
+    if (!SEARCH_FIELDS.has(field) || !value)
+      continue
+    const values = fields[field] ?? []
+    values.push(value)
+    fields[field] = values
+  }
+  return fields
+}
+
+export function parseSearchFieldTerm(rawTerm: string): ParsedFieldTerm | null {
+  const match = rawTerm.match(FIELD_TERM_PATTERN)
+  if (!match)
+    return null
+  const qualifier = match[1].toLowerCase()
+  const definition = SEARCH_FIELD_QUALIFIERS.get(qualifier)
+  if (!definition)
+    return null
+
+  return {
+    qualifier,
+    value: trimWrappingQuotes(match[2].trim()).trim(),
+    ...definition,
+  }
+}
+
+/**
+ * Maps every normalized field value, and each word inside it, to the entries carrying it.
+ */
+export function buildFieldTermIndex<T extends SearchEntryLike>(entries: T[]): SearchFieldTermIndex {
+  const index: SearchFieldTermIndex = new Map()
+
+  for (const entry of entries) {
+    if (!entry.searchFields)
+      continue
+
+    for (const [field, values = []] of Object.entries(entry.searchFields) as Array<[SearchField, string[] | undefined]>) {
+      let termIndex = index.get(field)
+      if (!termIndex) {
+        termIndex = new Map()
+        index.set(field, termIndex)
+      }
+
+      for (const value of values) {
+        const normalizedValue = normalize(value)
+        const terms = new Set([normalizedValue, ...(normalizedValue.match(FIELD_VALUE_WORD_PATTERN) ?? [])])
+        for (const term of terms) {
+          if (!term)
+            continue
+          const ids = termIndex.get(term)
+          if (ids) {
+            ids.add(entry.id)
+          }
+          else {
+            termIndex.set(term, new Set([entry.id]))
+          }
+        }
+      }
+    }
+  }
+
+  return index
+}
+
 export function buildStrictTermIndex<T extends SearchEntryLike>(entries: T[]) {
   const index = new Map<string, Set<number>>()
 
@@ -590,16 +801,27 @@ async function loadFuseModule() {
   return fuseModulePromise
 }
 
-export async function createSearchFuse<T extends SearchEntryLike>(entries: T[]) {
+export async function createSearchFuse<T extends SearchEntryLike>(entries: T[], fuseIndex?: SerializedFuseIndex) {
   const fuseModule = await loadFuseModule()
   const FuseConstructor = fuseModule.default
-  return new FuseConstructor(entries, {
-    keys: ['searchText'],
-    ...BASE_SEARCH_FUSE_OPTIONS,
-  })
+  return new FuseConstructor(
+    entries,
+    {
+      keys: SEARCH_FUSE_KEYS,
+      ...BASE_SEARCH_FUSE_OPTIONS,
+    },
+    fuseIndex ? FuseConstructor.parseIndex<T>(fuseIndex) : undefined,
+  )
 }
 
-export function createSearchIndex<T extends SearchEntryLike>(entries: T[]): SearchIndexLike<T> {
+/**
+ * Builds the term indexes for `entries`, or adopts the ones in `prebuilt` when the
+ * entries were unpacked from a pipeline-built index.
+ */
+export function createSearchIndex<T extends SearchEntryLike>(
+  entries: T[],
+  prebuilt?: Pick<SearchIndexLike<T>, 'strictTermIndex' | 'fieldTermIndex' | 'fuseIndex'>,
+): SearchIndexLike<T> {
   const cached = searchIndexCache.get(entries)
   if (cached)
     return cached as SearchIndexLike<T>
@@ -608,7 +830,9 @@ export function createSearchIndex<T extends SearchEntryLike>(entries: T[]): Sear
     cacheKey: entries,
     entries,
     allIds: new Set(entries.map(entry => entry.id)),
-    strictTermIndex: buildStrictTermIndex(entries),
+    strictTermIndex: prebuilt?.strictTermIndex ?? buildStrictTermIndex(entries),
+    fieldTermIndex: prebuilt?.fieldTermIndex ?? buildFieldTermIndex(entries),
+    fuseIndex: prebuilt?.fuseIndex,
     fuse: null,
   }
 
@@ -624,7 +848,7 @@ export async function hydrateSearchIndexFuse<
     return index
   return {
     ...index,
-    fuse: await createSearchFuse(index.entries),
+    fuse: await createSearchFuse(index.entries, index.fuseIndex),
   } as I
 }
 
@@ -671,27 +895,6 @@ function trimWrappingQuotes(value: string) {
   return value.startsWith('"') && value.endsWith('"') && value.length >= 2 ? value.slice(1, -1) : value
 }
 
-function normalizeDateTokenInQuery(token: string) {
-  const parsedToken = parseQueryTermToken(token)
-  if (!parsedToken)
-    return token
-
-  const normalizedDate = normalizeDateQueryToken(parsedToken.rawTerm)
-  if (!normalizedDate)
-    return token
-
-  return `${parsedToken.isNegated ? '!' : ''}${normalizedDate}`
-}
-
-function toFuseOperatorQuery(rawQuery: string) {
-  const normalizedQuery = normalize(rawQuery)
-    .replace(NORMALIZE_PIPE_PATTERN, ' | ')
-    .replace(NORMALIZE_NEGATION_PATTERN, ' !')
-    .replace(NORMALIZE_MULTI_SPACE_PATTERN, ' ')
-  const tokens = normalizedQuery.match(TOKENIZE_QUERY_PATTERN) ?? []
-  return tokens.map(normalizeDateTokenInQuery).join(' ')
-}
-
 export function normalizeSuggestionTerm(term: string) {
   return getBaseFileName(term).trim()
 }
@@ -705,7 +908,12 @@ export function applySuggestionToQuery(rawQuery: string, suggestion: string) {
     return rawQuery
 
   let suggestionToken = suggestion
-  if (suggestionToken.includes(' ') && !suggestionToken.startsWith('"')) {
+  const fieldTerm = parseSearchFieldTerm(suggestion)
+  if (fieldTerm) {
+    if (fieldTerm.value.includes(' '))
+      suggestionToken = `${fieldTerm.qualifier}:"${fieldTerm.value}"`
+  }
+  else if (suggestionToken.includes(' ') && !suggestionToken.startsWith('"')) {
     suggestionToken = `"${suggestionToken}"`
   }
 
@@ -714,7 +922,7 @@ export function applySuggestionToQuery(rawQuery: string, suggestion: string) {
     trimWrappingQuotes(suggestionToken),
   )
   if (normalizedRawToken && normalizedSuggestionToken.startsWith(normalizedRawToken)) {
-    return TRAILING_TOKEN_SEPARATOR_PATTERN.test(suggestionToken)
+    return OPEN_SUGGESTION_TOKEN_END_PATTERN.test(suggestionToken)
       ? suggestionToken
       : `${suggestionToken} `
   }
@@ -723,7 +931,8 @@ export function applySuggestionToQuery(rawQuery: string, suggestion: string) {
   const nextQuery = tokenTailStart === null
     ? (rawQuery ? `${rawQuery}${suggestionToken}` : suggestionToken)
     : `${rawQuery.slice(0, tokenTailStart)}${suggestionToken}`
-  return TRAILING_TOKEN_SEPARATOR_PATTERN.test(nextQuery) ? nextQuery : `${nextQuery} `
+  // A completed `creator:` prefix stays open so the value can be typed right after it.
+  return OPEN_SUGGESTION_TOKEN_END_PATTERN.test(nextQuery) ? nextQuery : `${nextQuery} `
 }
 
 export function extractSuggestionQuery(rawQuery: string) {
@@ -744,32 +953,37 @@ export function extractSuggestionContextQuery(rawQuery: string) {
 
 export function getMatchedEntryIds<T extends SearchEntryLike>(rawQuery: string, index: SearchIndexLike<T>) {
   const { entries, allIds, fuse } = index
-  const { normalizedRawQuery, tokens } = getParsedFuseQuery(rawQuery)
+  const { ast, cacheKey, hasFieldTerm } = getParsedQuery(rawQuery)
   if (!entries.length)
     return EMPTY_IDS
-  if (!normalizedRawQuery)
+  if (!ast)
     return allIds
 
   const queryCache = getQueryCache(index)
-  const cached = queryCache.get(normalizedRawQuery)
+  const cached = queryCache.get(cacheKey)
   if (cached)
     return cached
 
-  const strictMatchIds = tokens.length ? evaluateStrictQuery(index, tokens) : null
-  if (!fuse) {
-    return setLruCacheEntry(
-      queryCache,
-      normalizedRawQuery,
-      strictMatchIds ?? allIds,
-      MAX_QUERY_CACHE_SIZE,
-    )
-  }
+  const strictMatchIds = evaluateQueryNode(index, ast)
+  // Field-qualified queries are answered by the field indexes alone; fuzzy matching the
+  // whole blob would let `creator:q` match any description containing a "q".
+  if (!fuse || hasFieldTerm)
+    return setLruCacheEntry(queryCache, cacheKey, strictMatchIds, MAX_QUERY_CACHE_SIZE)
+
+  if (strictMatchIds.size > 0)
+    return setLruCacheEntry(queryCache, cacheKey, strictMatchIds, MAX_QUERY_CACHE_SIZE)
+
+  const fuseResults = fuse.search(toFuseExpression(ast))
+  const matched = new Set(fuseResults.map(result => result.item.id))
+  fuseScoresByMatchedIds.set(matched, new Map(fuseResults.map(result => [result.item.id, result.score ?? 0])))
+  return setLruCacheEntry(queryCache, cacheKey, matched, MAX_QUERY_CACHE_SIZE)
+}
 
-  const matched
-    = strictMatchIds && strictMatchIds.size > 0
-      ? strictMatchIds
-      : new Set(fuse.search(normalizedRawQuery).map(result => result.item.id))
-  return setLruCacheEntry(queryCache, normalizedRawQuery, matched, MAX_QUERY_CACHE_SIZE)
+/**
+ * Fuse scores (0 is a perfect match) when `matchedIds` came from the fuzzy fallback.
+ */
+export function getFuseMatchScores(matchedIds: Set<number>) {
+  return fuseScoresByMatchedIds.get(matchedIds) ?? null
 }
 
 export function resolveSuggestionContextMatchedIds<T extends SearchEntryLike>({
@@ -820,7 +1034,7 @@ export function collectSuggestions(entries: SuggestionEntryLike[]) {
     }
   }
 
-  const sourceOrder = { Character: 0, Date: 1, Keyword: 2, Creator: 3 } satisfies Record<
+  const sourceOrder = { Character: 0, Date: 1, Keyword: 2, Creator: 3, Field: 4 } satisfies Record<
     SuggestionSource,
     number
   >
@@ -866,6 +1080,17 @@ function insertTopSuggestionMatch(topMatches: SuggestionMatch[], candidate: Sugg
     topMatches.pop()
 }
 
+function getFieldCompletionSuggestions(suggestionQuery: string, limit: number): FilteredSuggestion[] {
+  const query = normalize(suggestionQuery)
+  if (query.length < FIELD_COMPLETION_MIN_LENGTH || query.includes(':'))
+    return []
+
+  return SEARCH_FIELD_COMPLETIONS
+    .filter(qualifier => qualifier.startsWith(query))
+    .slice(0, limit)
+    .map(qualifier => ({ term: `${qualifier}:`, count: 0, sources: ['Field'], matchedCount: 0 }))
+}
+
 export function filterSuggestions({
   entries,
   suggestions,
@@ -882,17 +1107,26 @@ export function filterSuggestions({
   suggestionContextMatchedIds: Set<number>
   isExclusionSuggestion?: boolean
   limit?: number
-}) {
+}): FilteredSuggestion[] {
   if (limit <= 0)
     return []
   if (!suggestionQuery)
     return []
-  const normalizedSuggestionQuery = normalizeSuggestionMatchToken(suggestionQuery)
-  if (!normalizedSuggestionQuery)
+  const fieldTerm = parseSearchFieldTerm(suggestionQuery)
+  if (fieldTerm && !fieldTerm.suggestionSource)
     return []
+  const fieldCompletions = fieldTerm ? [] : getFieldCompletionSuggestions(suggestionQuery, limit)
+  const matchQuery = fieldTerm ? fieldTerm.value : suggestionQuery
+  const normalizedSuggestionQuery = normalizeSuggestionMatchToken(matchQuery)
+  if (!normalizedSuggestionQuery && !fieldTerm)
+    return fieldCompletions
   if (suggestions.length === 0)
-    return []
-  const showDateSuggestions = isLikelyDateNumericQuery(suggestionQuery)
+    return fieldCompletions
+  const requiredSource = fieldTerm?.suggestionSource ?? null
+  const showDateSuggestions = requiredSource === 'Date' || isLikelyDateNumericQuery(matchQuery)
+  const matchLimit = limit - fieldCompletions.length
+  if (matchLimit <= 0)
+    return fieldCompletions
 
   const useGlobalCounts = suggestionContextMatchedIds.size === entries.length
   const contextTermCounts = useGlobalCounts
@@ -913,12 +1147,17 @@ export function filterSuggestions({
     } = preparedSuggestion
     if (isDateSuggestion && !showDateSuggestions)
       continue
+    if (requiredSource && !suggestion.sources.includes(requiredSource))
+      continue
     if (excludedSuggestionTerms.has(normalizedMatchToken))
       continue
 
-    const matchType = hasMaskWildcard
-      ? matchesMaskedSuggestion(normalizedMatchToken, normalizedSuggestionQuery)
-      : matchesPlainSuggestion(normalizedMatchToken, normalizedSuggestionQuery)
+    // A bare `creator:` lists every value of that field.
+    const matchType = !normalizedSuggestionQuery
+      ? 'startsWith'
+      : hasMaskWildcard
+        ? matchesMaskedSuggestion(normalizedMatchToken, normalizedSuggestionQuery)
+        : matchesPlainSuggestion(normalizedMatchToken, normalizedSuggestionQuery)
     if (!matchType)
       continue
 
@@ -931,16 +1170,22 @@ export function filterSuggestions({
     insertTopSuggestionMatch(
       topMatches,
       { suggestion, contextCount, rank, isDateSuggestion, monthSortKey },
-      limit,
+      matchLimit,
     )
   }
 
-  return topMatches.map(item => ({
-    ...item.suggestion,
-    matchedCount: isExclusionSuggestion
-      ? Math.max(0, suggestionContextMatchedIds.size - item.contextCount)
-      : item.contextCount,
-  }))
+  return [
+    ...fieldCompletions,
+    ...topMatches.map(item => ({
+      ...item.suggestion,
+      ...(fieldTerm && requiredSource
+        ? { term: `${fieldTerm.qualifier}:${item.suggestion.term}`, sources: [requiredSource] }
+        : {}),
+      matchedCount: isExclusionSuggestion
+        ? Math.max(0, suggestionContextMatchedIds.size - item.contextCount)
+        : item.contextCount,
+    })),
+  ]
 }
 
 export const normalizeQuery = normalize
@@ -0,0 +1,78 @@
+import type { PackableSearchEntry } from './packedIndex'
+import Fuse from 'fuse.js'
+import { describe, expect, it } from 'vitest'
+import {
+  buildFieldTermIndex,
+  buildStrictTermIndex,
+  collectSuggestions,
+  createSearchIndex,
+  getMatchedEntryIds,
+  hydrateSearchIndexFuse,
+  SEARCH_FUSE_KEYS,
+} from './index'
+import { packSearchIndex, unpackSearchIndex } from './packedIndex'
+
+const sources: PackableSearchEntry[] = [
+  {
+    domKey: 'l-cia::20260226_a',
+    searchText: 'L*cia 七市 nanashi 20260226 date_y_2026 date_ym_2026_02 kanaut nishe',
+    searchSuggest: 'Character\tL*cia\nDate\t2026/02\nCreator\t七市\nKeyword\tKanaut Nishe',
+    searchFields: 'character\tL*cia\ncreator\t七市\nkeyword\tKanaut Nishe\ndate\t20260226',
+  },
+  {
+    domKey: 'lucia::20250101_b',
+    searchText: 'Lucia qiu 20250101 date_y_2025 date_ym_2025_01 silver sketch',
+    searchSuggest: 'Character\tLucia\nDate\t2025/01\nCreator\tQiu\nKeyword\tsilver\nKeyword\tsketch',
+    searchFields: 'character\tLucia\ncreator\tQiu\nkeyword\tsilver\nkeyword\tsketch\ndate\t20250101',
+  },
+  {
+    domKey: 'lucia::20250315_c',
+    searchText: 'Lucia 七市 20250315 date_y_2025 date_ym_2025_03 silver',
+    searchSuggest: 'Character\tLucia\nDate\t2025/03\nCreator\t七市\nKeyword\tSilver',
+    searchFields: 'character\tLucia\ncreator\t七市\nkeyword\tSilver\ndate\t20250315',
+  },
+]
+
+function packSources() {
+  const fuseIndex = Fuse.createIndex(
+    SEARCH_FUSE_KEYS,
+    sources.map(source => ({ searchText: source.searchText.toLowerCase() })),
+  ).toJSON()
+  return packSearchIndex(sources, { fuseIndex, popularKeywords: ['silver'] })
+}
+
+describe('packed search index', () => {
+  it('round-trips to the same term indexes and suggestions the client would build', () => {
+    const packed = JSON.parse(JSON.stringify(packSources()))
+    const unpacked = unpackSearchIndex(packed)
+
+    expect(unpacked.entries.map(entry => entry.domKey)).toEqual(sources.map(source => source.domKey))
+    expect(unpacked.strictTermIndex).toEqual(buildStrictTermIndex(unpacked.entries))
+    expect(unpacked.fieldTermIndex).toEqual(buildFieldTermIndex(unpacked.entries))
+    expect(unpacked.suggestions).toEqual(collectSuggestions(unpacked.entries))
+    expect(unpacked.suggestions[0]).toEqual({ term: 'Lucia', count: 2, sources: ['Character'] })
+    expect(unpacked.entries[2].suggestionRows.get('七市')).toEqual({ source: 'Creator', term: '七市' })
+    expect(unpacked.popularKeywords).toEqual(['silver'])
+  })
+
+  it('delta-encodes postings', () => {
+    const { terms } = packSources()
+    expect(terms.postings[terms.terms.indexOf('silver')]).toEqual([1, 1])
+    expect(terms.postings[terms.terms.indexOf('date_y_2026')]).toEqual([0])
+  })
+
+  it('searches unpacked entries without rebuilding indexes, including the fuzzy fallback', async () => {
+    const { entries, strictTermIndex, fieldTermIndex, fuseIndex } = unpackSearchIndex(packSources())
+    const index = createSearchIndex(entries, { strictTermIndex, fieldTermIndex, fuseIndex })
+
+    expect(index.strictTermIndex).toBe(strictTermIndex)
+    expect(getMatchedEntryIds('creator:七市 silver', index)).toEqual(new Set([2]))
+
+    const hydrated = await hydrateSearchIndexFuse(index)
+    expect(getMatchedEntryIds('skech', hydrated)).toEqual(new Set([1]))
+  })
+
+  it('rejects other format versions', () => {
+    expect(() => unpackSearchIndex({ ...packSources(), version: 2 as 1 })).toThrow('Unsupported search index version: 2')
+  })
+})
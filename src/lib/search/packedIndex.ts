@@ -0,0 +1,198 @@
+import type {
+  SearchEntryLike,
+  SearchField,
+  SearchFieldTermIndex,
+  SearchFieldValues,
+  SerializedFuseIndex,
+  Suggestion,
+  SuggestionEntryLike,
+  SuggestionRows,
+  SuggestionSource,
+} from './index'
+import {
+  buildFieldTermIndex,
+  buildStrictTermIndex,
+  collectSuggestions,
+  normalizeQuery,
+  parseSearchFieldRows,
+  parseSuggestionRows,
+} from './index'
+import { foldSearchText } from './textFolding'
+
+export const PACKED_SEARCH_INDEX_VERSION = 1
+
+/** Manifest location under `public/`; it names the current content-hashed index file. */
+export const HOME_SEARCH_INDEX_MANIFEST_PATH = 'search/home-search-index.json'
+
+export interface PackedSearchIndexManifest {
+  version: typeof PACKED_SEARCH_INDEX_VERSION
+  /** Site-relative URL of the gzip-compressed `PackedSearchIndex` JSON. */
+  url: string
+  hash: string
+  entryCount: number
+}
+
+/** Ascending entry ids, delta-encoded: ids `[3, 5, 9]` are stored as `[3, 2, 4]`. */
+type PackedPostings = number[]
+
+interface PackedTermIndex {
+  terms: string[]
+  postings: PackedPostings[]
+}
+
+/**
+ * Search index precomputed by the asset pipeline. Entry ids are positions in the
+ * per-entry columns, so term postings and suggestion rows reference them directly.
+ */
+export interface PackedSearchIndex {
+  version: typeof PACKED_SEARCH_INDEX_VERSION
+  domKeys: string[]
+  /** Folded search text per entry (see `foldSearchText`), as matched by Fuse and the substring fallback. */
+  searchTexts: string[]
+  searchFields: SearchFieldValues[]
+  /** Per entry, flat `[suggestionIndex, sourceCode, ...]` pairs into `suggestions`. */
+  entrySuggestions: number[][]
+  terms: PackedTermIndex
+  fieldTerms: Partial<Record<SearchField, PackedTermIndex>>
+  /** `[term, count, sourceCodes]` rows in `collectSuggestions` order. */
+  suggestions: Array<[string, number, number[]]>
+  popularKeywords: string[]
+  fuseIndex: SerializedFuseIndex
+}
+
+export interface PackableSearchEntry {
+  domKey: string
+  searchText: string
+  searchSuggest: string
+  searchFields: string
+}
+
+export type UnpackedSearchEntry = SearchEntryLike & SuggestionEntryLike & { domKey: string }
+
+export interface UnpackedSearchIndex {
+  entries: UnpackedSearchEntry[]
+  strictTermIndex: Map<string, Set<number>>
+  fieldTermIndex: SearchFieldTermIndex
+  suggestions: Suggestion[]
+  popularKeywords: string[]
+  fuseIndex: SerializedFuseIndex
+}
+
+const SUGGESTION_SOURCE_CODES: SuggestionSource[] = ['Character', 'Date', 'Keyword', 'Creator', 'Field']
+
+function encodePostings(ids: Iterable<number>): PackedPostings {
+  let previous = 0
+  return [...ids].toSorted((a, b) => a - b).map((id) => {
+    const delta = id - previous
+    previous = id
+    return delta
+  })
+}
+
+function decodePostings(postings: PackedPostings) {
+  const ids = new Set<number>()
+  let id = 0
+  for (const delta of postings) {
+    id += delta
+    ids.add(id)
+  }
+  return ids
+}
+
+function packTermIndex(index: Map<string, Set<number>>): PackedTermIndex {
+  const terms = [...index.keys()].toSorted()
+  return { terms, postings: terms.map(term => encodePostings(index.get(term)!)) }
+}
+
+function unpackTermIndex({ terms, postings }: PackedTermIndex) {
+  return new Map(terms.map((term, position) => [term, decodePostings(postings[position] ?? [])]))
+}
+
+const getSourceCode = (source: SuggestionSource) => SUGGESTION_SOURCE_CODES.indexOf(source)
+
+/**
+ * Builds the shipped index from pipeline entries. The Fuse index is passed in so this
+ * module stays free of the Fuse runtime; create it over the folded `searchText`
+ * with `SEARCH_FUSE_KEYS`.
+ */
+export function packSearchIndex(
+  sources: PackableSearchEntry[],
+  { fuseIndex, popularKeywords }: { fuseIndex: SerializedFuseIndex, popularKeywords: string[] },
+): PackedSearchIndex {
+  const entries = sources.map((source, id) => ({
+    id,
+    searchText: foldSearchText(source.searchText),
+    searchFields: parseSearchFieldRows(source.searchFields),
+    suggestionRows: parseSuggestionRows(source.searchSuggest),
+  }))
+  const suggestions = collectSuggestions(entries)
+  const suggestionPositions = new Map(suggestions.map((suggestion, position) => [
+    normalizeQuery(suggestion.term),
+    position,
+  ]))
+  const fieldTerms: PackedSearchIndex['fieldTerms'] = {}
+  for (const [field, index] of buildFieldTermIndex(entries))
+    fieldTerms[field] = packTermIndex(index)
+
+  return {
+    version: PACKED_SEARCH_INDEX_VERSION,
+    domKeys: sources.map(source => source.domKey),
+    searchTexts: entries.map(entry => entry.searchText),
+    searchFields: entries.map(entry => entry.searchFields),
+    entrySuggestions: entries.map(entry =>
+      [...entry.suggestionRows].flatMap(([normalizedTerm, row]) => [
+        suggestionPositions.get(normalizedTerm) ?? -1,
+        getSourceCode(row.source),
+      ]),
+    ),
+    terms: packTermIndex(buildStrictTermIndex(entries)),
+    fieldTerms,
+    suggestions: suggestions.map(suggestion => [
+      suggestion.term,
+      suggestion.count,
+      suggestion.sources.map(getSourceCode),
+    ]),
+    popularKeywords,
+    fuseIndex,
+  }
+}
+
+export function unpackSearchIndex(packed: PackedSearchIndex): UnpackedSearchIndex {
+  if (packed.version !== PACKED_SEARCH_INDEX_VERSION)
+    throw new Error(`Unsupported search index version: ${String(packed.version)}`)
+
+  const suggestions: Suggestion[] = packed.suggestions.map(([term, count, sourceCodes]) => ({
+    term,
+    count,
+    sources: sourceCodes.map(code => SUGGESTION_SOURCE_CODES[code]),
+  }))
+  const entries = packed.domKeys.map((domKey, id): UnpackedSearchEntry => {
+    const suggestionRows: SuggestionRows = new Map()
+    const pairs = packed.entrySuggestions[id] ?? []
+    for (let i = 0; i < pairs.length; i += 2) {
+      const suggestion = suggestions[pairs[i]]
+      if (suggestion)
+        suggestionRows.set(normalizeQuery(suggestion.term), { source: SUGGESTION_SOURCE_CODES[pairs[i + 1]], term: suggestion.term })
+    }
+
+    return {
+      id,
+      domKey,
+      searchText: packed.searchTexts[id] ?? '',
+      searchFields: packed.searchFields[id] ?? {},
+      suggestionRows,
+    }
+  })
+  const fieldTermIndex: SearchFieldTermIndex = new Map()
+  for (const [field, index] of Object.entries(packed.fieldTerms) as Array<[SearchField, PackedTermIndex]>)
+    fieldTermIndex.set(field, unpackTermIndex(index))
+
+  return {
+    entries,
+    strictTermIndex: unpackTermIndex(packed.terms),
+    fieldTermIndex,
+    suggestions,
+    popularKeywords: packed.popularKeywords,
+    fuseIndex: packed.fuseIndex,
+  }
+}
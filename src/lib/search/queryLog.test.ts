@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { createSearchQueryLogRecord, parseSearchQueryLogRecords, summarizeSearchQueryLog } from './queryLog'
+
+describe('createSearchQueryLogRecord', () => {
+  it('normalises the query and drops empty ones', () => {
+    expect(createSearchQueryLogRecord('  Ｍｉｒａ  ', 2.7, 'ja', 10)).toEqual({
+      query: 'mira',
+      matchedCount: 2,
+      locale: 'ja',
+      at: 10,
+    })
+    expect(createSearchQueryLogRecord('   ', 0, 'en', 10)).toBeNull()
+  })
+})
+
+describe('parseSearchQueryLogRecords', () => {
+  it('keeps valid records only', () => {
+    expect(parseSearchQueryLogRecords([
+      { query: 'Mira', matchedCount: 1, locale: 'en', at: 1 },
+      { query: 'mira', matchedCount: '1', locale: 'en', at: 1 },
+      null,
+      { query: 'sky', matchedCount: 0, at: 2 },
+    ])).toEqual([
+      { query: 'mira', matchedCount: 1, locale: 'en', at: 1 },
+      { query: 'sky', matchedCount: 0, locale: 'unknown', at: 2 },
+    ])
+    expect(parseSearchQueryLogRecords({ records: [] })).toEqual([])
+  })
+})
+
+describe('summarizeSearchQueryLog', () => {
+  it('ranks queries and lists those whose latest search matched nothing', () => {
+    const insights = summarizeSearchQueryLog([
+      { query: 'mira', matchedCount: 3, locale: 'en', at: 1 },
+      { query: 'nanashi', matchedCount: 0, locale: 'ja', at: 2 },
+      { query: 'mira', matchedCount: 3, locale: 'zh-tw', at: 3 },
+      { query: 'aoi', matchedCount: 0, locale: 'en', at: 4 },
+      { query: 'nanashi', matchedCount: 0, locale: 'ja', at: 5 },
+      { query: 'aoi', matchedCount: 2, locale: 'en', at: 6 },
+    ])
+
+    expect(insights.totalSearches).toBe(6)
+    expect(insights.uniqueQueries).toBe(3)
+    expect(insights.topQueries.map(stat => [stat.query, stat.count, stat.zeroResultCount])).toEqual([
+      ['aoi', 2, 1],
+      ['nanashi', 2, 2],
+      ['mira', 2, 0],
+    ])
+    expect(insights.topQueries[2].locales).toEqual(['en', 'zh-tw'])
+    expect(insights.zeroResultQueries.map(stat => stat.query)).toEqual(['nanashi'])
+  })
+})
@@ -0,0 +1,98 @@
+import { normalizeQuery } from './index'
+
+/** Dev stand-in endpoint the home search flushes its local query log to. */
+export const SEARCH_QUERY_LOG_INGEST_PATH = '/api/admin/search-log'
+const MAX_LOGGED_QUERY_LENGTH = 200
+
+export interface SearchQueryLogRecord {
+  /** Normalised query (`normalizeQuery`), so spellings differing in case or width group together. */
+  query: string
+  matchedCount: number
+  locale: string
+  /** Epoch milliseconds of the search. */
+  at: number
+}
+
+export interface SearchQueryStat {
+  query: string
+  count: number
+  zeroResultCount: number
+  /** Matched count of the latest search; aliases added since may have fixed older misses. */
+  lastMatchedCount: number
+  lastSearchedAt: number
+  locales: string[]
+}
+
+export interface SearchInsights {
+  totalSearches: number
+  uniqueQueries: number
+  topQueries: SearchQueryStat[]
+  /** Queries whose latest search matched nothing, most searched first. */
+  zeroResultQueries: SearchQueryStat[]
+}
+
+export function createSearchQueryLogRecord(
+  rawQuery: string,
+  matchedCount: number,
+  locale: string,
+  at: number,
+): SearchQueryLogRecord | null {
+  const query = normalizeQuery(rawQuery).slice(0, MAX_LOGGED_QUERY_LENGTH)
+  if (!query || !Number.isFinite(matchedCount) || !Number.isFinite(at))
+    return null
+  return { query, matchedCount: Math.max(0, Math.floor(matchedCount)), locale: locale.trim() || 'unknown', at }
+}
+
+/** Validates untrusted records (ingest payloads, stored logs), dropping malformed ones. */
+export function parseSearchQueryLogRecords(value: unknown): SearchQueryLogRecord[] {
+  if (!Array.isArray(value))
+    return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object')
+      return []
+    const { query, matchedCount, locale, at } = item as Partial<Record<keyof SearchQueryLogRecord, unknown>>
+    if (typeof query !== 'string' || typeof matchedCount !== 'number' || typeof at !== 'number')
+      return []
+    const record = createSearchQueryLogRecord(query, matchedCount, typeof locale === 'string' ? locale : '', at)
+    return record ? [record] : []
+  })
+}
+
+function byCountThenRecency(a: SearchQueryStat, b: SearchQueryStat) {
+  return b.count - a.count || b.lastSearchedAt - a.lastSearchedAt
+}
+
+export function summarizeSearchQueryLog(
+  records: SearchQueryLogRecord[],
+  { limit = 50 }: { limit?: number } = {},
+): SearchInsights {
+  const stats = new Map<string, SearchQueryStat>()
+  for (const record of records) {
+    const stat = stats.get(record.query) ?? {
+      query: record.query,
+      count: 0,
+      zeroResultCount: 0,
+      lastMatchedCount: record.matchedCount,
+      lastSearchedAt: record.at,
+      locales: [],
+    }
+    stat.count += 1
+    if (record.matchedCount === 0)
+      stat.zeroResultCount += 1
+    if (record.at >= stat.lastSearchedAt) {
+      stat.lastSearchedAt = record.at
+      stat.lastMatchedCount = record.matchedCount
+    }
+    if (!stat.locales.includes(record.locale))
+      stat.locales.push(record.locale)
+    stats.set(record.query, stat)
+  }
+
+  const sorted = [...stats.values()].toSorted(byCountThenRecency)
+  return {
+    totalSearches: records.length,
+    uniqueQueries: stats.size,
+    topQueries: sorted.slice(0, limit),
+    zeroResultQueries: sorted.filter(stat => stat.lastMatchedCount === 0).slice(0, limit),
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { formatSearchQuery, parseSearchQuery } from './queryParser'
+
+const format = (rawQuery: string) => formatSearchQuery(parseSearchQuery(rawQuery).ast)
+
+describe('parseSearchQuery', () => {
+  it('binds ! tighter than space and space tighter than |', () => {
+    expect(format('a | b c')).toBe('a | b c')
+    expect(parseSearchQuery('a | b c').ast).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'term', value: 'a', quoted: false },
+        {
+          type: 'and',
+          operands: [
+            { type: 'term', value: 'b', quoted: false },
+            { type: 'term', value: 'c', quoted: false },
+          ],
+        },
+      ],
+    })
+    expect(format('a (b | c) !d')).toBe('a (b | c) !d')
+    expect(format('!(a b) | c')).toBe('!(a b) | c')
+  })
+
+  it('treats uppercase AND/OR/NOT as operators and lowercase as terms', () => {
+    expect(format('blue OR silver NOT sketch')).toBe('blue | silver !sketch')
+    expect(format('a AND (b OR c)')).toBe('a (b | c)')
+    expect(format('rock and roll')).toBe('rock and roll')
+  })
+
+  it('keeps quoted phrases and field-qualified quotes as single terms', () => {
+    expect(parseSearchQuery('"Kanaut Nishe" | creator:"Foo (Bar)"').ast).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'term', value: 'Kanaut Nishe', quoted: true },
+        { type: 'term', value: 'creator:"Foo (Bar)"', quoted: false },
+      ],
+    })
+  })
+
+  it('ignores dangling operators without reporting an error', () => {
+    expect(parseSearchQuery('blue |')).toEqual({
+      ast: { type: 'term', value: 'blue', quoted: false },
+      error: null,
+    })
+    expect(parseSearchQuery('blue AND !').error).toBeNull()
+    expect(parseSearchQuery('()').ast).toBeNull()
+  })
+
+  it('repairs unbalanced input and reports the first problem', () => {
+    expect(parseSearchQuery('a (b | c')).toMatchObject({
+      error: { code: 'unclosed-group', position: 2 },
+    })
+    expect(format('a (b | c')).toBe('a (b | c)')
+
+    expect(parseSearchQuery('a) b')).toMatchObject({
+      error: { code: 'unexpected-close', position: 1 },
+    })
+    expect(format('a) b')).toBe('a b')
+
+    expect(parseSearchQuery('x "kanaut n')).toEqual({
+      ast: {
+        type: 'and',
+        operands: [
+          { type: 'term', value: 'x', quoted: false },
+          { type: 'term', value: 'kanaut n', quoted: true },
+        ],
+      },
+      error: { code: 'unclosed-quote', position: 2 },
+    })
+  })
+})
@@ -0,0 +1,242 @@
+export type SearchQueryNode
+  = | { type: 'term', value: string, quoted: boolean }
+    | { type: 'not', operand: SearchQueryNode }
+    | { type: 'and', operands: SearchQueryNode[] }
+    | { type: 'or', operands: SearchQueryNode[] }
+
+export type SearchQueryErrorCode = 'unclosed-group' | 'unexpected-close' | 'unclosed-quote'
+
+export interface SearchQueryError {
+  code: SearchQueryErrorCode
+  /** Offset of the offending character in the raw query. */
+  position: number
+}
+
+export interface ParsedSearchQuery {
+  /** Best-effort tree; unbalanced input is repaired instead of dropping terms. */
+  ast: SearchQueryNode | null
+  error: SearchQueryError | null
+}
+
+type QueryToken
+  = | { type: 'term', value: string, quoted: boolean, start: number }
+    | { type: 'and' | 'or' | 'not' | 'open' | 'close', start: number }
+
+const OPERATOR_CHARS: Record<string, QueryToken['type']> = {
+  '(': 'open',
+  ')': 'close',
+  '|': 'or',
+  '!': 'not',
+}
+const KEYWORD_OPERATORS: Record<string, QueryToken['type']> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not',
+}
+const WHITESPACE_PATTERN = /\s/
+
+function isWordBoundary(char: string) {
+  return WHITESPACE_PATTERN.test(char) || Object.hasOwn(OPERATOR_CHARS, char)
+}
+
+function tokenizeSearchQuery(rawQuery: string) {
+  const tokens: QueryToken[] = []
+  let error: SearchQueryError | null = null
+  let i = 0
+
+  while (i < rawQuery.length) {
+    const char = rawQuery[i]
+    if (WHITESPACE_PATTERN.test(char)) {
+      i += 1
+      continue
+    }
+    if (Object.hasOwn(OPERATOR_CHARS, char)) {
+      tokens.push({ type: OPERATOR_CHARS[char], start: i } as QueryToken)
+      i += 1
+      continue
+    }
+
+    const start = i
+    while (i < rawQuery.length && !isWordBoundary(rawQuery[i])) {
+      if (rawQuery[i] !== '"') {
+        i += 1
+        continue
+      }
+      // Quotes may open mid-word, e.g. `creator:"Kanaut Nishe"`.
+      const closingQuote = rawQuery.indexOf('"', i + 1)
+      if (closingQuote === -1) {
+        error ??= { code: 'unclosed-quote', position: i }
+        i = rawQuery.length
+        break
+      }
+      i = closingQuote + 1
+    }
+
+    const word = rawQuery.slice(start, i)
+    if (Object.hasOwn(KEYWORD_OPERATORS, word)) {
+      tokens.push({ type: KEYWORD_OPERATORS[word], start } as QueryToken)
+      continue
+    }
+
+    const quoted = word.startsWith('"')
+    const value = quoted ? word.slice(1, word.length >= 2 && word.endsWith('"') ? -1 : undefined).trim() : word
+    if (value)
+      tokens.push({ type: 'term', value, quoted, start })
+  }
+
+  return { tokens, error }
+}
+
+function combine(type: 'and' | 'or', operands: SearchQueryNode[]): SearchQueryNode | null {
+  const flattened = operands.flatMap(operand => operand.type === type ? operand.operands : [operand])
+  if (flattened.length === 0)
+    return null
+  return flattened.length === 1 ? flattened[0] : { type, operands: flattened }
+}
+
+/**
+ * Parses the search box syntax into a tree. Precedence from loosest to tightest is
+ * `|`/`OR`, then space/`AND`, then `!`/`NOT`; parentheses group explicitly, so
+ * `a | b c` means `a | (b c)`. Dangling operators are ignored so half-typed queries
+ * still match; unbalanced parentheses and quotes are repaired and reported in `error`.
+ */
+export function parseSearchQuery(rawQuery: string): ParsedSearchQuery {
+  const { tokens, error: lexError } = tokenizeSearchQuery(rawQuery)
+  let error = lexError
+  let cursor = 0
+
+  const peek = () => tokens[cursor]
+  const reportError = (code: SearchQueryErrorCode, position: number) => {
+    if (!error || position < error.position)
+      error = { code, position }
+  }
+
+  function parseOr(): SearchQueryNode | null {
+    const operands: SearchQueryNode[] = []
+    const first = parseAnd()
+    if (first)
+      operands.push(first)
+    while (peek()?.type === 'or') {
+      cursor += 1
+      const next = parseAnd()
+      if (next)
+        operands.push(next)
+    }
+    return combine('or', operands)
+  }
+
+  function parseAnd(): SearchQueryNode | null {
+    const operands: SearchQueryNode[] = []
+    for (let token = peek(); token && token.type !== 'or' && token.type !== 'close'; token = peek()) {
+      if (token.type === 'and') {
+        cursor += 1
+        continue
+      }
+      const next = parseUnary()
+      if (next)
+        operands.push(next)
+    }
+    return combine('and', operands)
+  }
+
+  function parseUnary(): SearchQueryNode | null {
+    const token = peek()
+    if (!token)
+      return null
+
+    if (token.type === 'not') {
+      cursor += 1
+      const operand = parseUnary()
+      return operand ? { type: 'not', operand } : null
+    }
+
+    if (token.type === 'open') {
+      cursor += 1
+      const inner = parseOr()
+      if (peek()?.type === 'close')
+        cursor += 1
+      else reportError('unclosed-group', token.start)
+      return inner
+    }
+
+    if (token.type === 'term') {
+      cursor += 1
+      return { type: 'term', value: token.value, quoted: token.quoted }
+    }
+
+    // `and`/`or`/`close` right after `!` leave the negation without an operand.
+    return null
+  }
+
+  const operands: SearchQueryNode[] = []
+  while (cursor < tokens.length) {
+    const node = parseOr()
+    if (node)
+      operands.push(node)
+    const token = peek()
+    if (token?.type === 'close') {
+      reportError('unexpected-close', token.start)
+      cursor += 1
+    }
+  }
+
+  return { ast: combine('and', operands), error }
+}
+
+function formatOperand(node: SearchQueryNode, parent: 'and' | 'or' | 'not') {
+  const formatted = formatSearchQuery(node)
+  const needsGroup = (node.type === 'or' && parent !== 'or') || (node.type === 'and' && parent === 'not')
+  return needsGroup ? `(${formatted})` : formatted
+}
+
+/**
+ * Canonical text form of a tree, e.g. `a | (b !c)`.
+ */
+export function formatSearchQuery(node: SearchQueryNode | null): string {
+  if (!node)
+    return ''
+  switch (node.type) {
+    case 'term':
+      return node.quoted ? `"${node.value}"` : node.value
+    case 'not':
+      return `!${formatOperand(node.operand, 'not')}`
+    case 'and':
+      return node.operands.map(operand => formatOperand(operand, 'and')).join(' ')
+    case 'or':
+      return node.operands.map(operand => formatOperand(operand, 'or')).join(' | ')
+  }
+}
+
+export function mapSearchQueryTerms(
+  node: SearchQueryNode | null,
+  mapTerm: (term: Extract<SearchQueryNode, { type: 'term' }>) => Extract<SearchQueryNode, { type: 'term' }>,
+): SearchQueryNode | null {
+  if (!node)
+    return null
+  switch (node.type) {
+    case 'term':
+      return mapTerm(node)
+    case 'not':
+      return { type: 'not', operand: mapSearchQueryTerms(node.operand, mapTerm)! }
+    case 'and':
+    case 'or':
+      return { type: node.type, operands: node.operands.map(operand => mapSearchQueryTerms(operand, mapTerm)!) }
+  }
+}
+
+export function someSearchQueryTerm(
+  node: SearchQueryNode | null,
+  predicate: (term: Extract<SearchQueryNode, { type: 'term' }>) => boolean,
+): boolean {
+  if (!node)
+    return false
+  switch (node.type) {
+    case 'term':
+      return predicate(node)
+    case 'not':
+      return someSearchQueryTerm(node.operand, predicate)
+    case 'and':
+    case 'or':
+      return node.operands.some(operand => someSearchQueryTerm(operand, predicate))
+  }
+}
@@ -0,0 +1,81 @@
+import type { SearchEntryLike } from './index'
+import { describe, expect, it } from 'vitest'
+import {
+  createSearchIndex,
+  getMatchedEntryIds,
+  hydrateSearchIndexFuse,
+  parseSearchFieldRows,
+} from './index'
+import { getHighlightSegments, getSearchHighlightTerms, rankMatchedEntries } from './ranking'
+
+const entries: SearchEntryLike[] = [
+  {
+    id: 1,
+    searchText: 'mira q blue sky 20230615',
+    searchFields: parseSearchFieldRows('character\tMira\ncreator\tQ\nkeyword\tsky\ndescription\tblue sky\ndate\t20230615'),
+  },
+  {
+    id: 2,
+    searchText: 'blue q sketch 20240102',
+    searchFields: parseSearchFieldRows('character\tBlue\ncreator\tQ\nkeyword\tsketch\ndate\t20240102'),
+  },
+  {
+    id: 3,
+    searchText: 'lucia bluebell blue hair 20231231',
+    searchFields: parseSearchFieldRows('character\tLucia\ncreator\tBluebell\nkeyword\tblue hair\ndate\t20231231'),
+  },
+]
+
+function rankIds(rawQuery: string, index = createSearchIndex(entries)) {
+  return rankMatchedEntries(rawQuery, index, getMatchedEntryIds(rawQuery, index)).map(result => result.entry.id)
+}
+
+describe('rankMatchedEntries', () => {
+  it('weights character over creator over keyword over description', () => {
+    expect(rankIds('blue')).toEqual([2, 3, 1])
+  })
+
+  it('prefers exact values, then whole words, then prefixes', () => {
+    const [character, creatorPrefix] = rankMatchedEntries(
+      'blue',
+      createSearchIndex(entries),
+      new Set([2, 3]),
+    )
+    expect(character.score).toBeGreaterThan(creatorPrefix.score)
+    expect(rankIds('creator:blue')).toEqual([3])
+  })
+
+  it('rewards entries matching more of the query and ignores negated terms', () => {
+    expect(rankIds('blue | q')).toEqual([2, 1, 3])
+    const [result] = rankMatchedEntries('q !sketch', createSearchIndex(entries), new Set([1]))
+    expect(result.matchedTerms).toEqual(['q'])
+  })
+
+  it('keeps Fuse scores for fuzzy fallback matches', async () => {
+    const index = await hydrateSearchIndexFuse(createSearchIndex(entries))
+    const matchedIds = getMatchedEntryIds('skech', index)
+    const [result] = rankMatchedEntries('skech', index, matchedIds)
+
+    expect(result.entry.id).toBe(2)
+    expect(result.fuseScore).toBeGreaterThan(0)
+    expect(result.score).toBe(1 - result.fuseScore!)
+  })
+})
+
+describe('search highlights', () => {
+  it('collects positive terms without qualifiers or date tokens', () => {
+    expect(getSearchHighlightTerms('creator:"Kanaut N" blue !sketch 2024/01 after:2023')).toEqual([
+      'kanaut n',
+      'blue',
+    ])
+  })
+
+  it('splits text into highlighted runs, preferring the longest term', () => {
+    expect(getHighlightSegments('Blue hair, bluebell', ['blue', 'bluebell'])).toEqual([
+      { text: 'Blue', highlighted: true },
+      { text: ' hair, ', highlighted: false },
+      { text: 'bluebell', highlighted: true },
+    ])
+    expect(getHighlightSegments('a.b', [])).toEqual([{ text: 'a.b', highlighted: false }])
+  })
+})
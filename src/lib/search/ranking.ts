@@ -0,0 +1,191 @@
+import type { SearchEntryLike, SearchField, SearchIndexLike } from './index'
+import type { SearchQueryNode } from './queryParser'
+import { getFuseMatchScores, getSearchQueryAst, parseSearchFieldTerm } from './index'
+import { foldSearchText } from './textFolding'
+
+export interface RankedSearchResult<T extends SearchEntryLike = SearchEntryLike> {
+  entry: T
+  score: number
+  /** Positive query terms found on the entry, in query order. */
+  matchedTerms: string[]
+  /** Raw Fuse score (0 is a perfect match) when the results came from the fuzzy fallback. */
+  fuseScore: number | null
+}
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  character: 5,
+  creator: 4,
+  keyword: 3,
+  description: 1,
+  date: 1,
+  parts: 0,
+}
+const EXACT_MATCH_WEIGHT = 3
+const WORD_MATCH_WEIGHT = 2
+const PREFIX_MATCH_WEIGHT = 1.5
+const SUBSTRING_MATCH_WEIGHT = 1
+/** Date tokens and other terms only present in the flattened search text. */
+const SEARCH_TEXT_MATCH_SCORE = 1
+/** Added per matched term so entries hitting more of the query outrank a single strong hit. */
+const MATCHED_TERM_BONUS = 2
+const FIELD_VALUE_WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+const ESCAPE_REGEXP_PATTERN = /[.*+?^${}()|[\]\\]/g
+const DATE_QUERY_TOKEN_PREFIX = 'date_'
+
+const normalize = (value: string) => foldSearchText(value.trim())
+
+/**
+ * Terms that contribute to a match, skipping anything under an odd number of negations.
+ */
+function collectPositiveTerms(node: SearchQueryNode | null, negated = false, terms: string[] = []) {
+  if (!node)
+    return terms
+  switch (node.type) {
+    case 'term':
+      if (!negated && !terms.includes(node.value))
+        terms.push(node.value)
+      break
+    case 'not':
+      collectPositiveTerms(node.operand, !negated, terms)
+      break
+    case 'and':
+    case 'or':
+      for (const operand of node.operands)
+        collectPositiveTerms(operand, negated, terms)
+      break
+  }
+  return terms
+}
+
+function getValueMatchWeight(value: string, term: string) {
+  const normalizedValue = normalize(value)
+  if (normalizedValue === term)
+    return EXACT_MATCH_WEIGHT
+  if (!normalizedValue.includes(term))
+    return 0
+
+  const words: string[] = normalizedValue.match(FIELD_VALUE_WORD_PATTERN) ?? []
+  if (words.includes(term))
+    return WORD_MATCH_WEIGHT
+  if (words.some(word => word.startsWith(term)))
+    return PREFIX_MATCH_WEIGHT
+  return SUBSTRING_MATCH_WEIGHT
+}
+
+function scoreTerm(entry: SearchEntryLike, term: string) {
+  const fieldTerm = parseSearchFieldTerm(term)
+  if (fieldTerm?.range)
+    return SEARCH_TEXT_MATCH_SCORE
+
+  const fields = fieldTerm
+    ? [fieldTerm.field]
+    : (Object.keys(FIELD_WEIGHTS) as SearchField[])
+  const value = fieldTerm ? normalize(fieldTerm.value) : term
+  if (!value)
+    return 0
+
+  let best = 0
+  for (const field of fields) {
+    for (const fieldValue of entry.searchFields?.[field] ?? [])
+      best = Math.max(best, FIELD_WEIGHTS[field] * getValueMatchWeight(fieldValue, value))
+  }
+
+  if (best === 0 && !fieldTerm && foldSearchText(entry.searchText).includes(value))
+    return SEARCH_TEXT_MATCH_SCORE
+  return best
+}
+
+/**
+ * Orders matched entries by relevance. Strict matches are scored per positive query
+ * term by field (character > creator > keyword > description/date) and match kind
+ * (exact value > whole word > word prefix > substring), plus a bonus per matched term.
+ * Fuzzy fallback matches keep their Fuse ranking instead. Ties keep index order.
+ */
+export function rankMatchedEntries<T extends SearchEntryLike>(
+  rawQuery: string,
+  index: SearchIndexLike<T>,
+  matchedIds: Set<number>,
+): RankedSearchResult<T>[] {
+  const terms = collectPositiveTerms(getSearchQueryAst(rawQuery))
+  const fuseScores = getFuseMatchScores(matchedIds)
+  const ranked: Array<RankedSearchResult<T> & { order: number }> = []
+
+  index.entries.forEach((entry, order) => {
+    if (!matchedIds.has(entry.id))
+      return
+
+    let termScore = 0
+    const matchedTerms: string[] = []
+    for (const term of terms) {
+      const score = scoreTerm(entry, term)
+      if (score <= 0)
+        continue
+      termScore += score
+      matchedTerms.push(term)
+    }
+
+    const fuseScore = fuseScores?.get(entry.id) ?? null
+    ranked.push({
+      entry,
+      score: fuseScore === null ? termScore + matchedTerms.length * MATCHED_TERM_BONUS : 1 - fuseScore,
+      matchedTerms,
+      fuseScore,
+      order,
+    })
+  })
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ order: _order, ...result }) => result)
+}
+
+/**
+ * Text fragments worth highlighting for a query: positive terms, with field
+ * qualifiers stripped and date tokens left out.
+ */
+export function getSearchHighlightTerms(rawQuery: string) {
+  const terms = new Set<string>()
+  for (const term of collectPositiveTerms(getSearchQueryAst(rawQuery))) {
+    const fieldTerm = parseSearchFieldTerm(term)
+    if (fieldTerm?.range || term.startsWith(DATE_QUERY_TOKEN_PREFIX))
+      continue
+    const value = fieldTerm ? normalize(fieldTerm.value) : term
+    if (value)
+      terms.add(value)
+  }
+  return [...terms]
+}
+
+/**
+ * Splits `text` into plain and highlighted runs for occurrences of the (folded) `terms`,
+ * so `カナ` is highlighted for a `かな` query. Matching falls back to case-insensitive
+ * comparison of the original text when folding changes its length (NFKC expansions).
+ */
+export function getHighlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  const patterns = terms
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(ESCAPE_REGEXP_PATTERN, '\\$&'))
+  if (!text || patterns.length === 0)
+    return text ? [{ text, highlighted: false }] : []
+
+  const folded = foldSearchText(text)
+  const haystack = folded.length === text.length ? folded : text
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  for (const match of haystack.matchAll(new RegExp(patterns.join('|'), 'giu'))) {
+    if (match.index > cursor)
+      segments.push({ text: text.slice(cursor, match.index), highlighted: false })
+    const end = match.index + match[0].length
+    segments.push({ text: text.slice(match.index, end), highlighted: true })
+    cursor = end
+  }
+  if (cursor < text.length)
+    segments.push({ text: text.slice(cursor), highlighted: false })
+  return segments
+}
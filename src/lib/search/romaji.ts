@@ -0,0 +1,416 @@
+import { foldSearchText } from './textFolding'
+
+/** Hepburn romaji per hiragana; katakana is folded to hiragana before lookup. */
+const KANA_ROMAJI: Record<string, string> = {
+  あ: 'a',
+  い: 'i',
+  う: 'u',
+  え: 'e',
+  お: 'o',
+  か: 'ka',
+  き: 'ki',
+  く: 'ku',
+  け: 'ke',
+  こ: 'ko',
+  が: 'ga',
+  ぎ: 'gi',
+  ぐ: 'gu',
+  げ: 'ge',
+  ご: 'go',
+  さ: 'sa',
+  し: 'shi',
+  す: 'su',
+  せ: 'se',
+  そ: 'so',
+  ざ: 'za',
+  じ: 'ji',
+  ず: 'zu',
+  ぜ: 'ze',
+  ぞ: 'zo',
+  た: 'ta',
+  ち: 'chi',
+  つ: 'tsu',
+  て: 'te',
+  と: 'to',
+  だ: 'da',
+  ぢ: 'ji',
+  づ: 'zu',
+  で: 'de',
+  ど: 'do',
+  な: 'na',
+  に: 'ni',
+  ぬ: 'nu',
+  ね: 'ne',
+  の: 'no',
+  は: 'ha',
+  ひ: 'hi',
+  ふ: 'fu',
+  へ: 'he',
+  ほ: 'ho',
+  ば: 'ba',
+  び: 'bi',
+  ぶ: 'bu',
+  べ: 'be',
+  ぼ: 'bo',
+  ぱ: 'pa',
+  ぴ: 'pi',
+  ぷ: 'pu',
+  ぺ: 'pe',
+  ぽ: 'po',
+  ま: 'ma',
+  み: 'mi',
+  む: 'mu',
+  め: 'me',
+  も: 'mo',
+  や: 'ya',
+  ゆ: 'yu',
+  よ: 'yo',
+  ら: 'ra',
+  り: 'ri',
+  る: 'ru',
+  れ: 're',
+  ろ: 'ro',
+  わ: 'wa',
+  ゐ: 'i',
+  ゑ: 'e',
+  を: 'o',
+  ん: 'n',
+  ゔ: 'vu',
+  ぁ: 'a',
+  ぃ: 'i',
+  ぅ: 'u',
+  ぇ: 'e',
+  ぉ: 'o',
+  ゃ: 'ya',
+  ゅ: 'yu',
+  ょ: 'yo',
+  ゎ: 'wa',
+}
+
+/** Two-kana syllables: youon (`きゃ`) and the small-vowel spellings used for loanwords (`ふぁ`). */
+const DIGRAPH_ROMAJI: Record<string, string> = {
+  きゃ: 'kya',
+  きゅ: 'kyu',
+  きょ: 'kyo',
+  ぎゃ: 'gya',
+  ぎゅ: 'gyu',
+  ぎょ: 'gyo',
+  しゃ: 'sha',
+  しゅ: 'shu',
+  しょ: 'sho',
+  しぇ: 'she',
+  じゃ: 'ja',
+  じゅ: 'ju',
+  じょ: 'jo',
+  じぇ: 'je',
+  ちゃ: 'cha',
+  ちゅ: 'chu',
+  ちょ: 'cho',
+  ちぇ: 'che',
+  ぢゃ: 'ja',
+  ぢゅ: 'ju',
+  ぢょ: 'jo',
+  にゃ: 'nya',
+  にゅ: 'nyu',
+  にょ: 'nyo',
+  ひゃ: 'hya',
+  ひゅ: 'hyu',
+  ひょ: 'hyo',
+  びゃ: 'bya',
+  びゅ: 'byu',
+  びょ: 'byo',
+  ぴゃ: 'pya',
+  ぴゅ: 'pyu',
+  ぴょ: 'pyo',
+  みゃ: 'mya',
+  みゅ: 'myu',
+  みょ: 'myo',
+  りゃ: 'rya',
+  りゅ: 'ryu',
+  りょ: 'ryo',
+  ふぁ: 'fa',
+  ふぃ: 'fi',
+  ふぇ: 'fe',
+  ふぉ: 'fo',
+  てぃ: 'ti',
+  でぃ: 'di',
+  とぅ: 'tu',
+  どぅ: 'du',
+  うぃ: 'wi',
+  うぇ: 'we',
+  うぉ: 'wo',
+  ゔぁ: 'va',
+  ゔぃ: 'vi',
+  ゔぇ: 've',
+  ゔぉ: 'vo',
+  つぁ: 'tsa',
+  つぃ: 'tsi',
+  つぇ: 'tse',
+  つぉ: 'tso',
+}
+
+/**
+ * Usual name reading of Han characters common in character and creator names, keyed
+ * by the folded (simplified) form. One reading per character keeps the token count
+ * bounded; names read otherwise still need a registered alias.
+ */
+const NAME_HAN_READINGS: Record<string, string> = {
+  一: 'ichi',
+  二: 'ni',
+  三: 'mi',
+  四: 'shi',
+  五: 'go',
+  六: 'roku',
+  七: 'nana',
+  八: 'ya',
+  九: 'ku',
+  十: 'to',
+  百: 'momo',
+  千: 'chi',
+  万: 'man',
+  市: 'ichi',
+  町: 'machi',
+  村: 'mura',
+  中: 'naka',
+  上: 'ue',
+  下: 'shita',
+  山: 'yama',
+  川: 'kawa',
+  田: 'ta',
+  木: 'ki',
+  本: 'moto',
+  林: 'hayashi',
+  森: 'mori',
+  井: 'i',
+  小: 'ko',
+  大: 'oo',
+  高: 'taka',
+  桥: 'hashi',
+  藤: 'fuji',
+  原: 'hara',
+  野: 'no',
+  松: 'matsu',
+  竹: 'take',
+  石: 'ishi',
+  岛: 'shima',
+  谷: 'tani',
+  口: 'guchi',
+  西: 'nishi',
+  东: 'higashi',
+  北: 'kita',
+  南: 'minami',
+  佐: 'sa',
+  伊: 'i',
+  加: 'ka',
+  吉: 'yoshi',
+  清: 'kiyo',
+  水: 'mizu',
+  池: 'ike',
+  冈: 'oka',
+  崎: 'saki',
+  前: 'mae',
+  宫: 'miya',
+  内: 'uchi',
+  久: 'hisa',
+  保: 'ho',
+  近: 'chika',
+  远: 'too',
+  安: 'yasu',
+  和: 'kazu',
+  美: 'mi',
+  子: 'ko',
+  花: 'hana',
+  月: 'tsuki',
+  日: 'hi',
+  星: 'hoshi',
+  空: 'sora',
+  海: 'umi',
+  雪: 'yuki',
+  雨: 'ame',
+  风: 'kaze',
+  云: 'kumo',
+  光: 'hikari',
+  春: 'haru',
+  夏: 'natsu',
+  秋: 'aki',
+  冬: 'fuyu',
+  樱: 'sakura',
+  白: 'shiro',
+  黑: 'kuro',
+  赤: 'aka',
+  青: 'ao',
+  绿: 'midori',
+  金: 'kin',
+  银: 'gin',
+  红: 'beni',
+  紫: 'murasaki',
+  爱: 'ai',
+  恋: 'koi',
+  真: 'ma',
+  由: 'yu',
+  奈: 'na',
+  菜: 'na',
+  里: 'ri',
+  理: 'ri',
+  香: 'ka',
+  织: 'ori',
+  优: 'yuu',
+  结: 'yui',
+  彩: 'aya',
+  明: 'aki',
+  夜: 'yoru',
+  朝: 'asa',
+  音: 'oto',
+  琴: 'koto',
+  铃: 'suzu',
+  叶: 'ha',
+  草: 'kusa',
+  龙: 'ryuu',
+  虎: 'tora',
+  狐: 'kitsune',
+  猫: 'neko',
+  犬: 'inu',
+  鸟: 'tori',
+  苍: 'ao',
+  凛: 'rin',
+  玲: 'rei',
+  丽: 'rei',
+  翔: 'shou',
+  辉: 'teru',
+  阳: 'hi',
+  太: 'ta',
+  郎: 'rou',
+  介: 'suke',
+  司: 'tsukasa',
+  道: 'michi',
+  翼: 'tsubasa',
+  羽: 'ha',
+  翅: 'shi',
+  神: 'kami',
+  天: 'ten',
+  圣: 'sei',
+  姬: 'hime',
+  王: 'ou',
+  渡: 'watari',
+  泽: 'sawa',
+  濑: 'se',
+  滨: 'hama',
+  浦: 'ura',
+  奏: 'kanade',
+  响: 'hibiki',
+  华: 'hana',
+  梦: 'yume',
+  咲: 'saki',
+  桃: 'momo',
+  梅: 'ume',
+  椿: 'tsubaki',
+  菊: 'kiku',
+  兰: 'ran',
+  莲: 'ren',
+  葵: 'aoi',
+  枫: 'kaede',
+  柚: 'yuzu',
+  杏: 'anzu',
+  蓝: 'ai',
+  灯: 'akari',
+  影: 'kage',
+  黄: 'ki',
+  乐: 'raku',
+  晴: 'haru',
+  岚: 'arashi',
+  霞: 'kasumi',
+  雷: 'rai',
+  夕: 'yuu',
+  灵: 'rei',
+}
+
+const SOKUON = 'っ'
+const LONG_VOWEL_MARK = 'ー'
+const VOWEL_PATTERN = /[aeiou]$/
+const LONG_VOWEL_PATTERN = /([aeiou])\1|ou/g
+const READABLE_RUN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+/gu
+const KANA_PATTERN = /^[\p{Script=Hiragana}ー]$/u
+/** Longest run of units combined into one token; longer names still get each window. */
+const MAX_UNITS_PER_TOKEN = 6
+
+function transliterateKana(kana: string) {
+  let romaji = ''
+  let doubleNext = false
+  const chars = [...kana]
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]
+    if (char === SOKUON) {
+      doubleNext = true
+      continue
+    }
+    if (char === LONG_VOWEL_MARK) {
+      romaji += romaji.match(VOWEL_PATTERN)?.[0] ?? ''
+      continue
+    }
+
+    const digraph = DIGRAPH_ROMAJI[char + (chars[i + 1] ?? '')]
+    const syllable = digraph ?? KANA_ROMAJI[char] ?? ''
+    if (digraph)
+      i++
+    if (doubleNext && syllable)
+      romaji += syllable.startsWith('ch') ? 't' : syllable[0]
+    doubleNext = false
+    romaji += syllable
+  }
+  return romaji
+}
+
+interface ReadingUnit {
+  reading: string | null
+  isHan: boolean
+}
+
+/** Splits a run into readable units: one per Han character, one per stretch of kana. */
+function toReadingUnits(run: string) {
+  const units: ReadingUnit[] = []
+  let kana = ''
+  const flushKana = () => {
+    if (kana)
+      units.push({ reading: transliterateKana(kana) || null, isHan: false })
+    kana = ''
+  }
+  for (const char of run) {
+    if (KANA_PATTERN.test(char)) {
+      kana += char
+      continue
+    }
+    flushKana()
+    units.push({ reading: NAME_HAN_READINGS[char] ?? null, isHan: true })
+  }
+  flushKana()
+  return units
+}
+
+const shortenLongVowels = (romaji: string) => romaji.replace(LONG_VOWEL_PATTERN, match => match[0])
+
+/**
+ * Romaji tokens for the Japanese parts of `value`, so a name like 中村六翅 is found by
+ * `nakamura` or `nakamurarokushi` without a registered alias. Every contiguous span of
+ * readable units becomes a token (a lone Han reading only when it is the whole run);
+ * unknown kanji break the span. Long vowels are also emitted shortened (`ryuu` → `ryu`).
+ */
+export function buildRomajiSearchTokens(value: string) {
+  const tokens = new Set<string>()
+  for (const [run] of foldSearchText(value).matchAll(READABLE_RUN_PATTERN)) {
+    const units = toReadingUnits(run)
+    for (let start = 0; start < units.length; start++) {
+      let token = ''
+      for (let end = start; end < units.length && end - start < MAX_UNITS_PER_TOKEN; end++) {
+        const { reading, isHan } = units[end]
+        if (!reading)
+          break
+        token += reading
+        if (end === start && isHan && units.length > 1)
+          continue
+        tokens.add(token)
+        tokens.add(shortenLongVowels(token))
+      }
+    }
+  }
+  return [...tokens]
+}
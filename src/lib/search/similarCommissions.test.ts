@@ -0,0 +1,55 @@
+import type { SimilarCommissionSource } from './similarCommissions'
+import { describe, expect, it } from 'vitest'
+import { buildSimilarCommissions } from './similarCommissions'
+
+function source(key: string, overrides: Partial<SimilarCommissionSource>): SimilarCommissionSource {
+  return {
+    key,
+    character: 'Mira',
+    commissionDate: '20240101',
+    ...overrides,
+  }
+}
+
+function similarKeys(sources: SimilarCommissionSource[], key: string, options?: Parameters<typeof buildSimilarCommissions>[1]) {
+  const payload = buildSimilarCommissions(sources, options)
+  const index = payload.items.findIndex(item => item.key === key)
+  return payload.similar[index].map(related => payload.items[related].key)
+}
+
+describe('buildSimilarCommissions', () => {
+  it('ranks shared keywords and creators above the same character, using date proximity as a tie-breaker', () => {
+    const sources = [
+      source('a', { creatorName: 'Q', keyword: 'sky, sea' }),
+      source('b', { character: 'Lucia', keyword: 'sky, sea' }),
+      source('c', { character: 'Lucia', creatorName: 'Q (part 2)' }),
+      source('d', { commissionDate: '20231201' }),
+      source('e', { commissionDate: '20200101' }),
+      source('f', { character: 'Lucia', commissionDate: '20240102' }),
+    ]
+
+    expect(similarKeys(sources, 'a')).toEqual(['b', 'c', 'd', 'e'])
+  })
+
+  it('matches keywords through their aliases', () => {
+    const sources = [
+      source('a', { keyword: 'cat' }),
+      source('b', { character: 'Lucia', keyword: 'Neko' }),
+      source('c', { character: 'Lucia', keyword: 'dog' }),
+    ]
+
+    expect(similarKeys(sources, 'a')).toEqual([])
+    expect(similarKeys(sources, 'a', { keywordAliasesMap: new Map([['cat', ['neko', '貓']]]) })).toEqual(['b'])
+  })
+
+  it('skips other parts of the same commission and honors the limit', () => {
+    const sources = [
+      source('a', {}),
+      source('a-part-2', {}),
+      source('b', { commissionDate: '20240201' }),
+      source('c', { commissionDate: '20240301' }),
+    ]
+
+    expect(similarKeys(sources, 'a', { limit: 1 })).toEqual(['b'])
+  })
+})
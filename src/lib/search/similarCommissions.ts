@@ -0,0 +1,177 @@
+import { normalizeCreatorName } from '#lib/creatorAliases/shared'
+import { normalizeKeywordAliasKey, splitKeywordTerms } from '#lib/keywordAliases/shared'
+
+export const SIMILAR_COMMISSIONS_PATH = 'search/similar-commissions.json'
+export const SIMILAR_COMMISSIONS_VERSION = 1
+export const MAX_SIMILAR_COMMISSIONS = 6
+
+const SHARED_KEYWORD_SCORE = 3
+const SHARED_CREATOR_SCORE = 4
+const SAME_CHARACTER_SCORE = 2
+const DATE_PROXIMITY_SCORE = 2
+const DATE_PROXIMITY_WINDOW_DAYS = 365
+const DAY_MS = 24 * 60 * 60 * 1000
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/
+
+export interface SimilarCommissionSource {
+  /** Commission search dom key (`sectionId::fileName`). */
+  key: string
+  character: string
+  creatorName?: string | null
+  /** `yyyyMMdd` */
+  commissionDate: string
+  keyword?: string | null
+}
+
+export interface SimilarCommissionItem {
+  key: string
+  character: string
+  creator: string
+  date: string
+}
+
+export interface SimilarCommissionsPayload {
+  version: number
+  items: SimilarCommissionItem[]
+  /** Indexes into `items` of the related commissions of each item, best first. */
+  similar: number[][]
+}
+
+interface SimilarityFeatures {
+  character: string
+  creator: string | null
+  keywords: Set<string>
+  day: number | null
+}
+
+function parseCompactDateDay(value: string) {
+  const match = COMPACT_DATE_PATTERN.exec(value)
+  if (!match)
+    return null
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS
+}
+
+/**
+ * Maps a keyword, or any alias of it, to the alias key of its base keyword so a
+ * commission tagged with an alias shares the keyword with one tagged with the base.
+ */
+function createKeywordResolver(keywordAliasesMap: Map<string, string[]> | undefined) {
+  const baseKeyByTerm = new Map<string, string>()
+  for (const [baseKey, aliases] of keywordAliasesMap ?? []) {
+    for (const alias of aliases) {
+      const aliasKey = normalizeKeywordAliasKey(alias)
+      if (aliasKey && !baseKeyByTerm.has(aliasKey))
+        baseKeyByTerm.set(aliasKey, baseKey)
+    }
+  }
+  for (const baseKey of keywordAliasesMap?.keys() ?? [])
+    baseKeyByTerm.set(baseKey, baseKey)
+
+  return (term: string) => {
+    const key = normalizeKeywordAliasKey(term)
+    return key ? (baseKeyByTerm.get(key) ?? key) : null
+  }
+}
+
+function getSimilarityScore(a: SimilarityFeatures, b: SimilarityFeatures) {
+  let sharedKeywords = 0
+  for (const keyword of a.keywords) {
+    if (b.keywords.has(keyword))
+      sharedKeywords += 1
+  }
+  const isSameCreator = a.creator !== null && a.creator === b.creator
+  const isSameCharacter = a.character === b.character
+  if (sharedKeywords === 0 && !isSameCreator && !isSameCharacter)
+    return 0
+
+  const dayDistance = a.day !== null && b.day !== null ? Math.abs(a.day - b.day) : Infinity
+  return sharedKeywords * SHARED_KEYWORD_SCORE
+    + (isSameCreator ? SHARED_CREATOR_SCORE : 0)
+    + (isSameCharacter ? SAME_CHARACTER_SCORE : 0)
+    + DATE_PROXIMITY_SCORE * Math.max(0, 1 - dayDistance / DATE_PROXIMITY_WINDOW_DAYS)
+}
+
+/**
+ * Top related commissions of every source, scored by shared keywords (after alias
+ * expansion), shared creator and same character, with date proximity as a bonus.
+ * Commissions sharing none of the first three are never related, and entries of the
+ * same character and date (parts of one commission) are skipped.
+ */
+export function buildSimilarCommissions(
+  sources: SimilarCommissionSource[],
+  {
+    keywordAliasesMap,
+    limit = MAX_SIMILAR_COMMISSIONS,
+  }: { keywordAliasesMap?: Map<string, string[]>, limit?: number } = {},
+): SimilarCommissionsPayload {
+  const resolveKeyword = createKeywordResolver(keywordAliasesMap)
+  const features: SimilarityFeatures[] = sources.map(source => ({
+    character: source.character,
+    creator: normalizeCreatorName(source.creatorName ?? '')?.toLowerCase() ?? null,
+    keywords: new Set(
+      splitKeywordTerms(source.keyword)
+        .map(resolveKeyword)
+        .filter((keyword): keyword is string => Boolean(keyword)),
+    ),
+    day: parseCompactDateDay(source.commissionDate),
+  }))
+
+  const postings = new Map<string, number[]>()
+  const addPosting = (feature: string, index: number) => {
+    const list = postings.get(feature)
+    if (list)
+      list.push(index)
+    else
+      postings.set(feature, [index])
+  }
+  features.forEach((feature, index) => {
+    addPosting(`character\t${feature.character}`, index)
+    if (feature.creator)
+      addPosting(`creator\t${feature.creator}`, index)
+    for (const keyword of feature.keywords)
+      addPosting(`keyword\t${keyword}`, index)
+  })
+
+  const similar = features.map((feature, index) => {
+    const candidates = new Set<number>()
+    const candidateFeatures = [
+      `character\t${feature.character}`,
+      ...(feature.creator ? [`creator\t${feature.creator}`] : []),
+      ...Array.from(feature.keywords, keyword => `keyword\t${keyword}`),
+    ]
+    for (const key of candidateFeatures) {
+      for (const candidate of postings.get(key) ?? [])
+        candidates.add(candidate)
+    }
+
+    const scored: { index: number, score: number }[] = []
+    for (const candidate of candidates) {
+      if (
+        candidate === index
+        || (sources[candidate].character === sources[index].character
+          && sources[candidate].commissionDate === sources[index].commissionDate)
+      ) {
+        continue
+      }
+      const score = getSimilarityScore(feature, features[candidate])
+      if (score > 0)
+        scored.push({ index: candidate, score })
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit)
+      .map(entry => entry.index)
+  })
+
+  return {
+    version: SIMILAR_COMMISSIONS_VERSION,
+    items: sources.map(source => ({
+      key: source.key,
+      character: source.character,
+      creator: normalizeCreatorName(source.creatorName ?? '') ?? '',
+      date: source.commissionDate,
+    })),
+    similar,
+  }
+}
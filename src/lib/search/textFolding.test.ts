@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { buildCommissionSearchMetadata } from './commissionSearchMetadata'
+import { createSearchIndex, getMatchedEntryIds, parseSearchFieldRows } from './index'
+import { getHighlightSegments } from './ranking'
+import { buildRomajiSearchTokens } from './romaji'
+import { foldSearchText } from './textFolding'
+
+function buildMetadataIndex(inputs: Array<{ characterName: string, creatorName?: string }>) {
+  const entries = inputs.map((input, id) => {
+    const metadata = buildCommissionSearchMetadata({ ...input, commissionDate: '20260101' })
+    return {
+      id,
+      searchText: metadata.searchText,
+      searchFields: parseSearchFieldRows(metadata.searchFieldText),
+    }
+  })
+  return createSearchIndex(entries)
+}
+
+describe('foldSearchText', () => {
+  it('folds full-width and half-width forms', () => {
+    expect(foldSearchText('ＬＵＣＩＡ１２')).toBe('lucia12')
+    expect(foldSearchText('ﾙｼｱ')).toBe('るしあ')
+  })
+
+  it('folds katakana to hiragana', () => {
+    expect(foldSearchText('ルシア')).toBe(foldSearchText('るしあ'))
+  })
+
+  it('folds traditional and shinjitai Han variants to simplified', () => {
+    expect(foldSearchText('櫻')).toBe('樱')
+    expect(foldSearchText('桜')).toBe('樱')
+    expect(foldSearchText('龍')).toBe(foldSearchText('竜'))
+  })
+
+  it('only lowercases ASCII', () => {
+    expect(foldSearchText('L*cia Kanaut')).toBe('l*cia kanaut')
+  })
+})
+
+describe('buildRomajiSearchTokens', () => {
+  it('reads kana, including sokuon, youon and long vowel marks', () => {
+    expect(buildRomajiSearchTokens('きょうこ')).toContain('kyouko')
+    expect(buildRomajiSearchTokens('きょうこ')).toContain('kyoko')
+    expect(buildRomajiSearchTokens('マッチャ')).toContain('matcha')
+    expect(buildRomajiSearchTokens('ルーシー')).toContain('ruushii')
+  })
+
+  it('emits every contiguous span of known Han readings', () => {
+    const tokens = buildRomajiSearchTokens('中村六翅')
+    expect(tokens).toEqual(expect.arrayContaining(['nakamura', 'nakamurarokushi', 'rokushi']))
+    expect(tokens).not.toContain('naka')
+  })
+
+  it('ignores Latin text and unknown kanji', () => {
+    expect(buildRomajiSearchTokens('Lucia')).toEqual([])
+    expect(buildRomajiSearchTokens('鬱')).toEqual([])
+  })
+})
+
+describe('matching CJK names', () => {
+  const index = buildMetadataIndex([
+    { characterName: '中村六翅' },
+    { characterName: 'ルシア', creatorName: '櫻井' },
+    { characterName: 'Lucia', creatorName: 'qiu' },
+  ])
+
+  it('finds a Japanese name by romaji without a registered alias', () => {
+    expect(getMatchedEntryIds('nakamura', index)).toEqual(new Set([0]))
+    expect(getMatchedEntryIds('character:nakamura', index)).toEqual(new Set([0]))
+  })
+
+  it('matches across kana, width and Han variants', () => {
+    expect(getMatchedEntryIds('るしあ', index)).toEqual(new Set([1]))
+    expect(getMatchedEntryIds('ﾙｼｱ', index)).toEqual(new Set([1]))
+    expect(getMatchedEntryIds('桜井', index)).toEqual(new Set([1]))
+    expect(getMatchedEntryIds('creator:樱井', index)).toEqual(new Set([1]))
+  })
+
+  it('matches CJK substrings without word boundaries', () => {
+    expect(getMatchedEntryIds('村六', index)).toEqual(new Set([0]))
+  })
+
+  it('highlights the original text for folded terms', () => {
+    expect(getHighlightSegments('ルシア', ['しあ'])).toEqual([
+      { text: 'ル', highlighted: false },
+      { text: 'シア', highlighted: true },
+    ])
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Han variants folded to one form so traditional, Japanese shinjitai and simplified
+ * spellings of a name match each other. Each pair is `variant` then `canonical`
+ * (simplified); the list covers characters common in names, not all of Unicode.
+ */
+const HAN_VARIANT_PAIRS = [
+  // Traditional
+  '與与 專专 業业 東东 絲丝 兩两 嚴严 個个 豐丰 臨临 為为 麗丽 舉举 義义 烏乌 樂乐 喬乔 習习 鄉乡 書书',
+  '買买 亂乱 爭争 虧亏 雲云 亞亚 產产 親亲 億亿 僅仅 從从 倉仓 儀仪 們们 價价 眾众 優优 會会 傘伞 偉伟',
+  '傳传 傷伤 倫伦 體体 餘余 俠侠 侶侣 偵侦 側侧 僑侨 儉俭 債债 傾倾 償偿 儲储 兒儿 黨党 蘭兰 關关 興兴',
+  '養养 獸兽 岡冈 冊册 寫写 軍军 農农 馮冯 沖冲 決决 況况 凍冻 淨净 涼凉 減减 凜凛 幾几 鳳凤 憑凭 凱凯',
+  '擊击 劃划 劉刘 則则 剛刚 創创 刪删 劑剂 劍剑 劇剧 勸劝 辦办 務务 動动 勵励 勁劲 勞劳 勢势 勳勋 華华',
+  '協协 單单 賣卖 盧卢 衛卫 卻却 廠厂 廳厅 曆历 厲厉 壓压 縣县 參参 雙双 發发 變变 敘叙 葉叶 號号 嘆叹',
+  '後后 嚇吓 呂吕 嗎吗 聽听 啟启 吳吴 員员 鳴鸣 問问 喚唤 喪丧 嘗尝 團团 園园 圍围 圖图 圓圆 聖圣 場场',
+  '壞坏 塊块 堅坚 壇坛 墜坠 執执 報报 堯尧 壽寿 夢梦 頭头 誇夸 夾夹 奪夺 奮奋 奧奥 婦妇 媽妈 嬌娇 孫孙',
+  '學学 寧宁 寶宝 實实 寵宠 審审 憲宪 寬宽 賓宾 對对 尋寻 導导 爾尔 塵尘 層层 屬属 歲岁 島岛 嶺岭 峽峡',
+  '幣币 帥帅 師师 帳帐 帶带 幫帮 廣广 慶庆 庫库 應应 廟庙 開开 異异 棄弃 張张 彌弥 彎弯 彈弹 歸归 當当',
+  '錄录 徹彻 徑径 憶忆 懷怀 態态 憐怜 總总 戀恋 惡恶 悅悦 懸悬 驚惊 慘惨 戰战 戲戏 戶户 撲扑 擴扩 掃扫',
+  '揚扬 擾扰 撫抚 搶抢 護护 擔担 擬拟 擁拥 擇择 掛挂 擋挡 揮挥 損损 換换 據据 攜携 擺摆 搖摇 撥拨 數数',
+  '斷断 時时 曠旷 晝昼 顯显 曬晒 曉晓 暫暂 術术 機机 殺杀 雜杂 權权 條条 來来 楊杨 極极 構构 槍枪 楓枫',
+  '櫃柜 棟栋 欄栏 樹树 橋桥 樣样 檢检 櫻樱 樓楼 歡欢 歐欧 殘残 氣气 漢汉 湯汤 溝沟 沒没 滄沧 溫温 滅灭',
+  '濕湿 潔洁 灑洒 濁浊 測测 濟济 渾浑 濃浓 濤涛 澀涩 淚泪 潤润 漲涨 漁渔 滿满 瀟潇 灣湾 灘滩 災灾 燈灯',
+  '靈灵 爐炉 點点 煉炼 爍烁 熱热 煩烦 燒烧 燭烛 營营 燦灿 愛爱 爺爷 牽牵 犧牺 狀状 猶犹 獨独 獄狱 貓猫',
+  '獻献 環环 現现 瑪玛 瓊琼 電电 畫画 暢畅 療疗 盜盗 監监 盤盘 睜睁 礦矿 碼码 確确 禮礼 禍祸 禪禅 離离',
+  '種种 積积 稱称 穩稳 窮穷 竊窃 競竞 筆笔 築筑 簡简 籃篮 類类 糧粮 緊紧 紅红 約约 級级 紀纪 紋纹 純纯',
+  '紗纱 納纳 紙纸 線线 練练 組组 細细 織织 終终 絕绝 經经 綠绿 維维 綿绵 網网 緣缘 編编 緒绪 縱纵 繪绘',
+  '繼继 續续 纖纤 羅罗 聲声 聯联 職职 腦脑 膚肤 臉脸 舊旧 藝艺 節节 莊庄 蘋苹 蓮莲 藥药 蘇苏 藍蓝 蟲虫',
+  '蝦虾 補补 製制 裝装 見见 規规 視视 覺觉 覽览 觀观 計计 訂订 認认 討讨 讓让 訓训 議议 記记 講讲 許许',
+  '論论 設设 訪访 證证 評评 識识 詩诗 話话 誠诚 說说 誰谁 課课 調调 談谈 請请 諸诸 謝谢 謎谜 貝贝 負负',
+  '財财 貢贡 貨货 質质 貴贵 費费 賀贺 資资 賞赏 賢贤 賴赖 贈赠 贊赞 趙赵 趕赶 躍跃 車车 軌轨 軒轩 轉转',
+  '輕轻 載载 較较 輝辉 輪轮 邊边 遼辽 達达 遷迁 過过 運运 還还 這这 進进 遠远 違违 連连 遲迟 適适 選选',
+  '遺遗 鄭郑 鄧邓 醫医 釋释 針针 鈴铃 鉛铅 銀银 銅铜 鋒锋 錢钱 鐵铁 鏡镜 鐘钟 長长 門门 閃闪 閉闭 間间',
+  '閱阅 闊阔 陽阳 陰阴 陳陈 陸陆 隊队 際际 險险 隨随 隱隐 難难 雞鸡 雖虽 霧雾 靜静 韓韩 頁页 頂顶 項项',
+  '順顺 須须 預预 領领 頻频 題题 額额 顏颜 願愿 顧顾 風风 飛飞 飯饭 飲饮 館馆 馬马 駐驻 驗验 髮发 鬥斗',
+  '魚鱼 鮮鲜 鳥鸟 鴨鸭 鶴鹤 黃黄 齊齐 龍龙 龜龟 澤泽 濱滨 穗穗 稻稻 鹽盐 聽听 讀读 壯壮 狹狭 瀧泷',
+  // Japanese shinjitai
+  '桜樱 広广 辺边 沢泽 浜滨 竜龙 亜亚 悪恶 円圆 気气 楽乐 薬药 読读 売卖 剣剑 関关 聴听 鉄铁 銭钱 転转',
+  '軽轻 単单 戦战 県县 帰归 応应 変变 歳岁 発发 絵绘 続续 緑绿 総总 図图 団团 囲围 壊坏 塩盐 実实 対对',
+  '将将 専专 巻卷 庁厅 弾弹 従从 恋恋 悩恼 懐怀 戯戏 択择 拠据 挙举 拡扩 摂摄 斉齐 断断 昼昼 暁晓 桟栈',
+  '検检 様样 権权 欧欧 歓欢 歴历 殻壳 渋涩 湾湾 満满 滝泷 焼烧 犠牺 猟猎 獣兽 畳叠 稲稻 穂穗 窓窗 粋粹',
+  '経经 縄绳 繊纤 芸艺 荘庄 蔵藏 蛍萤 衆众 覚觉 覧览 観观 訳译 証证 譲让 豊丰 賛赞 逓递 遅迟 郷乡 酔醉',
+  '醸酿 釈释 鉱矿 鋳铸 錬炼 録录 閲阅 闘斗 陥陷 険险 隠隐 雑杂 霊灵 頼赖 顔颜 顕显 駅驿 騒骚 験验 髄髓',
+  '鶏鸡 麺面 黙默 齢龄 亀龟 価价 倹俭 伝传 児儿 両两 処处 剤剂 労劳 効效 勧劝 勲勋 巣巢 収收 営营 厳严',
+  '恵惠 徳德 黒黑 姫姬 舞舞 晴晴 彦彦',
+].join(' ')
+
+const HAN_VARIANTS = new Map<string, string>()
+for (const pair of HAN_VARIANT_PAIRS.split(' ')) {
+  const [variant, canonical] = [...pair]
+  if (variant && canonical && variant !== canonical)
+    HAN_VARIANTS.set(variant, canonical)
+}
+
+const KATAKANA_START = 0x30A1
+const KATAKANA_END = 0x30F6
+const KATAKANA_TO_HIRAGANA_OFFSET = 0x60
+const ASCII_ONLY_PATTERN = /^[\u0020-\u007E]*$/
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+/**
+ * Search-equivalence form of `value`, applied to indexed text and query terms alike:
+ * NFKC (full-/half-width forms), lowercase, katakana to hiragana, and Han variants
+ * to their simplified form. Kana and Han folding keep string length unchanged.
+ */
+export function foldSearchText(value: string) {
+  if (ASCII_ONLY_PATTERN.test(value))
+    return value.toLowerCase()
+
+  let folded = ''
+  for (const char of value.normalize('NFKC').toLowerCase()) {
+    const code = char.codePointAt(0)!
+    if (code >= KATAKANA_START && code <= KATAKANA_END)
+      folded += String.fromCodePoint(code - KATAKANA_TO_HIRAGANA_OFFSET)
+    else
+      folded += HAN_VARIANTS.get(char) ?? char
+  }
+  return folded
+}
+
+/** True when `value` contains Han, kana or Hangul, which are written without word breaks. */
+export function hasCjkText(value: string) {
+  return CJK_PATTERN.test(value)
+}